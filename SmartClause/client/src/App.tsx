@@ -8,7 +8,10 @@ import NotFound from "@/pages/not-found";
 import Dashboard from "@/pages/dashboard";
 import Analyzer from "@/pages/analyzer";
 import Generator from "@/pages/generator";
+import Library from "@/pages/library";
+import Templates from "@/pages/templates";
 import QA from "@/pages/qa";
+import Compare from "@/pages/compare";
 import Account from "@/pages/account";
 import Login from "@/pages/auth/login";
 import Signup from "@/pages/auth/signup";
@@ -86,12 +89,30 @@ function Router() {
         </AuthenticatedLayout>
       </Route>
       
+      <Route path="/library">
+        <AuthenticatedLayout>
+          <ProtectedRoute component={Library} />
+        </AuthenticatedLayout>
+      </Route>
+      
+      <Route path="/templates">
+        <AuthenticatedLayout>
+          <ProtectedRoute component={Templates} />
+        </AuthenticatedLayout>
+      </Route>
+      
       <Route path="/qa">
         <AuthenticatedLayout>
           <ProtectedRoute component={QA} />
         </AuthenticatedLayout>
       </Route>
       
+      <Route path="/compare">
+        <AuthenticatedLayout>
+          <ProtectedRoute component={Compare} />
+        </AuthenticatedLayout>
+      </Route>
+      
       <Route path="/account">
         <AuthenticatedLayout>
           <ProtectedRoute component={Account} />
@@ -0,0 +1,157 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import RiskBadge from '@/components/ui/risk-badge';
+import { formatDate } from '@/lib/utils';
+import { Analysis, RiskyClause } from '@shared/schema';
+import { diffRiskyClauses } from '@shared/diff';
+
+interface AnalysisHistoryProps {
+  runs: Analysis[];
+  selected: Analysis;
+  compareTo?: Analysis;
+  riskyClauses?: RiskyClause[];
+  compareRiskyClauses?: RiskyClause[];
+  onSelect: (analysisId: number) => void;
+  onCompare: (analysisId: number | null) => void;
+  getClauseLabel: (clause: RiskyClause) => string;
+  className?: string;
+}
+
+const runLabel = (run: Analysis) =>
+  `v${run.version} · ${run.createdAt ? formatDate(run.createdAt) : 'unknown date'}` +
+  `${run.riskScore !== null ? ` · ${run.riskScore}/100` : ''}${run.status !== 'completed' ? ` · ${run.status}` : ''}`;
+
+export default function AnalysisHistory({
+  runs,
+  selected,
+  compareTo,
+  riskyClauses,
+  compareRiskyClauses,
+  onSelect,
+  onCompare,
+  getClauseLabel,
+  className
+}: AnalysisHistoryProps) {
+  const diff = compareTo && riskyClauses && compareRiskyClauses
+    ? diffRiskyClauses(compareRiskyClauses, riskyClauses)
+    : null;
+  const scoreChange = compareTo && selected.riskScore !== null && compareTo.riskScore !== null
+    ? selected.riskScore - compareTo.riskScore
+    : null;
+
+  return (
+    <Card className={className}>
+      <CardContent className="pt-6">
+        <h2 className="text-lg font-semibold mb-4">Analysis History</h2>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label>Showing run</Label>
+            <Select value={selected.id.toString()} onValueChange={(value) => onSelect(parseInt(value))}>
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  {runs.map((run) => (
+                    <SelectItem key={run.id} value={run.id.toString()}>{runLabel(run)}</SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Compare with</Label>
+            <Select
+              value={compareTo ? compareTo.id.toString() : 'none'}
+              onValueChange={(value) => onCompare(value === 'none' ? null : parseInt(value))}
+            >
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  <SelectItem value="none">No comparison</SelectItem>
+                  {runs.filter((run) => run.id !== selected.id).map((run) => (
+                    <SelectItem key={run.id} value={run.id.toString()}>{runLabel(run)}</SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <p className="text-xs text-gray-500 mt-3">
+          {[selected.engine, selected.provider && `${selected.provider} ${selected.model ?? ''}`.trim()]
+            .filter(Boolean)
+            .join(' · ')}
+        </p>
+
+        {compareTo && (
+          <div className="mt-4 space-y-4 text-sm">
+            <div className="flex items-center gap-2">
+              <span className="font-medium">Score:</span>
+              <RiskBadge risk={compareTo.riskLevel} score={compareTo.riskScore} size="sm" />
+              <span>→</span>
+              <RiskBadge risk={selected.riskLevel} score={selected.riskScore} size="sm" />
+              {scoreChange !== null && scoreChange !== 0 && (
+                <span className={scoreChange > 0 ? 'text-red-500' : 'text-green-500'}>
+                  {scoreChange > 0 ? `+${scoreChange}` : scoreChange}
+                </span>
+              )}
+            </div>
+
+            {!diff ? (
+              <p className="text-gray-500">Loading findings...</p>
+            ) : diff.added.length + diff.removed.length + diff.changed.length === 0 ? (
+              <p className="text-gray-500">Both runs flagged the same clauses.</p>
+            ) : (
+              <>
+                {diff.added.length > 0 && (
+                  <div>
+                    <h3 className="font-medium text-red-600 mb-1">New findings</h3>
+                    <ul className="list-disc pl-5 space-y-1">
+                      {diff.added.map((clause) => (
+                        <li key={clause.id}>{getClauseLabel(clause)}: {clause.explanation}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {diff.removed.length > 0 && (
+                  <div>
+                    <h3 className="font-medium text-green-600 mb-1">Resolved findings</h3>
+                    <ul className="list-disc pl-5 space-y-1">
+                      {diff.removed.map((clause) => (
+                        <li key={clause.id}>{getClauseLabel(clause)}: {clause.explanation}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {diff.changed.length > 0 && (
+                  <div>
+                    <h3 className="font-medium text-yellow-600 mb-1">Changed risk level</h3>
+                    <ul className="list-disc pl-5 space-y-1">
+                      {diff.changed.map(({ before, after }) => (
+                        <li key={after.id}>
+                          {getClauseLabel(after)}: {before.riskLevel} → {after.riskLevel}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
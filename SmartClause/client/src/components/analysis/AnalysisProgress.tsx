@@ -0,0 +1,62 @@
+import { Check } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import LoadingSpinner from '@/components/ui/loading-spinner';
+import { cn } from '@/lib/utils';
+import { AnalysisStage, JobStatus, type Job } from '@shared/schema';
+
+interface AnalysisProgressProps {
+  job?: Job;
+  className?: string;
+}
+
+const STAGES = [
+  { stage: AnalysisStage.EXTRACTING, label: 'Reading contract text' },
+  { stage: AnalysisStage.SEGMENTING, label: 'Splitting into clauses' },
+  { stage: AnalysisStage.SCORING, label: 'Checking playbook rules' },
+  { stage: AnalysisStage.SUMMARISING, label: 'Summarising with AI' },
+];
+
+export default function AnalysisProgress({ job, className }: AnalysisProgressProps) {
+  const current = STAGES.findIndex(({ stage }) => stage === job?.stage);
+  const retrying = job?.status === JobStatus.QUEUED && job.attempts > 0;
+
+  return (
+    <Card className={className}>
+      <CardContent className="py-8">
+        <LoadingSpinner
+          size="lg"
+          label={!job || (job.status === JobStatus.QUEUED && !retrying) ? 'Waiting to start...' : 'Analyzing your contract...'}
+          className="pb-6"
+        />
+
+        <Progress value={job?.progress ?? 0} className="h-2" />
+
+        <ul className="mt-4 space-y-2 text-sm">
+          {STAGES.map(({ stage, label }, index) => (
+            <li
+              key={stage}
+              className={cn(
+                'flex items-center',
+                index < current ? 'text-gray-500' : index === current ? 'font-medium text-gray-900' : 'text-gray-400'
+              )}
+            >
+              {index < current ? (
+                <Check className="h-4 w-4 mr-2 text-green-500" />
+              ) : (
+                <span className="h-4 w-4 mr-2 inline-flex items-center justify-center">•</span>
+              )}
+              {label}
+            </li>
+          ))}
+        </ul>
+
+        {retrying && (
+          <p className="text-yellow-600 text-sm mt-4">
+            Attempt {job.attempts} failed{job.error ? ` (${job.error})` : ''}. Retrying shortly...
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
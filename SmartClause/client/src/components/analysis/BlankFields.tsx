@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { BLANK_FIELD_LABELS, canFillBlankField } from '@shared/blanks';
+import { type BlankField, type BlankFieldKindType, type FillBlankFields } from '@shared/schema';
+
+interface BlankFieldsProps {
+  blankFields: BlankField[];
+  getClauseLabel: (blankField: BlankField) => string;
+  // Blanks can only be filled in on an analysis of the contract's current text
+  canFill: boolean;
+  isFilling: boolean;
+  onFill: (fills: FillBlankFields['fills']) => void;
+}
+
+// Placeholders, blank lines, party name mix-ups and undefined terms, with an
+// input to fill each one in. Party names start from the defined name.
+export default function BlankFields({ blankFields, getClauseLabel, canFill, isFilling, onFill }: BlankFieldsProps) {
+  const [values, setValues] = useState<Record<number, string>>(() =>
+    Object.fromEntries(blankFields.flatMap((blankField) => blankField.suggestion ? [[blankField.id, blankField.suggestion]] : []))
+  );
+
+  const fills = blankFields
+    .filter((blankField) => blankField.filledWith === null && canFillBlankField(blankField.kind) && values[blankField.id]?.trim())
+    .map((blankField) => ({ blankFieldId: blankField.id, value: values[blankField.id].trim() }));
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold">Unfinished Drafting</h2>
+          <span className="text-sm text-gray-500">
+            {blankFields.length} item{blankFields.length === 1 ? '' : 's'}
+          </span>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Type</TableHead>
+              <TableHead>Found</TableHead>
+              <TableHead>Fill in</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {blankFields.map((blankField) => (
+              <TableRow key={blankField.id}>
+                <TableCell className="align-top">
+                  <Badge variant="outline" className="whitespace-nowrap">
+                    {BLANK_FIELD_LABELS[blankField.kind as BlankFieldKindType] ?? blankField.kind}
+                  </Badge>
+                </TableCell>
+                <TableCell className="align-top">
+                  <p className="font-mono text-sm text-gray-900">{blankField.text}</p>
+                  <p className="text-xs text-gray-500 mt-1">{getClauseLabel(blankField)} · {blankField.explanation}</p>
+                </TableCell>
+                <TableCell className="align-top min-w-[12rem]">
+                  {blankField.filledWith !== null ? (
+                    <p className="text-sm text-green-700">Filled with "{blankField.filledWith}"</p>
+                  ) : canFillBlankField(blankField.kind) ? (
+                    <Input
+                      value={values[blankField.id] ?? ''}
+                      onChange={(e) => setValues((current) => ({ ...current, [blankField.id]: e.target.value }))}
+                      disabled={!canFill || isFilling}
+                      aria-label={`Fill in ${blankField.text}`}
+                    />
+                  ) : (
+                    <p className="text-sm text-gray-500">Add a definition to the contract</p>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="mt-4 flex items-center justify-end space-x-3">
+          {!canFill && (
+            <span className="text-xs text-gray-500">Analyze the current version to fill in its blanks.</span>
+          )}
+          <Button onClick={() => onFill(fills)} disabled={!canFill || isFilling || fills.length === 0}>
+            {isFilling ? 'Filling in...' : fills.length > 1 ? `Fill In ${fills.length} Blanks` : 'Fill In'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
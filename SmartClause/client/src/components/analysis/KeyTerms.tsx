@@ -0,0 +1,265 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { contractApi } from '@/services/api';
+import {
+  CONTRACT_TERM_FIELDS,
+  CONTRACT_TERM_LABELS,
+  CONTRACT_TERM_TYPES,
+  MULTI_VALUED_TERM_TYPES,
+  formatContractTerm
+} from '@shared/terms';
+import {
+  ContractTermSource,
+  type ContractTerm,
+  type ContractTermInput,
+  type ContractTermTypeType
+} from '@shared/schema';
+
+type FormValues = Record<string, string | boolean>;
+
+// Form fields hold strings and booleans; empty optional fields are sent as null
+function toFormValues(type: ContractTermTypeType, value?: Record<string, unknown>): FormValues {
+  return Object.fromEntries(CONTRACT_TERM_FIELDS[type].map((field) => {
+    const current = value?.[field.key];
+    if (field.kind === 'boolean') return [field.key, current === true];
+    return [field.key, current === null || current === undefined ? '' : String(current)];
+  }));
+}
+
+function fromFormValues(type: ContractTermTypeType, values: FormValues): ContractTermInput['value'] {
+  return Object.fromEntries(CONTRACT_TERM_FIELDS[type].map((field) => {
+    const raw = values[field.key];
+    if (field.kind === 'boolean') return [field.key, raw === true];
+    const text = String(raw ?? '').trim();
+    if (!text) return [field.key, field.optional ? null : text];
+    return [field.key, field.kind === 'number' || field.kind === 'days' ? Number(text) : text];
+  })) as ContractTermInput['value'];
+}
+
+interface KeyTermsProps {
+  contractId: number;
+  terms: ContractTerm[];
+  getClauseLabel: (term: ContractTerm) => string;
+}
+
+// Parties, dates, periods, money and other key terms read from the contract.
+// Corrections and added terms are the user's and survive re-analysis.
+export default function KeyTerms({ contractId, terms, getClauseLabel }: KeyTermsProps) {
+  const { toast } = useToast();
+
+  // The term being edited, or a new one of the chosen type
+  const [editing, setEditing] = useState<{ term: ContractTerm | null; type: ContractTermTypeType } | null>(null);
+  const [values, setValues] = useState<FormValues>({});
+
+  const openEditor = (type: ContractTermTypeType, term: ContractTerm | null = null) => {
+    setEditing({ term, type });
+    setValues(toFormValues(type, term?.value as Record<string, unknown> | undefined));
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    // Validation errors come back as "400: {json}"; show the server's message where there is one
+    const message = error.message.match(/^\d+: ([\s\S]*)$/)?.[1];
+    let description = 'Please try again.';
+    try {
+      const body = message ? JSON.parse(message) : null;
+      description = body?.errors?.[0]?.message ?? body?.message ?? description;
+    } catch {
+      // Not JSON; keep the generic description
+    }
+    toast({ title, description, variant: "destructive" });
+    console.error(error);
+  };
+
+  const invalidateTerms = () => queryClient.invalidateQueries({ queryKey: [`/api/contract/${contractId}/terms`] });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const { term, type } = editing!;
+      const value = fromFormValues(type, values);
+      return term
+        ? contractApi.updateTerm(term.id, value)
+        : contractApi.addTerm(contractId, { type, value } as ContractTermInput);
+    },
+    onSuccess: () => {
+      invalidateTerms();
+      setEditing(null);
+    },
+    onError: onError("Save failed")
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (termId: number) => contractApi.deleteTerm(termId),
+    onSuccess: invalidateTerms,
+    onError: onError("Delete failed")
+  });
+
+  // Single-valued terms already on the contract are edited, not added again
+  const addableTypes = CONTRACT_TERM_TYPES.filter((type) =>
+    MULTI_VALUED_TERM_TYPES.includes(type) || !terms.some((term) => term.type === type)
+  );
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold">Key Terms</h2>
+          <Select value="" onValueChange={(type) => openEditor(type as ContractTermTypeType)}>
+            <SelectTrigger className="w-44">
+              <Plus className="mr-1 h-4 w-4" />
+              <SelectValue placeholder="Add a term" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                {addableTypes.map((type) => (
+                  <SelectItem key={type} value={type}>{CONTRACT_TERM_LABELS[type]}</SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {terms.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Term</TableHead>
+                <TableHead>Value</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead className="w-24" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {terms.map((term) => {
+                const type = term.type as ContractTermTypeType;
+                return (
+                  <TableRow key={term.id}>
+                    <TableCell className="align-top whitespace-nowrap font-medium">
+                      {CONTRACT_TERM_LABELS[type] ?? term.type}
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <p className="text-sm text-gray-900">{formatContractTerm(type, term.value)}</p>
+                      {term.sourceText && (
+                        <p className="text-xs text-gray-500 mt-1 line-clamp-2" title={term.sourceText}>
+                          {getClauseLabel(term)} · "{term.sourceText}"
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="align-top">
+                      {term.source === ContractTermSource.USER ? (
+                        <Badge variant="secondary">Edited</Badge>
+                      ) : (
+                        <Badge variant="outline" className="whitespace-nowrap">
+                          {Math.round(term.confidence * 100)}% confident
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="align-top text-right whitespace-nowrap">
+                      <Button variant="ghost" size="icon" onClick={() => openEditor(type, term)} aria-label="Edit term">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteMutation.mutate(term.id)}
+                        disabled={deleteMutation.isPending}
+                        aria-label="Delete term"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-gray-500 text-center py-4">No key terms were found in this contract.</p>
+        )}
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editing?.term ? 'Edit' : 'Add'} {editing && CONTRACT_TERM_LABELS[editing.type].toLowerCase()}
+            </DialogTitle>
+            <DialogDescription>
+              Your value is kept when the contract is analyzed again. Periods are in days.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {editing && CONTRACT_TERM_FIELDS[editing.type].map((field) => (
+              <div key={field.key} className="space-y-2">
+                {field.kind === 'boolean' ? (
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      id={`term-${field.key}`}
+                      checked={values[field.key] === true}
+                      onCheckedChange={(checked) => setValues((current) => ({ ...current, [field.key]: checked }))}
+                    />
+                    <Label htmlFor={`term-${field.key}`}>{field.label}</Label>
+                  </div>
+                ) : (
+                  <>
+                    <Label htmlFor={`term-${field.key}`}>
+                      {field.label}{field.optional && <span className="text-gray-400"> (optional)</span>}
+                    </Label>
+                    <Input
+                      id={`term-${field.key}`}
+                      type={field.kind === 'date' ? 'date' : field.kind === 'text' ? 'text' : 'number'}
+                      min={field.kind === 'text' || field.kind === 'date' ? undefined : 0}
+                      value={String(values[field.key] ?? '')}
+                      onChange={(e) => setValues((current) => ({ ...current, [field.key]: e.target.value }))}
+                    />
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
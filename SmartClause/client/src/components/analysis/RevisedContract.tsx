@@ -0,0 +1,34 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { type RevisedText } from '@shared/schema';
+
+interface RevisedContractProps {
+  revised: RevisedText;
+}
+
+// The contract as it reads with the accepted and edited suggestions applied
+export default function RevisedContract({ revised }: RevisedContractProps) {
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold">Revised Contract</h2>
+          <span className="text-sm text-gray-500">
+            {revised.applied.length} change{revised.applied.length === 1 ? '' : 's'} applied
+          </span>
+        </div>
+
+        {revised.unplaced.length > 0 && (
+          <p className="mb-3 text-sm text-yellow-700">
+            {revised.unplaced.length} accepted suggestion{revised.unplaced.length === 1 ? '' : 's'} could
+            not be placed because the quoted text was not found in the contract.
+          </p>
+        )}
+
+        <ScrollArea className="h-96 rounded-md border bg-gray-50 p-4">
+          <p className="whitespace-pre-wrap text-sm text-gray-800">{revised.text}</p>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,90 @@
+import { AlertTriangle } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { cn, getRiskLevelText } from '@/lib/utils';
+import { RISK_CATEGORY_LABELS, type ScoreBreakdown } from '@shared/scoring';
+import { type RiskCategoryType } from '@shared/schema';
+
+interface RiskScoreCardProps {
+  score: number | null;
+  level: string | null;
+  reason?: string;
+  breakdown?: ScoreBreakdown | null;
+  className?: string;
+}
+
+const levelText = (level: string | null) =>
+  level === 'high' ? 'text-red-500' : level === 'medium' ? 'text-yellow-500' : 'text-green-500';
+
+const levelBackground = (level: string | null) =>
+  level === 'high' ? 'bg-red-100' : level === 'medium' ? 'bg-yellow-100' : 'bg-green-100';
+
+const levelBar = (level: string | null) =>
+  level === 'high' ? 'bg-red-500' : level === 'medium' ? 'bg-yellow-500' : 'bg-green-500';
+
+// Bar colour for a category sub-score, using the same thresholds as the overall score
+const scoreBar = (score: number, breakdown: ScoreBreakdown) =>
+  score >= breakdown.thresholds.high ? 'bg-red-500' :
+  score >= breakdown.thresholds.medium ? 'bg-yellow-500' :
+  'bg-green-500';
+
+export default function RiskScoreCard({ score, level, reason, breakdown, className }: RiskScoreCardProps) {
+  const value = score ?? 0;
+  const categories = breakdown
+    ? (Object.entries(breakdown.categories) as [RiskCategoryType, ScoreBreakdown['categories'][RiskCategoryType]][])
+    : [];
+
+  return (
+    <Card className={className}>
+      <CardContent className="pt-6">
+        <h2 className="text-lg font-semibold mb-4">Risk Assessment</h2>
+
+        <div className="flex items-center mb-4">
+          <div className={cn('w-16 h-16 rounded-full flex items-center justify-center mr-4', levelBackground(level))}>
+            <AlertTriangle className={cn('text-2xl', levelText(level))} />
+          </div>
+          <div>
+            <h3 className={cn('text-xl font-bold', levelText(level))}>
+              {getRiskLevelText(level || '')}
+              {score !== null && <span className="ml-2 text-base font-medium text-gray-500">{score}/100</span>}
+            </h3>
+            {reason && <p className="text-gray-600">{reason}</p>}
+          </div>
+        </div>
+
+        <div className="h-2 w-full bg-gray-200 rounded-full overflow-hidden">
+          <div className={cn('h-full', levelBar(level))} style={{ width: `${value}%` }}></div>
+        </div>
+
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>0</span>
+          {breakdown && <span>Medium from {breakdown.thresholds.medium}</span>}
+          {breakdown && <span>High from {breakdown.thresholds.high}</span>}
+          <span>100</span>
+        </div>
+
+        {breakdown && (
+          <div className="mt-6 space-y-3">
+            <h3 className="text-sm font-medium text-gray-700">Breakdown by category</h3>
+            {categories.map(([category, categoryScore]) => (
+              <div key={category}>
+                <div className="flex justify-between text-sm">
+                  <span>{RISK_CATEGORY_LABELS[category]}</span>
+                  <span className="text-gray-500">
+                    {categoryScore.score}
+                    {categoryScore.findings > 0 && ` · ${categoryScore.findings} finding${categoryScore.findings === 1 ? '' : 's'}`}
+                  </span>
+                </div>
+                <div className="h-1.5 w-full bg-gray-200 rounded-full overflow-hidden mt-1">
+                  <div
+                    className={cn('h-full', scoreBar(categoryScore.score, breakdown))}
+                    style={{ width: `${categoryScore.score}%` }}
+                  ></div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
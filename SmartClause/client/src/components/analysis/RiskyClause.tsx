@@ -1,50 +1,169 @@
-import { Card, CardContent } from '@/components/ui/card';
-import { getRiskColor } from '@/lib/utils';
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { formatDate } from '@/lib/utils';
+import { ReviewStatus, type ReviewStatusType } from '@shared/schema';
 
 interface RiskyClauseProps {
   sectionTitle: string;
   clauseText: string;
   riskLevel: string;
   suggestion: string;
+  reviewStatus?: string;
+  editedSuggestion?: string | null;
+  reviewedAt?: string | Date | null;
+  // When given, the clause shows controls to accept, reject, edit or defer its suggestion
+  onReview?: (status: ReviewStatusType, editedSuggestion?: string) => void;
+  isReviewing?: boolean;
   className?: string;
 }
 
-export default function RiskyClause({ 
-  sectionTitle, 
-  clauseText, 
-  riskLevel, 
+const REVIEW_LABELS: Record<string, string> = {
+  [ReviewStatus.OPEN]: 'Open',
+  [ReviewStatus.ACCEPTED]: 'Accepted',
+  [ReviewStatus.REJECTED]: 'Rejected',
+  [ReviewStatus.EDITED]: 'Edited',
+  [ReviewStatus.DEFERRED]: 'Deferred',
+};
+
+const REVIEW_BADGE_CLASSES: Record<string, string> = {
+  [ReviewStatus.OPEN]: 'bg-gray-100 text-gray-700',
+  [ReviewStatus.ACCEPTED]: 'bg-green-100 text-green-700',
+  [ReviewStatus.REJECTED]: 'bg-red-100 text-red-700',
+  [ReviewStatus.EDITED]: 'bg-blue-100 text-blue-700',
+  [ReviewStatus.DEFERRED]: 'bg-yellow-100 text-yellow-700',
+};
+
+export default function RiskyClause({
+  sectionTitle,
+  clauseText,
+  riskLevel,
   suggestion,
-  className 
+  reviewStatus = ReviewStatus.OPEN,
+  editedSuggestion,
+  reviewedAt,
+  onReview,
+  isReviewing,
+  className
 }: RiskyClauseProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+
   // Get the appropriate colors based on risk level
-  const borderClass = 
+  const borderClass =
     riskLevel === 'high' ? 'border-red-500' :
     riskLevel === 'medium' ? 'border-yellow-500' :
     'border-green-500';
-  
-  const bgClass = 
+
+  const bgClass =
     riskLevel === 'high' ? 'bg-red-50' :
     riskLevel === 'medium' ? 'bg-yellow-50' :
     'bg-green-50';
-    
-  const textClass = 
+
+  const textClass =
     riskLevel === 'high' ? 'text-red-600' :
     riskLevel === 'medium' ? 'text-yellow-600' :
     'text-green-600';
 
+  const isEdited = reviewStatus === ReviewStatus.EDITED && !!editedSuggestion;
+
+  const startEditing = () => {
+    setDraft(editedSuggestion || suggestion);
+    setIsEditing(true);
+  };
+
+  const saveEdit = () => {
+    onReview?.(ReviewStatus.EDITED, draft.trim());
+    setIsEditing(false);
+  };
+
   return (
     <div className={`border-l-4 ${borderClass} rounded-r-md ${bgClass} p-4 ${className}`}>
-      <h3 className={`font-medium ${textClass}`}>{sectionTitle}</h3>
+      <div className="flex items-start justify-between gap-2">
+        <h3 className={`font-medium ${textClass}`}>{sectionTitle}</h3>
+        {onReview && (
+          <Badge variant="outline" className={`border-transparent ${REVIEW_BADGE_CLASSES[reviewStatus] ?? ''}`}>
+            {REVIEW_LABELS[reviewStatus] ?? reviewStatus}
+          </Badge>
+        )}
+      </div>
       <p className="text-gray-800 mt-1 text-sm">
         "{clauseText}"
       </p>
-      
+
       {suggestion && (
         <div className="mt-3">
-          <h4 className="text-xs font-semibold text-gray-600 uppercase">AI Suggestion:</h4>
-          <p className="text-sm text-gray-800 mt-1">
-            "{suggestion}"
-          </p>
+          <h4 className="text-xs font-semibold text-gray-600 uppercase">
+            {isEdited ? 'Edited Suggestion:' : 'AI Suggestion:'}
+          </h4>
+          {isEditing ? (
+            <div className="mt-1 space-y-2">
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={4}
+                className="bg-white text-sm"
+              />
+              <div className="flex gap-2">
+                <Button size="sm" onClick={saveEdit} disabled={!draft.trim() || isReviewing}>
+                  Save
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setIsEditing(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-800 mt-1">
+              "{isEdited ? editedSuggestion : suggestion}"
+            </p>
+          )}
+        </div>
+      )}
+
+      {onReview && !isEditing && (
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          {reviewStatus === ReviewStatus.OPEN ? (
+            <>
+              {suggestion && (
+                <>
+                  <Button size="sm" variant="outline" disabled={isReviewing}
+                    onClick={() => onReview(ReviewStatus.ACCEPTED)}>
+                    Accept
+                  </Button>
+                  <Button size="sm" variant="outline" disabled={isReviewing} onClick={startEditing}>
+                    Edit
+                  </Button>
+                </>
+              )}
+              <Button size="sm" variant="outline" disabled={isReviewing}
+                onClick={() => onReview(ReviewStatus.REJECTED)}>
+                Reject
+              </Button>
+              <Button size="sm" variant="ghost" disabled={isReviewing}
+                onClick={() => onReview(ReviewStatus.DEFERRED)}>
+                Defer
+              </Button>
+            </>
+          ) : (
+            <>
+              {isEdited && (
+                <Button size="sm" variant="outline" disabled={isReviewing} onClick={startEditing}>
+                  Edit again
+                </Button>
+              )}
+              <Button size="sm" variant="ghost" disabled={isReviewing}
+                onClick={() => onReview(ReviewStatus.OPEN)}>
+                Reopen
+              </Button>
+              {reviewedAt && (
+                <span className="text-xs text-gray-500">
+                  {REVIEW_LABELS[reviewStatus]} on {formatDate(reviewedAt)}
+                </span>
+              )}
+            </>
+          )}
         </div>
       )}
     </div>
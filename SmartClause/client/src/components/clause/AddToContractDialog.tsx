@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { queryClient } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { contractApi } from '@/services/api';
+import { describeClause } from '@shared/clauses';
+import {
+  ClauseKind,
+  ClausePlacement,
+  type Clause,
+  type ClausePlacementType,
+  type Contract
+} from '@shared/schema';
+
+const PLACEMENT_OPTIONS: { id: ClausePlacementType; label: string }[] = [
+  { id: ClausePlacement.AFTER, label: 'After a section' },
+  { id: ClausePlacement.REPLACE, label: 'Replacing a section' },
+  { id: ClausePlacement.APPEND, label: 'At the end' },
+];
+
+// Clauses a new one can be placed next to
+const TARGET_KINDS: string[] = [ClauseKind.ARTICLE, ClauseKind.SECTION, ClauseKind.DEFINITIONS];
+
+interface AddToContractDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  content: string;
+  defaultHeading?: string;
+}
+
+export default function AddToContractDialog({ open, onOpenChange, content, defaultHeading = '' }: AddToContractDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+
+  const [contractId, setContractId] = useState<number | null>(null);
+  const [placement, setPlacement] = useState<ClausePlacementType>(ClausePlacement.AFTER);
+  const [clauseKey, setClauseKey] = useState('');
+  const [heading, setHeading] = useState(defaultHeading);
+
+  const { data: contracts } = useQuery<Contract[]>({
+    queryKey: ['/api/contracts/user/' + user?.id],
+    enabled: open && !!user?.id,
+  });
+
+  const { data: clauses } = useQuery<Clause[]>({
+    queryKey: [`/api/contract/${contractId}/clauses`],
+    enabled: open && contractId !== null,
+  });
+  const targets = clauses?.filter((clause) => TARGET_KINDS.includes(clause.kind)) ?? [];
+
+  const addClauseMutation = useMutation({
+    mutationFn: () => contractApi.addClause(contractId!, {
+      content,
+      heading: heading.trim() || undefined,
+      placement,
+      ...(placement !== ClausePlacement.APPEND && { clauseKey }),
+    }),
+    onSuccess: ({ contract, insertion }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/contract/${contract.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/contract/${contract.id}/clauses`] });
+      const renumbered = insertion.renumbered.length;
+      toast({
+        title: "Clause added",
+        description: `Added ${insertion.number ? `as section ${insertion.number} ` : ''}to ${contract.name}` +
+          (renumbered > 0 ? `; ${renumbered} ${renumbered === 1 ? 'section was' : 'sections were'} renumbered.` : '.'),
+      });
+      onOpenChange(false);
+      setLocation(`/analyzer?contractId=${contract.id}`);
+    },
+    onError: (error) => {
+      toast({
+        title: "Add failed",
+        description: "Failed to add the clause to the contract. Please try again.",
+        variant: "destructive",
+      });
+      console.error(error);
+    }
+  });
+
+  const handleContractChange = (value: string) => {
+    setContractId(parseInt(value));
+    setClauseKey('');
+  };
+
+  const needsTarget = placement !== ClausePlacement.APPEND;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add to Contract</DialogTitle>
+          <DialogDescription>
+            The clause is saved as a new version of the contract and the changed part is analyzed again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Contract</Label>
+            <Select value={contractId?.toString() ?? ''} onValueChange={handleContractChange}>
+              <SelectTrigger className="mt-1">
+                <SelectValue placeholder="Select contract" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  {contracts?.map((contract) => (
+                    <SelectItem key={contract.id} value={contract.id.toString()}>{contract.name}</SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label>Position</Label>
+            <Select value={placement} onValueChange={(value) => setPlacement(value as ClausePlacementType)}>
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  {PLACEMENT_OPTIONS.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {needsTarget && (
+            <div>
+              <Label>Section</Label>
+              <Select value={clauseKey} onValueChange={setClauseKey} disabled={contractId === null}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue placeholder={contractId === null ? 'Select a contract first' : 'Select section'} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectGroup>
+                    {targets.map((clause) => (
+                      <SelectItem key={clause.key} value={clause.key}>
+                        <span style={{ paddingLeft: `${clause.depth * 12}px` }}>{describeClause(clause)}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                </SelectContent>
+              </Select>
+              {clauses && targets.length === 0 && (
+                <p className="text-xs text-gray-500 mt-1">
+                  No numbered sections were found in this contract; add the clause at the end instead.
+                </p>
+              )}
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="add-clause-heading">
+              Heading <span className="text-gray-500 text-xs">(Optional)</span>
+            </Label>
+            <Input
+              id="add-clause-heading"
+              value={heading}
+              onChange={(e) => setHeading(e.target.value)}
+              className="mt-1"
+              maxLength={120}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => addClauseMutation.mutate()}
+            disabled={addClauseMutation.isPending || contractId === null || (needsTarget && !clauseKey)}
+          >
+            {addClauseMutation.isPending ? 'Adding...' : 'Add Clause'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,7 @@
 import { useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Copy, Download, RefreshCw, Plus } from 'lucide-react';
+import { Bookmark, Copy, Download, RefreshCw, Plus } from 'lucide-react';
 
 interface ClauseEditorProps {
   title?: string;
@@ -9,6 +9,7 @@ interface ClauseEditorProps {
   legalContext?: string;
   onRegenerate?: () => void;
   onSave?: (content: string) => void;
+  onAddToContract?: (content: string) => void;
   className?: string;
 }
 
@@ -18,6 +19,7 @@ export default function ClauseEditor({
   legalContext,
   onRegenerate,
   onSave,
+  onAddToContract,
   className
 }: ClauseEditorProps) {
   const [editedContent, setEditedContent] = useState(content);
@@ -100,14 +102,25 @@ export default function ClauseEditor({
               <RefreshCw className="h-4 w-4 mr-1" /> Regenerate
             </Button>
           )}
-          {onSave && (
-            <Button 
-              onClick={handleSave}
-              className="flex items-center"
-            >
-              <Plus className="h-4 w-4 mr-1" /> Add to Contract
-            </Button>
-          )}
+          <div className="flex space-x-2 ml-auto">
+            {onSave && (
+              <Button 
+                variant="outline"
+                onClick={handleSave}
+                className="flex items-center"
+              >
+                <Bookmark className="h-4 w-4 mr-1" /> Save to Library
+              </Button>
+            )}
+            {onAddToContract && (
+              <Button 
+                onClick={() => onAddToContract(editedContent)}
+                className="flex items-center"
+              >
+                <Plus className="h-4 w-4 mr-1" /> Add to Contract
+              </Button>
+            )}
+          </div>
         </div>
       </CardContent>
     </Card>
@@ -10,7 +10,9 @@ import {
   User,
   LogOut,
   X,
-  Menu
+  Menu,
+  Library,
+  LayoutTemplate
 } from "lucide-react";
 import logoPath from '../../assets/logo.png';
 
@@ -40,6 +42,8 @@ export default function Sidebar() {
     { path: "/dashboard", label: "Dashboard", icon: <Home className="w-5 h-5" /> },
     { path: "/analyzer", label: "Contract Analyzer", icon: <FileText className="w-5 h-5" /> },
     { path: "/generator", label: "Clause Generator", icon: <Edit className="w-5 h-5" /> },
+    { path: "/library", label: "Clause Library", icon: <Library className="w-5 h-5" /> },
+    { path: "/templates", label: "Contract Templates", icon: <LayoutTemplate className="w-5 h-5" /> },
     { path: "/qa", label: "Contract Q&A", icon: <HelpCircle className="w-5 h-5" /> },
     { path: "/account", label: "Account", icon: <User className="w-5 h-5" /> }
   ];
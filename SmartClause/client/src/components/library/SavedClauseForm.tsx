@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { CLAUSE_TYPE_OPTIONS, TONE_OPTIONS, clauseTypeLabel } from '@/lib/clause-options';
+import { type CreateSavedClause, type SavedClause } from '@shared/schema';
+
+export interface SavedClauseFormValues extends CreateSavedClause {
+  changeNote?: string;
+}
+
+interface SavedClauseFormProps {
+  // The clause being edited; a new clause is created when absent
+  clause?: SavedClause;
+  isSaving: boolean;
+  onSubmit: (values: SavedClauseFormValues) => void;
+  onCancel: () => void;
+}
+
+export default function SavedClauseForm({ clause, isSaving, onSubmit, onCancel }: SavedClauseFormProps) {
+  const [title, setTitle] = useState(clause?.title ?? '');
+  const [clauseType, setClauseType] = useState(clause?.clauseType ?? '');
+  const [tone, setTone] = useState(clause?.tone ?? 'formal');
+  const [content, setContent] = useState(clause?.content ?? '');
+  const [folder, setFolder] = useState(clause?.folder ?? '');
+  const [tags, setTags] = useState(clause?.tags.join(', ') ?? '');
+  const [jurisdiction, setJurisdiction] = useState(clause?.jurisdiction ?? '');
+  const [notes, setNotes] = useState(clause?.notes ?? '');
+  const [changeNote, setChangeNote] = useState('');
+
+  // Clauses saved with a free-text type keep it as an extra option
+  const typeOptions = clauseType && !CLAUSE_TYPE_OPTIONS.some((option) => option.id === clauseType)
+    ? [...CLAUSE_TYPE_OPTIONS, { id: clauseType, label: clauseTypeLabel(clauseType) }]
+    : CLAUSE_TYPE_OPTIONS;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      title,
+      clauseType,
+      tone,
+      content,
+      folder,
+      tags: tags.split(',').map((tag) => tag.trim()).filter(Boolean),
+      jurisdiction,
+      notes,
+      ...(clause && changeNote.trim() && { changeNote }),
+    });
+  };
+
+  return (
+    <form className="space-y-4" onSubmit={handleSubmit}>
+      <div>
+        <Label htmlFor="saved-clause-title">Title</Label>
+        <Input
+          id="saved-clause-title"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="e.g. Mutual exclusion of indirect damages"
+          className="mt-1"
+          required
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label>Clause Type</Label>
+          <Select value={clauseType} onValueChange={setClauseType}>
+            <SelectTrigger className="mt-1">
+              <SelectValue placeholder="Select clause type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                {typeOptions.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Tone</Label>
+          <Select value={tone} onValueChange={setTone}>
+            <SelectTrigger className="mt-1">
+              <SelectValue placeholder="Select tone" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                {TONE_OPTIONS.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="saved-clause-content">Clause Text</Label>
+        <Textarea
+          id="saved-clause-content"
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          className="mt-1"
+          rows={8}
+          required
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="saved-clause-folder">Folder</Label>
+          <Input
+            id="saved-clause-folder"
+            value={folder}
+            onChange={(e) => setFolder(e.target.value)}
+            placeholder="e.g. Commercial/Payment"
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <Label htmlFor="saved-clause-jurisdiction">Jurisdiction</Label>
+          <Input
+            id="saved-clause-jurisdiction"
+            value={jurisdiction}
+            onChange={(e) => setJurisdiction(e.target.value)}
+            placeholder="e.g. England and Wales"
+            className="mt-1"
+          />
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="saved-clause-tags">Tags <span className="text-gray-500 text-xs">(comma separated)</span></Label>
+        <Input
+          id="saved-clause-tags"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="e.g. mutual, SaaS"
+          className="mt-1"
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="saved-clause-notes">Notes</Label>
+        <Textarea
+          id="saved-clause-notes"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="When to use this clause, fallback positions..."
+          className="mt-1"
+          rows={3}
+        />
+      </div>
+
+      {clause && (
+        <div>
+          <Label htmlFor="saved-clause-change-note">
+            Change note <span className="text-gray-500 text-xs">(Optional)</span>
+          </Label>
+          <Input
+            id="saved-clause-change-note"
+            value={changeNote}
+            onChange={(e) => setChangeNote(e.target.value)}
+            placeholder="What changed and why"
+            className="mt-1"
+          />
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-2">
+        <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
+        <Button type="submit" disabled={isSaving || !title.trim() || !clauseType || !content.trim()}>
+          {isSaving ? 'Saving...' : clause ? 'Save Changes' : 'Add to Library'}
+        </Button>
+      </div>
+    </form>
+  );
+}
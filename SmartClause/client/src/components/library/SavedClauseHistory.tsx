@@ -0,0 +1,56 @@
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import LoadingSpinner from '@/components/ui/loading-spinner';
+import { formatDate, truncateText } from '@/lib/utils';
+import { type SavedClause, type SavedClauseVersion } from '@shared/schema';
+
+interface SavedClauseHistoryProps {
+  clause: SavedClause;
+  isRestoring: boolean;
+  onRestore: (version: number) => void;
+}
+
+export default function SavedClauseHistory({ clause, isRestoring, onRestore }: SavedClauseHistoryProps) {
+  // Keyed on the current version so the list refreshes after every edit
+  const { data: versions } = useQuery<SavedClauseVersion[]>({
+    queryKey: [`/api/saved-clause/${clause.id}/versions`, clause.currentVersion],
+  });
+
+  if (!versions) {
+    return <LoadingSpinner size="sm" />;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {versions.map((version) => (
+        <li key={version.id} className="border-b border-gray-200 pb-3 last:border-0">
+          <div className="flex items-center justify-between">
+            <div className="text-sm">
+              <span className="font-medium text-gray-900">Version {version.version}</span>
+              <span className="text-gray-500">
+                {' · '}{version.createdAt ? formatDate(version.createdAt) : 'unknown date'}
+                {version.changeNote && ` · ${version.changeNote}`}
+              </span>
+            </div>
+            {version.version === clause.currentVersion ? (
+              <span className="text-xs text-gray-500">Current</span>
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isRestoring}
+                onClick={() => onRestore(version.version)}
+              >
+                Restore
+              </Button>
+            )}
+          </div>
+          <p className="text-sm text-gray-600 mt-1">
+            <span className="font-medium">{version.title}</span>
+            {' — '}{truncateText(version.content, 160)}
+          </p>
+        </li>
+      ))}
+    </ul>
+  );
+}
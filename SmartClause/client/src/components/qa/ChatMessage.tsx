@@ -1,38 +1,84 @@
+import { Fragment } from "react";
 import { cn } from "@/lib/utils";
+import { type Citation } from "@shared/schema";
 
 interface ChatMessageProps {
   role: 'user' | 'assistant';
   content: string;
   timestamp?: string;
+  citations?: Citation[];
+  stopped?: boolean;
+  onCitationClick?: (citation: Citation) => void;
   className?: string;
 }
 
-export default function ChatMessage({ 
-  role, 
-  content, 
+export default function ChatMessage({
+  role,
+  content,
   timestamp,
-  className 
+  citations = [],
+  stopped = false,
+  onCitationClick,
+  className
 }: ChatMessageProps) {
   // Styles based on role
   const isUser = role === 'user';
-  
+
   const containerClasses = cn(
     "flex mb-4",
     isUser ? "justify-end" : "",
     className
   );
-  
+
   const messageClasses = cn(
     "rounded-lg py-2 px-4 max-w-[75%]",
-    isUser 
-      ? "bg-primary-100 text-primary-800" 
+    isUser
+      ? "bg-primary-100 text-primary-800"
       : "bg-gray-100 text-gray-800"
   );
-  
+
+  // Portfolio answers cite several contracts, so their citations name the contract too
+  const citationLabel = (citation: Citation) =>
+    citation.contractName ? `${citation.contractName}, ${citation.label}` : citation.label;
+
+  const citationButton = (citation: Citation, children: React.ReactNode, buttonClassName: string) => (
+    <button
+      type="button"
+      className={cn("text-primary-600 hover:text-primary-800 hover:underline", buttonClassName)}
+      onClick={() => onCitationClick?.(citation)}
+      title={`${citationLabel(citation)}: ${citation.snippet}`}
+    >
+      {children}
+    </button>
+  );
+
+  // Passage markers such as [2] become links to the cited text
+  const parts = content.split(/(\[\d+\])/);
+
   return (
     <div className={containerClasses}>
       <div className={messageClasses}>
-        <p>{content}</p>
+        <p>
+          {parts.map((part, index) => {
+            const citation = citations.find((candidate) => `[${candidate.number}]` === part);
+            return citation
+              ? <Fragment key={index}>{citationButton(citation, <sup>[{citation.number}]</sup>, "px-0.5")}</Fragment>
+              : <Fragment key={index}>{part}</Fragment>;
+          })}
+        </p>
+        {stopped && (
+          <p className="text-xs italic text-gray-500 mt-1">Generation stopped</p>
+        )}
+        {citations.length > 0 && (
+          <ul className="mt-2 border-t border-gray-200 pt-2 space-y-1 text-xs">
+            {citations.map((citation) => (
+              <li key={citation.number} className="text-gray-600">
+                {citationButton(citation, <>[{citation.number}] {citationLabel(citation)}</>, "font-medium text-left")}
+                <span className="block italic line-clamp-2">"{citation.snippet}"</span>
+              </li>
+            ))}
+          </ul>
+        )}
         {timestamp && (
           <div className="text-xs text-gray-500 mt-1 text-right">
             {new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
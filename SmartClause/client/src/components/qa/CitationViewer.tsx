@@ -0,0 +1,50 @@
+import { useEffect, useRef } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { type Citation } from '@shared/schema';
+
+interface CitationViewerProps {
+  citation: Citation | null;
+  contractName: string;
+  contractText: string;
+  onClose: () => void;
+}
+
+// The contract text with a cited passage highlighted and scrolled into view
+export default function CitationViewer({ citation, contractName, contractText, onClose }: CitationViewerProps) {
+  const highlightRef = useRef<HTMLElement>(null);
+
+  useEffect(() => {
+    if (citation) {
+      // Wait for the dialog to render its content before scrolling
+      const timer = setTimeout(() => highlightRef.current?.scrollIntoView({ block: 'center' }), 50);
+      return () => clearTimeout(timer);
+    }
+  }, [citation]);
+
+  return (
+    <Dialog open={citation !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{citation?.label}</DialogTitle>
+          <DialogDescription>{contractName}</DialogDescription>
+        </DialogHeader>
+
+        {citation && (
+          <div className="max-h-[60vh] overflow-y-auto whitespace-pre-wrap text-sm text-gray-700 border rounded-md p-4">
+            {contractText.slice(0, citation.startOffset)}
+            <mark ref={highlightRef} className="bg-yellow-200 rounded-sm">
+              {contractText.slice(citation.startOffset, citation.endOffset)}
+            </mark>
+            {contractText.slice(citation.endOffset)}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,208 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { cn, formatDate } from '@/lib/utils';
+
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import LoadingSpinner from '@/components/ui/loading-spinner';
+import { Download, MoreHorizontal, Pencil, Pin, PinOff, Plus, Trash2 } from 'lucide-react';
+import { qaApi } from '@/services/api';
+import { describePortfolioScope, displayConversationTitle } from '@shared/conversations';
+import { type Conversation, type UpdateConversation } from '@shared/schema';
+
+interface ConversationListProps {
+  conversations: Conversation[] | undefined;
+  isLoading: boolean;
+  activeId: number | null;
+  // Query the list came from, refreshed after each change
+  queryKey: string;
+  onSelect: (conversation: Conversation) => void;
+  onNew: () => void;
+  onUpdated: (conversation: Conversation) => void;
+  onDeleted: (conversationId: number) => void;
+}
+
+// Threads about the selected contract or portfolio: open, start, rename, pin,
+// delete and export them
+export default function ConversationList({
+  conversations,
+  isLoading,
+  activeId,
+  queryKey,
+  onSelect,
+  onNew,
+  onUpdated,
+  onDeleted
+}: ConversationListProps) {
+  const { toast } = useToast();
+  const [renaming, setRenaming] = useState<Conversation | null>(null);
+  const [title, setTitle] = useState('');
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: 'Please try again.', variant: 'destructive' });
+    console.error(error);
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: (data: { id: number; changes: UpdateConversation }) => qaApi.updateConversation(data.id, data.changes),
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: [queryKey] });
+      onUpdated(updated);
+      setRenaming(null);
+    },
+    onError: onError('Update failed')
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (conversationId: number) => qaApi.deleteConversation(conversationId),
+    onSuccess: (_, conversationId) => {
+      queryClient.invalidateQueries({ queryKey: [queryKey] });
+      onDeleted(conversationId);
+    },
+    onError: onError('Delete failed')
+  });
+
+  const openRename = (conversation: Conversation) => {
+    setRenaming(conversation);
+    setTitle(displayConversationTitle(conversation));
+  };
+
+  const handleDelete = (conversation: Conversation) => {
+    if (window.confirm('Are you sure you want to delete this conversation?')) {
+      deleteMutation.mutate(conversation.id);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="pt-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold">Conversations</h2>
+          <Button variant="outline" size="sm" onClick={onNew}>
+            <Plus className="mr-1 h-4 w-4" /> New
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center p-2">
+            <LoadingSpinner size="sm" />
+          </div>
+        ) : conversations && conversations.length > 0 ? (
+          <ul className="space-y-1 max-h-72 overflow-y-auto">
+            {conversations.map((conversation) => (
+              <li
+                key={conversation.id}
+                className={cn(
+                  "flex items-start rounded-md px-2 py-1.5",
+                  conversation.id === activeId ? "bg-primary-50" : "hover:bg-gray-50"
+                )}
+              >
+                <button
+                  type="button"
+                  className="flex-grow min-w-0 text-left"
+                  onClick={() => onSelect(conversation)}
+                >
+                  <span className="flex items-center text-sm font-medium text-gray-900">
+                    {conversation.pinned && <Pin className="mr-1 h-3 w-3 shrink-0 text-primary-600" />}
+                    <span className="truncate">{displayConversationTitle(conversation)}</span>
+                  </span>
+                  <span className="block text-xs text-gray-500 truncate">
+                    {conversation.scope ? `${describePortfolioScope(conversation.scope)} · ` : ''}
+                    {conversation.updatedAt ? formatDate(conversation.updatedAt) : ''}
+                  </span>
+                </button>
+
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0 text-gray-500" aria-label="Conversation actions">
+                      <MoreHorizontal className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onSelect={() => openRename(conversation)}>
+                      <Pencil className="h-4 w-4 mr-2" /> Rename
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onSelect={() => updateMutation.mutate({ id: conversation.id, changes: { pinned: !conversation.pinned } })}
+                    >
+                      {conversation.pinned
+                        ? <><PinOff className="h-4 w-4 mr-2" /> Unpin</>
+                        : <><Pin className="h-4 w-4 mr-2" /> Pin</>}
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem asChild>
+                      <a href={`/api/conversation/${conversation.id}/export.md`} download>
+                        <Download className="h-4 w-4 mr-2" /> Export Markdown
+                      </a>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <a href={`/api/conversation/${conversation.id}/export.pdf`} download>
+                        <Download className="h-4 w-4 mr-2" /> Export PDF
+                      </a>
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem className="text-red-600" onSelect={() => handleDelete(conversation)}>
+                      <Trash2 className="h-4 w-4 mr-2" /> Delete
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500 text-center py-2">No conversations yet.</p>
+        )}
+      </CardContent>
+
+      <Dialog open={renaming !== null} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename conversation</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (renaming && title.trim()) {
+                updateMutation.mutate({ id: renaming.id, changes: { title: title.trim() } });
+              }
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="conversation-title">Title</Label>
+              <Input
+                id="conversation-title"
+                value={title}
+                maxLength={120}
+                onChange={(e) => setTitle(e.target.value)}
+              />
+            </div>
+            <DialogFooter className="mt-4">
+              <Button type="button" variant="outline" onClick={() => setRenaming(null)}>Cancel</Button>
+              <Button type="submit" disabled={!title.trim() || updateMutation.isPending}>
+                {updateMutation.isPending ? 'Saving...' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
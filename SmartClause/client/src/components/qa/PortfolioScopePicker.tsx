@@ -0,0 +1,106 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { Contract, PortfolioScope, PortfolioScopeType } from '@shared/schema';
+
+// Tags used on the contracts, first spelling kept, in alphabetical order
+function contractTags(contracts: Contract[]) {
+  const tags = new Map<string, string>();
+  for (const tag of contracts.flatMap((contract) => contract.tags)) {
+    if (!tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag);
+  }
+  return Array.from(tags.values()).sort((a, b) => a.localeCompare(b));
+}
+
+interface PortfolioScopePickerProps {
+  contracts: Contract[];
+  scope: PortfolioScope;
+  onChange: (scope: PortfolioScope) => void;
+}
+
+// Choose the contracts a portfolio question is asked across
+export default function PortfolioScopePicker({ contracts, scope, onChange }: PortfolioScopePickerProps) {
+  const tags = contractTags(contracts);
+  const selectedIds = scope.type === PortfolioScopeType.SELECTION ? scope.contractIds : [];
+
+  const handleTypeChange = (type: string) => {
+    if (type === PortfolioScopeType.TAG) {
+      onChange({ type, tag: tags[0] ?? '' });
+    } else if (type === PortfolioScopeType.SELECTION) {
+      onChange({ type, contractIds: [] });
+    } else {
+      onChange({ type: PortfolioScopeType.ALL });
+    }
+  };
+
+  const toggleContract = (contractId: number, checked: boolean) => {
+    onChange({
+      type: PortfolioScopeType.SELECTION,
+      contractIds: checked
+        ? [...selectedIds, contractId]
+        : selectedIds.filter((id) => id !== contractId)
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label htmlFor="portfolio-scope">Ask across</Label>
+        <Select value={scope.type} onValueChange={handleTypeChange}>
+          <SelectTrigger id="portfolio-scope" className="mt-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              <SelectItem value={PortfolioScopeType.ALL}>All contracts</SelectItem>
+              <SelectItem value={PortfolioScopeType.TAG} disabled={tags.length === 0}>Contracts with a tag</SelectItem>
+              <SelectItem value={PortfolioScopeType.SELECTION}>Selected contracts</SelectItem>
+            </SelectGroup>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {scope.type === PortfolioScopeType.TAG && (
+        <div>
+          <Label htmlFor="portfolio-tag">Tag</Label>
+          <Select value={scope.tag} onValueChange={(tag) => onChange({ type: PortfolioScopeType.TAG, tag })}>
+            <SelectTrigger id="portfolio-tag" className="mt-1">
+              <SelectValue placeholder="Select a tag" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                {tags.map((tag) => (
+                  <SelectItem key={tag} value={tag}>{tag}</SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {scope.type === PortfolioScopeType.SELECTION && (
+        <div className="max-h-48 overflow-y-auto space-y-2 border rounded-md p-3">
+          {contracts.map((contract) => (
+            <div key={contract.id} className="flex items-center space-x-2">
+              <Checkbox
+                id={`portfolio-contract-${contract.id}`}
+                checked={selectedIds.includes(contract.id)}
+                onCheckedChange={(checked) => toggleContract(contract.id, checked === true)}
+              />
+              <Label htmlFor={`portfolio-contract-${contract.id}`} className="font-normal">
+                {contract.name}
+              </Label>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
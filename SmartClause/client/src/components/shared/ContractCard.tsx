@@ -1,19 +1,27 @@
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { FileText, Download, Trash2, Eye } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { FileText, Download, Trash2, Eye, MoreHorizontal, GitCompare } from 'lucide-react';
 import { formatDate } from '@/lib/utils';
 import RiskBadge from '@/components/ui/risk-badge';
 
 interface ContractCardProps {
   id: number;
   name: string;
-  date: string;
-  riskScore: string;
+  date: string | Date | null;
+  riskScore: number | null;
+  riskLevel: string | null;
   contractType: string;
   fileType: string;
   onView?: (id: number) => void;
   onDownload?: (id: number) => void;
   onDelete?: (id: number) => void;
+  onCompare?: (id: number) => void;
 }
 
 export default function ContractCard({
@@ -21,11 +29,13 @@ export default function ContractCard({
   name,
   date,
   riskScore,
+  riskLevel,
   contractType,
   fileType,
   onView,
   onDownload,
-  onDelete
+  onDelete,
+  onCompare
 }: ContractCardProps) {
   const handleView = () => {
     if (onView) onView(id);
@@ -62,9 +72,9 @@ export default function ContractCard({
           <span className="font-medium text-gray-900">{name}</span>
         </div>
       </td>
-      <td className="p-4 text-sm text-gray-600">{formatDate(date)}</td>
+      <td className="p-4 text-sm text-gray-600">{date ? formatDate(date) : ''}</td>
       <td className="p-4">
-        <RiskBadge risk={riskScore} />
+        <RiskBadge risk={riskLevel} score={riskScore} />
       </td>
       <td className="p-4 text-sm text-gray-600">{contractType}</td>
       <td className="p-4">
@@ -96,6 +106,26 @@ export default function ContractCard({
           >
             <Trash2 className="h-4 w-4" />
           </Button>
+          {onCompare && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-gray-500 hover:text-gray-700"
+                  aria-label="More actions"
+                >
+                  <MoreHorizontal className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                <DropdownMenuItem onSelect={() => onCompare(id)}>
+                  <GitCompare className="h-4 w-4 mr-2" />
+                  Compare with...
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
         </div>
       </td>
     </tr>
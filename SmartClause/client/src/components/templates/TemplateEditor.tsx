@@ -0,0 +1,442 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { findPlaceholderNames } from '@shared/templates';
+import {
+  TemplateVariableKind,
+  type ContractTemplate,
+  type CreateContractTemplate,
+  type SavedClause,
+  type TemplateSlot,
+  type TemplateVariable,
+  type TemplateVariableKindType
+} from '@shared/schema';
+import { ArrowDown, ArrowUp, Plus, Trash } from 'lucide-react';
+
+const KIND_OPTIONS: { id: TemplateVariableKindType; label: string }[] = [
+  { id: TemplateVariableKind.TEXT, label: 'Text' },
+  { id: TemplateVariableKind.DATE, label: 'Date' },
+  { id: TemplateVariableKind.AMOUNT, label: 'Amount' },
+  { id: TemplateVariableKind.NUMBER, label: 'Number' },
+  { id: TemplateVariableKind.CHOICE, label: 'Choice' },
+  { id: TemplateVariableKind.YES_NO, label: 'Yes / No' },
+];
+
+// Select values standing in for "no condition" and "own text"
+const ALWAYS = '__always';
+const OWN_TEXT = '__text';
+
+interface TemplateEditorProps {
+  // The template being edited; a new template is created when absent
+  template?: ContractTemplate;
+  savedClauses: SavedClause[];
+  isSaving: boolean;
+  onSubmit: (template: CreateContractTemplate) => void;
+  onCancel: () => void;
+}
+
+const slugify = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'slot';
+
+// "PAYMENT DAYS" -> "Payment days"
+const labelFor = (name: string) => name.charAt(0) + name.slice(1).toLowerCase();
+
+function uniqueSlotId(title: string, slots: TemplateSlot[]) {
+  const base = slugify(title);
+  let id = base;
+  for (let n = 2; slots.some((slot) => slot.id === id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+function ConditionEditor({ slot, variables, onChange }: {
+  slot: TemplateSlot;
+  variables: TemplateVariable[];
+  onChange: (condition: TemplateSlot['condition']) => void;
+}) {
+  const condition = slot.condition;
+  const variable = variables.find((candidate) => candidate.name === condition?.variable);
+  const negated = !!condition && 'notEquals' in condition;
+  const expected = condition ? ('equals' in condition ? condition.equals : condition.notEquals) : '';
+
+  const update = (name: string, isNegated: boolean, value: string | boolean) =>
+    onChange(isNegated ? { variable: name, notEquals: value } : { variable: name, equals: value });
+
+  const handleVariableChange = (name: string) => {
+    if (name === ALWAYS) return onChange(undefined);
+    const next = variables.find((candidate) => candidate.name === name)!;
+    update(name, negated, next.kind === TemplateVariableKind.YES_NO ? true : next.options?.[0] ?? '');
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+      <Select value={condition?.variable ?? ALWAYS} onValueChange={handleVariableChange}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectGroup>
+            <SelectItem value={ALWAYS}>Always include</SelectItem>
+            {variables.map((candidate) => (
+              <SelectItem key={candidate.name} value={candidate.name}>When {candidate.label}</SelectItem>
+            ))}
+          </SelectGroup>
+        </SelectContent>
+      </Select>
+
+      {condition && variable && (
+        <>
+          <Select
+            value={negated ? 'notEquals' : 'equals'}
+            onValueChange={(operator) => update(condition.variable, operator === 'notEquals', expected)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                <SelectItem value="equals">is</SelectItem>
+                <SelectItem value="notEquals">is not</SelectItem>
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+
+          {variable.kind === TemplateVariableKind.YES_NO ? (
+            <Select
+              value={expected === true ? 'yes' : 'no'}
+              onValueChange={(value) => update(condition.variable, negated, value === 'yes')}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  <SelectItem value="yes">Yes</SelectItem>
+                  <SelectItem value="no">No</SelectItem>
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          ) : variable.kind === TemplateVariableKind.CHOICE ? (
+            <Select
+              value={String(expected)}
+              onValueChange={(value) => update(condition.variable, negated, value)}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select an option" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  {variable.options?.map((option) => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          ) : (
+            <Input
+              value={String(expected)}
+              onChange={(e) => update(condition.variable, negated, e.target.value)}
+              placeholder="Answer"
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function TemplateEditor({ template, savedClauses, isSaving, onSubmit, onCancel }: TemplateEditorProps) {
+  const [name, setName] = useState(template?.name ?? '');
+  const [description, setDescription] = useState(template?.description ?? '');
+  const [contractType, setContractType] = useState(template?.contractType ?? '');
+  const [variables, setVariables] = useState<TemplateVariable[]>(template?.variables ?? []);
+  const [slots, setSlots] = useState<TemplateSlot[]>(template?.slots ?? []);
+
+  const updateVariable = (index: number, changes: Partial<TemplateVariable>) =>
+    setVariables((current) => current.map((variable, i) => (i === index ? { ...variable, ...changes } : variable)));
+
+  const removeVariable = (index: number) => {
+    const removed = variables[index].name;
+    setVariables((current) => current.filter((_, i) => i !== index));
+    // Slots conditioned on the removed variable become unconditional
+    setSlots((current) => current.map((slot) =>
+      slot.condition?.variable === removed ? { ...slot, condition: undefined } : slot
+    ));
+  };
+
+  const updateSlot = (index: number, changes: Partial<TemplateSlot>) =>
+    setSlots((current) => current.map((slot, i) => (i === index ? { ...slot, ...changes } : slot)));
+
+  const moveSlot = (index: number, offset: number) =>
+    setSlots((current) => {
+      const next = [...current];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+
+  const addSlot = () =>
+    setSlots((current) => [...current, { id: uniqueSlotId(`clause ${current.length + 1}`, current), title: '', content: '', numbered: true }]);
+
+  // Placeholders written in the slots' text that are not declared as variables yet
+  const slotText = slots.map((slot) =>
+    slot.savedClauseId !== undefined
+      ? savedClauses.find((clause) => clause.id === slot.savedClauseId)?.content ?? ''
+      : slot.content ?? ''
+  ).join('\n');
+  const undeclared = findPlaceholderNames(slotText).filter((placeholder) =>
+    !variables.some((variable) => variable.name === placeholder)
+  );
+
+  const addUndeclared = () =>
+    setVariables((current) => [
+      ...current,
+      ...undeclared.map((placeholder) => ({
+        name: placeholder,
+        label: labelFor(placeholder),
+        kind: TemplateVariableKind.TEXT,
+        required: true,
+      })),
+    ]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      name,
+      description: description.trim() || null,
+      contractType: contractType.trim() || null,
+      variables: variables.map((variable) => ({
+        ...variable,
+        options: variable.kind === TemplateVariableKind.CHOICE ? variable.options : undefined,
+      })),
+      slots: slots.map((slot) => ({
+        ...slot,
+        ...(slot.savedClauseId !== undefined ? { content: undefined } : { content: slot.content ?? '' }),
+      })),
+    });
+  };
+
+  return (
+    <form className="space-y-6" onSubmit={handleSubmit}>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="template-name">Name</Label>
+          <Input id="template-name" value={name} onChange={(e) => setName(e.target.value)} className="mt-1" required />
+        </div>
+        <div>
+          <Label htmlFor="template-contract-type">
+            Contract type <span className="text-gray-500 text-xs">(Optional)</span>
+          </Label>
+          <Input
+            id="template-contract-type"
+            value={contractType}
+            onChange={(e) => setContractType(e.target.value)}
+            placeholder="e.g. services"
+            className="mt-1"
+          />
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="template-description">
+          Description <span className="text-gray-500 text-xs">(Optional)</span>
+        </Label>
+        <Textarea
+          id="template-description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          className="mt-1"
+          rows={2}
+        />
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-semibold text-gray-900">Questions</h3>
+          <div className="flex space-x-2">
+            {undeclared.length > 0 && (
+              <Button type="button" variant="outline" size="sm" onClick={addUndeclared}>
+                Add {undeclared.map((placeholder) => `[${placeholder}]`).join(', ')}
+              </Button>
+            )}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setVariables((current) => [
+                ...current,
+                { name: '', label: '', kind: TemplateVariableKind.TEXT, required: true },
+              ])}
+            >
+              <Plus className="h-4 w-4 mr-1" /> Add question
+            </Button>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 mb-3">
+          Write a question's placeholder in clause text in capitals and brackets, e.g. [CLIENT NAME].
+        </p>
+
+        <div className="space-y-3">
+          {variables.map((variable, index) => (
+            <div key={index} className="grid grid-cols-1 md:grid-cols-12 gap-2 items-center">
+              <Input
+                className="md:col-span-3"
+                value={variable.name}
+                onChange={(e) => updateVariable(index, { name: e.target.value.toUpperCase() })}
+                placeholder="PLACEHOLDER"
+                aria-label="Placeholder"
+              />
+              <Input
+                className="md:col-span-3"
+                value={variable.label}
+                onChange={(e) => updateVariable(index, { label: e.target.value })}
+                placeholder="Question"
+                aria-label="Question"
+              />
+              <div className="md:col-span-2">
+                <Select
+                  value={variable.kind}
+                  onValueChange={(kind) => updateVariable(index, { kind: kind as TemplateVariableKindType })}
+                >
+                  <SelectTrigger aria-label="Answer type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectGroup>
+                      {KIND_OPTIONS.map((option) => (
+                        <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                      ))}
+                    </SelectGroup>
+                  </SelectContent>
+                </Select>
+              </div>
+              <Input
+                className="md:col-span-2"
+                value={variable.options?.join(', ') ?? ''}
+                onChange={(e) => updateVariable(index, {
+                  options: e.target.value.split(',').map((option) => option.trim()).filter(Boolean),
+                })}
+                placeholder="Options, comma separated"
+                aria-label="Options"
+                disabled={variable.kind !== TemplateVariableKind.CHOICE}
+              />
+              <div className="md:col-span-1 flex items-center space-x-1">
+                <Checkbox
+                  id={`variable-required-${index}`}
+                  checked={variable.required}
+                  onCheckedChange={(checked) => updateVariable(index, { required: checked === true })}
+                />
+                <Label htmlFor={`variable-required-${index}`} className="text-xs font-normal">Required</Label>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="md:col-span-1"
+                onClick={() => removeVariable(index)}
+                aria-label="Remove question"
+              >
+                <Trash className="h-4 w-4 text-gray-500" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-semibold text-gray-900">Clauses</h3>
+          <Button type="button" variant="outline" size="sm" onClick={addSlot}>
+            <Plus className="h-4 w-4 mr-1" /> Add clause
+          </Button>
+        </div>
+
+        <div className="space-y-4">
+          {slots.map((slot, index) => (
+            <div key={slot.id} className="border border-gray-200 rounded-md p-3 space-y-2">
+              <div className="flex items-center space-x-2">
+                <Input
+                  value={slot.title}
+                  onChange={(e) => updateSlot(index, { title: e.target.value })}
+                  placeholder="Clause heading"
+                  aria-label="Clause heading"
+                />
+                <div className="flex items-center space-x-1 shrink-0">
+                  <Checkbox
+                    id={`slot-numbered-${slot.id}`}
+                    checked={slot.numbered}
+                    onCheckedChange={(checked) => updateSlot(index, { numbered: checked === true })}
+                  />
+                  <Label htmlFor={`slot-numbered-${slot.id}`} className="text-xs font-normal">Numbered</Label>
+                </div>
+                <Button type="button" variant="ghost" size="icon" disabled={index === 0}
+                  onClick={() => moveSlot(index, -1)} aria-label="Move up">
+                  <ArrowUp className="h-4 w-4 text-gray-500" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" disabled={index === slots.length - 1}
+                  onClick={() => moveSlot(index, 1)} aria-label="Move down">
+                  <ArrowDown className="h-4 w-4 text-gray-500" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon"
+                  onClick={() => setSlots((current) => current.filter((_, i) => i !== index))} aria-label="Remove clause">
+                  <Trash className="h-4 w-4 text-gray-500" />
+                </Button>
+              </div>
+
+              <Select
+                value={slot.savedClauseId?.toString() ?? OWN_TEXT}
+                onValueChange={(value) => updateSlot(index, value === OWN_TEXT
+                  ? { savedClauseId: undefined, content: slot.content ?? '' }
+                  : { savedClauseId: parseInt(value) })}
+              >
+                <SelectTrigger aria-label="Clause text">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectGroup>
+                    <SelectItem value={OWN_TEXT}>Write the text here</SelectItem>
+                    {savedClauses.map((clause) => (
+                      <SelectItem key={clause.id} value={clause.id.toString()}>From library: {clause.title}</SelectItem>
+                    ))}
+                  </SelectGroup>
+                </SelectContent>
+              </Select>
+
+              {slot.savedClauseId === undefined && (
+                <Textarea
+                  value={slot.content ?? ''}
+                  onChange={(e) => updateSlot(index, { content: e.target.value })}
+                  rows={4}
+                  placeholder="Clause text, with placeholders such as [CLIENT NAME]"
+                  aria-label="Clause text"
+                />
+              )}
+
+              <ConditionEditor
+                slot={slot}
+                variables={variables.filter((variable) => variable.name)}
+                onChange={(condition) => updateSlot(index, { condition })}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-end space-x-2">
+        <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
+        <Button type="submit" disabled={isSaving || !name.trim() || slots.length === 0}>
+          {isSaving ? 'Saving...' : template ? 'Save Changes' : 'Create Template'}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { slotApplies } from '@shared/templates';
+import {
+  TemplateVariableKind,
+  type ContractTemplate,
+  type TemplateAnswers,
+  type TemplateVariable
+} from '@shared/schema';
+import { Check, Minus } from 'lucide-react';
+
+interface TemplateQuestionnaireProps {
+  template: ContractTemplate;
+  isSubmitting: boolean;
+  // Problems the server found with the answers, keyed by variable name
+  fieldErrors: Record<string, string>;
+  onSubmit: (name: string, answers: TemplateAnswers) => void;
+}
+
+function VariableInput({ variable, value, onChange }: {
+  variable: TemplateVariable;
+  value: string | boolean | undefined;
+  onChange: (value: string | boolean) => void;
+}) {
+  const id = `variable-${variable.name}`;
+
+  switch (variable.kind) {
+    case TemplateVariableKind.YES_NO:
+      return (
+        <RadioGroup
+          value={value === undefined ? '' : value ? 'yes' : 'no'}
+          onValueChange={(selected) => onChange(selected === 'yes')}
+          className="flex space-x-4 mt-1"
+        >
+          {['yes', 'no'].map((option) => (
+            <div key={option} className="flex items-center space-x-2">
+              <RadioGroupItem value={option} id={`${id}-${option}`} />
+              <Label htmlFor={`${id}-${option}`} className="font-normal capitalize">{option}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+      );
+    case TemplateVariableKind.CHOICE:
+      return (
+        <Select value={typeof value === 'string' ? value : ''} onValueChange={onChange}>
+          <SelectTrigger id={id} className="mt-1">
+            <SelectValue placeholder="Select an option" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              {variable.options?.map((option) => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectGroup>
+          </SelectContent>
+        </Select>
+      );
+    default:
+      return (
+        <Input
+          id={id}
+          type={variable.kind === TemplateVariableKind.DATE ? 'date' : 'text'}
+          inputMode={variable.kind === TemplateVariableKind.TEXT ? undefined : 'decimal'}
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={variable.kind === TemplateVariableKind.AMOUNT ? 'e.g. 12,000' : undefined}
+          className="mt-1"
+        />
+      );
+  }
+}
+
+export default function TemplateQuestionnaire({ template, isSubmitting, fieldErrors, onSubmit }: TemplateQuestionnaireProps) {
+  const [name, setName] = useState(template.name);
+  const [answers, setAnswers] = useState<Record<string, string | boolean>>({});
+
+  const setAnswer = (variable: string, value: string | boolean) =>
+    setAnswers((current) => ({ ...current, [variable]: value }));
+
+  const missing = template.variables.filter((variable) =>
+    variable.required && (answers[variable.name] === undefined || answers[variable.name] === '')
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(name, answers);
+  };
+
+  return (
+    <form className="space-y-6" onSubmit={handleSubmit}>
+      <div>
+        <Label htmlFor="assembled-contract-name">Contract name</Label>
+        <Input
+          id="assembled-contract-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="mt-1"
+          required
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {template.variables.map((variable) => (
+          <div key={variable.name}>
+            <Label htmlFor={`variable-${variable.name}`}>
+              {variable.label}
+              {!variable.required && <span className="text-gray-500 text-xs"> (Optional)</span>}
+            </Label>
+            <VariableInput
+              variable={variable}
+              value={answers[variable.name]}
+              onChange={(value) => setAnswer(variable.name, value)}
+            />
+            {variable.help && <p className="text-xs text-gray-500 mt-1">{variable.help}</p>}
+            {fieldErrors[variable.name] && (
+              <p className="text-xs text-red-600 mt-1">{fieldErrors[variable.name]}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 mb-2">Clauses</h3>
+        <ul className="space-y-1">
+          {template.slots.map((slot) => {
+            const included = slotApplies(slot, answers);
+            return (
+              <li key={slot.id} className={`flex items-center text-sm ${included ? 'text-gray-800' : 'text-gray-400 line-through'}`}>
+                {included
+                  ? <Check className="h-4 w-4 mr-2 text-green-600" />
+                  : <Minus className="h-4 w-4 mr-2" />}
+                {slot.title}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      <div className="flex items-center justify-end space-x-3">
+        {missing.length > 0 && (
+          <span className="text-xs text-gray-500">
+            {missing.length} required {missing.length === 1 ? 'answer' : 'answers'} left
+          </span>
+        )}
+        <Button type="submit" disabled={isSubmitting || !name.trim() || missing.length > 0}>
+          {isSubmitting ? 'Creating...' : 'Create Contract'}
+        </Button>
+      </div>
+    </form>
+  );
+}
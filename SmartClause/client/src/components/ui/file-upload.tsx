@@ -10,16 +10,18 @@ interface FileUploadProps {
   onFileSelect?: (file: File) => void;
   className?: string;
   helperText?: string;
+  error?: string | null; // error reported by the caller, e.g. a failed server-side extraction
 }
 
 export function FileUpload({
   id,
   label = 'Upload File',
-  accept = '.pdf,.docx',
+  accept = '.pdf,.docx,.txt,.rtf',
   maxSize = 10, // Default 10MB
   onFileSelect,
   className,
-  helperText = 'Supported formats: PDF, DOCX (Max size: 10MB)'
+  helperText = 'Supported formats: PDF, DOCX, TXT, RTF (Max size: 10MB)',
+  error: externalError
 }: FileUploadProps) {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -104,7 +106,9 @@ export function FileUpload({
         )}
       </div>
       
-      {error && <p className="mt-1 text-sm text-red-500">{error}</p>}
+      {(error || externalError) && (
+        <p className="mt-1 text-sm text-red-500">{error || externalError}</p>
+      )}
     </div>
   );
 }
@@ -1,14 +1,15 @@
 import { cn, getRiskColor, getRiskLevelText } from "@/lib/utils";
 
 interface RiskBadgeProps {
-  risk: string; // 'low', 'medium', 'high'
+  risk: string | null; // 'low', 'medium', 'high', or null before analysis
+  score?: number | null; // 0-100 composite score
   className?: string;
   size?: 'sm' | 'md' | 'lg';
 }
 
-export function RiskBadge({ risk, className, size = 'md' }: RiskBadgeProps) {
+export function RiskBadge({ risk, score, className, size = 'md' }: RiskBadgeProps) {
   // Set base styles based on risk level
-  const baseClass = getRiskColor(risk);
+  const baseClass = getRiskColor(risk || '');
   
   // Size variants
   const sizeClasses = {
@@ -19,7 +20,8 @@ export function RiskBadge({ risk, className, size = 'md' }: RiskBadgeProps) {
   
   return (
     <span className={cn(baseClass, sizeClasses[size], className)}>
-      {getRiskLevelText(risk)}
+      {getRiskLevelText(risk || '')}
+      {score !== undefined && score !== null && ` · ${score}`}
     </span>
   );
 }
@@ -0,0 +1,201 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import LoadingSpinner from '@/components/ui/loading-spinner';
+import FileUpload from '@/components/ui/file-upload';
+import VersionDiffView, { type DiffLayout } from '@/components/versions/VersionDiffView';
+import { useToast } from '@/hooks/use-toast';
+import { formatDate } from '@/lib/utils';
+import { contractApi, UploadError } from '@/services/api';
+import { DiffGranularity, type DiffGranularityType, type VersionDiff } from '@shared/diff';
+import { type Contract, type ContractVersion } from '@shared/schema';
+
+interface ContractVersionsProps {
+  contractId: number;
+  // Called once a new version is stored, e.g. to analyse it
+  onVersionUploaded: (contract: Contract) => void;
+}
+
+const versionLabel = (version: ContractVersion) =>
+  `v${version.version} · ${version.createdAt ? formatDate(version.createdAt) : 'unknown date'}` +
+  `${version.note ? ` · ${version.note}` : ''}`;
+
+export default function ContractVersions({ contractId, onVersionUploaded }: ContractVersionsProps) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [note, setNote] = useState('');
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  const [granularity, setGranularity] = useState<DiffGranularityType>(DiffGranularity.WORD);
+  const [layout, setLayout] = useState<DiffLayout>('side-by-side');
+
+  const { data: versions, refetch } = useQuery<ContractVersion[]>({
+    queryKey: [`/api/contract/${contractId}/versions`],
+  });
+
+  // Compare the latest version with the one before it until the user picks others
+  useEffect(() => {
+    if (versions && versions.length > 1) {
+      setToVersion(versions[0].version);
+      setFromVersion(versions[1].version);
+    }
+  }, [versions?.[0]?.version]);
+
+  const { data: diff, isLoading: isLoadingDiff } = useQuery<VersionDiff>({
+    queryKey: [`/api/contract/${contractId}/diff`, fromVersion, toVersion, granularity],
+    queryFn: () => contractApi.getVersionDiff(contractId, fromVersion!, toVersion!, granularity),
+    enabled: fromVersion !== null && toVersion !== null && fromVersion !== toVersion,
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => contractApi.uploadVersion(contractId, file!, note),
+    onSuccess: ({ contract, version }) => {
+      setFile(null);
+      setNote('');
+      setUploadError(null);
+      refetch();
+      toast({
+        title: `Version ${version.version} uploaded`,
+        description: "The new draft is now the contract's current text.",
+      });
+      onVersionUploaded(contract);
+    },
+    onError: (error) => {
+      const description = error instanceof UploadError
+        ? error.message
+        : "Failed to upload the new version. Please try again.";
+      setUploadError(description);
+      console.error(error);
+    }
+  });
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-6">
+        <div>
+          <h2 className="text-lg font-semibold mb-2">Versions</h2>
+          {!versions ? (
+            <LoadingSpinner size="sm" />
+          ) : (
+            <ul className="text-sm text-gray-700 space-y-1">
+              {versions.map((version) => (
+                <li key={version.id}>
+                  {versionLabel(version)}
+                  {version.fileName && <span className="text-gray-500"> · {version.fileName}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (file) uploadMutation.mutate();
+          }}
+        >
+          <FileUpload
+            id="contract-version-file"
+            label="Upload new version"
+            onFileSelect={(selected) => {
+              setFile(selected);
+              setUploadError(null);
+            }}
+            error={uploadError}
+          />
+          <div>
+            <Label htmlFor="contract-version-note">Note (optional)</Label>
+            <Input
+              id="contract-version-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g. Counterparty markup, round 2"
+              className="mt-1"
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={!file || uploadMutation.isPending}>
+              {uploadMutation.isPending ? 'Uploading...' : 'Upload Version'}
+            </Button>
+          </div>
+        </form>
+
+        {versions && versions.length > 1 && (
+          <div className="space-y-4">
+            <h3 className="font-medium">Compare versions</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {([
+                ['From', fromVersion, setFromVersion],
+                ['To', toVersion, setToVersion],
+              ] as const).map(([label, value, setValue]) => (
+                <div key={label}>
+                  <Label>{label}</Label>
+                  <Select
+                    value={value?.toString() ?? ''}
+                    onValueChange={(selected) => setValue(parseInt(selected))}
+                  >
+                    <SelectTrigger className="mt-1">
+                      <SelectValue placeholder="Select version" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectGroup>
+                        {versions.map((version) => (
+                          <SelectItem key={version.id} value={version.version.toString()}>
+                            {versionLabel(version)}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap gap-4">
+              <ToggleGroup
+                type="single"
+                size="sm"
+                value={layout}
+                onValueChange={(value) => value && setLayout(value as DiffLayout)}
+              >
+                <ToggleGroupItem value="side-by-side">Side by side</ToggleGroupItem>
+                <ToggleGroupItem value="inline">Inline</ToggleGroupItem>
+              </ToggleGroup>
+              <ToggleGroup
+                type="single"
+                size="sm"
+                value={granularity}
+                onValueChange={(value) => value && setGranularity(value as DiffGranularityType)}
+              >
+                <ToggleGroupItem value={DiffGranularity.WORD}>Words</ToggleGroupItem>
+                <ToggleGroupItem value={DiffGranularity.SENTENCE}>Sentences</ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+
+            {fromVersion === toVersion ? (
+              <p className="text-sm text-gray-500">Pick two different versions to compare.</p>
+            ) : isLoadingDiff || !diff ? (
+              <LoadingSpinner size="sm" />
+            ) : (
+              <VersionDiffView diff={diff} layout={layout} />
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,107 @@
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { truncateText } from '@/lib/utils';
+import { type DiffSegment, type VersionDiff } from '@shared/diff';
+import { type RiskyClause } from '@shared/schema';
+
+export type DiffLayout = 'side-by-side' | 'inline';
+
+interface VersionDiffViewProps {
+  diff: VersionDiff;
+  layout: DiffLayout;
+}
+
+const INSERT_CLASS = 'bg-green-100 text-green-900';
+const DELETE_CLASS = 'bg-red-100 text-red-900 line-through';
+
+function Segments({ segments }: { segments: DiffSegment[] }) {
+  return (
+    <p className="whitespace-pre-wrap text-sm text-gray-800">
+      {segments.map((segment, index) =>
+        segment.type === 'equal' ? (
+          <span key={index}>{segment.text}</span>
+        ) : (
+          <span key={index} className={segment.type === 'insert' ? INSERT_CLASS : DELETE_CLASS}>
+            {segment.text}
+          </span>
+        )
+      )}
+    </p>
+  );
+}
+
+const findingLabel = (clause: RiskyClause) =>
+  `"${truncateText(clause.clauseText, 80)}" — ${clause.explanation}`;
+
+export default function VersionDiffView({ diff, layout }: VersionDiffViewProps) {
+  const unchanged = diff.segments.every((segment) => segment.type === 'equal');
+  const { findings } = diff;
+
+  return (
+    <div className="space-y-4">
+      {unchanged ? (
+        <p className="text-sm text-gray-500">The two versions have the same text.</p>
+      ) : layout === 'inline' ? (
+        <ScrollArea className="h-96 rounded-md border p-4">
+          <Segments segments={diff.segments} />
+        </ScrollArea>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {/* Each side shows its own text, with the other side's changes left out */}
+          <div>
+            <p className="text-xs font-semibold text-gray-500 uppercase mb-1">Version {diff.from.version}</p>
+            <ScrollArea className="h-96 rounded-md border p-4">
+              <Segments segments={diff.segments.filter((segment) => segment.type !== 'insert')} />
+            </ScrollArea>
+          </div>
+          <div>
+            <p className="text-xs font-semibold text-gray-500 uppercase mb-1">Version {diff.to.version}</p>
+            <ScrollArea className="h-96 rounded-md border p-4">
+              <Segments segments={diff.segments.filter((segment) => segment.type !== 'delete')} />
+            </ScrollArea>
+          </div>
+        </div>
+      )}
+
+      <div className="text-sm">
+        <h3 className="font-medium mb-2">Risky clauses</h3>
+        {!findings ? (
+          <p className="text-gray-500">Analyze both versions to see how their risky clauses changed.</p>
+        ) : findings.added.length + findings.removed.length + findings.changed.length === 0 ? (
+          <p className="text-gray-500">Both versions have the same risky clauses.</p>
+        ) : (
+          <div className="space-y-3">
+            {findings.added.length > 0 && (
+              <div>
+                <h4 className="font-medium text-red-600 mb-1">Added</h4>
+                <ul className="list-disc pl-5 space-y-1">
+                  {findings.added.map((clause) => <li key={clause.id}>{findingLabel(clause)}</li>)}
+                </ul>
+              </div>
+            )}
+            {findings.removed.length > 0 && (
+              <div>
+                <h4 className="font-medium text-green-600 mb-1">Resolved</h4>
+                <ul className="list-disc pl-5 space-y-1">
+                  {findings.removed.map((clause) => <li key={clause.id}>{findingLabel(clause)}</li>)}
+                </ul>
+              </div>
+            )}
+            {findings.changed.length > 0 && (
+              <div>
+                <h4 className="font-medium text-yellow-600 mb-1">Changed</h4>
+                <ul className="list-disc pl-5 space-y-1">
+                  {findings.changed.map(({ before, after }) => (
+                    <li key={after.id}>
+                      {findingLabel(after)}
+                      {before.riskLevel !== after.riskLevel && ` (${before.riskLevel} → ${after.riskLevel})`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
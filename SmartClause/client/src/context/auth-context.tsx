@@ -1,69 +1,67 @@
 import React, { createContext, useState, useEffect } from 'react';
 import { User } from '@shared/schema';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, queryClient } from '@/lib/queryClient';
 
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
   login: (user: User) => void;
-  logout: () => void;
+  logout: () => Promise<void>;
   updateUser: (user: User) => void;
 }
 
 export const AuthContext = createContext<AuthContextType | null>(null);
 
-const USER_STORAGE_KEY = 'smartclause_user';
-
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  
-  // On mount, check for saved user in localStorage
+
+  // On mount, ask the server who the session belongs to
   useEffect(() => {
     const loadUser = async () => {
       try {
-        const savedUserJSON = localStorage.getItem(USER_STORAGE_KEY);
-        
-        if (savedUserJSON) {
-          const savedUser = JSON.parse(savedUserJSON);
-          
-          // In a real application, we would verify the user's session with the server
-          // For now, we'll just use the saved user directly
-          setUser(savedUser);
+        const response = await fetch('/api/auth/me', { credentials: 'include' });
+
+        if (response.ok) {
+          const data = await response.json();
+          setUser(data.user);
+        } else {
+          setUser(null);
         }
       } catch (error) {
-        console.error('Error loading user from storage:', error);
-        localStorage.removeItem(USER_STORAGE_KEY);
+        console.error('Error loading session:', error);
+        setUser(null);
       } finally {
         setIsLoading(false);
       }
     };
-    
+
     loadUser();
   }, []);
-  
-  // Login function
+
+  // Login function - the session cookie is already set by the login/register endpoint
   const login = (userData: User) => {
     setUser(userData);
-    localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(userData));
   };
-  
+
   // Logout function
-  const logout = () => {
-    setUser(null);
-    localStorage.removeItem(USER_STORAGE_KEY);
-    
-    // In a real application, we would also call a logout endpoint on the server
-    // For now, we'll just clear the local storage
+  const logout = async () => {
+    try {
+      await apiRequest('POST', '/api/auth/logout');
+    } catch (error) {
+      console.error('Error logging out:', error);
+    } finally {
+      setUser(null);
+      queryClient.clear();
+    }
   };
-  
+
   // Update user function
   const updateUser = (userData: User) => {
     setUser(userData);
-    localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(userData));
   };
-  
+
   // Create the context value
   const contextValue: AuthContextType = {
     user,
@@ -73,7 +71,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     logout,
     updateUser
   };
-  
+
   return (
     <AuthContext.Provider value={contextValue}>
       {children}
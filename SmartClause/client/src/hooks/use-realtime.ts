@@ -0,0 +1,81 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/hooks/use-auth';
+import { REALTIME_PATH, type RealtimeEvent } from '@shared/realtime';
+
+type RealtimeListener = (event: RealtimeEvent) => void;
+
+// One socket is shared by every mounted component using the hook. It opens
+// with the first listener, closes with the last and reconnects with backoff.
+const listeners = new Set<RealtimeListener>();
+const statusListeners = new Set<(connected: boolean) => void>();
+let socket: WebSocket | null = null;
+let connected = false;
+let retryTimer: ReturnType<typeof setTimeout> | undefined;
+let retries = 0;
+
+function setConnected(value: boolean) {
+  connected = value;
+  statusListeners.forEach((listener) => listener(value));
+}
+
+function connect() {
+  clearTimeout(retryTimer);
+  retryTimer = undefined;
+
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  const ws = new WebSocket(`${protocol}//${window.location.host}${REALTIME_PATH}`);
+  socket = ws;
+
+  ws.onopen = () => {
+    retries = 0;
+    setConnected(true);
+  };
+  ws.onmessage = (message) => {
+    const event = JSON.parse(message.data) as RealtimeEvent;
+    listeners.forEach((listener) => listener(event));
+  };
+  ws.onclose = () => {
+    if (socket !== ws) return;
+    socket = null;
+    setConnected(false);
+    if (listeners.size > 0) {
+      retryTimer = setTimeout(connect, Math.min(1000 * 2 ** retries++, 30000));
+    }
+  };
+}
+
+function disconnect() {
+  clearTimeout(retryTimer);
+  retryTimer = undefined;
+  const ws = socket;
+  socket = null;
+  ws?.close();
+  setConnected(false);
+}
+
+// Subscribe to server events for the logged-in user. `connected` tells
+// callers whether they can rely on events or still need to poll.
+export function useRealtime(onEvent?: RealtimeListener) {
+  const { user } = useAuth();
+  const [isConnected, setIsConnected] = useState(connected);
+  const handlerRef = useRef(onEvent);
+  handlerRef.current = onEvent;
+
+  useEffect(() => {
+    if (!user) return;
+
+    const listener: RealtimeListener = (event) => handlerRef.current?.(event);
+    listeners.add(listener);
+    statusListeners.add(setIsConnected);
+    if (!socket) connect();
+    setIsConnected(connected);
+
+    return () => {
+      listeners.delete(listener);
+      statusListeners.delete(setIsConnected);
+      if (listeners.size === 0) disconnect();
+    };
+  }, [user?.id]);
+
+  return { connected: isConnected };
+}
@@ -0,0 +1,22 @@
+// Clause types and tones offered by the generator and the clause library
+export const CLAUSE_TYPE_OPTIONS = [
+  { id: 'nda', label: 'Confidentiality / NDA' },
+  { id: 'termination', label: 'Termination' },
+  { id: 'payment', label: 'Payment Terms' },
+  { id: 'ip', label: 'Intellectual Property' },
+  { id: 'liability', label: 'Limitation of Liability' },
+  { id: 'force-majeure', label: 'Force Majeure' },
+  { id: 'non-compete', label: 'Non-Compete' },
+  { id: 'dispute', label: 'Dispute Resolution' },
+];
+
+export const TONE_OPTIONS = [
+  { id: 'formal', label: 'Formal' },
+  { id: 'friendly', label: 'Friendly' },
+  { id: 'neutral', label: 'Neutral' },
+  { id: 'aggressive', label: 'Aggressive' },
+];
+
+// Clauses saved before the options existed store a free-text type
+export const clauseTypeLabel = (clauseType: string) =>
+  CLAUSE_TYPE_OPTIONS.find((option) => option.id === clauseType)?.label ?? clauseType;
@@ -1,9 +1,10 @@
 import { useState, useEffect } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { useLocation } from 'wouter';
-import { apiRequest, queryClient } from '@/lib/queryClient';
+import { queryClient } from '@/lib/queryClient';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
+import { useRealtime } from '@/hooks/use-realtime';
 
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -21,9 +22,35 @@ import LoadingSpinner from '@/components/ui/loading-spinner';
 import FileUpload from '@/components/ui/file-upload';
 import ResultsSummary from '@/components/analysis/ResultsSummary';
 import RiskyClause from '@/components/analysis/RiskyClause';
-import { Download, AlertTriangle } from 'lucide-react';
-import { extractTextFromFile } from '@/lib/utils';
-import { Analysis, RiskyClause as RiskyClauseType } from '@shared/schema';
+import RiskScoreCard from '@/components/analysis/RiskScoreCard';
+import AnalysisHistory from '@/components/analysis/AnalysisHistory';
+import AnalysisProgress from '@/components/analysis/AnalysisProgress';
+import RevisedContract from '@/components/analysis/RevisedContract';
+import BlankFields from '@/components/analysis/BlankFields';
+import KeyTerms from '@/components/analysis/KeyTerms';
+import ContractVersions from '@/components/versions/ContractVersions';
+import { Download } from 'lucide-react';
+import { analysisApi, contractApi, UploadError } from '@/services/api';
+import {
+  Analysis,
+  BlankField,
+  Clause,
+  Contract,
+  ContractTerm,
+  Job,
+  JobStatus,
+  Playbook,
+  ReviewStatus,
+  ReviewStatusType,
+  RevisedText,
+  FillBlankFields,
+  RiskyClause as RiskyClauseType
+} from '@shared/schema';
+import { describeClause } from '@shared/clauses';
+import { type ScoreBreakdown } from '@shared/scoring';
+
+const isJobActive = (job?: Job) =>
+  job?.status === JobStatus.QUEUED || job?.status === JobStatus.RUNNING;
 
 export default function Analyzer() {
   const [location] = useLocation();
@@ -37,29 +64,74 @@ export default function Analyzer() {
   // Form state
   const [contractName, setContractName] = useState('');
   const [contractType, setContractType] = useState('');
+  // Comma separated, saved when the field loses focus
+  const [contractTags, setContractTags] = useState('');
+  const [playbookId, setPlaybookId] = useState('');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [extractedText, setExtractedText] = useState('');
+  const [uploadError, setUploadError] = useState<string | null>(null);
   const [contractId, setContractId] = useState<number | null>(contractIdFromUrl ? parseInt(contractIdFromUrl) : null);
   
-  // Analysis state
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  // Analysis state: the queued or running analysis job, if any
+  const [jobId, setJobId] = useState<number | null>(null);
+  // Run shown in the results (null shows the latest) and the run it is compared with
   const [analysisId, setAnalysisId] = useState<number | null>(null);
+  const [compareAnalysisId, setCompareAnalysisId] = useState<number | null>(null);
+  
+  // Job progress and contract edits arrive over the realtime socket; polling is the fallback
+  const { connected } = useRealtime((event) => {
+    if (event.type === 'job.updated') {
+      queryClient.setQueryData([`/api/job/${event.job.id}`], event.job);
+      if (event.job.contractId === contractId && isJobActive(event.job)) {
+        setJobId(event.job.id);
+      }
+    } else if (event.type === 'contracts.changed' && event.contractId === contractId) {
+      queryClient.invalidateQueries({ queryKey: [`/api/contract/${contractId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/contract/${contractId}/clauses`] });
+    }
+  });
+  
+  // Playbooks available for analysis; the built-in one is used when none is picked
+  const { data: playbooks } = useQuery<Playbook[]>({
+    queryKey: ['/api/playbooks'],
+  });
   
   // Fetch contract if ID is provided
-  const { data: contract, isLoading: isLoadingContract } = useQuery({
+  const { data: contract, isLoading: isLoadingContract } = useQuery<Contract>({
     queryKey: [`/api/contract/${contractId}`],
     enabled: !!contractId,
   });
   
-  // Fetch analysis if contract is loaded
+  // Jobs of the contract, so an analysis started before a page reload is picked up again
+  const { data: contractJobs } = useQuery<Job[]>({
+    queryKey: [`/api/jobs/contract/${contractId}`],
+    enabled: !!contractId,
+  });
+  
+  // The analysis job; polled until it finishes when the realtime socket is down
+  const { data: job } = useQuery<Job>({
+    queryKey: [`/api/job/${jobId}`],
+    enabled: !!jobId,
+    refetchInterval: (query) => !connected && isJobActive(query.state.data) ? 1500 : false,
+  });
+  
+  // Fetch the latest analysis if contract is loaded
   const { 
-    data: analysis, 
+    data: latestAnalysis, 
     isLoading: isLoadingAnalysis 
   } = useQuery<Analysis>({
     queryKey: [`/api/analysis/contract/${contractId}`],
     enabled: !!contractId,
   });
   
+  // Every analysis run of the contract, newest first
+  const { data: analysisHistory } = useQuery<Analysis[]>({
+    queryKey: [`/api/analysis/contract/${contractId}/history`],
+    enabled: !!contractId,
+  });
+  
+  const analysis = analysisHistory?.find((run) => run.id === analysisId) ?? latestAnalysis;
+  const compareAnalysis = analysisHistory?.find((run) => run.id === compareAnalysisId);
+  
   // Fetch risky clauses if analysis is loaded
   const { 
     data: riskyClauses, 
@@ -69,30 +141,103 @@ export default function Analyzer() {
     enabled: !!analysis?.id,
   });
   
+  const { data: compareRiskyClauses } = useQuery<RiskyClauseType[]>({
+    queryKey: [`/api/risky-clauses/analysis/${compareAnalysisId}`],
+    enabled: !!compareAnalysisId,
+  });
+  
+  // Placeholders and other unfinished drafting the analysis found
+  const { data: blankFields } = useQuery<BlankField[]>({
+    queryKey: [`/api/blank-fields/analysis/${analysis?.id}`],
+    enabled: !!analysis?.id,
+  });
+  
+  // Parties, dates, periods and other key terms read from the contract
+  const { data: contractTerms } = useQuery<ContractTerm[]>({
+    queryKey: [`/api/contract/${contractId}/terms`],
+    enabled: !!contractId && !!analysis?.id,
+  });
+  
+  // Segmented clauses give risky clauses a real section label
+  const { data: clauses } = useQuery<Clause[]>({
+    queryKey: [`/api/contract/${contractId}/clauses`],
+    enabled: !!contractId && !!analysis?.id,
+  });
+  
+  // Accepted and edited suggestions, applied to the contract text
+  const hasAcceptedSuggestions = !!riskyClauses?.some((clause) =>
+    clause.reviewStatus === ReviewStatus.ACCEPTED || clause.reviewStatus === ReviewStatus.EDITED
+  );
+  const { data: revisedText } = useQuery<RevisedText>({
+    queryKey: [`/api/analysis/${analysis?.id}/revised-text`],
+    enabled: !!analysis?.id && hasAcceptedSuggestions,
+  });
+  
+  const getClauseLabel = (riskyClause: RiskyClauseType) => {
+    const clause = clauses?.find((candidate) =>
+      riskyClause.clauseId ? candidate.id === riskyClause.clauseId : candidate.position === riskyClause.clauseIndex
+    );
+    return clause ? describeClause(clause) : `Section ${riskyClause.clauseIndex + 1}`;
+  };
+  
+  // Blank fields and key terms point at the clause they were found in
+  const getSourceClauseLabel = (found: Pick<BlankField, 'clauseId'>) => {
+    const clause = clauses?.find((candidate) => candidate.id === found.clauseId);
+    return clause ? describeClause(clause) : 'Preamble';
+  };
+  
   // Set form data if contract is loaded
   useEffect(() => {
     if (contract) {
       setContractName(contract.name);
       setContractType(contract.contractType || '');
-      setExtractedText(contract.originalText);
+      setContractTags(contract.tags.join(', '));
     }
   }, [contract]);
   
-  // Analyze contract mutation
+  // Resume following an analysis that is still queued or running
+  useEffect(() => {
+    const activeJob = contractJobs?.find(isJobActive);
+    if (activeJob) {
+      setJobId(activeJob.id);
+    }
+  }, [contractJobs]);
+  
+  // Show the new run once the job completes
+  useEffect(() => {
+    if (!job || isJobActive(job)) return;
+    
+    setJobId(null);
+    queryClient.invalidateQueries({ queryKey: [`/api/jobs/contract/${job.contractId}`] });
+    
+    if (job.status === JobStatus.COMPLETED) {
+      setAnalysisId((job.result as { analysisId: number }).analysisId);
+      setCompareAnalysisId(null);
+      toast({
+        title: "Analysis complete",
+        description: "Your contract has been analyzed successfully.",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/analysis/contract/${job.contractId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/analysis/contract/${job.contractId}/history`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/contract/${job.contractId}/terms`] });
+      // The contract's score changes with every analysis
+      queryClient.invalidateQueries({ queryKey: ['/api/contracts/user/' + user?.id] });
+    } else {
+      toast({
+        title: "Analysis failed",
+        description: job.error || "Failed to analyze contract. Please try again.",
+        variant: "destructive",
+      });
+    }
+  }, [job]);
+  
+  // Analyze contract mutation - queues the analysis and returns its job
   const analyzeMutation = useMutation({
-    mutationFn: async (data: { contractId: number, text: string, contractType: string }) => {
-      setIsAnalyzing(true);
-      return apiRequest('POST', '/api/analyze-contract', data);
+    mutationFn: async (data: { contractId: number, contractType: string, playbookId?: number }) => {
+      return analysisApi.analyzeContract(data.contractId, data.contractType, data.playbookId);
     },
-    onSuccess: (response) => {
-      response.json().then((data: Analysis) => {
-        setAnalysisId(data.id);
-        toast({
-          title: "Analysis complete",
-          description: "Your contract has been analyzed successfully.",
-        });
-        queryClient.invalidateQueries({ queryKey: [`/api/analysis/contract/${contractId}`] });
-      });
+    onSuccess: (queued) => {
+      setJobId(queued.id);
     },
     onError: (error) => {
       toast({
@@ -101,59 +246,128 @@ export default function Analyzer() {
         variant: "destructive",
       });
       console.error(error);
+    }
+  });
+  
+  const isAnalyzing = analyzeMutation.isPending || !!jobId;
+  
+  // Review a risky clause's suggestion; the revised text follows the new decision
+  const reviewMutation = useMutation({
+    mutationFn: async (data: { riskyClauseId: number, status: ReviewStatusType, editedSuggestion?: string }) => {
+      return analysisApi.reviewRiskyClause(data.riskyClauseId, data.status, data.editedSuggestion);
     },
-    onSettled: () => {
-      setIsAnalyzing(false);
+    onSuccess: (updated) => {
+      queryClient.setQueryData<RiskyClauseType[]>(
+        [`/api/risky-clauses/analysis/${updated.analysisId}`],
+        (current) => current?.map((clause) => clause.id === updated.id ? updated : clause)
+      );
+      queryClient.invalidateQueries({ queryKey: [`/api/analysis/${updated.analysisId}/revised-text`] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Review failed",
+        description: "Failed to update the clause. Please try again.",
+        variant: "destructive",
+      });
+      console.error(error);
     }
   });
   
-  // Create contract mutation
-  const createContractMutation = useMutation({
-    mutationFn: async (data: { 
-      userId: number, 
-      name: string, 
-      fileType: string,
-      originalText: string,
-      contractType: string,
-      riskScore: string
-    }) => {
-      return apiRequest('POST', '/api/contract', data);
+  // Fill in blank fields; the filled text is saved as a new version and its changes re-analysed
+  const fillBlanksMutation = useMutation({
+    mutationFn: async (data: { analysisId: number, fills: FillBlankFields['fills'] }) => {
+      return analysisApi.fillBlankFields(data.analysisId, data.fills);
     },
-    onSuccess: (response) => {
-      response.json().then((data) => {
-        setContractId(data.id);
-        // After contract is created, analyze it
-        analyzeMutation.mutate({
-          contractId: data.id,
-          text: extractedText,
-          contractType
-        });
+    onSuccess: ({ contract: updated, version, job: queued }, { analysisId }) => {
+      setJobId(queued.id);
+      queryClient.invalidateQueries({ queryKey: [`/api/blank-fields/analysis/${analysisId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/contract/${updated.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/contract/${updated.id}/clauses`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/contract/${updated.id}/versions`] });
+      toast({
+        title: "Blanks filled in",
+        description: `Saved as version ${version.version}. The changed text is being analyzed again.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Fill in failed",
+        description: "Failed to fill in the blanks. Please try again.",
+        variant: "destructive",
+      });
+      console.error(error);
+    }
+  });
+  
+  // Upload contract mutation - the server extracts the text and stores the file
+  const uploadContractMutation = useMutation({
+    mutationFn: async (data: { file: File, name: string, contractType: string }) => {
+      return contractApi.uploadContract(data.file, data.name, data.contractType);
+    },
+    onSuccess: ({ contract }) => {
+      setContractId(contract.id);
+      queryClient.invalidateQueries({ queryKey: ['/api/contracts/user/' + user?.id] });
+      // After contract is created, analyze it
+      analyzeMutation.mutate({
+        contractId: contract.id,
+        contractType,
+        playbookId: playbookId ? parseInt(playbookId) : undefined
       });
     },
     onError: (error) => {
+      const description = error instanceof UploadError
+        ? error.message
+        : "Failed to upload contract. Please try again.";
+      setUploadError(description);
       toast({
         title: "Upload failed",
-        description: "Failed to create contract. Please try again.",
+        description,
         variant: "destructive",
       });
       console.error(error);
     }
   });
   
-  // Handle file selection
-  const handleFileSelect = async (file: File) => {
-    setSelectedFile(file);
-    try {
-      const text = await extractTextFromFile(file);
-      setExtractedText(text);
-    } catch (error) {
+  // Tags group contracts, e.g. for asking questions across all vendor agreements
+  const updateTagsMutation = useMutation({
+    mutationFn: (tags: string[]) => contractApi.updateContract(contractId!, { tags }),
+    onSuccess: (updated) => {
+      queryClient.setQueryData([`/api/contract/${updated.id}`], updated);
+      queryClient.invalidateQueries({ queryKey: ['/api/contracts/user/' + user?.id] });
+    },
+    onError: (error) => {
       toast({
-        title: "Error extracting text",
-        description: "Failed to extract text from file. Please try another file.",
+        title: "Error",
+        description: "Failed to save tags. Please try again.",
         variant: "destructive",
       });
       console.error(error);
     }
+  });
+  
+  const handleTagsBlur = () => {
+    const tags = contractTags.split(',').map((tag) => tag.trim()).filter(Boolean);
+    if (contract && tags.join(',') !== contract.tags.join(',')) {
+      updateTagsMutation.mutate(tags);
+    }
+  };
+  
+  // A new draft replaces the contract text; analyse it so its findings can be compared
+  const handleVersionUploaded = (updated: Contract) => {
+    queryClient.invalidateQueries({ queryKey: [`/api/contract/${updated.id}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/contract/${updated.id}/clauses`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/contract/${updated.id}/diff`] });
+    analyzeMutation.mutate({
+      contractId: updated.id,
+      contractType: updated.contractType || contractType,
+      playbookId: playbookId ? parseInt(playbookId) : undefined
+    });
+  };
+  
+  // Handle file selection
+  const handleFileSelect = (file: File) => {
+    setSelectedFile(file);
+    setUploadError(null);
   };
   
   // Handle form submission
@@ -169,21 +383,12 @@ export default function Analyzer() {
       return;
     }
     
-    if (!extractedText) {
-      toast({
-        title: "No contract text",
-        description: "Please upload a contract file or select an existing contract.",
-        variant: "destructive",
-      });
-      return;
-    }
-    
     if (contractId) {
       // If contract already exists, just analyze it
       analyzeMutation.mutate({
         contractId,
-        text: extractedText,
-        contractType
+        contractType,
+        playbookId: playbookId ? parseInt(playbookId) : undefined
       });
     } else {
       // Otherwise create a new contract first
@@ -196,23 +401,21 @@ export default function Analyzer() {
         return;
       }
       
-      // Create new contract
-      createContractMutation.mutate({
-        userId: user?.id!,
+      // Upload the file and create the contract
+      uploadContractMutation.mutate({
+        file: selectedFile,
         name: contractName,
-        fileType: selectedFile.name.split('.').pop() || 'txt',
-        originalText: extractedText,
-        contractType,
-        riskScore: 'medium' // Default risk score, will be updated after analysis
+        contractType
       });
     }
   };
   
   // Check if analysis is complete
   const isAnalysisComplete = !!analysis;
+  const fullAnalysis = analysis?.fullAnalysis as { riskReason?: string } | undefined;
   
   // Process analysis data
-  const summaryPoints = analysis?.summary?.map((point: string) => {
+  const summaryPoints = (analysis?.summary as string[] | undefined)?.map((point) => {
     // Simple heuristic to determine point status based on content
     const lowerPoint = point.toLowerCase();
     if (lowerPoint.includes('risk') || lowerPoint.includes('concern') || lowerPoint.includes('excessive') || lowerPoint.includes('broad')) {
@@ -232,75 +435,124 @@ export default function Analyzer() {
       </div>
       
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-        {/* Upload Form */}
-        <Card>
-          <CardContent className="pt-6">
-            <h2 className="text-lg font-semibold mb-4">Upload Contract</h2>
+        <div className="space-y-6">
+          {/* Upload Form */}
+          <Card>
+            <CardContent className="pt-6">
+              <h2 className="text-lg font-semibold mb-4">Upload Contract</h2>
             
-            <form onSubmit={handleSubmit}>
-              <div className="mb-4">
-                <Label htmlFor="contract-name">Contract Name</Label>
-                <Input 
-                  id="contract-name" 
-                  value={contractName}
-                  onChange={(e) => setContractName(e.target.value)}
-                  placeholder="E.g., Client Service Agreement" 
-                  className="mt-1"
-                />
-              </div>
+              <form onSubmit={handleSubmit}>
+                <div className="mb-4">
+                  <Label htmlFor="contract-name">Contract Name</Label>
+                  <Input 
+                    id="contract-name" 
+                    value={contractName}
+                    onChange={(e) => setContractName(e.target.value)}
+                    placeholder="E.g., Client Service Agreement" 
+                    className="mt-1"
+                  />
+                </div>
               
-              <div className="mb-4">
-                <Label htmlFor="contract-type">Contract Type</Label>
-                <Select value={contractType} onValueChange={setContractType}>
-                  <SelectTrigger className="mt-1">
-                    <SelectValue placeholder="Select contract type" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectGroup>
-                      <SelectItem value="nda">Non-Disclosure Agreement (NDA)</SelectItem>
-                      <SelectItem value="employment">Employment Contract</SelectItem>
-                      <SelectItem value="service">Service Agreement</SelectItem>
-                      <SelectItem value="license">License Agreement</SelectItem>
-                      <SelectItem value="lease">Lease Agreement</SelectItem>
-                      <SelectItem value="other">Other</SelectItem>
-                    </SelectGroup>
-                  </SelectContent>
-                </Select>
-              </div>
+                <div className="mb-4">
+                  <Label htmlFor="contract-type">Contract Type</Label>
+                  <Select value={contractType} onValueChange={setContractType}>
+                    <SelectTrigger className="mt-1">
+                      <SelectValue placeholder="Select contract type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectGroup>
+                        <SelectItem value="nda">Non-Disclosure Agreement (NDA)</SelectItem>
+                        <SelectItem value="employment">Employment Contract</SelectItem>
+                        <SelectItem value="service">Service Agreement</SelectItem>
+                        <SelectItem value="license">License Agreement</SelectItem>
+                        <SelectItem value="lease">Lease Agreement</SelectItem>
+                        <SelectItem value="other">Other</SelectItem>
+                      </SelectGroup>
+                    </SelectContent>
+                  </Select>
+                </div>
               
-              <div className="mb-6">
-                <Label>Upload File</Label>
-                <FileUpload 
-                  id="contract-file"
-                  onFileSelect={handleFileSelect}
-                  className="mt-1"
-                />
-              </div>
+                {contract && (
+                  <div className="mb-4">
+                    <Label htmlFor="contract-tags">
+                      Tags <span className="text-gray-500 text-xs">(comma separated)</span>
+                    </Label>
+                    <Input
+                      id="contract-tags"
+                      value={contractTags}
+                      onChange={(e) => setContractTags(e.target.value)}
+                      onBlur={handleTagsBlur}
+                      placeholder="E.g., vendor, renewal-q1"
+                      className="mt-1"
+                    />
+                  </div>
+                )}
+              
+                {playbooks && playbooks.length > 1 && (
+                  <div className="mb-4">
+                    <Label htmlFor="playbook">Playbook</Label>
+                    <Select value={playbookId} onValueChange={setPlaybookId}>
+                      <SelectTrigger className="mt-1">
+                        <SelectValue placeholder="Standard playbook" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectGroup>
+                          {playbooks.map((playbook) => (
+                            <SelectItem key={playbook.id} value={playbook.id.toString()}>
+                              {playbook.name} (v{playbook.currentVersion})
+                            </SelectItem>
+                          ))}
+                        </SelectGroup>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
               
-              <div className="flex justify-end">
-                <Button 
-                  type="submit" 
-                  disabled={isAnalyzing || isLoadingAnalysis || (!selectedFile && !contractId)}
-                >
-                  {isAnalyzing ? 'Analyzing...' : 'Analyze Contract'}
-                </Button>
-              </div>
-            </form>
-          </CardContent>
-        </Card>
+                <div className="mb-6">
+                  <Label>Upload File</Label>
+                  <FileUpload 
+                    id="contract-file"
+                    onFileSelect={handleFileSelect}
+                    error={uploadError}
+                    className="mt-1"
+                  />
+                </div>
+              
+                <div className="flex justify-end">
+                  <Button 
+                    type="submit" 
+                    disabled={isAnalyzing || isLoadingAnalysis || uploadContractMutation.isPending || (!selectedFile && !contractId)}
+                  >
+                    {uploadContractMutation.isPending ? 'Uploading...' : isAnalyzing ? 'Analyzing...' : 'Analyze Contract'}
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        
+          {/* Drafts of the contract during negotiation */}
+          {contract && (
+            <ContractVersions
+              contractId={contract.id}
+              onVersionUploaded={handleVersionUploaded}
+            />
+          )}
+        </div>
         
         {/* Analysis Results */}
         <div className="space-y-6">
+          {/* Progress of a running analysis */}
+          {isAnalyzing && <AnalysisProgress job={job} />}
+          
           {/* Loading State */}
-          {(isAnalyzing || (isLoadingAnalysis && !isAnalysisComplete)) && (
+          {!isAnalyzing && isLoadingAnalysis && !isAnalysisComplete && (
             <Card>
               <CardContent className="py-8 text-center">
                 <LoadingSpinner 
                   size="lg" 
-                  label="Analyzing your contract..." 
+                  label="Loading analysis..." 
                   className="py-8"
                 />
-                <p className="text-gray-500 text-sm mt-2">This usually takes 15-30 seconds</p>
               </CardContent>
             </Card>
           )}
@@ -308,52 +560,30 @@ export default function Analyzer() {
           {/* Results */}
           {isAnalysisComplete && (
             <>
+              {/* Earlier runs of this contract */}
+              {analysisHistory && analysisHistory.length > 1 && (
+                <AnalysisHistory
+                  runs={analysisHistory}
+                  selected={analysis}
+                  compareTo={compareAnalysis}
+                  riskyClauses={riskyClauses}
+                  compareRiskyClauses={compareRiskyClauses}
+                  onSelect={(id) => {
+                    setAnalysisId(id);
+                    if (id === compareAnalysisId) setCompareAnalysisId(null);
+                  }}
+                  onCompare={setCompareAnalysisId}
+                  getClauseLabel={getClauseLabel}
+                />
+              )}
+              
               {/* Risk Score */}
-              <Card>
-                <CardContent className="pt-6">
-                  <h2 className="text-lg font-semibold mb-4">Risk Assessment</h2>
-                  
-                  <div className="flex items-center mb-4">
-                    <div className={`w-16 h-16 rounded-full flex items-center justify-center mr-4 ${
-                      analysis.fullAnalysis.riskLevel === 'high' ? 'bg-red-100' : 
-                      analysis.fullAnalysis.riskLevel === 'medium' ? 'bg-yellow-100' : 
-                      'bg-green-100'
-                    }`}>
-                      <AlertTriangle className={`text-2xl ${
-                        analysis.fullAnalysis.riskLevel === 'high' ? 'text-red-500' : 
-                        analysis.fullAnalysis.riskLevel === 'medium' ? 'text-yellow-500' : 
-                        'text-green-500'
-                      }`} />
-                    </div>
-                    <div>
-                      <h3 className={`text-xl font-bold ${
-                        analysis.fullAnalysis.riskLevel === 'high' ? 'text-red-500' : 
-                        analysis.fullAnalysis.riskLevel === 'medium' ? 'text-yellow-500' : 
-                        'text-green-500'
-                      }`}>
-                        {analysis.fullAnalysis.riskLevel === 'high' ? 'High Risk' : 
-                         analysis.fullAnalysis.riskLevel === 'medium' ? 'Medium Risk' : 
-                         'Low Risk'}
-                      </h3>
-                      <p className="text-gray-600">{analysis.fullAnalysis.riskReason}</p>
-                    </div>
-                  </div>
-                  
-                  <div className="h-2 w-full bg-gray-200 rounded-full overflow-hidden">
-                    <div className={`h-full ${
-                      analysis.fullAnalysis.riskLevel === 'high' ? 'bg-red-500 w-[90%]' : 
-                      analysis.fullAnalysis.riskLevel === 'medium' ? 'bg-yellow-500 w-[65%]' : 
-                      'bg-green-500 w-[30%]'
-                    }`}></div>
-                  </div>
-                  
-                  <div className="flex justify-between text-xs text-gray-500 mt-1">
-                    <span>Low Risk</span>
-                    <span>Medium Risk</span>
-                    <span>High Risk</span>
-                  </div>
-                </CardContent>
-              </Card>
+              <RiskScoreCard
+                score={analysis.riskScore}
+                level={analysis.riskLevel}
+                reason={fullAnalysis?.riskReason}
+                breakdown={analysis.scoreBreakdown as ScoreBreakdown | null}
+              />
               
               {/* Key Points */}
               <ResultsSummary points={summaryPoints} />
@@ -372,10 +602,17 @@ export default function Analyzer() {
                       {riskyClauses.map((clause) => (
                         <RiskyClause
                           key={clause.id}
-                          sectionTitle={`Section ${clause.clauseIndex + 1}`}
+                          sectionTitle={getClauseLabel(clause)}
                           clauseText={clause.clauseText}
                           riskLevel={clause.riskLevel}
                           suggestion={clause.suggestion || ''}
+                          reviewStatus={clause.reviewStatus}
+                          editedSuggestion={clause.editedSuggestion}
+                          reviewedAt={clause.reviewedAt}
+                          onReview={(status, editedSuggestion) =>
+                            reviewMutation.mutate({ riskyClauseId: clause.id, status, editedSuggestion })
+                          }
+                          isReviewing={reviewMutation.isPending && reviewMutation.variables?.riskyClauseId === clause.id}
                         />
                       ))}
                     </div>
@@ -385,13 +622,48 @@ export default function Analyzer() {
                     </p>
                   )}
                   
-                  <div className="mt-6">
-                    <Button variant="outline">
-                      <Download className="mr-2 h-4 w-4" /> Download Full Report
+                  <div className="mt-6 flex flex-wrap gap-3">
+                    <Button variant="outline" asChild>
+                      <a href={`/api/analysis/${analysis.id}/report.pdf`} download>
+                        <Download className="mr-2 h-4 w-4" /> Download Full Report
+                      </a>
                     </Button>
+                    {hasAcceptedSuggestions && (
+                      <Button variant="outline" asChild>
+                        <a href={`/api/analysis/${analysis.id}/redline.docx`} download>
+                          <Download className="mr-2 h-4 w-4" /> Download Redline (Word)
+                        </a>
+                      </Button>
+                    )}
                   </div>
                 </CardContent>
               </Card>
+              
+              {/* Unfilled placeholders, blank signature lines and other unfinished drafting */}
+              {blankFields && blankFields.length > 0 && (
+                <BlankFields
+                  key={analysis.id}
+                  blankFields={blankFields}
+                  getClauseLabel={getSourceClauseLabel}
+                  canFill={!isAnalyzing && (analysis.contractVersion === null || analysis.contractVersion === contract?.currentVersion)}
+                  isFilling={fillBlanksMutation.isPending}
+                  onFill={(fills) => fillBlanksMutation.mutate({ analysisId: analysis.id, fills })}
+                />
+              )}
+              
+              {/* Key terms, editable */}
+              {contractTerms && (
+                <KeyTerms
+                  contractId={analysis.contractId}
+                  terms={contractTerms}
+                  getClauseLabel={getSourceClauseLabel}
+                />
+              )}
+              
+              {/* Contract text with the accepted suggestions applied */}
+              {hasAcceptedSuggestions && revisedText && (
+                <RevisedContract revised={revisedText} />
+              )}
             </>
           )}
         </div>
@@ -0,0 +1,202 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useSearch } from 'wouter';
+import { useAuth } from '@/hooks/use-auth';
+
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger
+} from '@/components/ui/accordion';
+import LoadingSpinner from '@/components/ui/loading-spinner';
+import { contractApi } from '@/services/api';
+import { Contract } from '@shared/schema';
+import {
+  CLAUSE_TOPIC_LABELS,
+  ComparisonStatus,
+  type ClauseComparison,
+  type ComparedClause,
+  type ComparisonStatusType,
+  type ContractComparison
+} from '@shared/compare';
+
+const STATUS_STYLES: Record<ComparisonStatusType, { label: string; className: string }> = {
+  [ComparisonStatus.MATCHING]: { label: 'Matching', className: 'bg-green-100 text-green-800 hover:bg-green-100' },
+  [ComparisonStatus.DIFFERENT]: { label: 'Different', className: 'bg-yellow-100 text-yellow-800 hover:bg-yellow-100' },
+  [ComparisonStatus.MISSING]: { label: 'Missing', className: 'bg-red-100 text-red-800 hover:bg-red-100' },
+  [ComparisonStatus.EXTRA]: { label: 'Extra', className: 'bg-blue-100 text-blue-800 hover:bg-blue-100' },
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const parseId = (value: string | null) => (value && /^\d+$/.test(value) ? parseInt(value) : null);
+
+function ClauseText({ title, clause }: { title: string; clause: ComparedClause | null }) {
+  return (
+    <div>
+      <p className="text-xs font-semibold text-gray-500 uppercase mb-1">{title}</p>
+      {clause ? (
+        <div className="rounded-md border p-3 max-h-80 overflow-y-auto">
+          <p className="text-xs text-gray-500 mb-1">{clause.label}</p>
+          <p className="whitespace-pre-wrap text-sm text-gray-800">{clause.text}</p>
+        </div>
+      ) : (
+        <p className="rounded-md border border-dashed p-3 text-sm text-gray-500">No matching clause.</p>
+      )}
+    </div>
+  );
+}
+
+function ComparisonRow({ comparison, value, names }: {
+  comparison: ClauseComparison;
+  value: string;
+  names: { base: string; other: string };
+}) {
+  const style = STATUS_STYLES[comparison.status];
+  const side = comparison.base ?? comparison.other;
+
+  return (
+    <AccordionItem value={value}>
+      <AccordionTrigger className="hover:no-underline">
+        <div className="flex flex-1 flex-wrap items-center gap-3 text-left pr-4">
+          <Badge className={style.className}>{style.label}</Badge>
+          <span className="font-medium text-gray-900">{CLAUSE_TOPIC_LABELS[comparison.topic]}</span>
+          <span className="text-sm text-gray-500">
+            {comparison.base && comparison.other
+              ? `${comparison.base.label} ↔ ${comparison.other.label}`
+              : side?.label}
+          </span>
+          {comparison.similarity !== null && (
+            <span className="ml-auto text-sm text-gray-600">{percent(comparison.similarity)} similar</span>
+          )}
+        </div>
+      </AccordionTrigger>
+      <AccordionContent>
+        {comparison.changedFigures.length > 0 && (
+          <p className="text-sm text-yellow-700 mb-3">
+            Figures that differ: {comparison.changedFigures.join(', ')}
+          </p>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <ClauseText title={names.base} clause={comparison.base} />
+          <ClauseText title={names.other} clause={comparison.other} />
+        </div>
+      </AccordionContent>
+    </AccordionItem>
+  );
+}
+
+export default function Compare() {
+  const { user } = useAuth();
+  const params = new URLSearchParams(useSearch());
+
+  const [baseId, setBaseId] = useState<number | null>(parseId(params.get('base')));
+  const [otherId, setOtherId] = useState<number | null>(parseId(params.get('other')));
+
+  const { data: contracts } = useQuery<Contract[]>({
+    queryKey: ['/api/contracts/user/' + user?.id],
+    enabled: !!user?.id,
+  });
+
+  const { data: comparison, isLoading, isError } = useQuery<ContractComparison>({
+    queryKey: ['/api/compare', baseId, otherId],
+    queryFn: () => contractApi.compareContracts(baseId!, otherId!),
+    enabled: baseId !== null && otherId !== null && baseId !== otherId,
+  });
+
+  return (
+    <div className="p-6">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900">Compare Contracts</h1>
+        <p className="text-gray-600">
+          Check a counterparty's paper against your own, clause by clause
+        </p>
+      </div>
+
+      <Card className="mb-6">
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {([
+              ['Our contract', baseId, setBaseId],
+              ['Compare with', otherId, setOtherId],
+            ] as const).map(([label, value, setValue]) => (
+              <div key={label}>
+                <Label>{label}</Label>
+                <Select
+                  value={value?.toString() ?? ''}
+                  onValueChange={(selected) => setValue(parseInt(selected))}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue placeholder="Select contract" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectGroup>
+                      {contracts?.map((contract) => (
+                        <SelectItem key={contract.id} value={contract.id.toString()}>
+                          {contract.name}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {baseId === null || otherId === null || baseId === otherId ? (
+        <p className="text-sm text-gray-500">Pick two different contracts to compare.</p>
+      ) : isLoading ? (
+        <LoadingSpinner />
+      ) : isError || !comparison ? (
+        <p className="text-sm text-red-600">Failed to compare the contracts. Please try again.</p>
+      ) : (
+        <Card>
+          <CardContent className="pt-6 space-y-6">
+            <div className="flex flex-wrap items-center gap-4">
+              <div>
+                <p className="text-sm text-gray-500">Overall similarity</p>
+                <p className="text-2xl font-bold text-gray-900">{percent(comparison.similarity)}</p>
+              </div>
+              <div className="flex flex-wrap gap-2 ml-auto">
+                {Object.values(ComparisonStatus).map((status) => (
+                  <Badge key={status} className={STATUS_STYLES[status].className}>
+                    {comparison.counts[status]} {STATUS_STYLES[status].label.toLowerCase()}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            {comparison.clauses.length === 0 ? (
+              <p className="text-sm text-gray-500">Neither contract has clauses to compare.</p>
+            ) : (
+              <Accordion type="multiple">
+                {comparison.clauses.map((clause, index) => (
+                  <ComparisonRow
+                    key={index}
+                    value={index.toString()}
+                    comparison={clause}
+                    names={{ base: comparison.base.name, other: comparison.other.name }}
+                  />
+                ))}
+              </Accordion>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
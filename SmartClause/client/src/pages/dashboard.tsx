@@ -2,7 +2,8 @@ import { useState } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
-import { apiRequest } from '@/lib/queryClient';
+import { useRealtime } from '@/hooks/use-realtime';
+import { apiRequest, queryClient } from '@/lib/queryClient';
 import { Link, useLocation } from 'wouter';
 
 import { Card, CardContent } from '@/components/ui/card';
@@ -10,6 +11,7 @@ import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import ContractCard from '@/components/shared/ContractCard';
 import { FileText, AlertTriangle, PieChart } from 'lucide-react';
+import { analysisApi } from '@/services/api';
 import { Contract } from '@shared/schema';
 
 export default function Dashboard() {
@@ -28,6 +30,13 @@ export default function Dashboard() {
     enabled: !!user?.id,
   });
 
+  // Refresh the list when a contract is added, edited, re-scored or deleted elsewhere
+  useRealtime((event) => {
+    if (event.type === 'contracts.changed') {
+      queryClient.invalidateQueries({ queryKey: ['/api/contracts/user/' + user?.id] });
+    }
+  });
+
   // Delete contract mutation
   const deleteMutation = useMutation({
     mutationFn: async (contractId: number) => {
@@ -55,25 +64,36 @@ export default function Dashboard() {
     setLocation(`/analyzer?contractId=${id}`);
   };
 
+  // Compare the contract, as the base, with another one picked on the compare page
+  const handleCompareContract = (id: number) => {
+    setLocation(`/compare?base=${id}`);
+  };
+
   const handleDeleteContract = (id: number) => {
     if (window.confirm('Are you sure you want to delete this contract?')) {
       deleteMutation.mutate(id);
     }
   };
 
-  // Mock download function (would be implemented with actual file download in production)
-  const handleDownloadContract = (id: number) => {
-    toast({
-      title: "Download started",
-      description: "Your contract is being downloaded.",
-    });
+  // Download the PDF report of the contract's latest analysis
+  const handleDownloadContract = async (id: number) => {
+    try {
+      const analysis = await analysisApi.getAnalysisByContractId(id);
+      window.location.assign(`/api/analysis/${analysis.id}/report.pdf`);
+    } catch (error) {
+      toast({
+        title: "No report available",
+        description: "Analyze the contract first to download its report.",
+        variant: "destructive",
+      });
+    }
   };
 
   // Calculate stats
   const totalContracts = contracts?.length || 0;
-  const highRiskContracts = contracts?.filter(c => c.riskScore === 'high').length || 0;
-  const mediumRiskContracts = contracts?.filter(c => c.riskScore === 'medium').length || 0;
-  const lowRiskContracts = contracts?.filter(c => c.riskScore === 'low').length || 0;
+  const highRiskContracts = contracts?.filter(c => c.riskLevel === 'high').length || 0;
+  const mediumRiskContracts = contracts?.filter(c => c.riskLevel === 'medium').length || 0;
+  const lowRiskContracts = contracts?.filter(c => c.riskLevel === 'low').length || 0;
 
   return (
     <div className="p-6">
@@ -193,11 +213,13 @@ export default function Dashboard() {
                     name={contract.name}
                     date={contract.uploadedAt}
                     riskScore={contract.riskScore}
+                    riskLevel={contract.riskLevel}
                     contractType={contract.contractType || ''}
                     fileType={contract.fileType}
                     onView={handleViewContract}
                     onDownload={handleDownloadContract}
                     onDelete={handleDeleteContract}
+                    onCompare={handleCompareContract}
                   />
                 ))}
               </tbody>
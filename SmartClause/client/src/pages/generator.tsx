@@ -1,6 +1,7 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useMutation, useQuery } from '@tanstack/react-query';
-import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Link } from 'wouter';
+import { apiRequest } from '@/lib/queryClient';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
 
@@ -19,17 +20,11 @@ import { Textarea } from '@/components/ui/textarea';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import LoadingSpinner from '@/components/ui/loading-spinner';
 import ClauseEditor from '@/components/clause/ClauseEditor';
-import { formatDate } from '@/lib/utils';
+import AddToContractDialog from '@/components/clause/AddToContractDialog';
+import { CLAUSE_TYPE_OPTIONS, TONE_OPTIONS, clauseTypeLabel } from '@/lib/clause-options';
+import { clauseApi } from '@/services/api';
 import { SavedClause } from '@shared/schema';
-import { Edit, Trash } from 'lucide-react';
-
-// Tone options for clauses
-const toneOptions = [
-  { id: 'formal', label: 'Formal' },
-  { id: 'friendly', label: 'Friendly' },
-  { id: 'neutral', label: 'Neutral' },
-  { id: 'aggressive', label: 'Aggressive' },
-];
+import { Library } from 'lucide-react';
 
 export default function Generator() {
   const { user } = useAuth();
@@ -45,10 +40,12 @@ export default function Generator() {
   const [generatedClause, setGeneratedClause] = useState('');
   const [legalContext, setLegalContext] = useState('');
   
-  // Fetch user's saved clauses
+  // Edited clause text waiting for a place in a contract
+  const [clauseToAdd, setClauseToAdd] = useState<string | null>(null);
+  
+  // The user's clause library, for the count shown next to the link to it
   const { 
     data: savedClauses, 
-    isLoading: isLoadingSavedClauses,
     refetch: refetchSavedClauses 
   } = useQuery<SavedClause[]>({
     queryKey: ['/api/saved-clauses/user/' + user?.id],
@@ -84,20 +81,15 @@ export default function Generator() {
     }
   });
   
-  // Save clause mutation
+  // Save clause mutation; the clause can be titled, filed and tagged in the library
   const saveClauseMutation = useMutation({
-    mutationFn: async (data: { 
-      userId: number, 
-      clauseType: string, 
-      tone: string, 
-      content: string 
-    }) => {
-      return apiRequest('POST', '/api/saved-clause', data);
+    mutationFn: async (content: string) => {
+      return clauseApi.saveClause({ title: clauseTypeLabel(clauseType), clauseType, tone, content });
     },
     onSuccess: () => {
       toast({
         title: "Clause saved",
-        description: "The clause has been saved to your collection.",
+        description: "The clause has been added to your clause library.",
       });
       refetchSavedClauses();
     },
@@ -111,28 +103,6 @@ export default function Generator() {
     }
   });
   
-  // Delete saved clause mutation
-  const deleteClauseMutation = useMutation({
-    mutationFn: async (clauseId: number) => {
-      return apiRequest('DELETE', `/api/saved-clause/${clauseId}`);
-    },
-    onSuccess: () => {
-      toast({
-        title: "Clause deleted",
-        description: "The clause has been deleted from your collection.",
-      });
-      refetchSavedClauses();
-    },
-    onError: (error) => {
-      toast({
-        title: "Delete failed",
-        description: "Failed to delete clause. Please try again.",
-        variant: "destructive",
-      });
-      console.error(error);
-    }
-  });
-  
   // Handle form submission
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -183,19 +153,7 @@ export default function Generator() {
       return;
     }
     
-    saveClauseMutation.mutate({
-      userId: user.id,
-      clauseType,
-      tone,
-      content
-    });
-  };
-  
-  // Handle deleting a saved clause
-  const handleDeleteClause = (clauseId: number) => {
-    if (window.confirm('Are you sure you want to delete this clause?')) {
-      deleteClauseMutation.mutate(clauseId);
-    }
+    saveClauseMutation.mutate(content);
   };
 
   return (
@@ -220,14 +178,9 @@ export default function Generator() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectGroup>
-                      <SelectItem value="nda">Confidentiality / NDA</SelectItem>
-                      <SelectItem value="termination">Termination</SelectItem>
-                      <SelectItem value="payment">Payment Terms</SelectItem>
-                      <SelectItem value="ip">Intellectual Property</SelectItem>
-                      <SelectItem value="liability">Limitation of Liability</SelectItem>
-                      <SelectItem value="force-majeure">Force Majeure</SelectItem>
-                      <SelectItem value="non-compete">Non-Compete</SelectItem>
-                      <SelectItem value="dispute">Dispute Resolution</SelectItem>
+                      {CLAUSE_TYPE_OPTIONS.map((option) => (
+                        <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                      ))}
                     </SelectGroup>
                   </SelectContent>
                 </Select>
@@ -240,7 +193,7 @@ export default function Generator() {
                   onValueChange={setTone}
                   className="grid grid-cols-2 gap-3 mt-1"
                 >
-                  {toneOptions.map((option) => (
+                  {TONE_OPTIONS.map((option) => (
                     <div key={option.id} className="relative">
                       <RadioGroupItem
                         value={option.id}
@@ -308,68 +261,36 @@ export default function Generator() {
               legalContext={legalContext}
               onRegenerate={handleRegenerate}
               onSave={handleSaveClause}
+              onAddToContract={setClauseToAdd}
             />
           )}
           
-          {/* Saved Clauses */}
+          {clauseToAdd !== null && (
+            <AddToContractDialog
+              open
+              onOpenChange={(open) => !open && setClauseToAdd(null)}
+              content={clauseToAdd}
+              defaultHeading={clauseTypeLabel(clauseType)}
+            />
+          )}
+          
+          {/* Clause Library */}
           <Card>
-            <CardContent className="pt-6">
-              <h2 className="text-lg font-semibold mb-4">Saved Clauses</h2>
-              
-              {isLoadingSavedClauses ? (
-                <div className="py-4 flex justify-center">
-                  <LoadingSpinner />
-                </div>
-              ) : savedClauses && savedClauses.length > 0 ? (
-                <>
-                  {savedClauses.map((clause) => (
-                    <div key={clause.id} className="border-b border-gray-200 pb-3 mb-3">
-                      <div className="flex justify-between items-center mb-2">
-                        <h3 className="font-medium text-gray-900">{clause.clauseType}</h3>
-                        <div className="flex space-x-2">
-                          <Button 
-                            variant="ghost" 
-                            size="icon"
-                            className="text-gray-500 hover:text-gray-700"
-                            aria-label="Edit clause"
-                          >
-                            <Edit className="h-4 w-4" />
-                          </Button>
-                          <Button 
-                            variant="ghost" 
-                            size="icon"
-                            onClick={() => handleDeleteClause(clause.id)}
-                            className="text-red-500 hover:text-red-700"
-                            aria-label="Delete clause"
-                          >
-                            <Trash className="h-4 w-4" />
-                          </Button>
-                        </div>
-                      </div>
-                      <p className="text-sm text-gray-600 line-clamp-2">
-                        {clause.content.length > 120 
-                          ? `${clause.content.substring(0, 120)}...` 
-                          : clause.content}
-                      </p>
-                      <div className="mt-2 flex items-center text-xs text-gray-500">
-                        <span>Created: {formatDate(clause.createdAt)}</span>
-                        <span className="mx-2">•</span>
-                        <span className="text-primary-600">{clause.tone} tone</span>
-                      </div>
-                    </div>
-                  ))}
-                </>
-              ) : (
-                <div className="text-center mt-4">
-                  <p className="text-gray-500 text-sm">You don't have any saved clauses yet</p>
-                </div>
-              )}
-              
-              {savedClauses && savedClauses.length > 0 && (
-                <div className="text-center mt-4">
-                  <p className="text-gray-500 text-sm">You have {savedClauses.length} saved {savedClauses.length === 1 ? 'clause' : 'clauses'}</p>
-                </div>
-              )}
+            <CardContent className="pt-6 flex items-center justify-between">
+              <div>
+                <h2 className="text-lg font-semibold">Clause Library</h2>
+                <p className="text-gray-500 text-sm">
+                  {savedClauses && savedClauses.length > 0
+                    ? `You have ${savedClauses.length} saved ${savedClauses.length === 1 ? 'clause' : 'clauses'}`
+                    : "You don't have any saved clauses yet"}
+                </p>
+              </div>
+              <Button variant="outline" asChild>
+                <Link href="/library">
+                  <Library className="h-4 w-4 mr-2" />
+                  Open Library
+                </Link>
+              </Button>
             </CardContent>
           </Card>
         </div>
@@ -0,0 +1,402 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { queryClient } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import LoadingSpinner from '@/components/ui/loading-spinner';
+import SavedClauseForm, { type SavedClauseFormValues } from '@/components/library/SavedClauseForm';
+import SavedClauseHistory from '@/components/library/SavedClauseHistory';
+import { clauseApi, type SavedClauseFilters } from '@/services/api';
+import { CLAUSE_TYPE_OPTIONS, clauseTypeLabel } from '@/lib/clause-options';
+import { cn, formatDate, truncateText } from '@/lib/utils';
+import { SavedClause } from '@shared/schema';
+import { Copy, Edit, Folder, Plus, Search, Trash } from 'lucide-react';
+
+// Select value standing for "no filter", as Radix selects cannot hold an empty string
+const ANY = 'any';
+
+// Every folder in use, including the parents of nested ones, in path order
+function folderPaths(clauses: SavedClause[]): string[] {
+  const paths = new Set<string>();
+  clauses.forEach(({ folder }) => {
+    folder?.split('/').forEach((_, index, segments) => paths.add(segments.slice(0, index + 1).join('/')));
+  });
+  return Array.from(paths).sort();
+}
+
+// Distinct values ignoring case, keeping the first spelling seen
+function distinct(values: string[]): string[] {
+  const seen = new Map<string, string>();
+  values.forEach((value) => {
+    if (!seen.has(value.toLowerCase())) seen.set(value.toLowerCase(), value);
+  });
+  return Array.from(seen.values()).sort((a, b) => a.localeCompare(b));
+}
+
+export default function Library() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  // Search and filters
+  const [search, setSearch] = useState('');
+  const [filters, setFilters] = useState<SavedClauseFilters>({});
+  const setFilter = (name: keyof SavedClauseFilters, value: string | undefined) =>
+    setFilters((current) => ({ ...current, [name]: value }));
+
+  // Selected clause and whether it, or a new clause, is being edited
+  const [selected, setSelected] = useState<SavedClause | null>(null);
+  const [mode, setMode] = useState<'view' | 'edit' | 'create'>('view');
+
+  // Only search once the user pauses typing
+  useEffect(() => {
+    const timeout = setTimeout(() => setFilter('q', search.trim() || undefined), 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const libraryKey = '/api/saved-clauses/user/' + user?.id;
+
+  // The whole library, for the folder, tag and jurisdiction filters
+  const { data: allClauses } = useQuery<SavedClause[]>({
+    queryKey: [libraryKey],
+    enabled: !!user?.id,
+  });
+
+  const { data: clauses, isLoading } = useQuery<SavedClause[]>({
+    queryKey: [libraryKey, filters],
+    queryFn: () => clauseApi.getSavedClausesByUserId(user!.id, filters),
+    enabled: !!user?.id,
+  });
+
+  const folders = folderPaths(allClauses ?? []);
+  const tags = distinct((allClauses ?? []).flatMap((clause) => clause.tags));
+  const jurisdictions = distinct((allClauses ?? []).flatMap((clause) => clause.jurisdiction ? [clause.jurisdiction] : []));
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  const refreshLibrary = () => queryClient.invalidateQueries({ queryKey: [libraryKey] });
+
+  const showClause = (clause: SavedClause) => {
+    setSelected(clause);
+    setMode('view');
+    refreshLibrary();
+  };
+
+  const createMutation = useMutation({
+    mutationFn: ({ changeNote, ...values }: SavedClauseFormValues) => clauseApi.saveClause(values),
+    onSuccess: (clause) => {
+      showClause(clause);
+      toast({ title: "Clause added", description: "The clause has been added to your library." });
+    },
+    onError: (error) => {
+      toast({ title: "Save failed", description: "Failed to save clause. Please try again.", variant: "destructive" });
+      console.error(error);
+    }
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (values: SavedClauseFormValues) => clauseApi.updateSavedClause(selected!.id, values),
+    onSuccess: (clause) => {
+      showClause(clause);
+      toast({ title: "Clause updated", description: `Saved as version ${clause.currentVersion}.` });
+    },
+    onError: (error) => {
+      toast({ title: "Save failed", description: "Failed to update clause. Please try again.", variant: "destructive" });
+      console.error(error);
+    }
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (version: number) => clauseApi.restoreSavedClauseVersion(selected!.id, version),
+    onSuccess: (clause) => {
+      showClause(clause);
+      toast({ title: "Version restored", description: `The restored text is now version ${clause.currentVersion}.` });
+    },
+    onError: (error) => {
+      toast({ title: "Restore failed", description: "Failed to restore the version. Please try again.", variant: "destructive" });
+      console.error(error);
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (clauseId: number) => clauseApi.deleteSavedClause(clauseId),
+    onSuccess: () => {
+      setSelected(null);
+      refreshLibrary();
+      toast({ title: "Clause deleted", description: "The clause has been deleted from your library." });
+    },
+    onError: (error) => {
+      toast({ title: "Delete failed", description: "Failed to delete clause. Please try again.", variant: "destructive" });
+      console.error(error);
+    }
+  });
+
+  const handleDelete = (clause: SavedClause) => {
+    if (window.confirm('Are you sure you want to delete this clause and its history?')) {
+      deleteMutation.mutate(clause.id);
+    }
+  };
+
+  const handleCopy = (clause: SavedClause) => {
+    navigator.clipboard.writeText(clause.content);
+    toast({ title: "Copied", description: "The clause text is on your clipboard." });
+  };
+
+  return (
+    <div className="p-6">
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Clause Library</h1>
+          <p className="text-gray-600">Organise, search and reuse your approved clauses</p>
+        </div>
+        <Button onClick={() => { setSelected(null); setMode('create'); }}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Clause
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Search and filters */}
+        <Card className="h-fit">
+          <CardContent className="pt-6 space-y-5">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search titles, text, notes and tags"
+                className="pl-9"
+                aria-label="Search clauses"
+              />
+            </div>
+
+            <div>
+              <Label>Folder</Label>
+              <ul className="mt-1 text-sm">
+                <li>
+                  <button
+                    className={cn('w-full text-left px-2 py-1 rounded', !filters.folder ? 'bg-primary-50 text-primary-700' : 'hover:bg-gray-50')}
+                    onClick={() => setFilter('folder', undefined)}
+                  >
+                    All folders
+                  </button>
+                </li>
+                {folders.map((folder) => (
+                  <li key={folder}>
+                    <button
+                      className={cn(
+                        'w-full text-left px-2 py-1 rounded flex items-center',
+                        filters.folder === folder ? 'bg-primary-50 text-primary-700' : 'hover:bg-gray-50'
+                      )}
+                      style={{ paddingLeft: `${0.5 + (folder.split('/').length - 1)}rem` }}
+                      onClick={() => setFilter('folder', folder)}
+                    >
+                      <Folder className="h-4 w-4 mr-2 shrink-0" />
+                      {folder.split('/').pop()}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            {tags.length > 0 && (
+              <div>
+                <Label>Tags</Label>
+                <div className="mt-1 flex flex-wrap gap-2">
+                  {tags.map((tag) => (
+                    <Badge
+                      key={tag}
+                      variant={filters.tag === tag ? 'default' : 'outline'}
+                      className="cursor-pointer"
+                      onClick={() => setFilter('tag', filters.tag === tag ? undefined : tag)}
+                    >
+                      {tag}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <Label>Clause Type</Label>
+              <Select value={filters.clauseType ?? ANY} onValueChange={(value) => setFilter('clauseType', value === ANY ? undefined : value)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectGroup>
+                    <SelectItem value={ANY}>Any type</SelectItem>
+                    {CLAUSE_TYPE_OPTIONS.map((option) => (
+                      <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                    ))}
+                  </SelectGroup>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {jurisdictions.length > 0 && (
+              <div>
+                <Label>Jurisdiction</Label>
+                <Select value={filters.jurisdiction ?? ANY} onValueChange={(value) => setFilter('jurisdiction', value === ANY ? undefined : value)}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectGroup>
+                      <SelectItem value={ANY}>Any jurisdiction</SelectItem>
+                      {jurisdictions.map((jurisdiction) => (
+                        <SelectItem key={jurisdiction} value={jurisdiction}>{jurisdiction}</SelectItem>
+                      ))}
+                    </SelectGroup>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {hasFilters && (
+              <Button variant="ghost" size="sm" onClick={() => { setSearch(''); setFilters({}); }}>
+                Clear filters
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-2 space-y-6">
+          {mode === 'create' && (
+            <Card>
+              <CardContent className="pt-6">
+                <h2 className="text-lg font-semibold mb-4">New Clause</h2>
+                <SavedClauseForm
+                  isSaving={createMutation.isPending}
+                  onSubmit={(values) => createMutation.mutate(values)}
+                  onCancel={() => setMode('view')}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {selected && mode !== 'create' && (
+            <Card>
+              <CardContent className="pt-6 space-y-6">
+                {mode === 'edit' ? (
+                  <>
+                    <h2 className="text-lg font-semibold">Edit Clause</h2>
+                    <SavedClauseForm
+                      key={`${selected.id}-${selected.currentVersion}`}
+                      clause={selected}
+                      isSaving={updateMutation.isPending}
+                      onSubmit={(values) => updateMutation.mutate(values)}
+                      onCancel={() => setMode('view')}
+                    />
+                  </>
+                ) : (
+                  <div>
+                    <div className="flex justify-between items-start mb-2">
+                      <div>
+                        <h2 className="text-lg font-semibold text-gray-900">{selected.title || clauseTypeLabel(selected.clauseType)}</h2>
+                        <p className="text-sm text-gray-500">
+                          {clauseTypeLabel(selected.clauseType)} · {selected.tone} tone
+                          {selected.jurisdiction && ` · ${selected.jurisdiction}`}
+                          {selected.folder && ` · ${selected.folder}`}
+                        </p>
+                      </div>
+                      <div className="flex space-x-2">
+                        <Button variant="ghost" size="icon" onClick={() => handleCopy(selected)} aria-label="Copy clause">
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => setMode('edit')} aria-label="Edit clause">
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete(selected)}
+                          className="text-red-500 hover:text-red-700"
+                          aria-label="Delete clause"
+                        >
+                          <Trash className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    {selected.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mb-3">
+                        {selected.tags.map((tag) => <Badge key={tag} variant="secondary">{tag}</Badge>)}
+                      </div>
+                    )}
+                    <p className="whitespace-pre-wrap text-sm text-gray-800 border rounded-md p-4 bg-gray-50">{selected.content}</p>
+                    {selected.notes && (
+                      <p className="text-sm text-gray-600 mt-3"><span className="font-medium">Notes:</span> {selected.notes}</p>
+                    )}
+                  </div>
+                )}
+
+                <div>
+                  <h3 className="font-medium mb-3">History</h3>
+                  <SavedClauseHistory
+                    clause={selected}
+                    isRestoring={restoreMutation.isPending}
+                    onRestore={(version) => restoreMutation.mutate(version)}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardContent className="pt-6">
+              {isLoading || !clauses ? (
+                <div className="py-4 flex justify-center">
+                  <LoadingSpinner />
+                </div>
+              ) : clauses.length === 0 ? (
+                <p className="text-center text-gray-500 text-sm py-4">
+                  {hasFilters ? 'No clauses match your search.' : "You don't have any saved clauses yet."}
+                </p>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-500 mb-3">
+                    {clauses.length} {clauses.length === 1 ? 'clause' : 'clauses'}
+                  </p>
+                  {clauses.map((clause) => (
+                    <button
+                      key={clause.id}
+                      className={cn(
+                        'block w-full text-left border-b border-gray-200 py-3 last:border-0 hover:bg-gray-50 px-2 rounded',
+                        selected?.id === clause.id && 'bg-primary-50'
+                      )}
+                      onClick={() => { setSelected(clause); setMode('view'); }}
+                    >
+                      <div className="flex justify-between items-center">
+                        <h3 className="font-medium text-gray-900">{clause.title || clauseTypeLabel(clause.clauseType)}</h3>
+                        <span className="text-xs text-gray-500">v{clause.currentVersion}</span>
+                      </div>
+                      <p className="text-sm text-gray-600 mt-1">{truncateText(clause.content, 160)}</p>
+                      <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                        <span>{clauseTypeLabel(clause.clauseType)}</span>
+                        {clause.folder && <span>· {clause.folder}</span>}
+                        {clause.updatedAt && <span>· Updated {formatDate(clause.updatedAt)}</span>}
+                        {clause.tags.map((tag) => <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>)}
+                      </div>
+                    </button>
+                  ))}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
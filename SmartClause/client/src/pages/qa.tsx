@@ -1,14 +1,17 @@
 import { useState, useEffect, useRef } from 'react';
 import { useMutation, useQuery } from '@tanstack/react-query';
-import { apiRequest } from '@/lib/queryClient';
+import { queryClient } from '@/lib/queryClient';
+import { qaApi, UploadError } from '@/services/api';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
+import { useRealtime } from '@/hooks/use-realtime';
 
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { 
   Select, 
   SelectContent, 
@@ -19,22 +22,56 @@ import {
 } from '@/components/ui/select';
 import LoadingSpinner from '@/components/ui/loading-spinner';
 import FileUpload from '@/components/ui/file-upload';
+import RiskBadge from '@/components/ui/risk-badge';
 import ChatMessage from '@/components/qa/ChatMessage';
-import { Contract, Conversation, Message } from '@shared/schema';
-import { Layers, Upload } from 'lucide-react';
+import CitationViewer from '@/components/qa/CitationViewer';
+import PortfolioScopePicker from '@/components/qa/PortfolioScopePicker';
+import ConversationList from '@/components/qa/ConversationList';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AdHocDocument, Citation, Contract, Conversation, Message, PortfolioScope, PortfolioScopeType } from '@shared/schema';
+import { describePortfolioScope } from '@shared/conversations';
+import { FileText, Layers, Save, Square } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 
+// Questions go to one contract, across the contracts a portfolio scope covers,
+// or to a document uploaded or pasted without saving it as a contract
+type QAMode = 'contract' | 'portfolio' | 'document';
+
 export default function QA() {
   const { user } = useAuth();
   const { toast } = useToast();
   const chatContainerRef = useRef<HTMLDivElement>(null);
   
   // State
+  const [mode, setMode] = useState<QAMode>('contract');
+  const [portfolioScope, setPortfolioScope] = useState<PortfolioScope>({ type: PortfolioScopeType.ALL });
   const [selectedContractId, setSelectedContractId] = useState<string>('');
+  // Text pasted to ask about, sent with the first question
+  const [pastedName, setPastedName] = useState('');
+  const [pastedText, setPastedText] = useState('');
+  // Whether a document uploaded here is also saved as a contract
+  const [saveUpload, setSaveUpload] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
   const [question, setQuestion] = useState('');
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [conversation, setConversation] = useState<Conversation | null>(null);
+  // Set while the user starts a new thread, so the latest one is not opened instead
+  const [startingNew, setStartingNew] = useState(false);
+  // Answer being streamed for the question in flight
+  const [streamingAnswer, setStreamingAnswer] = useState('');
+  // Citations of the streamed answer, sent before it is saved
+  const [streamingCitations, setStreamingCitations] = useState<Citation[]>([]);
+  // Stops the answer being streamed
+  const answerControllerRef = useRef<AbortController | null>(null);
+  // Cited passage shown in the contract text
+  const [openCitation, setOpenCitation] = useState<Citation | null>(null);
+  
+  useRealtime((event) => {
+    if (event.type === 'contracts.changed') {
+      queryClient.invalidateQueries({ queryKey: ['/api/contracts/user/' + user?.id] });
+    }
+  });
   
   // Fetch user's contracts
   const { 
@@ -45,125 +82,194 @@ export default function QA() {
     enabled: !!user?.id,
   });
   
-  // Fetch conversations for selected contract
+  // Conversations about the selected contract, portfolio conversations or
+  // document conversations; pinned ones come first, then the most recently active
+  const conversationsKey = mode === 'contract'
+    ? `/api/conversations/contract/${selectedContractId}`
+    : mode === 'portfolio' ? '/api/conversations/portfolio' : '/api/conversations/documents';
   const { 
     data: conversations, 
-    isLoading: isLoadingConversations,
-    refetch: refetchConversations
+    isLoading: isLoadingConversations
   } = useQuery<Conversation[]>({
-    queryKey: [`/api/conversations/contract/${selectedContractId}`],
-    enabled: !!selectedContractId,
+    queryKey: [conversationsKey],
+    enabled: mode !== 'contract' || !!selectedContractId,
   });
   
-  // Set initial conversation or create a new one
+  // Open the first conversation of a contract unless a new one is being started
   useEffect(() => {
-    if (conversations && conversations.length > 0 && !conversation) {
+    if (mode === 'contract' && conversations && conversations.length > 0 && !conversation && !startingNew) {
       setConversation(conversations[0]);
-      setMessages(conversations[0].messages);
+      setMessages(conversations[0].messages as Message[]);
     }
-  }, [conversations, conversation]);
+  }, [mode, conversations, conversation, startingNew]);
   
-  // Create conversation mutation
-  const createConversationMutation = useMutation({
-    mutationFn: async (data: { userId: number, contractId: number, messages: Message[] }) => {
-      return apiRequest('POST', '/api/conversation', data);
+  // Ask question mutation; the answer streams in over Server-Sent Events
+  const askQuestionMutation = useMutation({
+    mutationFn: async (data: { conversationId: number, question: string }) => {
+      setIsLoading(true);
+      setStreamingAnswer('');
+      setStreamingCitations([]);
+      // Show the question straight away; the saved conversation replaces it when the answer is done
+      setMessages((current) => [...current, {
+        id: uuidv4(),
+        role: 'user',
+        content: data.question,
+        timestamp: new Date().toISOString()
+      }]);
+      setQuestion('');
+      
+      const controller = new AbortController();
+      answerControllerRef.current = controller;
+      return qaApi.streamMessage(data.conversationId, data.question, {
+        onToken: (token) => setStreamingAnswer((answer) => answer + token),
+        onCitations: setStreamingCitations
+      }, controller.signal);
     },
-    onSuccess: (response) => {
-      response.json().then((data: Conversation) => {
-        setConversation(data);
-        setMessages(data.messages);
-        refetchConversations();
-      });
+    onSuccess: (data) => {
+      setConversation(data.conversation);
+      setMessages(data.conversation.messages as Message[]);
+      // The first question titles the thread, and activity moves it up the list
+      queryClient.invalidateQueries({ queryKey: [conversationsKey] });
     },
-    onError: (error) => {
+    onError: (error, data) => {
+      // Stopping is not a failure; handleStopAnswer has already kept the partial answer
+      if (error.name === 'AbortError') return;
+      
+      // Give the question back so it can be asked again
+      setMessages((current) => current.slice(0, -1));
+      setQuestion(data.question);
       toast({
         title: "Error",
-        description: "Failed to create conversation. Please try again.",
+        description: "Failed to get an answer. Please try again.",
         variant: "destructive",
       });
       console.error(error);
+    },
+    onSettled: () => {
+      answerControllerRef.current = null;
+      setIsLoading(false);
+      setStreamingAnswer('');
+      setStreamingCitations([]);
     }
   });
   
-  // Ask question mutation
-  const askQuestionMutation = useMutation({
-    mutationFn: async (data: { question: string }) => {
-      setIsLoading(true);
-      return apiRequest('POST', `/api/conversation/${conversation?.id}/message`, data);
-    },
-    onSuccess: (response) => {
-      response.json().then((data: Conversation) => {
-        setMessages(data.messages);
-        setQuestion('');
-      });
+  // Stop the answer being generated. The server saves the question and the
+  // partial answer the same way, so the conversation stays in step.
+  const handleStopAnswer = () => {
+    if (streamingAnswer) {
+      setMessages((current) => [...current, {
+        id: uuidv4(),
+        role: 'assistant',
+        content: streamingAnswer,
+        timestamp: new Date().toISOString(),
+        stopped: true
+      }]);
+    }
+    answerControllerRef.current?.abort();
+  };
+  
+  // Conversations are created for their first question, which is then asked in them
+  const startConversationMutation = useMutation({
+    mutationFn: (data: { contractId?: number, scope?: PortfolioScope, document?: AdHocDocument, question: string }) =>
+      qaApi.createConversation({
+        userId: user?.id || 0,
+        contractId: data.contractId,
+        scope: data.scope,
+        document: data.document,
+        messages: []
+      }),
+    onSuccess: (created, data) => {
+      setConversation(created);
+      setMessages([]);
+      setStartingNew(false);
+      // The conversation keeps the pasted text from here on
+      if (created.document) {
+        setPastedName('');
+        setPastedText('');
+      }
+      askQuestionMutation.mutate({ conversationId: created.id, question: data.question });
     },
     onError: (error) => {
+      // e.g. a tag no contract carries any more
+      const message = error.message.match(/^\d+: ([\s\S]*)$/)?.[1];
+      let description = "Failed to start the conversation. Please try again.";
+      try {
+        description = (message && JSON.parse(message).message) || description;
+      } catch {
+        // Not JSON; keep the generic description
+      }
+      toast({ title: "Error", description, variant: "destructive" });
+      console.error(error);
+    }
+  });
+  
+  // Uploading a document starts a conversation about it: one about a new
+  // contract when it is saved, otherwise one about the extracted text only
+  const uploadMutation = useMutation({
+    mutationFn: (data: { file: File, save: boolean }) => qaApi.uploadDocument(data.file, data.save),
+    onSuccess: ({ conversation: created, contract }) => {
+      answerControllerRef.current?.abort();
+      setUploadError(null);
+      if (contract) {
+        queryClient.invalidateQueries({ queryKey: ['/api/contracts/user/' + user?.id] });
+        queryClient.invalidateQueries({ queryKey: [`/api/conversations/contract/${contract.id}`] });
+        setMode('contract');
+        setSelectedContractId(contract.id.toString());
+      } else {
+        queryClient.invalidateQueries({ queryKey: ['/api/conversations/documents'] });
+        setMode('document');
+      }
+      setConversation(created);
+      setMessages([]);
+      setStartingNew(false);
       toast({
-        title: "Error",
-        description: "Failed to get an answer. Please try again.",
-        variant: "destructive",
+        title: contract ? "Contract uploaded" : "Document ready",
+        description: `Ask a question about ${contract?.name ?? created.document?.name}.`,
       });
-      console.error(error);
     },
-    onSettled: () => {
-      setIsLoading(false);
+    onError: (error) => {
+      const description = error instanceof UploadError
+        ? error.message
+        : "Failed to upload the document. Please try again.";
+      setUploadError(description);
+      console.error(error);
     }
   });
   
-  // Direct Q&A mutation (without saving conversation)
-  const directQAMutation = useMutation({
-    mutationFn: async (data: { contractId: number, question: string }) => {
-      setIsLoading(true);
-      return apiRequest('POST', '/api/contract-qa', data);
-    },
-    onSuccess: (response) => {
-      response.json().then((data) => {
-        const userMsg: Message = {
-          id: uuidv4(),
-          role: 'user',
-          content: question,
-          timestamp: new Date().toISOString()
-        };
-        
-        const aiMsg: Message = {
-          id: uuidv4(),
-          role: 'assistant',
-          content: data.answer,
-          timestamp: new Date().toISOString()
-        };
-        
-        setMessages([...messages, userMsg, aiMsg]);
-        setQuestion('');
-        
-        // If this is the first message and we don't have a conversation yet, create one
-        if (!conversation && selectedContractId) {
-          createConversationMutation.mutate({
-            userId: user?.id || 0,
-            contractId: parseInt(selectedContractId),
-            messages: [...messages, userMsg, aiMsg]
-          });
-        }
+  // Saving an ad-hoc document as a contract keeps the conversation, now about the new contract
+  const saveDocumentMutation = useMutation({
+    mutationFn: (conversationId: number) => qaApi.saveDocument(conversationId),
+    onSuccess: ({ conversation: saved, contract }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/contracts/user/' + user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['/api/conversations/documents'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/conversations/contract/${contract.id}`] });
+      setMode('contract');
+      setSelectedContractId(contract.id.toString());
+      setConversation(saved);
+      toast({
+        title: "Saved as a contract",
+        description: `${contract.name} is now in your contracts.`,
       });
     },
     onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to get an answer. Please try again.",
+        description: "Failed to save the document. Please try again.",
         variant: "destructive",
       });
       console.error(error);
-    },
-    onSettled: () => {
-      setIsLoading(false);
     }
   });
   
+  // Stop a streaming answer when leaving the page
+  useEffect(() => () => answerControllerRef.current?.abort(), []);
+  
   // Scroll to bottom when messages change
   useEffect(() => {
     if (chatContainerRef.current) {
       chatContainerRef.current.scrollTop = chatContainerRef.current.scrollHeight;
     }
-  }, [messages]);
+  }, [messages, streamingAnswer]);
   
   // Handle sending a question
   const handleSendQuestion = (e: React.FormEvent) => {
@@ -173,7 +279,7 @@ export default function QA() {
       return;
     }
     
-    if (!selectedContractId) {
+    if (mode === 'contract' && !selectedContractId) {
       toast({
         title: "No contract selected",
         description: "Please select a contract to ask questions about.",
@@ -183,30 +289,76 @@ export default function QA() {
     }
     
     if (conversation) {
-      // If we have an existing conversation, add to it
-      askQuestionMutation.mutate({ question });
-    } else {
-      // Otherwise do a direct Q&A
-      directQAMutation.mutate({
-        contractId: parseInt(selectedContractId),
+      askQuestionMutation.mutate({ conversationId: conversation.id, question });
+    } else if (mode === 'portfolio') {
+      startConversationMutation.mutate({ scope: portfolioScope, question });
+    } else if (mode === 'document') {
+      startConversationMutation.mutate({
+        document: { name: pastedName.trim() || 'Pasted text', fileType: 'txt', text: pastedText },
         question
       });
+    } else {
+      startConversationMutation.mutate({ contractId: parseInt(selectedContractId), question });
     }
   };
   
   // Handle contract selection
   const handleContractChange = (contractId: string) => {
+    answerControllerRef.current?.abort();
     setSelectedContractId(contractId);
     setConversation(null);
+    setStartingNew(false);
     setMessages([]);
   };
   
-  // Handle file upload
+  // Switching between one contract, the portfolio and documents starts afresh
+  const handleModeChange = (value: string) => {
+    answerControllerRef.current?.abort();
+    setMode(value as QAMode);
+    setConversation(null);
+    setStartingNew(false);
+    setMessages([]);
+    setUploadError(null);
+  };
+  
+  // A new scope starts a new portfolio conversation
+  const handleScopeChange = (scope: PortfolioScope) => {
+    setPortfolioScope(scope);
+    setConversation(null);
+    setMessages([]);
+  };
+  
+  const openConversation = (selected: Conversation) => {
+    answerControllerRef.current?.abort();
+    setConversation(selected);
+    setMessages(selected.messages as Message[]);
+    if (selected.scope) setPortfolioScope(selected.scope);
+  };
+  
+  const startNewConversation = () => {
+    answerControllerRef.current?.abort();
+    setConversation(null);
+    setStartingNew(true);
+    setMessages([]);
+  };
+  
+  // Renaming or pinning the open conversation keeps its messages
+  const handleConversationUpdated = (updated: Conversation) => {
+    if (updated.id === conversation?.id) setConversation(updated);
+  };
+  
+  // Deleting the open conversation opens the next one, if any
+  const handleConversationDeleted = (conversationId: number) => {
+    if (conversationId === conversation?.id) {
+      answerControllerRef.current?.abort();
+      setConversation(null);
+      setMessages([]);
+    }
+  };
+  
+  // Files uploaded while asking about one contract become contracts
   const handleFileSelect = (file: File) => {
-    toast({
-      title: "File selected",
-      description: "File upload feature will be implemented soon.",
-    });
+    uploadMutation.mutate({ file, save: mode === 'contract' || saveUpload });
   };
   
   // Sample questions to demonstrate functionality
@@ -228,6 +380,21 @@ export default function QA() {
   
   // Find the selected contract
   const selectedContract = contracts?.find(c => c.id.toString() === selectedContractId);
+  // Portfolio citations name their own contract; ad-hoc ones point into the conversation's document
+  const citedContract = contracts?.find(c => c.id === openCitation?.contractId) ?? selectedContract;
+  const citedDocument = conversation?.document
+    ? { name: conversation.document.name, text: conversation.document.text }
+    : { name: citedContract?.name ?? '', text: citedContract?.originalText ?? '' };
+  
+  // A tag or selection has to be chosen before a portfolio question can be asked,
+  // and a document uploaded or pasted before one about a document
+  const canAsk = mode === 'contract'
+    ? !!selectedContractId
+    : mode === 'document'
+      ? !!conversation?.document || !!pastedText.trim()
+      : portfolioScope.type === PortfolioScopeType.ALL
+        || (portfolioScope.type === PortfolioScopeType.TAG && !!portfolioScope.tag)
+        || (portfolioScope.type === PortfolioScopeType.SELECTION && portfolioScope.contractIds.length > 0);
   
   return (
     <div className="p-6">
@@ -241,84 +408,182 @@ export default function QA() {
         <div className="lg:col-span-1">
           <Card className="mb-6">
             <CardContent className="pt-6">
-              <h2 className="text-lg font-semibold mb-4">Select Contract</h2>
+              <Tabs value={mode} onValueChange={handleModeChange} className="mb-4">
+                <TabsList className="grid w-full grid-cols-3">
+                  <TabsTrigger value="contract">One contract</TabsTrigger>
+                  <TabsTrigger value="portfolio">Portfolio</TabsTrigger>
+                  <TabsTrigger value="document">Document</TabsTrigger>
+                </TabsList>
+              </Tabs>
               
-              <div className="mb-4">
-                <Label htmlFor="qa-contract">Choose a contract</Label>
-                <Select value={selectedContractId} onValueChange={handleContractChange}>
-                  <SelectTrigger className="mt-1">
-                    <SelectValue placeholder="Select a contract" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {isLoadingContracts ? (
-                      <div className="flex justify-center p-2">
-                        <LoadingSpinner size="sm" />
-                      </div>
-                    ) : contracts && contracts.length > 0 ? (
-                      <SelectGroup>
-                        {contracts.map((contract) => (
-                          <SelectItem key={contract.id} value={contract.id.toString()}>
-                            {contract.name}
-                          </SelectItem>
-                        ))}
-                      </SelectGroup>
-                    ) : (
-                      <div className="p-2 text-center text-sm text-gray-500">
-                        No contracts found
+              {mode === 'contract' ? (
+                <>
+                  <h2 className="text-lg font-semibold mb-4">Select Contract</h2>
+              
+                  <div className="mb-4">
+                    <Label htmlFor="qa-contract">Choose a contract</Label>
+                    <Select value={selectedContractId} onValueChange={handleContractChange}>
+                      <SelectTrigger className="mt-1">
+                        <SelectValue placeholder="Select a contract" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {isLoadingContracts ? (
+                          <div className="flex justify-center p-2">
+                            <LoadingSpinner size="sm" />
+                          </div>
+                        ) : contracts && contracts.length > 0 ? (
+                          <SelectGroup>
+                            {contracts.map((contract) => (
+                              <SelectItem key={contract.id} value={contract.id.toString()}>
+                                {contract.name}
+                              </SelectItem>
+                            ))}
+                          </SelectGroup>
+                        ) : (
+                          <div className="p-2 text-center text-sm text-gray-500">
+                            No contracts found
+                          </div>
+                        )}
+                      </SelectContent>
+                    </Select>
+                  </div>
+              
+                  <div className="mb-4">
+                    <div className="flex items-center justify-between mb-2">
+                      <Label htmlFor="qa-contract-file">
+                        Or upload a new contract
+                      </Label>
+                      <span className="text-xs text-gray-500">(PDF, DOCX, TXT or RTF)</span>
+                    </div>
+                    <FileUpload
+                      id="qa-contract-file"
+                      onFileSelect={handleFileSelect}
+                      error={uploadError}
+                    />
+                    {uploadMutation.isPending && (
+                      <div className="flex items-center text-sm text-gray-500 mt-2">
+                        <LoadingSpinner size="sm" className="mr-2" />
+                        <span>Extracting and indexing the contract...</span>
                       </div>
                     )}
-                  </SelectContent>
-                </Select>
-              </div>
-              
-              <div className="mb-4">
-                <div className="flex items-center justify-between mb-2">
-                  <Label htmlFor="qa-contract-file">
-                    Or upload a new contract
-                  </Label>
-                  <span className="text-xs text-gray-500">(PDF or DOCX)</span>
-                </div>
-                <FileUpload
-                  id="qa-contract-file"
-                  onFileSelect={handleFileSelect}
-                />
-              </div>
+                  </div>
               
-              {selectedContract && (
-                <div className="border-t border-gray-200 pt-4 mt-6">
-                  <h3 className="text-sm font-medium text-gray-700 mb-3">Contract Details</h3>
+                  {selectedContract && (
+                    <div className="border-t border-gray-200 pt-4 mt-6">
+                      <h3 className="text-sm font-medium text-gray-700 mb-3">Contract Details</h3>
                   
-                  <div className="text-sm text-gray-600 space-y-2">
-                    <div className="flex items-start">
-                      <span className="font-medium w-24">Type:</span>
-                      <span>{selectedContract.contractType || 'Not specified'}</span>
-                    </div>
-                    <div className="flex items-start">
-                      <span className="font-medium w-24">Uploaded:</span>
-                      <span>{new Date(selectedContract.uploadedAt).toLocaleDateString()}</span>
-                    </div>
-                    <div className="flex items-start">
-                      <span className="font-medium w-24">Risk Score:</span>
-                      <span className={
-                        selectedContract.riskScore === 'high' ? 'text-red-500 font-medium' :
-                        selectedContract.riskScore === 'medium' ? 'text-yellow-500 font-medium' :
-                        'text-green-500 font-medium'
-                      }>
-                        {selectedContract.riskScore === 'high' ? 'High' :
-                         selectedContract.riskScore === 'medium' ? 'Medium' :
-                         'Low'}
-                      </span>
+                      <div className="text-sm text-gray-600 space-y-2">
+                        <div className="flex items-start">
+                          <span className="font-medium w-24">Type:</span>
+                          <span>{selectedContract.contractType || 'Not specified'}</span>
+                        </div>
+                        <div className="flex items-start">
+                          <span className="font-medium w-24">Uploaded:</span>
+                          <span>{new Date(selectedContract.uploadedAt).toLocaleDateString()}</span>
+                        </div>
+                        <div className="flex items-start">
+                          <span className="font-medium w-24">Risk Score:</span>
+                          <RiskBadge risk={selectedContract.riskLevel} score={selectedContract.riskScore} size="sm" />
+                        </div>
+                        <div className="flex items-start">
+                          <span className="font-medium w-24">Format:</span>
+                          <span>{selectedContract.fileType.toUpperCase()}</span>
+                        </div>
+                      </div>
                     </div>
-                    <div className="flex items-start">
-                      <span className="font-medium w-24">Format:</span>
-                      <span>{selectedContract.fileType.toUpperCase()}</span>
+                  )}
+                </>
+              ) : mode === 'portfolio' ? (
+                <>
+                  <h2 className="text-lg font-semibold mb-4">Select Contracts</h2>
+                  <PortfolioScopePicker
+                    contracts={contracts ?? []}
+                    scope={portfolioScope}
+                    onChange={handleScopeChange}
+                  />
+                </>
+              ) : conversation?.document ? (
+                <>
+                  <h2 className="text-lg font-semibold mb-4">Document</h2>
+                  <div className="flex items-start text-sm text-gray-700 mb-1">
+                    <FileText className="h-4 w-4 mr-2 mt-0.5 shrink-0 text-gray-400" />
+                    <span className="break-all">{conversation.document.name}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mb-4">
+                    Not saved as a contract; it is kept with this conversation only.
+                  </p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => saveDocumentMutation.mutate(conversation.id)}
+                    disabled={saveDocumentMutation.isPending || isLoading}
+                  >
+                    <Save className="mr-1 h-4 w-4" />
+                    {saveDocumentMutation.isPending ? 'Saving...' : 'Save as contract'}
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <h2 className="text-lg font-semibold mb-4">Ask About a Document</h2>
+                  
+                  <div className="mb-4">
+                    <Label htmlFor="qa-document-file" className="mb-2 block">Upload a document</Label>
+                    <FileUpload
+                      id="qa-document-file"
+                      onFileSelect={handleFileSelect}
+                      error={uploadError}
+                    />
+                    <div className="flex items-center space-x-2 mt-2">
+                      <Checkbox
+                        id="qa-save-upload"
+                        checked={saveUpload}
+                        onCheckedChange={(checked) => setSaveUpload(checked === true)}
+                      />
+                      <Label htmlFor="qa-save-upload" className="font-normal">Also save it as a contract</Label>
                     </div>
+                    {uploadMutation.isPending && (
+                      <div className="flex items-center text-sm text-gray-500 mt-2">
+                        <LoadingSpinner size="sm" className="mr-2" />
+                        <span>Extracting and indexing the document...</span>
+                      </div>
+                    )}
                   </div>
-                </div>
+                  
+                  <div className="border-t border-gray-200 pt-4 space-y-2">
+                    <Label htmlFor="qa-pasted-text">Or paste the text to ask about</Label>
+                    <Input
+                      id="qa-pasted-name"
+                      value={pastedName}
+                      onChange={(e) => setPastedName(e.target.value)}
+                      placeholder="Name (optional)"
+                      maxLength={200}
+                    />
+                    <Textarea
+                      id="qa-pasted-text"
+                      value={pastedText}
+                      onChange={(e) => setPastedText(e.target.value)}
+                      placeholder="Paste a clause, an email or a whole agreement..."
+                      rows={8}
+                    />
+                  </div>
+                </>
               )}
             </CardContent>
           </Card>
           
+          {(mode !== 'contract' || selectedContractId) && (
+            <ConversationList
+              conversations={conversations}
+              isLoading={isLoadingConversations}
+              activeId={conversation?.id ?? null}
+              queryKey={conversationsKey}
+              onSelect={openConversation}
+              onNew={startNewConversation}
+              onUpdated={handleConversationUpdated}
+              onDeleted={handleConversationDeleted}
+            />
+          )}
+          
           <Card>
             <CardContent className="pt-6">
               <h2 className="text-lg font-semibold mb-4">Sample Questions</h2>
@@ -343,7 +608,13 @@ export default function QA() {
         {/* Q&A Interface */}
         <Card className="lg:col-span-2">
           <div className="border-b border-gray-200 p-4">
-            <h2 className="text-lg font-semibold">Ask about your contract</h2>
+            <h2 className="text-lg font-semibold">
+              {mode === 'portfolio'
+                ? `Ask across your contracts: ${describePortfolioScope(portfolioScope)}`
+                : mode === 'document'
+                  ? `Ask about ${conversation?.document?.name ?? 'a document'}`
+                  : 'Ask about your contract'}
+            </h2>
           </div>
           
           {/* Chat Container */}
@@ -365,10 +636,13 @@ export default function QA() {
                     role={message.role}
                     content={message.content}
                     timestamp={message.timestamp}
+                    citations={message.citations}
+                    stopped={message.stopped}
+                    onCitationClick={setOpenCitation}
                   />
                 ))}
               </>
-            ) : selectedContractId ? (
+            ) : canAsk ? (
               <div className="h-full flex flex-col items-center justify-center text-gray-500">
                 <div className="p-4 rounded-full bg-gray-100 mb-3">
                   <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="text-gray-400">
@@ -396,13 +670,25 @@ export default function QA() {
                   </svg>
                 </div>
                 <p className="text-center text-sm">
-                  Please select a contract to start the Q&A
+                  {mode === 'document'
+                    ? 'Upload or paste a document to start the Q&A'
+                    : 'Please select a contract to start the Q&A'}
                 </p>
               </div>
             )}
             
+            {/* Partial answer while it is being generated */}
+            {isLoading && streamingAnswer && (
+              <ChatMessage
+                role="assistant"
+                content={streamingAnswer}
+                citations={streamingCitations}
+                onCitationClick={setOpenCitation}
+              />
+            )}
+            
             {/* Loading indicator */}
-            {isLoading && (
+            {isLoading && !streamingAnswer && (
               <div className="flex items-center text-gray-500">
                 <LoadingSpinner size="sm" className="mr-2" />
                 <span>AI is generating an answer...</span>
@@ -418,25 +704,40 @@ export default function QA() {
                   id="question-input" 
                   value={question}
                   onChange={(e) => setQuestion(e.target.value)}
-                  placeholder="Ask a question about your contract..."
+                  placeholder={mode === 'portfolio'
+                    ? "E.g., Which of our vendor agreements auto-renew in Q1?"
+                    : mode === 'document' ? "Ask a question about this document..." : "Ask a question about your contract..."}
                   className="resize-none min-h-[40px]"
                   rows={1}
-                  disabled={!selectedContractId || isLoading}
+                  disabled={!canAsk || isLoading || startConversationMutation.isPending}
                 />
               </div>
               <div className="ml-3">
-                <Button 
-                  type="submit" 
-                  size="icon"
-                  disabled={!selectedContractId || !question.trim() || isLoading}
-                >
-                  <Layers className="h-4 w-4" />
-                </Button>
+                {askQuestionMutation.isPending ? (
+                  <Button type="button" size="icon" variant="outline" onClick={handleStopAnswer} aria-label="Stop generating">
+                    <Square className="h-4 w-4" />
+                  </Button>
+                ) : (
+                  <Button 
+                    type="submit" 
+                    size="icon"
+                    disabled={!canAsk || !question.trim() || isLoading || startConversationMutation.isPending}
+                  >
+                    <Layers className="h-4 w-4" />
+                  </Button>
+                )}
               </div>
             </form>
           </div>
         </Card>
       </div>
+      
+      <CitationViewer
+        citation={openCitation}
+        contractName={citedDocument.name}
+        contractText={citedDocument.text}
+        onClose={() => setOpenCitation(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,276 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { queryClient } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import LoadingSpinner from '@/components/ui/loading-spinner';
+import TemplateEditor from '@/components/templates/TemplateEditor';
+import TemplateQuestionnaire from '@/components/templates/TemplateQuestionnaire';
+import { templateApi, TemplateAnswersError } from '@/services/api';
+import { cn } from '@/lib/utils';
+import { Contract, ContractTemplate, CreateContractTemplate, SavedClause, TemplateAnswers } from '@shared/schema';
+import { AlertTriangle, Download, Edit, FileText, Plus, Trash } from 'lucide-react';
+
+interface AssemblyResult {
+  contract: Contract;
+  unresolved: string[];
+}
+
+export default function Templates() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  // Selected template and whether it, or a new template, is being edited
+  const [selected, setSelected] = useState<ContractTemplate | null>(null);
+  const [mode, setMode] = useState<'fill' | 'edit' | 'create'>('fill');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [result, setResult] = useState<AssemblyResult | null>(null);
+
+  const { data: templates, isLoading } = useQuery<ContractTemplate[]>({
+    queryKey: ['/api/templates'],
+  });
+
+  // Library clauses a template slot can draw its text from
+  const { data: savedClauses } = useQuery<SavedClause[]>({
+    queryKey: ['/api/saved-clauses/user/' + user?.id],
+    enabled: !!user?.id,
+  });
+
+  const selectTemplate = (template: ContractTemplate | null, nextMode: typeof mode = 'fill') => {
+    setSelected(template);
+    setMode(nextMode);
+    setFieldErrors({});
+    setResult(null);
+  };
+
+  const showTemplate = (template: ContractTemplate) => {
+    selectTemplate(template);
+    queryClient.invalidateQueries({ queryKey: ['/api/templates'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (template: CreateContractTemplate) => templateApi.createTemplate(template),
+    onSuccess: (template) => {
+      showTemplate(template);
+      toast({ title: "Template created", description: "Answer its questions to create a contract." });
+    },
+    onError: (error) => {
+      toast({ title: "Save failed", description: "Failed to save the template. Check its questions and clauses.", variant: "destructive" });
+      console.error(error);
+    }
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (template: CreateContractTemplate) => templateApi.updateTemplate(selected!.id, template),
+    onSuccess: (template) => {
+      showTemplate(template);
+      toast({ title: "Template updated", description: "Your changes have been saved." });
+    },
+    onError: (error) => {
+      toast({ title: "Save failed", description: "Failed to update the template. Check its questions and clauses.", variant: "destructive" });
+      console.error(error);
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (templateId: number) => templateApi.deleteTemplate(templateId),
+    onSuccess: () => {
+      selectTemplate(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/templates'] });
+      toast({ title: "Template deleted", description: "The template has been deleted." });
+    },
+    onError: (error) => {
+      toast({ title: "Delete failed", description: "Failed to delete the template. Please try again.", variant: "destructive" });
+      console.error(error);
+    }
+  });
+
+  const assembleMutation = useMutation({
+    mutationFn: ({ name, answers }: { name: string; answers: TemplateAnswers }) =>
+      templateApi.assembleContract(selected!.id, { name, answers }),
+    onSuccess: ({ contract, unresolved }) => {
+      setFieldErrors({});
+      setResult({ contract, unresolved });
+      queryClient.invalidateQueries({ queryKey: ['/api/contracts/user/' + user?.id] });
+      toast({ title: "Contract created", description: `"${contract.name}" has been added to your contracts.` });
+    },
+    onError: (error) => {
+      setFieldErrors(error instanceof TemplateAnswersError ? error.fields : {});
+      toast({ title: "Contract not created", description: error.message, variant: "destructive" });
+      console.error(error);
+    }
+  });
+
+  const handleDelete = (template: ContractTemplate) => {
+    if (window.confirm('Are you sure you want to delete this template?')) {
+      deleteMutation.mutate(template.id);
+    }
+  };
+
+  const isOwned = (template: ContractTemplate) => template.userId === user?.id;
+
+  return (
+    <div className="p-6">
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Contract Templates</h1>
+          <p className="text-gray-600">Answer a short questionnaire to assemble a contract from reusable clauses</p>
+        </div>
+        <Button onClick={() => selectTemplate(null, 'create')}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Template
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <Card className="h-fit">
+          <CardContent className="pt-6">
+            {isLoading || !templates ? (
+              <div className="py-4 flex justify-center">
+                <LoadingSpinner />
+              </div>
+            ) : (
+              templates.map((template) => (
+                <button
+                  key={template.id}
+                  className={cn(
+                    'block w-full text-left border-b border-gray-200 py-3 last:border-0 hover:bg-gray-50 px-2 rounded',
+                    selected?.id === template.id && 'bg-primary-50'
+                  )}
+                  onClick={() => selectTemplate(template)}
+                >
+                  <div className="flex justify-between items-center">
+                    <h3 className="font-medium text-gray-900">{template.name}</h3>
+                    {template.userId === null && <Badge variant="secondary">Built-in</Badge>}
+                  </div>
+                  {template.description && <p className="text-sm text-gray-600 mt-1">{template.description}</p>}
+                  <p className="text-xs text-gray-500 mt-1">
+                    {template.slots.length} {template.slots.length === 1 ? 'clause' : 'clauses'} · {template.variables.length} {template.variables.length === 1 ? 'question' : 'questions'}
+                  </p>
+                </button>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-2 space-y-6">
+          {mode === 'create' && (
+            <Card>
+              <CardContent className="pt-6">
+                <h2 className="text-lg font-semibold mb-4">New Template</h2>
+                <TemplateEditor
+                  savedClauses={savedClauses ?? []}
+                  isSaving={createMutation.isPending}
+                  onSubmit={(template) => createMutation.mutate(template)}
+                  onCancel={() => setMode('fill')}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {selected && mode === 'edit' && (
+            <Card>
+              <CardContent className="pt-6">
+                <h2 className="text-lg font-semibold mb-4">Edit Template</h2>
+                <TemplateEditor
+                  key={selected.id}
+                  template={selected}
+                  savedClauses={savedClauses ?? []}
+                  isSaving={updateMutation.isPending}
+                  onSubmit={(template) => updateMutation.mutate(template)}
+                  onCancel={() => setMode('fill')}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {selected && mode === 'fill' && (
+            <Card>
+              <CardContent className="pt-6">
+                <div className="flex justify-between items-start mb-4">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">{selected.name}</h2>
+                    {selected.contractType && <p className="text-sm text-gray-500 capitalize">{selected.contractType}</p>}
+                  </div>
+                  {isOwned(selected) && (
+                    <div className="flex space-x-2">
+                      <Button variant="ghost" size="icon" onClick={() => setMode('edit')} aria-label="Edit template">
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(selected)}
+                        className="text-red-500 hover:text-red-700"
+                        aria-label="Delete template"
+                      >
+                        <Trash className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                <TemplateQuestionnaire
+                  key={`${selected.id}-${selected.updatedAt}`}
+                  template={selected}
+                  isSubmitting={assembleMutation.isPending}
+                  fieldErrors={fieldErrors}
+                  onSubmit={(name, answers) => assembleMutation.mutate({ name, answers })}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {result && mode === 'fill' && (
+            <Card>
+              <CardContent className="pt-6 space-y-4">
+                <div className="flex items-center">
+                  <FileText className="h-5 w-5 mr-2 text-primary-600" />
+                  <h2 className="text-lg font-semibold text-gray-900">{result.contract.name}</h2>
+                </div>
+                {result.unresolved.length > 0 && (
+                  <div className="flex items-start text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-3">
+                    <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+                    <span>
+                      Still to fill in: {result.unresolved.map((placeholder) => `[${placeholder}]`).join(', ')}
+                    </span>
+                  </div>
+                )}
+                <p className="whitespace-pre-wrap text-sm text-gray-800 border rounded-md p-4 bg-gray-50 max-h-96 overflow-y-auto">
+                  {result.contract.originalText}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" asChild>
+                    <a href={`/api/contract/${result.contract.id}/document.docx`} download>
+                      <Download className="h-4 w-4 mr-2" /> Word
+                    </a>
+                  </Button>
+                  <Button variant="outline" asChild>
+                    <a href={`/api/contract/${result.contract.id}/document.pdf`} download>
+                      <Download className="h-4 w-4 mr-2" /> PDF
+                    </a>
+                  </Button>
+                  <Button asChild>
+                    <Link href={`/analyzer?contractId=${result.contract.id}`}>Open in Analyzer</Link>
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {!selected && mode !== 'create' && (
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-center text-gray-500 text-sm py-4">Choose a template to answer its questions.</p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,49 @@
 import { apiRequest } from '@/lib/queryClient';
 import { 
   Contract, 
+  ContractVersion,
+  AddContractClause,
+  ClauseInsertion,
   Analysis, 
   RiskyClause, 
+  RevisedText,
+  BlankField,
+  FillBlankFields,
+  ContractTerm,
+  ContractTermInput,
+  ReviewStatusType,
   SavedClause, 
+  SavedClauseVersion,
+  CreateSavedClause,
+  UpdateSavedClause,
   Conversation, 
-  Message 
+  UpdateConversation,
+  Message,
+  Citation,
+  PortfolioScope,
+  AdHocDocument,
+  Job,
+  ContractTemplate,
+  CreateContractTemplate,
+  AssembleContract,
+  DocumentStructure,
+  ExtractionErrorCodeType
 } from '@shared/schema';
-import { extractTextFromFile } from '@/lib/utils';
+import { type DiffGranularityType, type VersionDiff } from '@shared/diff';
+import { type ContractComparison } from '@shared/compare';
+import { type AnswerStreamEvent } from '@shared/realtime';
+
+// Raised when the server rejects an uploaded file; `code` identifies extraction
+// failures such as an encrypted or scanned PDF so the form can explain them
+export class UploadError extends Error {
+  code?: ExtractionErrorCodeType | 'file_too_large';
+
+  constructor(message: string, code?: UploadError['code']) {
+    super(message);
+    this.name = 'UploadError';
+    this.code = code;
+  }
+}
 
 // Auth API
 export const authApi = {
@@ -26,6 +62,16 @@ export const authApi = {
     const response = await apiRequest('POST', '/api/auth/register', userData);
     return response.json();
   },
+  
+  logout: async () => {
+    await apiRequest('POST', '/api/auth/logout');
+    return true;
+  },
+  
+  me: async () => {
+    const response = await apiRequest('GET', '/api/auth/me');
+    return response.json();
+  },
 };
 
 // Contract API
@@ -46,38 +92,103 @@ export const contractApi = {
     fileType: string;
     originalText: string;
     contractType?: string;
-    riskScore: string;
   }) => {
     const response = await apiRequest('POST', '/api/contract', contractData);
     return response.json() as Promise<Contract>;
   },
   
-  uploadContract: async (userId: number, file: File, name: string, contractType?: string) => {
-    try {
-      // Extract text from file (in a real app, this would be done on the server)
-      const text = await extractTextFromFile(file);
-      
-      // Create the contract
-      const contractData = {
-        userId,
-        name,
-        fileType: file.name.split('.').pop() || 'txt',
-        originalText: text,
-        contractType: contractType || '',
-        riskScore: 'medium', // Default, will be updated after analysis
-      };
-      
-      const response = await apiRequest('POST', '/api/contract', contractData);
-      return response.json() as Promise<Contract>;
-    } catch (error) {
-      throw new Error('Failed to upload contract: ' + error);
+  updateContract: async (contractId: number, contractData: {
+    name?: string;
+    contractType?: string;
+    originalText?: string;
+    tags?: string[];
+  }) => {
+    const response = await apiRequest('PATCH', `/api/contract/${contractId}`, contractData);
+    return response.json() as Promise<Contract>;
+  },
+  
+  uploadContract: async (file: File, name: string, contractType?: string) => {
+    // The file is sent as-is; text extraction happens on the server
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('name', name);
+    formData.append('contractType', contractType || '');
+    
+    const response = await fetch('/api/contracts/upload', {
+      method: 'POST',
+      body: formData,
+      credentials: 'include',
+    });
+    
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new UploadError(body?.message || response.statusText, body?.code);
+    }
+    
+    return response.json() as Promise<{ contract: Contract; structure: DocumentStructure }>;
+  },
+  
+  getVersions: async (contractId: number) => {
+    const response = await apiRequest('GET', `/api/contract/${contractId}/versions`);
+    return response.json() as Promise<ContractVersion[]>;
+  },
+  
+  // Uploads the next draft of a contract; like uploadContract, extraction happens on the server
+  uploadVersion: async (contractId: number, file: File, note?: string) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('note', note || '');
+    
+    const response = await fetch(`/api/contract/${contractId}/versions`, {
+      method: 'POST',
+      body: formData,
+      credentials: 'include',
+    });
+    
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new UploadError(body?.message || response.statusText, body?.code);
     }
+    
+    return response.json() as Promise<{ contract: Contract; version: ContractVersion; structure: DocumentStructure }>;
+  },
+  
+  // Inserts a clause as a new version of the contract and queues the re-analysis of the changed region
+  addClause: async (contractId: number, clause: AddContractClause) => {
+    const response = await apiRequest('POST', `/api/contract/${contractId}/clauses`, clause);
+    return response.json() as Promise<{ contract: Contract; version: ContractVersion; insertion: ClauseInsertion; job: Job }>;
+  },
+  
+  getVersionDiff: async (contractId: number, from: number, to: number, granularity: DiffGranularityType) => {
+    const response = await apiRequest('GET', `/api/contract/${contractId}/diff?from=${from}&to=${to}&granularity=${granularity}`);
+    return response.json() as Promise<VersionDiff>;
+  },
+  
+  compareContracts: async (baseId: number, otherId: number) => {
+    const response = await apiRequest('GET', `/api/compare?base=${baseId}&other=${otherId}`);
+    return response.json() as Promise<ContractComparison>;
   },
   
   deleteContract: async (contractId: number) => {
     await apiRequest('DELETE', `/api/contract/${contractId}`);
     return true;
   },
+  
+  // Key terms a user adds or corrects are kept when the contract is analysed again
+  addTerm: async (contractId: number, term: ContractTermInput) => {
+    const response = await apiRequest('POST', `/api/contract/${contractId}/terms`, term);
+    return response.json() as Promise<ContractTerm>;
+  },
+  
+  updateTerm: async (termId: number, value: ContractTermInput['value']) => {
+    const response = await apiRequest('PATCH', `/api/contract-term/${termId}`, { value });
+    return response.json() as Promise<ContractTerm>;
+  },
+  
+  deleteTerm: async (termId: number) => {
+    await apiRequest('DELETE', `/api/contract-term/${termId}`);
+    return true;
+  },
 };
 
 // Analysis API
@@ -87,25 +198,64 @@ export const analysisApi = {
     return response.json() as Promise<Analysis>;
   },
   
-  analyzeContract: async (contractId: number, text: string, contractType?: string) => {
+  // Queues an analysis run; poll the returned job until it completes
+  analyzeContract: async (contractId: number, contractType?: string, playbookId?: number) => {
     const response = await apiRequest('POST', '/api/analyze-contract', {
       contractId,
-      text,
-      contractType
+      contractType,
+      playbookId
     });
-    return response.json() as Promise<Analysis>;
+    return response.json() as Promise<Job>;
+  },
+  
+  getJob: async (jobId: number) => {
+    const response = await apiRequest('GET', `/api/job/${jobId}`);
+    return response.json() as Promise<Job>;
   },
   
   getRiskyClausesByAnalysisId: async (analysisId: number) => {
     const response = await apiRequest('GET', `/api/risky-clauses/analysis/${analysisId}`);
     return response.json() as Promise<RiskyClause[]>;
   },
+  
+  reviewRiskyClause: async (riskyClauseId: number, status: ReviewStatusType, editedSuggestion?: string) => {
+    const response = await apiRequest('PATCH', `/api/risky-clause/${riskyClauseId}/review`, {
+      status,
+      editedSuggestion
+    });
+    return response.json() as Promise<RiskyClause>;
+  },
+  
+  // Fill in blank fields of an analysis; the filled text is a new version, queued for re-analysis
+  fillBlankFields: async (analysisId: number, fills: FillBlankFields['fills']) => {
+    const response = await apiRequest('POST', `/api/analysis/${analysisId}/blank-fields/fill`, { fills });
+    return response.json() as Promise<{ contract: Contract; version: ContractVersion; blankFields: BlankField[]; job: Job }>;
+  },
+  
+  getRevisedText: async (analysisId: number) => {
+    const response = await apiRequest('GET', `/api/analysis/${analysisId}/revised-text`);
+    return response.json() as Promise<RevisedText>;
+  },
 };
 
+// Search text and filters of the clause library
+export interface SavedClauseFilters {
+  q?: string;
+  folder?: string;
+  tag?: string;
+  jurisdiction?: string;
+  clauseType?: string;
+}
+
 // Clause Generator API
 export const clauseApi = {
-  getSavedClausesByUserId: async (userId: number) => {
-    const response = await apiRequest('GET', `/api/saved-clauses/user/${userId}`);
+  // Empty filters are left out of the query string
+  getSavedClausesByUserId: async (userId: number, filters: SavedClauseFilters = {}) => {
+    const params = new URLSearchParams(
+      Object.entries(filters).filter((entry): entry is [string, string] => !!entry[1])
+    );
+    const query = params.toString();
+    const response = await apiRequest('GET', `/api/saved-clauses/user/${userId}${query ? `?${query}` : ''}`);
     return response.json() as Promise<SavedClause[]>;
   },
   
@@ -118,22 +268,79 @@ export const clauseApi = {
     return response.json();
   },
   
-  saveClause: async (clauseData: {
-    userId: number;
-    clauseType: string;
-    tone: string;
-    content: string;
-  }) => {
+  saveClause: async (clauseData: CreateSavedClause) => {
     const response = await apiRequest('POST', '/api/saved-clause', clauseData);
     return response.json() as Promise<SavedClause>;
   },
   
+  updateSavedClause: async (clauseId: number, changes: UpdateSavedClause) => {
+    const response = await apiRequest('PATCH', `/api/saved-clause/${clauseId}`, changes);
+    return response.json() as Promise<SavedClause>;
+  },
+  
+  getSavedClauseVersions: async (clauseId: number) => {
+    const response = await apiRequest('GET', `/api/saved-clause/${clauseId}/versions`);
+    return response.json() as Promise<SavedClauseVersion[]>;
+  },
+  
+  restoreSavedClauseVersion: async (clauseId: number, version: number) => {
+    const response = await apiRequest('POST', `/api/saved-clause/${clauseId}/versions/${version}/restore`);
+    return response.json() as Promise<SavedClause>;
+  },
+  
   deleteSavedClause: async (clauseId: number) => {
     await apiRequest('DELETE', `/api/saved-clause/${clauseId}`);
     return true;
   },
 };
 
+// Raised when a template's questionnaire answers are rejected; `fields` holds
+// the problem with each answer, keyed by variable name
+export class TemplateAnswersError extends Error {
+  fields: Record<string, string>;
+
+  constructor(message: string, fields: Record<string, string> = {}) {
+    super(message);
+    this.name = 'TemplateAnswersError';
+    this.fields = fields;
+  }
+}
+
+// Contract template API
+export const templateApi = {
+  createTemplate: async (template: CreateContractTemplate) => {
+    const response = await apiRequest('POST', '/api/template', template);
+    return response.json() as Promise<ContractTemplate>;
+  },
+  
+  updateTemplate: async (templateId: number, changes: Partial<CreateContractTemplate>) => {
+    const response = await apiRequest('PATCH', `/api/template/${templateId}`, changes);
+    return response.json() as Promise<ContractTemplate>;
+  },
+  
+  deleteTemplate: async (templateId: number) => {
+    await apiRequest('DELETE', `/api/template/${templateId}`);
+    return true;
+  },
+  
+  // Creates a contract from the answers; rejected answers come back as a TemplateAnswersError
+  assembleContract: async (templateId: number, request: AssembleContract) => {
+    const response = await fetch(`/api/template/${templateId}/assemble`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      credentials: 'include',
+    });
+    
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new TemplateAnswersError(body?.message || response.statusText, body?.fields);
+    }
+    
+    return response.json() as Promise<{ contract: Contract; slotIds: string[]; unresolved: string[] }>;
+  },
+};
+
 // Q&A API
 export const qaApi = {
   getConversationsByContractId: async (contractId: number) => {
@@ -141,15 +348,56 @@ export const qaApi = {
     return response.json() as Promise<Conversation[]>;
   },
   
+  getPortfolioConversations: async () => {
+    const response = await apiRequest('GET', '/api/conversations/portfolio');
+    return response.json() as Promise<Conversation[]>;
+  },
+  
+  getDocumentConversations: async () => {
+    const response = await apiRequest('GET', '/api/conversations/documents');
+    return response.json() as Promise<Conversation[]>;
+  },
+  
+  // A conversation is about one contract, the contracts a portfolio scope covers,
+  // or a pasted document that is not saved as a contract
   createConversation: async (conversationData: {
     userId: number;
-    contractId: number;
+    contractId?: number;
+    scope?: PortfolioScope;
+    document?: Pick<AdHocDocument, 'name' | 'text'>;
     messages: Message[];
   }) => {
     const response = await apiRequest('POST', '/api/conversation', conversationData);
     return response.json() as Promise<Conversation>;
   },
   
+  // Starts a conversation about an uploaded file; with `save` the file is also
+  // stored as a contract, otherwise only its extracted text is kept
+  uploadDocument: async (file: File, save: boolean) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('save', String(save));
+    
+    const response = await fetch('/api/conversation/upload', {
+      method: 'POST',
+      body: formData,
+      credentials: 'include',
+    });
+    
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new UploadError(body?.message || response.statusText, body?.code);
+    }
+    
+    return response.json() as Promise<{ conversation: Conversation; contract: Contract | null }>;
+  },
+  
+  // Saves the document of an ad-hoc conversation as a contract, moving the conversation onto it
+  saveDocument: async (conversationId: number) => {
+    const response = await apiRequest('POST', `/api/conversation/${conversationId}/save-document`);
+    return response.json() as Promise<{ conversation: Conversation; contract: Contract }>;
+  },
+  
   addMessageToConversation: async (conversationId: number, question: string) => {
     const response = await apiRequest('POST', `/api/conversation/${conversationId}/message`, {
       question
@@ -157,6 +405,68 @@ export const qaApi = {
     return response.json() as Promise<Conversation>;
   },
   
+  // Asks a question and reads the answer as Server-Sent Events while it is written.
+  // Aborting the signal stops generation; the promise then rejects with an AbortError.
+  streamMessage: async (
+    conversationId: number,
+    question: string,
+    handlers: { onToken: (token: string) => void; onCitations: (citations: Citation[]) => void },
+    signal?: AbortSignal
+  ) => {
+    const response = await fetch(`/api/conversation/${conversationId}/message/stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ question }),
+      credentials: 'include',
+      signal,
+    });
+    
+    if (!response.ok || !response.body) {
+      throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+    }
+    
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      
+      // Events end with a blank line; the last piece may be incomplete
+      buffered += decoder.decode(value, { stream: true });
+      const frames = buffered.split('\n\n');
+      buffered = frames.pop() ?? '';
+      
+      for (const frame of frames) {
+        const data = frame
+          .split('\n')
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trim())
+          .join('\n');
+        if (!data) continue;
+        
+        const event = JSON.parse(data) as AnswerStreamEvent;
+        if (event.type === 'token') handlers.onToken(event.token);
+        else if (event.type === 'citations') handlers.onCitations(event.citations);
+        else if (event.type === 'done') return { messageId: event.messageId, conversation: event.conversation };
+        else throw new Error(event.message);
+      }
+    }
+    
+    throw new Error('The answer stream ended before the answer was saved');
+  },
+  
+  // Rename or pin a conversation
+  updateConversation: async (conversationId: number, changes: UpdateConversation) => {
+    const response = await apiRequest('PATCH', `/api/conversation/${conversationId}`, changes);
+    return response.json() as Promise<Conversation>;
+  },
+  
+  deleteConversation: async (conversationId: number) => {
+    const response = await apiRequest('DELETE', `/api/conversation/${conversationId}`);
+    return response.json();
+  },
+  
   askDirectQuestion: async (contractId: number, question: string) => {
     const response = await apiRequest('POST', '/api/contract-qa', {
       contractId,
@@ -0,0 +1,20 @@
+-- contracts.risk_score used to hold the overall rating as text ("low",
+-- "medium", "high"). It is now a 0-100 integer with the rating in risk_level.
+-- The old rating moves to risk_level and the score is cleared until the
+-- contract is analysed again. Safe to run more than once, and on an
+-- empty database.
+ALTER TABLE IF EXISTS contracts ADD COLUMN IF NOT EXISTS risk_level text;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'contracts' AND column_name = 'risk_score' AND data_type = 'text'
+  ) THEN
+    UPDATE contracts
+      SET risk_level = lower(risk_score)
+      WHERE risk_level IS NULL AND lower(risk_score) IN ('low', 'medium', 'high');
+    ALTER TABLE contracts ALTER COLUMN risk_score DROP NOT NULL;
+    ALTER TABLE contracts ALTER COLUMN risk_score TYPE integer USING NULL;
+  END IF;
+END $$;
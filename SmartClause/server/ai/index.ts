@@ -0,0 +1,364 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { storage } from "../storage";
+import { ensureContractClauses, segmentDocument } from "../segmenter";
+import { citePassage, retrieveClauses, retrievePortfolioClauses, type ContractClause } from "../retrieval";
+import { describeClause } from "@shared/clauses";
+import type { AdHocDocument, Citation, Clause, Contract, Message } from "@shared/schema";
+import {
+  analyzeContractPrompt,
+  generateClausePrompt,
+  answerContractQuestionPrompt,
+  answerPortfolioQuestionPrompt,
+  type AnswerResponse,
+  type PromptTask,
+  type PromptTemplate,
+  type QuestionPassage,
+} from "./prompts";
+import {
+  loadLLMConfig,
+  withRetry,
+  LLMError,
+  OpenAICompatibleProvider,
+  AnthropicProvider,
+  type ChatTurn,
+  type LLMConfig,
+  type LLMProvider,
+  type ProviderName,
+  type TokenUsage,
+} from "./providers";
+import { StubProvider } from "./stub";
+
+export { LLMError, LLMCancelledError } from "./providers";
+
+// Identifies which provider and model produced a result, and what it cost
+export interface AICallMeta {
+  provider: ProviderName;
+  model: string;
+  usage: TokenUsage;
+}
+
+export function createProvider(config: LLMConfig): LLMProvider {
+  switch (config.provider) {
+    case "openai":
+      return new OpenAICompatibleProvider(config.model, config.apiKey!, config.baseUrl);
+    case "anthropic":
+      return new AnthropicProvider(config.model, config.apiKey!, config.baseUrl);
+    case "stub":
+      return new StubProvider(config.model);
+  }
+}
+
+let activeConfig: LLMConfig | null = null;
+let activeProvider: LLMProvider | null = null;
+
+// The provider is created on first use so a misconfigured key only fails AI routes
+export function getProvider(): { provider: LLMProvider; config: LLMConfig } {
+  if (!activeProvider || !activeConfig) {
+    activeConfig = loadLLMConfig();
+    activeProvider = createProvider(activeConfig);
+  }
+  return { provider: activeProvider, config: activeConfig };
+}
+
+// Running token totals per provider, model and task since the server started
+const usageTotals = new Map<string, { calls: number } & TokenUsage>();
+
+function recordUsage(provider: LLMProvider, task: PromptTask, usage: TokenUsage) {
+  const key = `${provider.name}:${provider.model}:${task}`;
+  const totals = usageTotals.get(key) || { calls: 0, inputTokens: 0, outputTokens: 0 };
+  usageTotals.set(key, {
+    calls: totals.calls + 1,
+    inputTokens: totals.inputTokens + usage.inputTokens,
+    outputTokens: totals.outputTokens + usage.outputTokens,
+  });
+}
+
+export function getTokenUsage() {
+  return Array.from(usageTotals.entries()).map(([key, totals]) => {
+    const [provider, model, task] = key.split(":");
+    return { provider, model, task, ...totals };
+  });
+}
+
+// Models sometimes wrap JSON in prose or code fences; take the outermost object
+function parseJsonResponse<T extends z.ZodTypeAny>(text: string, schema: T): z.infer<T> {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end < start) {
+    throw new LLMError("Provider response did not contain a JSON object", { retryable: true });
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    throw new LLMError("Provider response was not valid JSON", { retryable: true });
+  }
+
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    throw new LLMError(`Provider response failed validation: ${parsed.error.message}`, { retryable: true });
+  }
+  return parsed.data;
+}
+
+// Decoded value of a string field in a JSON object that is still being
+// generated, up to the last complete character. Undefined until the field starts.
+export function readPartialJsonString(text: string, field: string): string | undefined {
+  const match = new RegExp(`"${field}"\\s*:\\s*"`).exec(text);
+  if (!match) return undefined;
+
+  const escapes: Record<string, string> = { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f" };
+  let value = "";
+  for (let i = match.index + match[0].length; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') break;
+    if (char !== "\\") {
+      value += char;
+      continue;
+    }
+
+    const next = text[i + 1];
+    if (next === undefined) break;
+    if (next === "u") {
+      const hex = text.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += escapes[next] ?? next;
+      i += 1;
+    }
+  }
+  return value;
+}
+
+// Render a template, send it to the configured provider and validate the reply.
+// With onText, providers that can stream report the response text so far as it grows.
+async function runPrompt<T extends z.ZodTypeAny>(
+  template: PromptTemplate<T>,
+  variables: Record<string, string>,
+  history: ChatTurn[] = [],
+  onText?: (textSoFar: string) => void,
+  signal?: AbortSignal,
+): Promise<{ data: z.infer<T>; meta: AICallMeta }> {
+  const { provider, config } = getProvider();
+  const request = {
+    task: template.task,
+    system: template.system,
+    messages: [...history, { role: "user" as const, content: template.render(variables) }],
+    jsonSchema: zodToJsonSchema(template.schema, { target: "openAi" }) as Record<string, unknown>,
+    maxTokens: template.maxTokens,
+    variables,
+  };
+
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  const data = await withRetry(config, async (signal) => {
+    let textSoFar = "";
+    const result = onText && provider.stream
+      ? await provider.stream(request, signal, (delta) => {
+          textSoFar += delta;
+          onText(textSoFar);
+        })
+      : await provider.complete(request, signal);
+    // Failed attempts still cost tokens, so account for every response
+    usage.inputTokens += result.usage.inputTokens;
+    usage.outputTokens += result.usage.outputTokens;
+    recordUsage(provider, template.task, result.usage);
+    return parseJsonResponse(result.text, template.schema);
+  }, signal);
+
+  return { data, meta: { provider: provider.name, model: provider.model, usage } };
+}
+
+// Review a contract and flag risky clauses. Clause indices in the response
+// refer to the positions of the segmented clauses passed in.
+export async function analyzeContract(text: string, contractType: string, clauses: Clause[] = []) {
+  const outline = clauses.map((clause) => `[${clause.position}] ${describeClause(clause)}`).join("\n");
+  const { data, meta } = await runPrompt(analyzeContractPrompt, { text, contractType, outline });
+
+  return {
+    summary: data.summary,
+    riskScore: data.riskScore,
+    riskyClauses: data.riskyClauses,
+    riskyClauseIndices: data.riskyClauses.map((clause) => clause.clauseIndex),
+    fullAnalysis: {
+      riskLevel: data.riskScore,
+      riskReason: data.riskReason,
+      suggestions: data.suggestions,
+      provider: meta.provider,
+      model: meta.model,
+      usage: meta.usage,
+    },
+    meta,
+  };
+}
+
+// Draft a clause of the given type and tone
+export async function generateClause(clauseType: string, tone: string, details: string) {
+  const { data, meta } = await runPrompt(generateClausePrompt, { clauseType, tone, details });
+  return { ...data, meta };
+}
+
+// Clauses passed to the provider for one question, and earlier messages kept as context
+const MAX_PASSAGES = 6;
+const MAX_HISTORY_MESSAGES = 10;
+
+// Passes on the answer field of a streamed JSON response as it grows
+function streamAnswer(onToken?: (token: string) => void) {
+  let streamed = "";
+  return onToken && ((textSoFar: string) => {
+    const answer = readPartialJsonString(textSoFar, "answer");
+    // A retried attempt starts again from nothing; only pass on text that extends what was sent
+    if (answer && answer.length > streamed.length && answer.startsWith(streamed)) {
+      onToken(answer.slice(streamed.length));
+      streamed = answer;
+    }
+  });
+}
+
+// The latest messages of a conversation, as turns for the provider
+function historyTurns(history: Message[]): ChatTurn[] {
+  return history
+    .slice(-MAX_HISTORY_MESSAGES)
+    .map((message) => ({ role: message.role, content: message.content }));
+}
+
+// The passages an answer cites and the words quoted from each, by passage
+// number: from the model's list, or else from the markers in the answer
+function citedPassages(data: AnswerResponse, passageCount: number): [number, string][] {
+  const quotes = new Map<number, string>();
+  for (const citation of data.citations) {
+    if (citation.passage <= passageCount && !quotes.has(citation.passage)) quotes.set(citation.passage, citation.quote);
+  }
+  for (const marker of Array.from(data.answer.matchAll(/\[(\d+)\]/g))) {
+    const number = parseInt(marker[1]);
+    if (number >= 1 && number <= passageCount && !quotes.has(number)) quotes.set(number, "");
+  }
+  return Array.from(quotes.entries()).sort(([a], [b]) => a - b);
+}
+
+export interface AnswerOptions {
+  // Earlier messages of the conversation, oldest first
+  history?: Message[];
+  // Receives the answer text as it is generated, when the provider can stream
+  onToken?: (token: string) => void;
+  // Stops generation; the call then rejects with LLMCancelledError
+  signal?: AbortSignal;
+}
+
+// Answer a question about one document from the clauses most relevant to it.
+// Every citation points at a clause and the quoted words.
+async function answerFromClauses(
+  text: string,
+  clauses: Clause[],
+  question: string,
+  { history = [], onToken, signal }: AnswerOptions,
+): Promise<{ answer: string; citations: Citation[]; meta: AICallMeta }> {
+  // A follow-up such as "and how much notice?" leans on the question before it
+  const previousQuestion = [...history].reverse().find((message) => message.role === "user")?.content;
+  const ranked = retrieveClauses(clauses, question, { context: previousQuestion }).map((result) => result.item);
+  // With nothing matching, the start of the document is the best context there is
+  const candidates = ranked.length > 0 ? ranked : [...clauses].sort((a, b) => a.position - b.position);
+
+  // A clause's span includes its sub-clauses, so a clause nested in or around a chosen one would repeat it
+  const chosen: Clause[] = [];
+  for (const clause of candidates) {
+    if (chosen.length === MAX_PASSAGES) break;
+    const overlaps = chosen.some((other) => other.startOffset < clause.endOffset && clause.startOffset < other.endOffset);
+    if (!overlaps) chosen.push(clause);
+  }
+  const passages: QuestionPassage[] = chosen.map((clause, index) => ({
+    number: index + 1,
+    label: describeClause(clause),
+    text: text.slice(clause.startOffset, clause.endOffset),
+  }));
+
+  const { data, meta } = await runPrompt(answerContractQuestionPrompt, {
+    question,
+    passages: JSON.stringify(passages),
+  }, historyTurns(history), streamAnswer(onToken), signal);
+
+  const citations = citedPassages(data, chosen.length)
+    .map(([number, quote]) => citePassage(text, chosen[number - 1], number, quote));
+
+  return { answer: data.answer, citations, meta };
+}
+
+// Answer a question about one of the user's contracts
+export async function answerContractQuestion(
+  contractId: number,
+  question: string,
+  options: AnswerOptions = {},
+): Promise<{ answer: string; citations: Citation[]; meta: AICallMeta }> {
+  const contract = await storage.getContract(contractId);
+  if (!contract) {
+    throw new Error(`Contract ${contractId} not found`);
+  }
+  return answerFromClauses(contract.originalText, await ensureContractClauses(contract), question, options);
+}
+
+// Answer a question about pasted or uploaded text that is not a saved contract.
+// The text is segmented for each question; its citations point at no stored clause.
+export async function answerDocumentQuestion(
+  document: AdHocDocument,
+  question: string,
+  options: AnswerOptions = {},
+): Promise<{ answer: string; citations: Citation[]; meta: AICallMeta }> {
+  const result = await answerFromClauses(document.text, segmentDocument(document.text), question, options);
+  return { ...result, citations: result.citations.map((citation) => ({ ...citation, clauseId: null })) };
+}
+
+// Portfolio answers draw on more passages, but only a few from any one contract
+// so that a question about all of them is not answered from the first
+const MAX_PORTFOLIO_PASSAGES = 12;
+const MAX_PASSAGES_PER_CONTRACT = 2;
+
+// Answer a question across several of the user's contracts from the clauses
+// most relevant to it. Every citation names the contract and clause it points at.
+export async function answerPortfolioQuestion(
+  contracts: Contract[],
+  question: string,
+  { history = [], onToken, signal }: AnswerOptions = {},
+): Promise<{ answer: string; citations: Citation[]; meta: AICallMeta }> {
+  const indexed: { contract: Contract; clauses: Clause[] }[] = [];
+  for (const contract of contracts) {
+    indexed.push({ contract, clauses: await ensureContractClauses(contract) });
+  }
+
+  const previousQuestion = [...history].reverse().find((message) => message.role === "user")?.content;
+  const ranked = retrievePortfolioClauses(indexed, question, { context: previousQuestion }).map((result) => result.item);
+
+  const chosen: ContractClause[] = [];
+  for (const candidate of ranked) {
+    if (chosen.length === MAX_PORTFOLIO_PASSAGES) break;
+    const sameContract = chosen.filter((other) => other.contract.id === candidate.contract.id);
+    const overlaps = sameContract.some(({ clause }) =>
+      clause.startOffset < candidate.clause.endOffset && candidate.clause.startOffset < clause.endOffset
+    );
+    if (sameContract.length < MAX_PASSAGES_PER_CONTRACT && !overlaps) chosen.push(candidate);
+  }
+  const passages: QuestionPassage[] = chosen.map(({ contract, clause }, index) => ({
+    number: index + 1,
+    contract: contract.name,
+    label: describeClause(clause),
+    text: contract.originalText.slice(clause.startOffset, clause.endOffset),
+  }));
+
+  const { data, meta } = await runPrompt(answerPortfolioQuestionPrompt, {
+    question,
+    passages: JSON.stringify(passages),
+  }, historyTurns(history), streamAnswer(onToken), signal);
+
+  const citations = citedPassages(data, chosen.length).map(([number, quote]) => {
+    const { contract, clause } = chosen[number - 1];
+    return {
+      ...citePassage(contract.originalText, clause, number, quote),
+      contractId: contract.id,
+      contractName: contract.name,
+    };
+  });
+
+  return { answer: data.answer, citations, meta };
+}
@@ -0,0 +1,166 @@
+import { z } from "zod";
+import { RiskLevel, RiskCategory } from "@shared/schema";
+
+// Every AI call is one of these tasks. The task name selects the prompt
+// template and response schema, and lets the stub provider answer offline.
+export type PromptTask = "analyzeContract" | "generateClause" | "answerContractQuestion" | "answerPortfolioQuestion";
+
+const riskLevelSchema = z.enum([RiskLevel.LOW, RiskLevel.MEDIUM, RiskLevel.HIGH]);
+const riskCategorySchema = z.enum([
+  RiskCategory.LIABILITY, RiskCategory.IP, RiskCategory.TERMINATION,
+  RiskCategory.PAYMENT, RiskCategory.CONFIDENTIALITY, RiskCategory.COMPLIANCE,
+]);
+
+export const analysisResponseSchema = z.object({
+  summary: z.array(z.string()).min(1),
+  riskScore: riskLevelSchema,
+  riskReason: z.string(),
+  suggestions: z.string(),
+  riskyClauses: z.array(
+    z.object({
+      clauseIndex: z.number().int().nonnegative(),
+      clauseText: z.string(),
+      riskLevel: riskLevelSchema,
+      category: riskCategorySchema.nullable(),
+      explanation: z.string(),
+      suggestion: z.string().nullable(),
+    }),
+  ),
+});
+
+export const clauseResponseSchema = z.object({
+  clause: z.string().min(1),
+  legalContext: z.string(),
+});
+
+// The answer comes first so it can be streamed while the citations are still being written
+export const answerResponseSchema = z.object({
+  answer: z.string().min(1),
+  citations: z.array(
+    z.object({
+      passage: z.number().int().positive(),
+      quote: z.string(),
+    }),
+  ),
+});
+
+export type AnalysisResponse = z.infer<typeof analysisResponseSchema>;
+export type ClauseResponse = z.infer<typeof clauseResponseSchema>;
+export type AnswerResponse = z.infer<typeof answerResponseSchema>;
+
+export interface PromptTemplate<TSchema extends z.ZodTypeAny> {
+  task: PromptTask;
+  system: string;
+  render: (variables: Record<string, string>) => string;
+  schema: TSchema;
+  maxTokens: number;
+}
+
+// Longest slice of contract text sent to a provider in a single prompt
+export const MAX_CONTRACT_CHARS = 60000;
+
+export function truncateForPrompt(text: string, limit = MAX_CONTRACT_CHARS): string {
+  return text.length > limit ? `${text.slice(0, limit)}\n[... truncated ...]` : text;
+}
+
+export const analyzeContractPrompt: PromptTemplate<typeof analysisResponseSchema> = {
+  task: "analyzeContract",
+  system:
+    "You are a meticulous commercial contracts lawyer. You review contracts for the party uploading them, " +
+    "flag clauses that expose them to risk and propose balanced replacement wording. Respond with JSON only.",
+  render: ({ contractType, text, outline }) => `Review the following ${contractType || "contract"}.
+
+Produce:
+- "summary": 4-8 short bullet points covering term, payment, liability, IP, confidentiality and termination
+- "riskScore": overall risk, one of "low", "medium" or "high"
+- "riskReason": one sentence explaining the overall risk
+- "suggestions": one sentence on what to negotiate first
+- "riskyClauses": each risky clause with its index from the clause outline below ("clauseIndex"), the exact
+  clause text quoted from the contract, a risk level, a category (liability, ip, termination, payment,
+  confidentiality or compliance), an explanation and a safer replacement ("suggestion", or null if none)
+
+Clause outline:
+${outline || "[0] Entire contract"}
+
+Contract:
+"""
+${truncateForPrompt(text)}
+"""`,
+  schema: analysisResponseSchema,
+  maxTokens: 4000,
+};
+
+export const generateClausePrompt: PromptTemplate<typeof clauseResponseSchema> = {
+  task: "generateClause",
+  system:
+    "You are an experienced contracts drafter. You write enforceable, clearly numbered contract clauses " +
+    "in the requested tone. Respond with JSON only.",
+  render: ({ clauseType, tone, details }) => `Draft a ${clauseType} clause in a ${tone} tone.
+
+Additional requirements from the user: ${details || "none"}
+
+Return "clause" with the full clause text (numbered sub-clauses where appropriate) and "legalContext"
+with two or three sentences on how courts typically treat this kind of clause.`,
+  schema: clauseResponseSchema,
+  maxTokens: 2000,
+};
+
+// A numbered contract passage given to the model to answer from
+export interface QuestionPassage {
+  number: number;
+  label: string;
+  text: string;
+  contract?: string; // name of the contract, when passages come from several
+}
+
+// Longest passage sent for one clause
+const MAX_PASSAGE_CHARS = 3000;
+
+export const answerContractQuestionPrompt: PromptTemplate<typeof answerResponseSchema> = {
+  task: "answerContractQuestion",
+  system:
+    "You answer questions about a contract for a non-lawyer. Only rely on the numbered passages provided, " +
+    "mark every statement with the passage it comes from, e.g. [2], and say so when the passages do not " +
+    "address the question. Respond with JSON only.",
+  render: ({ question, passages }) => {
+    const numbered = (JSON.parse(passages) as QuestionPassage[]).map((passage) =>
+      `[${passage.number}] ${passage.label}\n"""\n${truncateForPrompt(passage.text, MAX_PASSAGE_CHARS)}\n"""`
+    );
+    return `Passages of the contract most relevant to the question:
+
+${numbered.join("\n\n") || "(no passages matched the question)"}
+
+Question: ${question}
+
+Return "answer" with a concise answer in plain English, marking statements with passage numbers like [1],
+and "citations" with one entry per passage you relied on: its number ("passage") and the exact words
+quoted from it that support the answer ("quote").`;
+  },
+  schema: answerResponseSchema,
+  maxTokens: 1200,
+};
+
+export const answerPortfolioQuestionPrompt: PromptTemplate<typeof answerResponseSchema> = {
+  task: "answerPortfolioQuestion",
+  system:
+    "You answer questions across a portfolio of contracts for a non-lawyer. Only rely on the numbered " +
+    "passages provided, each taken from the named contract. Name the contract in every statement, mark it " +
+    "with the passage it comes from, e.g. [2], and say so when the passages do not address the question. " +
+    "Respond with JSON only.",
+  render: ({ question, passages }) => {
+    const numbered = (JSON.parse(passages) as QuestionPassage[]).map((passage) =>
+      `[${passage.number}] ${passage.contract}: ${passage.label}\n"""\n${truncateForPrompt(passage.text, MAX_PASSAGE_CHARS)}\n"""`
+    );
+    return `Passages of the contracts most relevant to the question:
+
+${numbered.join("\n\n") || "(no passages matched the question)"}
+
+Question: ${question}
+
+Return "answer" with a concise answer in plain English that goes through the contracts concerned by name,
+marking statements with passage numbers like [1], and "citations" with one entry per passage you relied on:
+its number ("passage") and the exact words quoted from it that support the answer ("quote").`;
+  },
+  schema: answerResponseSchema,
+  maxTokens: 2000,
+};
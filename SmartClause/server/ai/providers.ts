@@ -0,0 +1,346 @@
+import type { PromptTask } from "./prompts";
+
+export type ProviderName = "openai" | "anthropic" | "stub";
+
+export interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionRequest {
+  task: PromptTask;
+  system: string;
+  messages: ChatTurn[];
+  // JSON schema the response must follow; providers that support structured
+  // output receive it natively, the rest get it appended to the prompt
+  jsonSchema: Record<string, unknown>;
+  maxTokens: number;
+  temperature?: number;
+  // Raw template variables, used by the stub provider to answer offline
+  variables: Record<string, string>;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface CompletionResult {
+  text: string;
+  usage: TokenUsage;
+}
+
+// Receives each piece of response text as a streaming provider generates it
+export type TextDeltaHandler = (delta: string) => void;
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  complete(request: CompletionRequest, signal: AbortSignal): Promise<CompletionResult>;
+  // Like complete, but reports the response text as it is generated
+  stream?(request: CompletionRequest, signal: AbortSignal, onDelta: TextDeltaHandler): Promise<CompletionResult>;
+}
+
+export interface LLMConfig {
+  provider: ProviderName;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  timeoutMs: number;
+  maxRetries: number;
+}
+
+// Raised for provider failures. Rate limits, server errors, timeouts and
+// malformed responses are retryable; authentication and bad requests are not.
+export class LLMError extends Error {
+  retryable: boolean;
+  status?: number;
+
+  constructor(message: string, options: { retryable: boolean; status?: number }) {
+    super(message);
+    this.name = "LLMError";
+    this.retryable = options.retryable;
+    this.status = options.status;
+  }
+}
+
+// The caller stopped waiting for a response, e.g. the user stopped generation
+export class LLMCancelledError extends LLMError {
+  constructor() {
+    super("Generation was cancelled", { retryable: false });
+    this.name = "LLMCancelledError";
+  }
+}
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  openai: "gpt-4o-mini",
+  anthropic: "claude-3-5-sonnet-latest",
+  stub: "stub-1",
+};
+
+// Read provider settings from the environment. Without an explicit provider
+// the offline stub is used, so development and tests never hit the network.
+export function loadLLMConfig(env: NodeJS.ProcessEnv = process.env): LLMConfig {
+  const provider = (env.LLM_PROVIDER || "stub") as ProviderName;
+  if (!(provider in DEFAULT_MODELS)) {
+    throw new Error(`Unknown LLM_PROVIDER "${provider}". Use openai, anthropic or stub.`);
+  }
+
+  const apiKey =
+    env.LLM_API_KEY ||
+    (provider === "openai" ? env.OPENAI_API_KEY : undefined) ||
+    (provider === "anthropic" ? env.ANTHROPIC_API_KEY : undefined);
+
+  if (provider !== "stub" && !apiKey) {
+    throw new Error(`LLM_API_KEY must be set when LLM_PROVIDER is "${provider}"`);
+  }
+
+  return {
+    provider,
+    model: env.LLM_MODEL || DEFAULT_MODELS[provider],
+    apiKey,
+    baseUrl: env.LLM_BASE_URL,
+    timeoutMs: parseInt(env.LLM_TIMEOUT_MS || "60000"),
+    maxRetries: parseInt(env.LLM_MAX_RETRIES || "3"),
+  };
+}
+
+function statusError(provider: string, status: number, body: string): LLMError {
+  return new LLMError(`${provider} request failed with ${status}: ${body.slice(0, 300)}`, {
+    status,
+    retryable: status === 408 || status === 409 || status === 429 || status >= 500,
+  });
+}
+
+// A successful response whose body is not JSON is treated like a server error, so it is retried
+function parseJson(provider: string, body: string) {
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new LLMError(`${provider} returned a response that is not JSON: ${body.slice(0, 300)}`, { retryable: true });
+  }
+}
+
+// Read a server-sent event stream, passing the data line of each event to onData
+async function readEventStream(response: Response, onData: (data: string) => void) {
+  if (!response.body) {
+    throw new LLMError("Provider returned an empty stream", { retryable: true });
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop()!;
+    for (const line of lines) {
+      if (line.startsWith("data:")) onData(line.slice(5).trim());
+    }
+  }
+}
+
+// Any server speaking the OpenAI chat completions API (OpenAI, Azure, vLLM, Ollama...)
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai" as const;
+
+  constructor(
+    readonly model: string,
+    private apiKey: string,
+    private baseUrl = "https://api.openai.com/v1",
+  ) {}
+
+  private send(request: CompletionRequest, signal: AbortSignal, stream: boolean) {
+    return fetch(`${this.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+      method: "POST",
+      signal,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature ?? 0.2,
+        response_format: {
+          type: "json_schema",
+          json_schema: { name: request.task, schema: request.jsonSchema },
+        },
+        messages: [{ role: "system", content: request.system }, ...request.messages],
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+      }),
+    });
+  }
+
+  async complete(request: CompletionRequest, signal: AbortSignal): Promise<CompletionResult> {
+    const response = await this.send(request, signal, false);
+
+    const body = await response.text();
+    if (!response.ok) throw statusError("OpenAI", response.status, body);
+
+    const data = parseJson("OpenAI", body);
+    return {
+      text: data.choices?.[0]?.message?.content ?? "",
+      usage: {
+        inputTokens: data.usage?.prompt_tokens ?? 0,
+        outputTokens: data.usage?.completion_tokens ?? 0,
+      },
+    };
+  }
+
+  async stream(request: CompletionRequest, signal: AbortSignal, onDelta: TextDeltaHandler): Promise<CompletionResult> {
+    const response = await this.send(request, signal, true);
+    if (!response.ok) throw statusError("OpenAI", response.status, await response.text());
+
+    let text = "";
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    await readEventStream(response, (data) => {
+      if (data === "[DONE]") return;
+
+      const chunk = parseJson("OpenAI", data);
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onDelta(delta);
+      }
+      // Usage arrives in a final chunk with no choices
+      if (chunk.usage) {
+        usage.inputTokens = chunk.usage.prompt_tokens ?? 0;
+        usage.outputTokens = chunk.usage.completion_tokens ?? 0;
+      }
+    });
+
+    return { text, usage };
+  }
+}
+
+// Anthropic Messages API
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic" as const;
+
+  constructor(
+    readonly model: string,
+    private apiKey: string,
+    private baseUrl = "https://api.anthropic.com",
+  ) {}
+
+  private send(request: CompletionRequest, signal: AbortSignal, stream: boolean) {
+    return fetch(`${this.baseUrl.replace(/\/$/, "")}/v1/messages`, {
+      method: "POST",
+      signal,
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": this.apiKey,
+        "anthropic-version": "2023-06-01",
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature ?? 0.2,
+        system: `${request.system}\n\nYour reply must be a single JSON object matching this JSON schema:\n${JSON.stringify(request.jsonSchema)}`,
+        messages: request.messages,
+        ...(stream ? { stream: true } : {}),
+      }),
+    });
+  }
+
+  async complete(request: CompletionRequest, signal: AbortSignal): Promise<CompletionResult> {
+    const response = await this.send(request, signal, false);
+
+    const body = await response.text();
+    if (!response.ok) throw statusError("Anthropic", response.status, body);
+
+    const data = parseJson("Anthropic", body);
+    const text = (data.content || [])
+      .filter((block: { type: string }) => block.type === "text")
+      .map((block: { text: string }) => block.text)
+      .join("");
+
+    return {
+      text,
+      usage: {
+        inputTokens: data.usage?.input_tokens ?? 0,
+        outputTokens: data.usage?.output_tokens ?? 0,
+      },
+    };
+  }
+
+  async stream(request: CompletionRequest, signal: AbortSignal, onDelta: TextDeltaHandler): Promise<CompletionResult> {
+    const response = await this.send(request, signal, true);
+    if (!response.ok) throw statusError("Anthropic", response.status, await response.text());
+
+    let text = "";
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    await readEventStream(response, (data) => {
+      const event = parseJson("Anthropic", data);
+      switch (event.type) {
+        case "message_start":
+          usage.inputTokens = event.message?.usage?.input_tokens ?? 0;
+          break;
+        case "content_block_delta":
+          if (event.delta?.type === "text_delta") {
+            text += event.delta.text;
+            onDelta(event.delta.text);
+          }
+          break;
+        case "message_delta":
+          usage.outputTokens = event.usage?.output_tokens ?? usage.outputTokens;
+          break;
+        case "error":
+          throw new LLMError(`Anthropic stream error: ${event.error?.message ?? "unknown"}`, { retryable: true });
+      }
+    });
+
+    return { text, usage };
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Run a provider call with a per-attempt timeout and exponential backoff
+// (with jitter) between retryable failures. Aborting cancelSignal stops the
+// current attempt and any further ones.
+export async function withRetry<T>(
+  config: Pick<LLMConfig, "timeoutMs" | "maxRetries">,
+  attempt: (signal: AbortSignal) => Promise<T>,
+  cancelSignal?: AbortSignal,
+): Promise<T> {
+  let lastError: unknown;
+
+  for (let attemptNumber = 0; attemptNumber <= config.maxRetries; attemptNumber++) {
+    if (cancelSignal?.aborted) throw new LLMCancelledError();
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+    const cancel = () => controller.abort();
+    cancelSignal?.addEventListener("abort", cancel);
+
+    try {
+      const result = await attempt(controller.signal);
+      // Providers may stop early on abort and return what they had
+      if (cancelSignal?.aborted) throw new LLMCancelledError();
+      return result;
+    } catch (error) {
+      if (cancelSignal?.aborted) throw new LLMCancelledError();
+
+      lastError = controller.signal.aborted
+        ? new LLMError(`Provider timed out after ${config.timeoutMs}ms`, { retryable: true })
+        : error;
+
+      const retryable =
+        lastError instanceof LLMError ? lastError.retryable : lastError instanceof TypeError; // fetch network errors
+      if (!retryable || attemptNumber === config.maxRetries) break;
+
+      await sleep(Math.min(500 * 2 ** attemptNumber, 8000) * (0.5 + Math.random() / 2));
+    } finally {
+      clearTimeout(timer);
+      cancelSignal?.removeEventListener("abort", cancel);
+    }
+  }
+
+  throw lastError;
+}
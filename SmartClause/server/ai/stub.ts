@@ -0,0 +1,175 @@
+import { RiskLevel } from "@shared/schema";
+import type { CompletionRequest, CompletionResult, LLMProvider, TextDeltaHandler } from "./providers";
+import type { AnalysisResponse, AnswerResponse, ClauseResponse, QuestionPassage } from "./prompts";
+
+// Deterministic offline provider. It never touches the network and returns
+// canned, keyword-driven responses so development and tests run without keys.
+
+// Clause-level findings come from the playbook rules engine, so the stub only
+// supplies the narrative parts of an analysis
+function analyzeContract(): AnalysisResponse {
+  const summary = [
+    "Contract duration is 12 months with automatic renewal unless terminated with 30 days notice",
+    "Payment terms require invoice payment within 30 days",
+    "Broadly worded indemnification clause places significant burden on your company",
+    "Non-compete clause is excessively broad and may not be enforceable in all jurisdictions",
+    "Confidentiality provisions expire 3 years after termination",
+    "Intellectual property ownership assigns all work product to client without limitation"
+  ];
+  
+  return {
+    summary,
+    riskScore: RiskLevel.LOW,
+    riskReason: "Offline analysis: risk is based on the playbook rules that matched",
+    suggestions: "Review the flagged clauses, starting with those marked high risk",
+    riskyClauses: []
+  };
+}
+
+function generateClause(clauseType: string, tone: string, details: string): string {
+  let template = '';
+  
+  if (clauseType === 'nda' || clauseType === 'confidentiality') {
+    template = `11.1 Confidential Information. Each party acknowledges that it may be furnished with or may otherwise receive or have access to information or material that relates to past, present, or future products, software, research, development, inventions, processes, techniques, designs, or technical information and data, and marketing plans (hereinafter the "Confidential Information"). Each party agrees to preserve and protect the confidentiality of the Confidential Information.
+
+11.2 Non-Disclosure. Each party agrees that it will not disclose to any third party or use any Confidential Information disclosed to it by the other party except as expressly permitted in this Agreement, and will take reasonable measures to maintain the confidentiality of such information, which measures shall not be less than the degree of care employed by the recipient to preserve and safeguard its own confidential information, but in no event less than a reasonable degree of care.
+
+11.3 Term of Obligation. The obligations of the parties under this Section shall continue in full force and effect for a period of three (3) years from the date of termination or expiration of this Agreement.`;
+  } else if (clauseType === 'termination') {
+    template = `8.1 Termination for Convenience. Either party may terminate this Agreement for any reason upon thirty (30) days' prior written notice to the other party.
+
+8.2 Termination for Cause. Either party may terminate this Agreement immediately upon written notice to the other party if the other party materially breaches this Agreement and fails to cure such breach within fifteen (15) business days after receiving written notice thereof.
+
+8.3 Effect of Termination. Upon termination of this Agreement for any reason, each party shall promptly return to the other party all property belonging to the other party, including without limitation all Confidential Information.`;
+  } else if (clauseType === 'payment') {
+    template = `5.1 Fees. Client shall pay the fees set forth in the applicable Statement of Work. All fees are exclusive of taxes, which Client shall pay as applicable.
+
+5.2 Payment Terms. Client shall pay all invoices within thirty (30) days of receipt. Late payments shall accrue interest at a rate of 1.5% per month or the highest rate allowed by applicable law, whichever is lower, from the date such payment was due until the date paid.
+
+5.3 Disputes. Client shall notify Contractor in writing of any disputed charges within fifteen (15) days of the invoice date, or such charges shall be deemed accepted by Client.`;
+  } else {
+    template = `This is a template for the ${clauseType} clause type with a ${tone} tone.
+
+The clause would typically include specific legal language relevant to this type of provision, with appropriate binding terms and conditions that protect the party's interests.
+
+Additional details from your input would be incorporated here: ${details || "No additional details provided."}`;
+  }
+  
+  // Adjust tone if needed
+  if (tone === 'friendly') {
+    template = template.replace(/shall/g, 'will').replace(/hereinafter/g, 'below');
+  } else if (tone === 'aggressive') {
+    template = template.replace(/may/g, 'shall').replace(/reasonable/g, 'strict');
+  }
+  
+  return template;
+}
+
+// The sentence of each passage that shares most words with the question,
+// for the passages sharing any
+function matchSentences(question: string, passagesJson: string) {
+  const passages = JSON.parse(passagesJson) as QuestionPassage[];
+  const questionWords = new Set((question.toLowerCase().match(/[a-z]{4,}/g) || []).map((word) => word.slice(0, 6)));
+
+  return passages.flatMap((passage) => {
+    const sentences = (passage.text.match(/[^.;\n]+(?:[.;](?=\S)[^.;\n]*)*[.;]?/g) || []).map((sentence) => sentence.trim()).filter(Boolean);
+    const scored = sentences.map((sentence) => ({
+      sentence,
+      overlap: (sentence.toLowerCase().match(/[a-z]{4,}/g) || []).filter((word) => questionWords.has(word.slice(0, 6))).length,
+    }));
+    const best = scored.sort((a, b) => b.overlap - a.overlap)[0];
+    return best && best.overlap > 0 ? [{ passage, sentence: best.sentence }] : [];
+  });
+}
+
+// Answers from the passages it is given: the best matching sentence of the
+// first two, cited by passage number
+function answerContractQuestion(question: string, passagesJson: string): AnswerResponse {
+  const matches = matchSentences(question, passagesJson).slice(0, 2);
+
+  if (matches.length === 0) {
+    return { answer: "The contract does not appear to address this question.", citations: [] };
+  }
+  const [first, second] = matches;
+  return {
+    answer: `${first.passage.label} covers this: "${first.sentence}" [${first.passage.number}]` +
+      (second ? ` See also ${second.passage.label} [${second.passage.number}].` : ""),
+    citations: matches.map((match) => ({ passage: match.passage.number, quote: match.sentence })),
+  };
+}
+
+// Goes through the contracts in order of relevance, quoting the best matching
+// sentence of each
+function answerPortfolioQuestion(question: string, passagesJson: string): AnswerResponse {
+  const matches = matchSentences(question, passagesJson)
+    .filter((match, index, all) => all.findIndex((other) => other.passage.contract === match.passage.contract) === index)
+    .slice(0, 5);
+
+  if (matches.length === 0) {
+    return { answer: "None of these contracts appear to address this question.", citations: [] };
+  }
+  return {
+    answer: matches
+      .map((match) => `${match.passage.contract}, ${match.passage.label}: "${match.sentence}" [${match.passage.number}]`)
+      .join(" "),
+    citations: matches.map((match) => ({ passage: match.passage.number, quote: match.sentence })),
+  };
+}
+
+// Rough token estimate (~4 characters per token) so usage accounting still works offline
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Pause between streamed chunks, roughly the pace of a hosted model
+const STREAM_DELAY_MS = 20;
+
+export class StubProvider implements LLMProvider {
+  readonly name = "stub" as const;
+
+  constructor(readonly model = "stub-1") {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const { variables } = request;
+    let response: AnalysisResponse | ClauseResponse | AnswerResponse;
+
+    switch (request.task) {
+      case "analyzeContract":
+        response = analyzeContract();
+        break;
+      case "generateClause":
+        response = {
+          clause: generateClause(variables.clauseType, variables.tone, variables.details || ''),
+          legalContext: "This clause establishes standard protections with reasonable terms that courts typically uphold. It provides clear guidance on handling proprietary information and is balanced between parties."
+        };
+        break;
+      case "answerContractQuestion":
+        response = answerContractQuestion(variables.question, variables.passages);
+        break;
+      case "answerPortfolioQuestion":
+        response = answerPortfolioQuestion(variables.question, variables.passages);
+        break;
+    }
+
+    const text = JSON.stringify(response);
+    const prompt = [request.system, ...request.messages.map((message) => message.content)].join("\n");
+
+    return {
+      text,
+      usage: { inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(text) },
+    };
+  }
+
+  // Replays the canned response a few words at a time so streaming UIs can be exercised offline
+  async stream(request: CompletionRequest, signal: AbortSignal, onDelta: TextDeltaHandler): Promise<CompletionResult> {
+    const result = await this.complete(request);
+
+    for (const chunk of result.text.match(/\S+\s*|\s+/g) || []) {
+      if (signal.aborted) break;
+      await new Promise((resolve) => setTimeout(resolve, STREAM_DELAY_MS));
+      onDelta(chunk);
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,178 @@
+import { storage } from "./storage";
+import { extractDocumentText } from "./extraction";
+import { ensureContractClauses, locatePassage, resolveClauseReference } from "./segmenter";
+import { scoreFindings } from "./scoring";
+import { detectBlankFields } from "./blanks";
+import { extractContractTerms, withoutUserTerms } from "./terms";
+import { RISK_ENGINE_VERSION, evaluateRules, loadPlaybookVersion } from "./risk-engine";
+import { analyzeContract, LLMError } from "./ai";
+import { PermanentJobError, type JobHandler } from "./jobs";
+import { publish } from "./realtime";
+import { AnalysisStage, AnalysisStatus, type Contract } from "@shared/schema";
+
+// Payload of an analyze-contract job
+export interface AnalyzeContractPayload {
+  contractId: number;
+  contractType: string;
+  playbookId?: number;
+  // Span of the current text that changed since the last analysis; only
+  // this region goes to the AI provider when set
+  changedRange?: { startOffset: number; endOffset: number };
+}
+
+// Result stored on a completed analyze-contract job
+export interface AnalyzeContractResult {
+  analysisId: number;
+}
+
+// Progress reported when each stage starts
+const STAGE_PROGRESS = {
+  [AnalysisStage.EXTRACTING]: 5,
+  [AnalysisStage.SEGMENTING]: 20,
+  [AnalysisStage.SCORING]: 35,
+  [AnalysisStage.SUMMARISING]: 50,
+} as const;
+
+// Analyze a contract: make sure its text and clauses exist, run the playbook
+// rules, look for unfilled blanks, ask the AI provider for a summary and
+// further risks, then score and save the run and the contract's key terms
+export const runAnalysisJob: JobHandler = async (job, reportProgress) => {
+  const payload = job.payload as AnalyzeContractPayload;
+
+  await reportProgress(AnalysisStage.EXTRACTING, STAGE_PROGRESS.extracting);
+  const stored = await storage.getContract(payload.contractId);
+  if (!stored) {
+    throw new PermanentJobError('Contract not found');
+  }
+  let contract: Contract = stored;
+
+  // A contract whose text was cleared by an edit is re-extracted from its uploaded file
+  if (!contract.originalText.trim()) {
+    const file = await storage.getContractFileByContractId(contract.id);
+    if (!file) {
+      throw new PermanentJobError('Contract has no text to analyze');
+    }
+    const extracted = await extractDocumentText(file.data, file.fileName, file.mimeType);
+    contract = (await storage.updateContract(contract.id, { originalText: extracted.text })) ?? contract;
+  }
+
+  await reportProgress(AnalysisStage.SEGMENTING, STAGE_PROGRESS.segmenting);
+  const clauses = await ensureContractClauses(contract);
+
+  await reportProgress(AnalysisStage.SCORING, STAGE_PROGRESS.scoring);
+  const playbook = await loadPlaybookVersion(payload.playbookId, job.userId);
+  if (!playbook) {
+    throw new PermanentJobError('Playbook not found');
+  }
+
+  // Deterministic playbook rules run first; the AI provider adds the
+  // summary and any risks in clauses the rules did not flag
+  const ruleFindings = evaluateRules(playbook.rules, clauses, contract.originalText);
+  // Unfinished drafting is reported on its own and does not count towards the score
+  const blankFields = detectBlankFields(contract.originalText, clauses);
+
+  // A targeted edit re-analyses the changed region and keeps the earlier
+  // AI findings elsewhere, as long as they can still be found in the text
+  const range = payload.changedRange;
+  const previous = range ? await storage.getAnalysisByContractId(contract.id) : undefined;
+  const overlapsRange = (start: number, end: number) => !!range && start < range.endOffset && end > range.startOffset;
+  const carriedOver = previous
+    ? (await storage.getRiskyClausesByAnalysisId(previous.id))
+      .filter((clauseInfo) => clauseInfo.source === 'ai')
+      .flatMap((clauseInfo) => {
+        const located = locatePassage(contract.originalText, clauseInfo.clauseText);
+        if (!located || overlapsRange(located.start, located.end)) return [];
+        return [{
+          clauseIndex: clauseInfo.clauseIndex,
+          clauseText: clauseInfo.clauseText,
+          riskLevel: clauseInfo.riskLevel,
+          explanation: clauseInfo.explanation,
+          suggestion: clauseInfo.suggestion,
+          category: clauseInfo.category
+        }];
+      })
+    : [];
+
+  await reportProgress(AnalysisStage.SUMMARISING, STAGE_PROGRESS.summarising);
+  let analysisResult: Awaited<ReturnType<typeof analyzeContract>>;
+  try {
+    analysisResult = previous && range
+      ? await analyzeContract(
+        contract.originalText.slice(range.startOffset, range.endOffset),
+        payload.contractType || contract.contractType || '',
+        clauses.filter((clause) => overlapsRange(clause.startOffset, clause.endOffset))
+      )
+      : await analyzeContract(contract.originalText, payload.contractType || contract.contractType || '', clauses);
+  } catch (error) {
+    // The provider client already retries transient failures; the rest (bad key, bad request) will not go away
+    if (error instanceof LLMError && !error.retryable) {
+      throw new PermanentJobError(`AI provider error: ${error.message}`);
+    }
+    throw error;
+  }
+
+  const flaggedClauseIds = new Set(ruleFindings.map((finding) => finding.clause.id));
+  const riskyClauses = [
+    ...ruleFindings.map((finding) => ({
+      clauseIndex: finding.clause.position,
+      clauseId: finding.clause.id,
+      startOffset: finding.startOffset,
+      endOffset: finding.endOffset,
+      clauseText: finding.clauseText,
+      riskLevel: finding.rule.riskLevel,
+      explanation: finding.rule.explanation,
+      suggestion: finding.rule.suggestion,
+      source: 'rule',
+      ruleId: finding.rule.id,
+      category: finding.rule.category
+    })),
+    ...[...carriedOver, ...analysisResult.riskyClauses]
+      .map((clauseInfo) => ({
+        ...clauseInfo,
+        ...resolveClauseReference(contract.originalText, clauses, clauseInfo.clauseText, clauseInfo.clauseIndex),
+        source: 'ai',
+        ruleId: null
+      }))
+      .filter((clauseInfo) => clauseInfo.clauseId === null || !flaggedClauseIds.has(clauseInfo.clauseId))
+  ].sort((a, b) => a.clauseIndex - b.clauseIndex);
+
+  // Score the contract from the findings rather than the model's own rating
+  const scoring = scoreFindings(riskyClauses);
+
+  // The analysis, its risky clauses and blank fields and the contract score are written together;
+  // the score is left alone if a new version was added while this run was working
+  const analysis = await storage.saveAnalysisResult({
+    contractId: contract.id,
+    // A region's summary would describe only the edit, so the contract's summary stays
+    summary: previous ? previous.summary as typeof analysisResult.summary : analysisResult.summary,
+    riskyClauseIndices: riskyClauses.map((clause) => clause.clauseIndex),
+    fullAnalysis: {
+      ...analysisResult.fullAnalysis,
+      riskLevel: scoring.level,
+      playbook: {
+        id: playbook.playbook.id,
+        name: playbook.playbook.name,
+        version: playbook.version.version
+      },
+      ...(previous && range && { changedRange: range, basedOnAnalysisId: previous.id })
+    },
+    playbookVersionId: playbook.version.id,
+    riskScore: scoring.score,
+    riskLevel: scoring.level,
+    scoreBreakdown: scoring.breakdown,
+    contractVersion: contract.currentVersion,
+    status: AnalysisStatus.COMPLETED,
+    engine: RISK_ENGINE_VERSION,
+    provider: analysisResult.meta.provider,
+    model: analysisResult.meta.model
+  }, riskyClauses, blankFields);
+
+  // Key terms describe the contract rather than one run, and are always read
+  // from the whole text; terms a user entered or corrected win
+  const terms = withoutUserTerms(extractContractTerms(contract.originalText, clauses), await storage.getContractTerms(contract.id));
+  await storage.replaceExtractedContractTerms(contract.id, terms.map((term) => ({ ...term, analysisId: analysis.id })));
+  publish(job.userId, { type: 'contracts.changed', contractId: contract.id });
+
+  const result: AnalyzeContractResult = { analysisId: analysis.id };
+  return result;
+};
@@ -0,0 +1,228 @@
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import bcrypt from "bcryptjs";
+import { storage } from "./storage";
+import { pool } from "./db";
+import { type User as SelectUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+// Utility function to hash password
+export async function hashPassword(password: string): Promise<string> {
+  const salt = await bcrypt.genSalt(10);
+  return await bcrypt.hash(password, salt);
+}
+
+// Utility function to verify password
+export async function verifyPassword(password: string, hashedPassword: string): Promise<boolean> {
+  return await bcrypt.compare(password, hashedPassword);
+}
+
+// Strip the password hash before a user leaves the server
+export function sanitizeUser(user: SelectUser) {
+  const { password, ...userWithoutPassword } = user;
+  return userWithoutPassword;
+}
+
+// Sessions live in Postgres in production and in memory during development
+function createSessionStore(isDevelopment: boolean): session.Store {
+  if (isDevelopment) {
+    const MemoryStore = createMemoryStore(session);
+    return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+  }
+
+  const PostgresStore = connectPg(session);
+  return new PostgresStore({
+    pool,
+    tableName: "user_sessions",
+    createTableIfMissing: true,
+  });
+}
+
+// Install sessions and passport. The session middleware is returned so the
+// WebSocket server can authenticate upgrade requests with the same cookie.
+export function setupAuth(app: Express): RequestHandler {
+  const isDevelopment = app.get("env") === "development";
+
+  if (!process.env.SESSION_SECRET && !isDevelopment) {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  const sessionSettings: session.SessionOptions = {
+    secret: process.env.SESSION_SECRET || "smartclause-dev-secret",
+    resave: false,
+    saveUninitialized: false,
+    store: createSessionStore(isDevelopment),
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: !isDevelopment,
+      maxAge: 7 * 24 * 60 * 60 * 1000,
+    },
+  };
+
+  const sessionMiddleware = session(sessionSettings);
+
+  app.set("trust proxy", 1);
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy({ usernameField: "email" }, async (email, password, done) => {
+      try {
+        const user = await storage.getUserByEmail(email);
+        if (!user || !(await verifyPassword(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  return sessionMiddleware;
+}
+
+// Reject requests that do not carry an authenticated session
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'Not authenticated' });
+  }
+  next();
+}
+
+// Reject requests whose `:param` user id is not the session user
+export function requireSelf(param: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    if (parseInt(req.params[param]) !== req.user.id) {
+      return res.status(403).json({ message: 'Forbidden' });
+    }
+    next();
+  };
+}
+
+// Build a middleware that resolves the owning user id of a resource from a
+// route param and rejects the request unless it belongs to the session user
+function requireOwnership(
+  param: string,
+  resolveOwnerId: (id: number) => Promise<number | null | undefined>,
+  notFoundMessage: string,
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      const ownerId = await resolveOwnerId(parseInt(req.params[param]));
+      if (ownerId === undefined) {
+        return res.status(404).json({ message: notFoundMessage });
+      }
+      if (ownerId !== req.user.id) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+      next();
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  };
+}
+
+export async function getContractOwnerId(contractId: number): Promise<number | undefined> {
+  const contract = await storage.getContract(contractId);
+  return contract?.userId;
+}
+
+export async function getAnalysisOwnerId(analysisId: number): Promise<number | undefined> {
+  const analysis = await storage.getAnalysis(analysisId);
+  return analysis ? getContractOwnerId(analysis.contractId) : undefined;
+}
+
+export const requireContractOwner = (param: string) =>
+  requireOwnership(param, getContractOwnerId, 'Contract not found');
+
+export const requireAnalysisOwner = (param: string) =>
+  requireOwnership(param, getAnalysisOwnerId, 'Analysis not found');
+
+export const requireRiskyClauseOwner = (param: string) =>
+  requireOwnership(
+    param,
+    async (id) => {
+      const riskyClause = await storage.getRiskyClause(id);
+      return riskyClause ? getAnalysisOwnerId(riskyClause.analysisId) : undefined;
+    },
+    'Risky clause not found',
+  );
+
+export const requireContractTermOwner = (param: string) =>
+  requireOwnership(
+    param,
+    async (id) => {
+      const term = await storage.getContractTerm(id);
+      return term ? getContractOwnerId(term.contractId) : undefined;
+    },
+    'Contract term not found',
+  );
+
+export const requireSavedClauseOwner = (param: string) =>
+  requireOwnership(
+    param,
+    async (id) => (await storage.getSavedClause(id))?.userId,
+    'Saved clause not found',
+  );
+
+export const requireConversationOwner = (param: string) =>
+  requireOwnership(
+    param,
+    async (id) => (await storage.getConversation(id))?.userId,
+    'Conversation not found',
+  );
+
+// Built-in playbooks have no owner, so they can be read by everyone but edited by nobody
+export const requirePlaybookOwner = (param: string) =>
+  requireOwnership(
+    param,
+    async (id) => {
+      const playbook = await storage.getPlaybook(id);
+      return playbook && !playbook.archived ? playbook.userId : undefined;
+    },
+    'Playbook not found',
+  );
+
+// Built-in templates have no owner, so only their use is open to everyone
+export const requireTemplateOwner = (param: string) =>
+  requireOwnership(
+    param,
+    async (id) => (await storage.getContractTemplate(id))?.userId,
+    'Template not found',
+  );
+
+export const requireJobOwner = (param: string) =>
+  requireOwnership(
+    param,
+    async (id) => (await storage.getJob(id))?.userId,
+    'Job not found',
+  );
@@ -0,0 +1,344 @@
+import { escapeRegExp, findClauseForRange } from "./segmenter";
+import { type NewBlankField } from "./storage";
+import { PLACEHOLDER_PATTERN } from "@shared/templates";
+import { canFillBlankField } from "@shared/blanks";
+import {
+  BlankFieldKind,
+  type BlankField,
+  type BlankFieldKindType,
+  type Clause,
+  type FillBlankFields,
+} from "@shared/schema";
+
+// Raised when blank fields cannot be filled in as requested
+export class BlankFieldError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BlankFieldError";
+  }
+}
+
+export interface FilledText {
+  text: string;
+  // Span of the new text covering every filled field
+  changedRange: { startOffset: number; endOffset: number };
+}
+
+interface Finding {
+  kind: BlankFieldKindType;
+  start: number;
+  end: number;
+  explanation: string;
+  suggestion?: string;
+}
+
+// Gaps and instructions left in a draft: "[___]", "[insert address]", "{{ name }}", "TBD"
+const BRACKETED_BLANK = /\[\s*(?:_+|\.{2,}|…|●|•|\*+)\s*\]/g;
+const BRACKETED_INSTRUCTION = /\[(?:insert|enter|specify|add|name of|date of)\b[^\]\n]{0,80}\]/gi;
+const MERGE_FIELD = /\{\{\s*[\w .-]{1,40}\s*\}\}/g;
+const TO_BE_DECIDED = /\b(?:TBD|TBC|TBA)\b/g;
+const UNDERSCORES = /_{3,}/g;
+
+// Bracketed capitals that are drafting conventions rather than placeholders
+const BRACKETED_NOTICES = /^(?:RESERVED|INTENTIONALLY (?:OMITTED|LEFT BLANK)|DELETED|SIGNATURE PAGE FOLLOWS)$/;
+
+// Labels of signature block lines: the signature itself, and the lines printed under it
+const SIGNATURE_LABEL = /^(?:by|signature|signed(?: by)?|authori[sz]ed signature)\s*:?$/i;
+const SIGNATORY_LABEL = /^(?:name|print(?:ed)? name|title|date|witness)\s*:?$/i;
+const SIGNATURE_LINE = /^\s*(?:by|signature|signed)\s*:|^\s*authori[sz]ed signator/i;
+
+// Only abbreviations take a full stop, so a sentence's own full stop is left out
+const CORPORATE_SUFFIX = "(?:(?:Inc|Ltd|Corp|Co)\\b\\.?|L\\.L\\.C\\.?|(?:Incorporated|LLC|Limited|Corporation|Company|LLP|LP|PLC|GmbH|AG)\\b)";
+const ENDS_WITH_SUFFIX = new RegExp(`,?\\s+${CORPORATE_SUFFIX}$`);
+
+// A defined label in parentheses: (the "Client"), ("Provider")
+const DEFINED_LABEL = /\(\s*(?:the\s+|hereinafter\s+(?:referred to as\s+)?)?["“]([A-Z][A-Za-z ]{1,40}?)["”]\s*\)/g;
+// Labels that name a party even when the party is a person rather than a company
+const PARTY_ROLES = new Set([
+  "Client", "Customer", "Provider", "Service Provider", "Supplier", "Vendor", "Company", "Contractor",
+  "Consultant", "Employee", "Employer", "Executive", "Licensor", "Licensee", "Landlord", "Tenant",
+  "Buyer", "Seller", "Purchaser", "Lender", "Borrower", "Discloser", "Recipient", "Disclosing Party",
+  "Receiving Party", "Agency", "Distributor", "Reseller", "Investor",
+]);
+const NAME_WORD = /^(?:[A-Z0-9&][\w&.,'’-]*|of|and|the|de|du|van|von)$/;
+
+// Any quoted capitalised term counts as defined: "Confidential Information" means..., (the "Term")
+const QUOTED_TERM = /["“]([A-Z][\w'’-]*(?:[ -][A-Za-z][\w'’-]*){0,5})["”]/g;
+// A capitalised term used after a determiner, the way defined terms are used
+const USED_TERM = /\b(?:[Tt]he|[Aa]ny|[Ss]uch|[Ee]ach|[Aa]ll|[Tt]his|[Tt]hat|[Tt]hese|[Tt]hose|[Ii]ts|[Tt]heir|[Oo]ther|[Nn]o)[ \t]+([A-Z][a-z][\w'’-]*(?:[ \t]+[A-Z][a-z][\w'’-]*){0,3})/g;
+// Capitalised words contracts use without defining them
+const COMMON_TERMS = new Set([
+  "Agreement", "Contract", "Party", "Parties", "State", "States", "United", "Section", "Article", "Schedule",
+  "Exhibit", "Appendix", "Annex", "Clause", "Court", "Government", "Internet", "January", "February", "March",
+  "April", "May", "June", "July", "August", "September", "October", "November", "December", "Monday",
+  "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday",
+]);
+
+// Names compare without case, punctuation or spacing: "Acme, Inc." is "Acme Inc"
+const normaliseName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+// A company name without its suffix: "Acme Widgets Corp." is "acme widgets"
+const nameCore = (name: string) => normaliseName(name.replace(ENDS_WITH_SUFFIX, ""));
+
+// Lowercase singular form, so "Service" and "Services" match
+const termKey = (term: string) => term.toLowerCase().replace(/s$/, "");
+
+function findPlaceholders(text: string): Finding[] {
+  const placeholder = (start: number, value: string): Finding => ({
+    kind: BlankFieldKind.PLACEHOLDER,
+    start,
+    end: start + value.length,
+    explanation: `The placeholder "${value}" has not been filled in.`,
+  });
+
+  const findings: Finding[] = [];
+  for (const match of Array.from(text.matchAll(PLACEHOLDER_PATTERN))) {
+    // "[1]" is a footnote and "[RESERVED]" a notice, not something to fill in
+    if (/[A-Z]{2}/.test(match[1]) && !BRACKETED_NOTICES.test(match[1].trim())) {
+      findings.push(placeholder(match.index!, match[0]));
+    }
+  }
+  for (const pattern of [BRACKETED_BLANK, BRACKETED_INSTRUCTION, MERGE_FIELD, TO_BE_DECIDED]) {
+    for (const match of Array.from(text.matchAll(pattern))) {
+      findings.push(placeholder(match.index!, match[0]));
+    }
+  }
+  return findings;
+}
+
+// Underscored gaps, telling the lines of a signature block apart from blanks in the body
+function findBlanks(text: string): Finding[] {
+  const lines: { start: number; text: string }[] = [];
+  let offset = 0;
+  for (const line of text.split("\n")) {
+    lines.push({ start: offset, text: line });
+    offset += line.length + 1;
+  }
+  const witnessLine = lines.findIndex((line) => /IN WITNESS WHEREOF/i.test(line.text));
+
+  const findings: Finding[] = [];
+  lines.forEach((line, index) => {
+    for (const match of Array.from(line.text.matchAll(UNDERSCORES))) {
+      const label = line.text.slice(0, match.index).trim();
+      const nearby = lines.slice(Math.max(0, index - 4), index + 5);
+      const isSignature = SIGNATURE_LABEL.test(label) ||
+        (SIGNATORY_LABEL.test(label) && nearby.some((candidate) => SIGNATURE_LINE.test(candidate.text))) ||
+        (!label && witnessLine !== -1 && index > witnessLine);
+
+      const start = line.start + match.index!;
+      findings.push(isSignature
+        ? {
+          kind: BlankFieldKind.SIGNATURE,
+          start,
+          end: start + match[0].length,
+          explanation: label
+            ? `The "${label.replace(/:$/, "")}" line of a signature block is blank.`
+            : "A signature block has not been completed.",
+        }
+        : {
+          kind: BlankFieldKind.BLANK,
+          start,
+          end: start + match[0].length,
+          explanation: label
+            ? `A blank is left after "${label.split(/\s+/).slice(-5).join(" ")}".`
+            : "A blank has been left in the text.",
+        });
+    }
+  });
+  return findings;
+}
+
+// A party named in the contract and the label it is defined as
+export interface PartyDefinition {
+  label: string;
+  name: string;
+  start: number;
+}
+
+// The party name written just before a defined label, e.g. Acme Corp., a
+// Delaware corporation ("Client") gives "Acme Corp."
+function partyNameBefore(text: string, labelStart: number): { name: string; start: number } | null {
+  const windowStart = Math.max(0, labelStart - 200);
+  const before = text.slice(windowStart, labelStart);
+  const leads = Array.from(before.matchAll(/(?:^|\n|\bbetween\s+|\band\s+|\bby\s+|\bwith\s+|:\s+)(?=[A-Z])/g));
+  const lead = leads[leads.length - 1];
+  if (!lead) return null;
+
+  const nameStart = lead.index! + lead[0].length;
+  const name = before.slice(nameStart)
+    .replace(/,\s+(?:a|an)\s[\s\S]*$/, "")
+    .replace(/,\s+(?:with|having|whose|located)\s[\s\S]*$/, "")
+    .replace(/[\s,]+$/, "");
+  const words = name.split(/\s+/);
+  if (!name || words.length > 8 || !words.every((word) => NAME_WORD.test(word)) || /^(?:this|the)$/i.test(words[0])) {
+    return null;
+  }
+  return { name, start: windowStart + nameStart };
+}
+
+// Parties defined with a label, e.g. Acme Corp. ("Client"), in order of definition
+export function findPartyDefinitions(text: string): PartyDefinition[] {
+  const parties: PartyDefinition[] = [];
+  for (const match of Array.from(text.matchAll(DEFINED_LABEL))) {
+    const label = match[1].trim();
+    const party = partyNameBefore(text, match.index!);
+    if (party && (PARTY_ROLES.has(label) || ENDS_WITH_SUFFIX.test(party.name))) {
+      parties.push({ label, ...party });
+    }
+  }
+  return parties;
+}
+
+// A label defined for two different names, and company names written
+// differently from their definition ("Acme Corporation" for "Acme Corp.")
+function findPartyNameIssues(text: string, parties: PartyDefinition[]): Finding[] {
+  const findings: Finding[] = [];
+  const knownNames = new Set(parties.map((party) => normaliseName(party.name)));
+
+  const firstByLabel = new Map<string, PartyDefinition>();
+  for (const party of parties) {
+    const first = firstByLabel.get(party.label);
+    if (!first) {
+      firstByLabel.set(party.label, party);
+    } else if (normaliseName(first.name) !== normaliseName(party.name)) {
+      findings.push({
+        kind: BlankFieldKind.PARTY_NAME,
+        start: party.start,
+        end: party.start + party.name.length,
+        explanation: `"${party.label}" is defined as both "${first.name}" and "${party.name}".`,
+        suggestion: first.name,
+      });
+    }
+  }
+
+  for (const party of Array.from(firstByLabel.values())) {
+    if (!ENDS_WITH_SUFFIX.test(party.name)) continue;
+
+    const firstWord = party.name.split(/\s+/)[0].replace(/,$/, "");
+    const variants = new RegExp(
+      `\\b${escapeRegExp(firstWord)}(?:,?[ \\t]+[A-Z][\\w&'’-]*){0,4}?,?[ \\t]+${CORPORATE_SUFFIX}`,
+      "g",
+    );
+    // Another suffix or dropped words is the same company; "Acme Holdings" is another one
+    const core = nameCore(party.name);
+    for (const match of Array.from(text.matchAll(variants))) {
+      const variantCore = nameCore(match[0]);
+      const sameCompany = variantCore === core || variantCore.startsWith(`${core} `) || core.startsWith(`${variantCore} `);
+      if (!sameCompany || knownNames.has(normaliseName(match[0]))) continue;
+      findings.push({
+        kind: BlankFieldKind.PARTY_NAME,
+        start: match.index!,
+        end: match.index! + match[0].length,
+        explanation: `"${match[0]}" does not match "${party.name}", the name defined for the ${party.label}.`,
+        suggestion: party.name,
+      });
+    }
+  }
+  return findings;
+}
+
+// Capitalised terms used like defined terms but never defined. A term made of
+// defined terms ("Client Confidential Information") counts as defined, and
+// terms used only once are left out as likely proper names.
+function findUndefinedTerms(text: string, parties: PartyDefinition[]): Finding[] {
+  const defined = new Set<string>(Array.from(COMMON_TERMS, termKey));
+  for (const match of Array.from(text.matchAll(QUOTED_TERM))) defined.add(termKey(match[1]));
+  for (const party of parties) {
+    defined.add(termKey(party.label));
+    party.name.split(/\s+/).forEach((word) => defined.add(termKey(word.replace(/[.,]+$/, ""))));
+  }
+
+  const isDefined = (words: string[]): boolean =>
+    words.length === 0 || words.some((_, index) =>
+      defined.has(termKey(words.slice(0, index + 1).join(" "))) && isDefined(words.slice(index + 1))
+    );
+
+  const findings: Finding[] = [];
+  const reported = new Set<string>();
+  for (const match of Array.from(text.matchAll(USED_TERM))) {
+    const term = match[1];
+    if (reported.has(term) || isDefined(term.split(/[ \t]+/))) continue;
+    reported.add(term);
+
+    const uses = Array.from(text.matchAll(new RegExp(`\\b${escapeRegExp(term)}\\b`, "g"))).length;
+    if (uses < 2) continue;
+
+    const start = match.index! + match[0].length - term.length;
+    findings.push({
+      kind: BlankFieldKind.UNDEFINED_TERM,
+      start,
+      end: start + term.length,
+      explanation: `"${term}" is capitalised like a defined term and used ${uses} times, but is never defined.`,
+    });
+  }
+  return findings;
+}
+
+// Unfilled placeholders, blank signature lines, inconsistent party names and
+// undefined capitalised terms in a contract's text. Where findings overlap,
+// the more specific one (in that order) is kept.
+export function detectBlankFields(text: string, clauses: Clause[]): NewBlankField[] {
+  const parties = findPartyDefinitions(text);
+  const candidates = [
+    ...findPlaceholders(text),
+    ...findBlanks(text),
+    ...findPartyNameIssues(text, parties),
+    ...findUndefinedTerms(text, parties),
+  ];
+
+  const kept: Finding[] = [];
+  for (const finding of candidates) {
+    if (!kept.some((other) => finding.start < other.end && finding.end > other.start)) {
+      kept.push(finding);
+    }
+  }
+
+  return kept
+    .sort((a, b) => a.start - b.start)
+    .map((finding) => ({
+      kind: finding.kind,
+      clauseId: findClauseForRange(clauses, finding.start, finding.end)?.id ?? null,
+      startOffset: finding.start,
+      endOffset: finding.end,
+      text: text.slice(finding.start, finding.end),
+      explanation: finding.explanation,
+      suggestion: finding.suggestion ?? null,
+    }));
+}
+
+// The contract text with the requested blank fields replaced. Every field must
+// still sit where the analysis found it, so a stale analysis is refused.
+export function fillBlankFields(text: string, blankFields: BlankField[], fills: FillBlankFields["fills"]): FilledText {
+  const edits = fills
+    .map((fill) => {
+      const blankField = blankFields.find((candidate) => candidate.id === fill.blankFieldId);
+      if (!blankField) {
+        throw new BlankFieldError(`Blank field ${fill.blankFieldId} is not part of this analysis`);
+      }
+      if (!canFillBlankField(blankField.kind)) {
+        throw new BlankFieldError(`"${blankField.text}" needs a definition and cannot be filled in`);
+      }
+      if (text.slice(blankField.startOffset, blankField.endOffset) !== blankField.text) {
+        throw new BlankFieldError(`"${blankField.text}" is no longer where the analysis found it`);
+      }
+      return { blankField, value: fill.value };
+    })
+    .sort((a, b) => a.blankField.startOffset - b.blankField.startOffset);
+
+  let filled = "";
+  let cursor = 0;
+  for (const { blankField, value } of edits) {
+    if (blankField.startOffset < cursor) {
+      throw new BlankFieldError(`"${blankField.text}" is filled in more than once`);
+    }
+    filled += text.slice(cursor, blankField.startOffset) + value;
+    cursor = blankField.endOffset;
+  }
+  filled += text.slice(cursor);
+
+  const first = edits[0].blankField;
+  return {
+    text: filled,
+    changedRange: { startOffset: first.startOffset, endOffset: cursor + filled.length - text.length },
+  };
+}
@@ -0,0 +1,207 @@
+import { buildClauseTree, type ClauseNode } from "./segmenter";
+import { describeClause } from "@shared/clauses";
+import { ClauseKind, type Clause, type Contract } from "@shared/schema";
+import {
+  ClauseTopic,
+  ComparisonStatus,
+  type ClauseComparison,
+  type ClauseTopicType,
+  type ComparedClause,
+  type ContractComparison,
+} from "@shared/compare";
+
+// Matched clauses less similar than this are reported as materially different
+const MATERIAL_SIMILARITY = 0.6;
+// Unclassified clauses are only paired when their wording is at least this close
+const OTHER_TOPIC_SIMILARITY = 0.3;
+
+// Checked in order, so narrower topics (indemnity, non-compete) come before the
+// broader ones that share their vocabulary (liability, term). A heading match
+// outweighs matches in the body.
+const TOPIC_PATTERNS: { topic: ClauseTopicType; heading: RegExp; body: RegExp }[] = [
+  { topic: ClauseTopic.DEFINITIONS, heading: /\b(definitions?|interpretation)\b/i, body: /\b(shall mean|means|defined as)\b/gi },
+  { topic: ClauseTopic.INDEMNITY, heading: /\bindemni/i, body: /\b(indemnif\w*|hold harmless|defend)\b/gi },
+  { topic: ClauseTopic.LIABILITY, heading: /\bliabilit/i, body: /\b(liab\w+|consequential|indirect damages|aggregate)\b/gi },
+  { topic: ClauseTopic.NON_COMPETE, heading: /\b(non-?compet\w*|non-?solicit\w*|restrictive covenants?|exclusivity)\b/i, body: /\b(non-?compet\w*|compet(e|ing|itive)|solicit\w*)\b/gi },
+  { topic: ClauseTopic.CONFIDENTIALITY, heading: /\b(confidential\w*|non-?disclosure)\b/i, body: /\b(confidential\w*|disclos\w+|proprietary information)\b/gi },
+  { topic: ClauseTopic.DATA_PROTECTION, heading: /\b(data protection|privacy|personal data|gdpr)\b/i, body: /\b(personal data|data subjects?|processor|controller|gdpr|privacy)\b/gi },
+  { topic: ClauseTopic.IP, heading: /\b(intellectual property|ip rights|ownership|licen[cs]e)\b/i, body: /\b(intellectual property|copyright|patents?|trademarks?|work product|licen[cs]e\w*)\b/gi },
+  { topic: ClauseTopic.PAYMENT, heading: /\b(fees?|payments?|compensation|invoic\w*|pricing|charges)\b/i, body: /\b(invoic\w*|payable|pay|fees?|net \d+|late payment|interest)\b/gi },
+  { topic: ClauseTopic.TERMINATION, heading: /\bterminat/i, body: /\b(terminat\w+|material breach|wind down)\b/gi },
+  { topic: ClauseTopic.TERM, heading: /\b(term|duration|renewal)\b/i, body: /\b(renew\w*|commence\w*|initial term|effective date|expire\w*)\b/gi },
+  { topic: ClauseTopic.WARRANTIES, heading: /\b(warrant\w*|representations?)\b/i, body: /\b(warrant\w*|represents?|as is)\b/gi },
+  { topic: ClauseTopic.INSURANCE, heading: /\binsurance\b/i, body: /\b(insurance|insured|policy limits?)\b/gi },
+  { topic: ClauseTopic.FORCE_MAJEURE, heading: /\bforce majeure\b/i, body: /\b(force majeure|acts? of god|beyond (its|their) reasonable control)\b/gi },
+  { topic: ClauseTopic.ASSIGNMENT, heading: /\b(assignment|subcontract\w*|change of control)\b/i, body: /\b(assign\w*|transfer|subcontract\w*)\b/gi },
+  { topic: ClauseTopic.GOVERNING_LAW, heading: /\b(governing law|applicable law|jurisdiction)\b/i, body: /\b(governed by|laws of|jurisdiction)\b/gi },
+  { topic: ClauseTopic.DISPUTES, heading: /\b(disputes?|arbitration|mediation)\b/i, body: /\b(arbitrat\w+|mediat\w+|dispute)\b/gi },
+  { topic: ClauseTopic.NOTICES, heading: /\bnotices?\b/i, body: /\b(notices?|in writing|registered mail|email address)\b/gi },
+];
+
+const TOPIC_ORDER = Object.values(ClauseTopic);
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "that", "this", "with", "any", "all", "its", "are", "was", "been", "such",
+  "shall", "will", "may", "not", "from", "under", "other", "each", "which", "have", "has", "party",
+  "parties", "agreement", "hereof", "herein", "hereunder", "thereof", "including", "upon", "into",
+]);
+
+interface Unit {
+  clause: Clause;
+  text: string;
+  topic: ClauseTopicType;
+  terms: Map<string, number>;
+  figures: Set<string>;
+}
+
+export function classifyClause(heading: string | null, text: string): ClauseTopicType {
+  let best: ClauseTopicType = ClauseTopic.OTHER;
+  let bestScore = 0;
+  for (const { topic, heading: headingPattern, body } of TOPIC_PATTERNS) {
+    const bodyMatches = Math.min(text.match(body)?.length ?? 0, 3);
+    const score = (heading && headingPattern.test(heading) ? 4 : 0) + bodyMatches;
+    if (score > bestScore) {
+      best = topic;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function termFrequencies(text: string): Map<string, number> {
+  const terms = new Map<string, number>();
+  for (const word of text.toLowerCase().match(/[a-z]{3,}/g) ?? []) {
+    if (!STOP_WORDS.has(word)) terms.set(word, (terms.get(word) ?? 0) + 1);
+  }
+  return terms;
+}
+
+// Cosine similarity of two term-frequency vectors
+function similarity(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  a.forEach((count, term) => {
+    normA += count * count;
+    dot += count * (b.get(term) ?? 0);
+  });
+  b.forEach((count) => (normB += count * count));
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Amounts, periods and percentages: the figures negotiators change most often.
+// Bare numbers are left out, as they are mostly clause numbers and references.
+function extractFigures(text: string): Set<string> {
+  const pattern = /[$€£]\s?\d[\d,]*(?:\.\d+)?|\b\d[\d,]*(?:\.\d+)?(?:\s*(?:%|percent\b|business days?\b|days?\b|weeks?\b|months?\b|years?\b|hours?\b)|\s?(?:usd|eur|gbp)\b)/gi;
+  return new Set((text.match(pattern) ?? []).map((figure) => figure.toLowerCase().replace(/\s+/g, " ").trim()));
+}
+
+// The clauses compared: top-level clauses, or the sections of an article that
+// has them. Preamble and signature blocks are not compared.
+function comparisonUnits(contract: Contract, clauses: Clause[]): Unit[] {
+  const units: Unit[] = [];
+  const visit = (node: ClauseNode) => {
+    if (node.kind === ClauseKind.PREAMBLE || node.kind === ClauseKind.SIGNATURE) return;
+    const sections = node.children.filter((child) => child.kind === ClauseKind.SECTION || child.kind === ClauseKind.ARTICLE);
+    if (sections.length > 0) {
+      sections.forEach(visit);
+      return;
+    }
+    const { children, ...clause } = node;
+    const text = contract.originalText.slice(clause.startOffset, clause.endOffset).trim();
+    units.push({
+      clause,
+      text,
+      topic: classifyClause(clause.heading, text),
+      terms: termFrequencies(text),
+      figures: extractFigures(text),
+    });
+  };
+  buildClauseTree(clauses).forEach(visit);
+  return units;
+}
+
+const describeUnit = (unit: Unit): ComparedClause => ({
+  clauseId: unit.clause.id,
+  key: unit.clause.key,
+  label: describeClause(unit.clause),
+  text: unit.text,
+});
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Pair the clauses of one topic, most similar first. Whatever is left over is
+// missing from, or extra in, the other contract.
+function alignTopic(topic: ClauseTopicType, base: Unit[], other: Unit[]): ClauseComparison[] {
+  const pairs = base
+    .flatMap((baseUnit) => other.map((otherUnit) => ({ baseUnit, otherUnit, score: similarity(baseUnit.terms, otherUnit.terms) })))
+    .filter((pair) => topic !== ClauseTopic.OTHER || pair.score >= OTHER_TOPIC_SIMILARITY)
+    .sort((a, b) => b.score - a.score);
+
+  const usedBase = new Set<Unit>();
+  const usedOther = new Set<Unit>();
+  const comparisons: ClauseComparison[] = [];
+
+  for (const { baseUnit, otherUnit, score } of pairs) {
+    if (usedBase.has(baseUnit) || usedOther.has(otherUnit)) continue;
+    usedBase.add(baseUnit);
+    usedOther.add(otherUnit);
+
+    const changedFigures = [
+      ...Array.from(baseUnit.figures).filter((figure) => !otherUnit.figures.has(figure)),
+      ...Array.from(otherUnit.figures).filter((figure) => !baseUnit.figures.has(figure)),
+    ];
+    comparisons.push({
+      topic,
+      status: score < MATERIAL_SIMILARITY || changedFigures.length > 0 ? ComparisonStatus.DIFFERENT : ComparisonStatus.MATCHING,
+      similarity: round(score),
+      base: describeUnit(baseUnit),
+      other: describeUnit(otherUnit),
+      changedFigures,
+    });
+  }
+
+  for (const unit of base.filter((unit) => !usedBase.has(unit))) {
+    comparisons.push({ topic, status: ComparisonStatus.MISSING, similarity: null, base: describeUnit(unit), other: null, changedFigures: [] });
+  }
+  for (const unit of other.filter((unit) => !usedOther.has(unit))) {
+    comparisons.push({ topic, status: ComparisonStatus.EXTRA, similarity: null, base: null, other: describeUnit(unit), changedFigures: [] });
+  }
+  return comparisons;
+}
+
+// Align the clauses of two contracts by topic, e.g. a counterparty's paper
+// (other) against our own template (base)
+export function compareContracts(
+  base: Contract,
+  baseClauses: Clause[],
+  other: Contract,
+  otherClauses: Clause[],
+): ContractComparison {
+  const baseUnits = comparisonUnits(base, baseClauses);
+  const otherUnits = comparisonUnits(other, otherClauses);
+
+  const clauses = TOPIC_ORDER.flatMap((topic) =>
+    alignTopic(
+      topic,
+      baseUnits.filter((unit) => unit.topic === topic),
+      otherUnits.filter((unit) => unit.topic === topic),
+    ),
+  );
+
+  const counts = {
+    [ComparisonStatus.MATCHING]: 0,
+    [ComparisonStatus.DIFFERENT]: 0,
+    [ComparisonStatus.MISSING]: 0,
+    [ComparisonStatus.EXTRA]: 0,
+  };
+  clauses.forEach((comparison) => counts[comparison.status]++);
+
+  return {
+    base: { id: base.id, name: base.name },
+    other: { id: other.id, name: other.name },
+    similarity: round(similarity(termFrequencies(base.originalText), termFrequencies(other.originalText))),
+    clauses,
+    counts,
+  };
+}
@@ -0,0 +1,87 @@
+import PDFDocument from "pdfkit";
+import { pdfSafe } from "./report";
+import { describePortfolioScope, displayConversationTitle } from "@shared/conversations";
+import type { Citation, Conversation, Message } from "@shared/schema";
+
+export interface ConversationExportInput {
+  conversation: Conversation;
+  contractName: string | null; // null for portfolio and ad-hoc conversations
+}
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" });
+
+// What the conversation asks about: its contract, its portfolio scope or its ad-hoc document
+function conversationSubject({ conversation, contractName }: ConversationExportInput): string {
+  if (conversation.scope) return describePortfolioScope(conversation.scope);
+  if (conversation.document) return `${conversation.document.name} (not saved as a contract)`;
+  return contractName ?? "Deleted contract";
+}
+
+const citationLabel = (citation: Citation) =>
+  citation.contractName ? `${citation.contractName}, ${citation.label}` : citation.label;
+
+// The thread as Markdown: each question and answer in turn, with the passages
+// an answer cites listed under it
+export function renderConversationMarkdown(input: ConversationExportInput): string {
+  const lines = [
+    `# ${displayConversationTitle(input.conversation)}`,
+    "",
+    `About: ${conversationSubject(input)}  `,
+    `Exported: ${formatTimestamp(new Date().toISOString())}`,
+  ];
+
+  for (const message of input.conversation.messages as Message[]) {
+    lines.push("", `**${message.role === "user" ? "You" : "SmartClause"}** · ${formatTimestamp(message.timestamp)}`, "");
+    lines.push(message.content + (message.stopped ? " _(stopped)_" : ""));
+    if (message.citations?.length) {
+      lines.push("");
+      for (const citation of message.citations) {
+        lines.push(`- [${citation.number}] ${citationLabel(citation)}: "${citation.snippet}"`);
+      }
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+// The same thread as a PDF, set in the standard PDF fonts
+export function renderConversationPdf(input: ConversationExportInput): Promise<Buffer> {
+  const title = displayConversationTitle(input.conversation);
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: 60,
+    info: { Title: pdfSafe(title), Author: "SmartClause" },
+  });
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  doc.fillColor("#111827").font("Helvetica-Bold").fontSize(16).text(pdfSafe(title));
+  doc.moveDown(0.3);
+  doc.font("Helvetica").fontSize(9).fillColor("#6b7280")
+    .text(pdfSafe(`About: ${conversationSubject(input)} · Exported ${formatTimestamp(new Date().toISOString())}`));
+
+  for (const message of input.conversation.messages as Message[]) {
+    doc.moveDown(1);
+    doc.font("Helvetica-Bold").fontSize(10).fillColor("#111827")
+      .text(`${message.role === "user" ? "You" : "SmartClause"}`, { continued: true })
+      .font("Helvetica").fillColor("#6b7280").text(`  ${formatTimestamp(message.timestamp)}`);
+    doc.moveDown(0.2);
+    doc.font("Helvetica").fontSize(10).fillColor("#111827")
+      .text(pdfSafe(message.content + (message.stopped ? " (stopped)" : "")));
+
+    for (const citation of message.citations ?? []) {
+      doc.moveDown(0.2);
+      doc.fontSize(8).fillColor("#4b5563")
+        .text(pdfSafe(`[${citation.number}] ${citationLabel(citation)}: "${citation.snippet}"`), { indent: 12 });
+    }
+  }
+  doc.end();
+
+  return done;
+}
@@ -0,0 +1,152 @@
+import { DiffGranularity, type DiffGranularityType, type DiffSegment } from "@shared/diff";
+
+// Beyond this many edits the Myers trace gets too large to keep; the remaining
+// stretch is reported as one deletion and one insertion instead
+const MAX_EDIT_DISTANCE = 2000;
+
+// Sentences end at terminal punctuation followed by whitespace, and at line breaks.
+// Splitting on lookarounds keeps every character, so the tokens rejoin to the text.
+// Trailing whitespace is its own token so a sentence matches wherever it sits.
+function sentenceTokens(text: string): string[] {
+  return text
+    .split(/(?<=[.!?]["')\]]?\s+)(?=\S)|(?<=\n)(?=[^\n])/)
+    .flatMap((sentence) => {
+      const trimmed = sentence.trimEnd();
+      return [trimmed, sentence.slice(trimmed.length)];
+    })
+    .filter(Boolean);
+}
+
+// Words (including accented Latin letters), whitespace runs and single punctuation marks
+function wordTokens(text: string): string[] {
+  return text.match(/[\w\u00C0-\u024F]+|\s+|[^\w\s\u00C0-\u024F]/g) ?? [];
+}
+
+type Op = DiffSegment["type"];
+
+// Myers' O(ND) shortest edit script between two token lists
+function myers(a: string[], b: string[]): Op[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    if (d > MAX_EDIT_DISTANCE) return null;
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  // Walk the trace backwards to recover the edits. trace[d] holds the V array
+  // from before step d, indexed from k = -d - 1.
+  const ops: Op[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const previous = trace[d];
+    const at = (k: number) => previous[k + d + 1];
+    const k = x - y;
+    const down = k === -d || (k !== d && at(k - 1) < at(k + 1));
+    const previousK = down ? k + 1 : k - 1;
+    const previousX = d === 0 ? 0 : at(previousK);
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      ops.push("equal");
+      x--;
+      y--;
+    }
+    if (d > 0) ops.push(down ? "insert" : "delete");
+    x = previousX;
+    y = previousY;
+  }
+  return ops.reverse();
+}
+
+function diffTokens(a: string[], b: string[]): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+  const push = (type: Op, text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) last.text += text;
+    else if (text) segments.push({ type, text });
+  };
+
+  // Shared leading and trailing tokens need no search
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  push("equal", a.slice(0, start).join(""));
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const ops = myers(middleA, middleB);
+  if (ops) {
+    let i = 0;
+    let j = 0;
+    for (const op of ops) {
+      if (op === "equal") {
+        push("equal", middleA[i++]);
+        j++;
+      } else if (op === "delete") {
+        push("delete", middleA[i++]);
+      } else {
+        push("insert", middleB[j++]);
+      }
+    }
+  } else {
+    push("delete", middleA.join(""));
+    push("insert", middleB.join(""));
+  }
+  push("equal", a.slice(endA).join(""));
+  return segments;
+}
+
+// Compare two versions of a contract. Sentences are matched first; at word
+// granularity each replaced run of sentences is then compared word by word,
+// which keeps the search small for long contracts.
+export function diffTexts(before: string, after: string, granularity: DiffGranularityType): DiffSegment[] {
+  const sentences = diffTokens(sentenceTokens(before), sentenceTokens(after));
+  if (granularity === DiffGranularity.SENTENCE) return sentences;
+
+  const segments: DiffSegment[] = [];
+  for (let i = 0; i < sentences.length; i++) {
+    const segment = sentences[i];
+    const next = sentences[i + 1];
+    if (segment.type === "delete" && next?.type === "insert") {
+      segments.push(...diffTokens(wordTokens(segment.text), wordTokens(next.text)));
+      i++;
+    } else {
+      segments.push(segment);
+    }
+  }
+
+  // Refined runs can leave neighbouring segments of the same type
+  return segments.reduce<DiffSegment[]>((merged, segment) => {
+    const last = merged[merged.length - 1];
+    if (last?.type === segment.type) last.text += segment.text;
+    else merged.push({ ...segment });
+    return merged;
+  }, []);
+}
@@ -0,0 +1,73 @@
+import PDFDocument from "pdfkit";
+import { Document, Packer, Paragraph, TextRun } from "docx";
+import { pdfSafe } from "./report";
+import { ClauseKind, type Clause, type Contract } from "@shared/schema";
+
+export interface ContractDocumentInput {
+  contract: Contract;
+  clauses: Clause[];
+}
+
+interface DocumentLine {
+  text: string;
+  heading: boolean;
+}
+
+// The contract text line by line, with the opening line of each top-level
+// article or section marked so it can be set in bold
+function documentLines({ contract, clauses }: ContractDocumentInput): DocumentLine[] {
+  const headingStarts = new Set(
+    clauses
+      .filter((clause) => clause.depth === 0 && (clause.kind === ClauseKind.ARTICLE || clause.kind === ClauseKind.SECTION || clause.kind === ClauseKind.DEFINITIONS))
+      .map((clause) => clause.startOffset)
+  );
+
+  let offset = 0;
+  return contract.originalText.replace(/\r/g, "").split("\n").map((line) => {
+    const start = offset + (line.length - line.trimStart().length);
+    offset += line.length + 1;
+    return { text: line, heading: headingStarts.has(start) };
+  });
+}
+
+// A plain DOCX of the contract's current text
+export async function renderContractDocx(input: ContractDocumentInput): Promise<Buffer> {
+  const paragraphs = documentLines(input).map((line) =>
+    new Paragraph({ children: [new TextRun({ text: line.text, bold: line.heading })] })
+  );
+
+  const document = new Document({
+    creator: "SmartClause",
+    title: input.contract.name,
+    sections: [{ children: paragraphs }],
+  });
+  return Packer.toBuffer(document);
+}
+
+// A plain PDF of the contract's current text, set in the standard PDF fonts
+export function renderContractPdf(input: ContractDocumentInput): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: 60,
+    info: { Title: pdfSafe(input.contract.name), Author: "SmartClause" },
+  });
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  doc.fontSize(10).fillColor("#111827");
+  for (const line of documentLines(input)) {
+    if (!line.text.trim()) {
+      doc.moveDown(0.5);
+      continue;
+    }
+    doc.font(line.heading ? "Helvetica-Bold" : "Helvetica").text(pdfSafe(line.text));
+  }
+  doc.end();
+
+  return done;
+}
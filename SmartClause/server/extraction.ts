@@ -0,0 +1,313 @@
+import mammoth from "mammoth";
+import {
+  ExtractionErrorCode,
+  type ExtractionErrorCodeType,
+  type DocumentStructure,
+  type ExtractedParagraph,
+} from "@shared/schema";
+
+// Raised when a document cannot be turned into text. The code is returned to
+// the client so the upload form can explain what went wrong.
+export class ExtractionError extends Error {
+  code: ExtractionErrorCodeType;
+
+  constructor(code: ExtractionErrorCodeType, message: string) {
+    super(message);
+    this.name = "ExtractionError";
+    this.code = code;
+  }
+}
+
+export interface ExtractionResult {
+  text: string;
+  fileType: string;
+  structure: DocumentStructure;
+}
+
+export const SUPPORTED_FILE_TYPES = ["pdf", "docx", "txt", "rtf"] as const;
+
+// Join paragraphs into the stored contract text, recording where each one lands
+function buildResult(
+  fileType: string,
+  blocks: { text: string; page: number | null }[],
+  pageCount: number | null,
+): ExtractionResult {
+  const paragraphs: ExtractedParagraph[] = [];
+  let text = "";
+
+  for (const block of blocks) {
+    const paragraphText = block.text.trim();
+    if (!paragraphText) continue;
+
+    if (text) text += "\n\n";
+    const start = text.length;
+    text += paragraphText;
+    paragraphs.push({ page: block.page, start, end: text.length });
+  }
+
+  if (!text) {
+    throw new ExtractionError(
+      ExtractionErrorCode.EMPTY_DOCUMENT,
+      "The document does not contain any readable text.",
+    );
+  }
+
+  return { text, fileType, structure: { pageCount, paragraphs } };
+}
+
+// The file name's extension, or the MIME type when the name has none
+function getFileType(fileName: string, mimeType: string): string {
+  const dot = fileName.lastIndexOf(".");
+  const extension = dot > 0 ? fileName.slice(dot + 1).toLowerCase() : "";
+  if (extension) return extension;
+
+  switch (mimeType) {
+    case "application/pdf":
+      return "pdf";
+    case "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+      return "docx";
+    case "application/rtf":
+    case "text/rtf":
+      return "rtf";
+    default:
+      return "txt";
+  }
+}
+
+// Lines such as "1.", "2.3", "(a)", "ARTICLE IV" or "Section 5" that begin a new clause
+const NUMBERED_LINE = /^(\d+(\.\d+)*\.?\s|\([a-z0-9ivx]+\)\s|(article|section)\s+[\divxlc]+)/i;
+
+async function extractPdf(buffer: Buffer): Promise<ExtractionResult> {
+  const { getDocument } = await import("pdfjs-dist/legacy/build/pdf.mjs");
+
+  let document;
+  try {
+    document = await getDocument({
+      data: new Uint8Array(buffer),
+      isEvalSupported: false,
+      useSystemFonts: false,
+      disableFontFace: true,
+      verbosity: 0,
+    }).promise;
+  } catch (error) {
+    if (error instanceof Error && error.name === "PasswordException") {
+      throw new ExtractionError(
+        ExtractionErrorCode.ENCRYPTED_PDF,
+        "This PDF is password protected. Remove the password and upload it again.",
+      );
+    }
+    throw new ExtractionError(
+      ExtractionErrorCode.CORRUPT_PDF,
+      "This PDF could not be read. The file may be damaged.",
+    );
+  }
+
+  const blocks: { text: string; page: number }[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+
+      // Rebuild lines from positioned text runs, then split lines into
+      // paragraphs wherever the vertical gap is larger than a normal line
+      let line = "";
+      let paragraph: string[] = [];
+      let lastY: number | null = null;
+      let lastHeight = 0;
+
+      const flushParagraph = () => {
+        if (paragraph.length > 0) {
+          blocks.push({ text: paragraph.join(" ").replace(/\s+/g, " "), page: pageNumber });
+          paragraph = [];
+        }
+      };
+
+      const flushLine = () => {
+        const trimmed = line.trim();
+        if (!trimmed) flushParagraph();
+        else {
+          // Numbered headings and list items always start a new paragraph
+          if (NUMBERED_LINE.test(trimmed)) flushParagraph();
+          paragraph.push(trimmed);
+        }
+        line = "";
+      };
+
+      for (const item of content.items) {
+        if (!("str" in item)) continue;
+
+        const y = item.transform[5];
+        const height = item.height || lastHeight;
+        if (lastY !== null && line && Math.abs(lastY - y) > 1) {
+          flushLine();
+        }
+        if (lastY !== null && !line && height > 0 && Math.abs(lastY - y) > height * 1.8) {
+          flushParagraph();
+        }
+
+        line += item.str;
+        lastY = y;
+        lastHeight = height;
+
+        if (item.hasEOL) flushLine();
+      }
+
+      flushLine();
+      flushParagraph();
+      page.cleanup();
+    }
+  } finally {
+    await document.destroy();
+  }
+
+  // A PDF with pages but no text layer is almost always a scan
+  if (blocks.length === 0 && document.numPages > 0) {
+    throw new ExtractionError(
+      ExtractionErrorCode.IMAGE_ONLY_PDF,
+      "This PDF appears to be a scanned image with no text layer. Upload a text-based PDF or run it through OCR first.",
+    );
+  }
+
+  return buildResult("pdf", blocks, document.numPages);
+}
+
+async function extractDocx(buffer: Buffer): Promise<ExtractionResult> {
+  let value: string;
+  try {
+    ({ value } = await mammoth.extractRawText({ buffer }));
+  } catch (error) {
+    throw new ExtractionError(
+      ExtractionErrorCode.CORRUPT_DOCX,
+      "This Word document could not be read. The file may be damaged or not a real .docx file.",
+    );
+  }
+
+  // mammoth separates paragraphs with a blank line
+  const blocks = value.split(/\n{2,}/).map((text) => ({ text, page: null }));
+  return buildResult("docx", blocks, null);
+}
+
+// Reduce RTF to plain text: drop destination groups (font tables, pictures,
+// metadata), turn paragraph marks into line breaks and decode escapes
+export function rtfToText(rtf: string): string {
+  if (!rtf.trimStart().startsWith("{\\rtf")) {
+    throw new ExtractionError(
+      ExtractionErrorCode.CORRUPT_RTF,
+      "This RTF document could not be read. The file may be damaged.",
+    );
+  }
+
+  const skipDestinations = new Set([
+    "fonttbl", "colortbl", "stylesheet", "info", "pict", "header", "footer",
+    "headerl", "headerr", "footerl", "footerr", "listtable", "listoverridetable",
+    "rsidtbl", "generator", "xmlnstbl", "themedata", "colorschememapping", "latentstyles",
+  ]);
+
+  let output = "";
+  let depth = 0;
+  let skipDepth: number | null = null;
+  let i = 0;
+
+  while (i < rtf.length) {
+    const char = rtf[i];
+
+    if (char === "{") {
+      depth++;
+      i++;
+      continue;
+    }
+    if (char === "}") {
+      if (skipDepth !== null && depth === skipDepth) skipDepth = null;
+      depth--;
+      i++;
+      continue;
+    }
+    if (char === "\\") {
+      const next = rtf[i + 1];
+
+      if (next === "'") {
+        if (skipDepth === null) {
+          output += String.fromCharCode(parseInt(rtf.substr(i + 2, 2), 16));
+        }
+        i += 4;
+        continue;
+      }
+      if (next === "*") {
+        if (skipDepth === null) skipDepth = depth;
+        i += 2;
+        continue;
+      }
+      if (next === "\\" || next === "{" || next === "}") {
+        if (skipDepth === null) output += next;
+        i += 2;
+        continue;
+      }
+
+      const match = /^\\([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i, i + 40));
+      if (!match) {
+        i += 2;
+        continue;
+      }
+
+      const [token, word, param] = match;
+      if (skipDestinations.has(word) && skipDepth === null) {
+        skipDepth = depth;
+      } else if (skipDepth === null) {
+        if (word === "par" || word === "line") output += "\n";
+        else if (word === "tab") output += "\t";
+        else if (word === "u" && param) output += String.fromCharCode((parseInt(param) + 65536) % 65536);
+      }
+      i += token.length;
+      // Unicode escapes are followed by a single-character ANSI fallback
+      if (word === "u" && param && rtf[i] && !"\\{}".includes(rtf[i])) i++;
+      continue;
+    }
+    if (char === "\r" || char === "\n") {
+      i++;
+      continue;
+    }
+
+    if (skipDepth === null) output += char;
+    i++;
+  }
+
+  return output;
+}
+
+function splitPlainText(text: string) {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/)
+    .map((paragraph) => ({ text: paragraph.replace(/[ \t]+\n/g, "\n"), page: null }));
+}
+
+// Extract text from an uploaded document, keeping page numbers (PDF) and
+// paragraph boundaries so later stages can point back into the source
+export async function extractDocumentText(
+  buffer: Buffer,
+  fileName: string,
+  mimeType: string,
+): Promise<ExtractionResult> {
+  const fileType = getFileType(fileName, mimeType);
+
+  switch (fileType) {
+    case "pdf":
+      return extractPdf(buffer);
+    case "docx":
+      return extractDocx(buffer);
+    case "rtf":
+      return buildResult(
+        "rtf",
+        rtfToText(buffer.toString("latin1")).split("\n").map((text) => ({ text, page: null })),
+        null,
+      );
+    case "txt":
+      return buildResult("txt", splitPlainText(buffer.toString("utf8")), null);
+    default:
+      throw new ExtractionError(
+        ExtractionErrorCode.UNSUPPORTED_TYPE,
+        `Files of type .${fileType} are not supported. Upload a PDF, DOCX, TXT or RTF file.`,
+      );
+  }
+}
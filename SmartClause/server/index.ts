@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startJobWorker } from "./jobs";
 
 const app = express();
 app.use(express.json());
@@ -61,5 +62,8 @@ app.use((req, res, next) => {
   // It is the only port that is not firewalled.
   const port = 5000;
   server.listen(port, () => {
-  log(`Serving on port ${port}`);
-});
+    log(`Serving on port ${port}`);
+    startJobWorker();
+  });
+})();
+
@@ -0,0 +1,309 @@
+import {
+  ClauseKind,
+  ClausePlacement,
+  type AddContractClause,
+  type Clause,
+  type ClauseInsertion,
+} from "@shared/schema";
+
+// Raised when a clause cannot be placed where the request asked
+export class ClauseInsertionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ClauseInsertionError";
+  }
+}
+
+interface TextEdit {
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+const ROMAN_NUMERALS: [number, string][] = [
+  [1000, "M"], [900, "CM"], [500, "D"], [400, "CD"], [100, "C"], [90, "XC"],
+  [50, "L"], [40, "XL"], [10, "X"], [9, "IX"], [5, "V"], [4, "IV"], [1, "I"],
+];
+
+function toRoman(value: number): string {
+  let roman = "";
+  for (const [amount, numeral] of ROMAN_NUMERALS) {
+    while (value >= amount) {
+      roman += numeral;
+      value -= amount;
+    }
+  }
+  return roman;
+}
+
+function fromRoman(roman: string): number {
+  let value = 0;
+  let rest = roman.toUpperCase();
+  for (const [amount, numeral] of ROMAN_NUMERALS) {
+    while (rest.startsWith(numeral)) {
+      value += amount;
+      rest = rest.slice(numeral.length);
+    }
+  }
+  return rest ? NaN : value;
+}
+
+const SECTION_NUMBER = /^\d+(?:\.\d+)*$/;
+const ARTICLE_NUMBER = /^(?:\d+|[IVXLCDM]+)$/i;
+
+// The marker a section or article line starts with, e.g. "Section 4." or "ARTICLE IV -"
+const SECTION_MARKER = /^(section\s+)?(\d+(?:\.\d+)*)(\.?)/i;
+const ARTICLE_MARKER = /^(article\s+)([ivxlcdm]+|\d+)(\s*[.:-]?\s*)/i;
+
+// The segmenter keys articles "art-N", including a definitions article
+const isArticle = (clause: Clause) => clause.kind === ClauseKind.ARTICLE || clause.key.startsWith("art-");
+
+// Sections, definition blocks and articles carry numbers that can be shifted
+function isNumbered(clause: Clause): boolean {
+  if (!clause.number) return false;
+  if (isArticle(clause)) return ARTICLE_NUMBER.test(clause.number);
+  return (clause.kind === ClauseKind.SECTION || clause.kind === ClauseKind.DEFINITIONS) && SECTION_NUMBER.test(clause.number);
+}
+
+const articleValue = (number: string) => (/^\d+$/.test(number) ? parseInt(number) : fromRoman(number));
+
+// The number after an article's or section's own, in the same style: 4 -> 5, 3.2 -> 3.3, IV -> V
+function nextNumber(clause: Clause): string {
+  const number = clause.number!;
+  if (isArticle(clause)) {
+    const next = articleValue(number) + 1;
+    return /^\d+$/.test(number) ? String(next) : toRoman(next);
+  }
+  const parts = number.split(".");
+  parts[parts.length - 1] = String(parseInt(parts[parts.length - 1]) + 1);
+  return parts.join(".");
+}
+
+// New numbers for the siblings after the target, and for the numbered sections
+// nested in them ("4.1" follows "4" when it becomes "5")
+function renumberingAfter(target: Clause, clauses: Clause[]) {
+  const sections = new Map<string, string>();
+  const articles = new Map<string, string>();
+  const moved: Clause[] = [];
+
+  const siblings = clauses.filter((clause) =>
+    clause.parentKey === target.parentKey &&
+    clause.position > target.position &&
+    isNumbered(clause) &&
+    isArticle(clause) === isArticle(target)
+  );
+
+  for (const sibling of siblings) {
+    const renumbered = nextNumber(sibling);
+    moved.push(sibling);
+    // Sections inside an article are prefixed with its number in digits
+    const prefix = isArticle(sibling) ? String(articleValue(sibling.number!)) : sibling.number!;
+    const newPrefix = isArticle(sibling) ? String(articleValue(renumbered)) : renumbered;
+    if (isArticle(sibling)) articles.set(sibling.number!.toUpperCase(), renumbered);
+    else sections.set(sibling.number!, renumbered);
+
+    const descendants = clauses.filter((clause) =>
+      clause.position > sibling.position &&
+      clause.endOffset <= sibling.endOffset &&
+      clause.kind === ClauseKind.SECTION &&
+      clause.number?.startsWith(`${prefix}.`)
+    );
+    for (const descendant of descendants) {
+      sections.set(descendant.number!, newPrefix + descendant.number!.slice(prefix.length));
+      moved.push(descendant);
+    }
+  }
+  return { sections, articles, moved };
+}
+
+// Rewrite the number at the start of each moved clause's own line
+function markerEdits(text: string, moved: Clause[], sections: Map<string, string>, articles: Map<string, string>): TextEdit[] {
+  return moved.flatMap((clause) => {
+    const head = text.slice(clause.startOffset, clause.startOffset + 40);
+    const match = (isArticle(clause) ? ARTICLE_MARKER : SECTION_MARKER).exec(head);
+    const replacement = isArticle(clause) ? articles.get(clause.number!.toUpperCase()) : sections.get(clause.number!);
+    if (!match || !replacement) return [];
+    const start = clause.startOffset + (match[1]?.length ?? 0);
+    return [{ start, end: start + match[2].length, replacement }];
+  });
+}
+
+// Rewrite cross-references such as "Section 5", "clauses 5.1 and 5.2" or "Article IV".
+// Only spaces and tabs may separate the word from the number, so headings on the
+// next line are not mistaken for references.
+function referenceEdits(text: string, sections: Map<string, string>, articles: Map<string, string>): TextEdit[] {
+  const edits: TextEdit[] = [];
+  const collect = (pattern: RegExp, numberPattern: RegExp, lookup: (number: string) => string | undefined) => {
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      const listStart = match.index + match[0].length - match[1].length;
+      let number: RegExpExecArray | null;
+      numberPattern.lastIndex = 0;
+      while ((number = numberPattern.exec(match[1]))) {
+        const replacement = lookup(number[0]);
+        if (replacement) {
+          edits.push({ start: listStart + number.index, end: listStart + number.index + number[0].length, replacement });
+        }
+      }
+    }
+  };
+
+  if (sections.size > 0) {
+    collect(
+      /(?:\b(?:sections?|clauses?|paragraphs?)|§§?)[ \t]+(\d+(?:\.\d+)*(?:[ \t]*(?:,|and|or|to|through|-|–)[ \t]*\d+(?:\.\d+)*)*)/gi,
+      /\d+(?:\.\d+)*/g,
+      (number) => sections.get(number),
+    );
+  }
+  if (articles.size > 0) {
+    collect(
+      /\barticles?[ \t]+((?:[ivxlcdm]+|\d+)\b(?:[ \t]*(?:,|and|or|to|through|-|–)[ \t]*(?:[ivxlcdm]+|\d+)\b)*)/gi,
+      /\b(?:[ivxlcdm]+|\d+)\b/gi,
+      (number) => articles.get(number.toUpperCase()),
+    );
+  }
+  return edits;
+}
+
+// Generated clauses sometimes come with a number of their own
+const clauseBody = (content: string) => content.replace(/^(?:section\s+)?\d+(?:\.\d+)*\.?[ \t]+/i, "");
+
+// Heading line and body of the new clause, numbered in the style of the model clause
+function formatClause(text: string, model: Clause | undefined, number: string | null, input: AddContractClause): string {
+  const body = clauseBody(input.content);
+  const head = model ? text.slice(model.startOffset, model.startOffset + 40) : "";
+
+  let marker = "";
+  if (number && model && isArticle(model)) {
+    const match = ARTICLE_MARKER.exec(head);
+    marker = `${match?.[1] ?? "ARTICLE "}${number}`;
+    const separator = match?.[3].trim();
+    return input.heading ? `${marker}${separator ? ` ${separator} ` : " "}${input.heading}\n${body}` : `${marker}\n${body}`;
+  }
+  if (number) {
+    const match = SECTION_MARKER.exec(head);
+    marker = `${match?.[1] ?? ""}${number}${match ? match[3] : "."}`;
+  }
+
+  const heading = [marker, input.heading].filter(Boolean).join(" ");
+  if (input.heading) return `${heading}\n${body}`;
+  return marker ? `${marker} ${body}` : body;
+}
+
+// Where a clause's own text ends, ahead of its first sub-clause
+function ownTextEnd(text: string, target: Clause, clauses: Clause[]): number {
+  const firstChild = clauses.find((clause) =>
+    clause.position > target.position && clause.startOffset < target.endOffset
+  );
+  if (!firstChild) return target.endOffset;
+  return target.startOffset + text.slice(target.startOffset, firstChild.startOffset).trimEnd().length;
+}
+
+// The target's number and heading as written, with the punctuation and
+// whitespace before its body, e.g. "3. PAYMENT\n" or "Section 3. Payment. "
+function headingAsWritten(text: string, target: Clause, end: number): string | null {
+  if (!target.heading) return null;
+  const own = text.slice(target.startOffset, end);
+  const at = own.indexOf(target.heading);
+  if (at < 0) return null;
+  const headingEnd = at + target.heading.length;
+  const gap = /^\.?\s*/.exec(own.slice(headingEnd))![0];
+  return own.slice(0, headingEnd) + (gap.trim() === gap ? `${gap} ` : gap);
+}
+
+// Whitespace the contract puts between the clause and the one after it
+function clauseSeparator(text: string, clause: Clause | undefined): string {
+  if (!clause) return "\n\n";
+  const gap = /^\s*/.exec(text.slice(clause.endOffset))![0];
+  return gap.includes("\n") ? gap.slice(0, gap.lastIndexOf("\n") + 1) : "\n\n";
+}
+
+// Apply non-overlapping edits, returning the new text and where a given edit landed
+function applyEdits(text: string, edits: TextEdit[], tracked: TextEdit) {
+  // Identical spans (a heading that also reads as a reference) are rewritten once
+  const unique = Array.from(new Map(edits.map((edit) => [`${edit.start}:${edit.end}`, edit])).values())
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+
+  let result = "";
+  let cursor = 0;
+  let trackedStart = 0;
+  for (const edit of unique) {
+    result += text.slice(cursor, edit.start);
+    if (edit === tracked) trackedStart = result.length;
+    result += edit.replacement;
+    cursor = edit.end;
+  }
+  return { text: result + text.slice(cursor), trackedStart };
+}
+
+// Add a clause to a contract's text. Sections after an inserted clause move up
+// by one, together with their sub-sections and the references to them.
+export function insertClause(
+  text: string,
+  clauses: Clause[],
+  input: AddContractClause,
+): { text: string; insertion: ClauseInsertion } {
+  const ordered = [...clauses].sort((a, b) => a.position - b.position);
+  let target: Clause | undefined;
+  if (input.placement !== ClausePlacement.APPEND) {
+    target = ordered.find((clause) => clause.key === input.clauseKey);
+    if (!target) {
+      throw new ClauseInsertionError(`Clause ${input.clauseKey} not found`);
+    }
+    if (target.kind !== ClauseKind.SECTION && target.kind !== ClauseKind.ARTICLE && target.kind !== ClauseKind.DEFINITIONS) {
+      throw new ClauseInsertionError('Clauses can only be placed next to a section or article');
+    }
+  }
+
+  let edits: TextEdit[] = [];
+  let insertion: TextEdit;
+  let number: string | null = null;
+  let renumbered: ClauseInsertion["renumbered"] = [];
+  let leading = "";
+
+  if (input.placement === ClausePlacement.REPLACE) {
+    // Only the clause's own text is replaced; its sub-clauses stay, and so
+    // does its heading unless the request gives a new one
+    number = target!.number;
+    const end = ownTextEnd(text, target!, ordered);
+    const heading = input.heading ? null : headingAsWritten(text, target!, end);
+    const clauseText = heading
+      ? heading + clauseBody(input.content)
+      : formatClause(text, target, number, input);
+    insertion = { start: target!.startOffset, end, replacement: clauseText };
+  } else if (input.placement === ClausePlacement.AFTER) {
+    number = isNumbered(target!) ? nextNumber(target!) : null;
+    const { sections, articles, moved } = renumberingAfter(target!, ordered);
+    edits = [...markerEdits(text, moved, sections, articles), ...referenceEdits(text, sections, articles)];
+    renumbered = [
+      ...Array.from(articles.entries()),
+      ...Array.from(sections.entries()),
+    ].map(([from, to]) => ({ from, to }));
+
+    leading = clauseSeparator(text, target);
+    const clauseText = formatClause(text, target, number, input);
+    insertion = { start: target!.endOffset, end: target!.endOffset, replacement: leading + clauseText };
+  } else {
+    // Numbered after the last top-level article or section, ahead of the signatures
+    const last = ordered.filter((clause) => clause.depth === 0 && isNumbered(clause)).pop();
+    const signature = ordered.find((clause) => clause.kind === ClauseKind.SIGNATURE);
+    number = last ? nextNumber(last) : null;
+    const separator = clauseSeparator(text, last);
+    const clauseText = formatClause(text, last, number, input);
+    if (signature) {
+      insertion = { start: signature.startOffset, end: signature.startOffset, replacement: clauseText + separator };
+    } else {
+      const end = text.trimEnd().length;
+      leading = end > 0 ? separator : "";
+      insertion = { start: end, end, replacement: leading + clauseText };
+    }
+  }
+
+  const applied = applyEdits(text, [...edits, insertion], insertion);
+  const startOffset = applied.trackedStart + leading.length;
+  const endOffset = startOffset + insertion.replacement.trimEnd().length - leading.length;
+  return {
+    text: applied.text,
+    insertion: { number, startOffset, endOffset, renumbered },
+  };
+}
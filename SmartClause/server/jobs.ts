@@ -0,0 +1,152 @@
+import { storage, type JobUpdate } from "./storage";
+import { publish } from "./realtime";
+import { log } from "./vite";
+import { JobStatus, type Job, type InsertJob } from "@shared/schema";
+
+// Records how far a running job has got; progress is a 0-100 percentage
+export type ReportProgress = (stage: string, progress: number) => Promise<void>;
+
+// A handler does the work of one job type. Its return value is stored as the job's result.
+export type JobHandler = (job: Job, reportProgress: ReportProgress) => Promise<unknown>;
+
+// Raised by handlers for failures that another attempt cannot fix, such as a
+// deleted contract. The job fails straight away instead of being retried.
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentJobError";
+  }
+}
+
+export interface JobWorkerOptions {
+  pollIntervalMs: number;
+  // Running jobs not finished within this time are assumed lost (e.g. the
+  // server restarted mid-job) and go back in the queue, unless they have no attempts left
+  staleAfterMs: number;
+}
+
+const DEFAULT_WORKER_OPTIONS: JobWorkerOptions = {
+  pollIntervalMs: 2000,
+  staleAfterMs: 10 * 60 * 1000,
+};
+
+const handlers = new Map<string, JobHandler>();
+
+let running = false;
+let wake: (() => void) | null = null;
+
+export function registerJobHandler(type: string, handler: JobHandler) {
+  handlers.set(type, handler);
+}
+
+// Delay before the next attempt of a failed job: 5s, 20s, 80s... capped at 10 minutes
+export function retryDelayMs(attempts: number): number {
+  return Math.min(5000 * 4 ** (attempts - 1), 10 * 60 * 1000);
+}
+
+// Save a change to a job and tell its owner's open sockets
+async function updateJob(id: number, data: JobUpdate) {
+  const job = await storage.updateJob(id, data);
+  if (job) publish(job.userId, { type: "job.updated", job });
+}
+
+// Queue a job and nudge the worker so it is picked up without waiting for the next poll
+export async function enqueueJob(job: InsertJob): Promise<Job> {
+  const created = await storage.createJob(job);
+  publish(created.userId, { type: "job.updated", job: created });
+  wake?.();
+  return created;
+}
+
+async function runJob(job: Job) {
+  const handler = handlers.get(job.type);
+  if (!handler) {
+    await updateJob(job.id, {
+      status: JobStatus.FAILED,
+      error: `No handler for job type "${job.type}"`,
+      completedAt: new Date(),
+    });
+    return;
+  }
+
+  try {
+    const result = await handler(job, async (stage, progress) => {
+      await updateJob(job.id, { stage, progress });
+    });
+    await updateJob(job.id, {
+      status: JobStatus.COMPLETED,
+      progress: 100,
+      result: result ?? null,
+      error: null,
+      completedAt: new Date(),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const retry = !(error instanceof PermanentJobError) && job.attempts < job.maxAttempts;
+    log(`job ${job.id} (${job.type}) attempt ${job.attempts} failed: ${message}`, "jobs");
+
+    await updateJob(job.id, retry
+      ? {
+          status: JobStatus.QUEUED,
+          runAt: new Date(Date.now() + retryDelayMs(job.attempts)),
+          lockedAt: null,
+          error: message,
+        }
+      : {
+          status: JobStatus.FAILED,
+          lockedAt: null,
+          error: message,
+          completedAt: new Date(),
+        });
+  }
+}
+
+// Run jobs one at a time until stopJobWorker is called. With DatabaseStorage
+// the queue is the jobs table, so several server processes can share it;
+// with MemStorage it is the in-process map.
+export function startJobWorker(options: Partial<JobWorkerOptions> = {}) {
+  if (running) return;
+  running = true;
+
+  const { pollIntervalMs, staleAfterMs } = { ...DEFAULT_WORKER_OPTIONS, ...options };
+
+  const idle = () => new Promise<void>((resolve) => {
+    const timer = setTimeout(() => {
+      wake = null;
+      resolve();
+    }, pollIntervalMs);
+    wake = () => {
+      clearTimeout(timer);
+      wake = null;
+      resolve();
+    };
+  });
+
+  (async () => {
+    while (running) {
+      try {
+        for (const stale of await storage.requeueStaleJobs(new Date(Date.now() - staleAfterMs))) {
+          log(stale.status === JobStatus.FAILED
+            ? `stale job ${stale.id} (${stale.type}) failed after ${stale.attempts} attempt(s)`
+            : `requeued stale job ${stale.id} (${stale.type})`, "jobs");
+          publish(stale.userId, { type: "job.updated", job: stale });
+        }
+
+        const job = await storage.claimNextJob();
+        if (job) {
+          publish(job.userId, { type: "job.updated", job });
+          await runJob(job);
+          continue;
+        }
+      } catch (error) {
+        log(`job worker error: ${error instanceof Error ? error.message : error}`, "jobs");
+      }
+      await idle();
+    }
+  })();
+}
+
+export function stopJobWorker() {
+  running = false;
+  wake?.();
+}
@@ -0,0 +1,24 @@
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import { pool } from "./db";
+
+// Data migrations that drizzle-kit push cannot do on its own, such as
+// converting the values of a column whose type changes. Every file in
+// migrations/ runs in name order before the schema is pushed, so each one
+// must be safe to run again.
+const MIGRATIONS_DIR = path.resolve(import.meta.dirname, "..", "migrations");
+
+async function runMigrations() {
+  const files = (await readdir(MIGRATIONS_DIR)).filter((file) => file.endsWith(".sql")).sort();
+  for (const file of files) {
+    console.log(`Running migration ${file}`);
+    await pool.query(await readFile(path.join(MIGRATIONS_DIR, file), "utf8"));
+  }
+}
+
+runMigrations()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
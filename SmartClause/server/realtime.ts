@@ -0,0 +1,80 @@
+import { ServerResponse, type IncomingMessage, type Server } from "http";
+import type { Duplex } from "stream";
+import type { Request, RequestHandler, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { REALTIME_PATH, type RealtimeEvent } from "@shared/realtime";
+
+// Passport keeps the logged-in user's id in the session
+declare module "express-session" {
+  interface SessionData {
+    passport?: { user?: number };
+  }
+}
+
+// Dead connections are dropped when they miss a ping
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// Open sockets per user id
+const clients = new Map<number, Set<WebSocket>>();
+
+// Send an event to every open socket of a user. Sockets of other server
+// processes are not reached; clients fall back to polling when they miss events.
+export function publish(userId: number, event: RealtimeEvent) {
+  const sockets = clients.get(userId);
+  if (!sockets) return;
+
+  const message = JSON.stringify(event);
+  for (const socket of Array.from(sockets)) {
+    if (socket.readyState === WebSocket.OPEN) socket.send(message);
+  }
+}
+
+function reject(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+// Accept WebSocket upgrades on REALTIME_PATH from requests carrying a logged-in
+// session. The socket is push-only: messages from the client are ignored.
+export function setupRealtime(server: Server, sessionParser: RequestHandler) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    // Other upgrade requests (Vite HMR) are left to their own listeners
+    if (new URL(req.url || "", "http://localhost").pathname !== REALTIME_PATH) return;
+
+    // The session middleware only reads the cookie header and sets req.session
+    const request = req as Request;
+    sessionParser(request, new ServerResponse(req) as Response, () => {
+      const userId = request.session?.passport?.user;
+      if (!userId) {
+        return reject(socket, "401 Unauthorized");
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        const sockets = clients.get(userId) || new Set<WebSocket>();
+        sockets.add(ws);
+        clients.set(userId, sockets);
+
+        let alive = true;
+        ws.on("pong", () => {
+          alive = true;
+        });
+        const heartbeat = setInterval(() => {
+          if (!alive) return ws.terminate();
+          alive = false;
+          ws.ping();
+        }, HEARTBEAT_INTERVAL_MS);
+
+        // A malformed frame or a reset connection would otherwise be an unhandled "error" event
+        ws.on("error", () => ws.terminate());
+
+        ws.on("close", () => {
+          clearInterval(heartbeat);
+          sockets.delete(ws);
+          if (sockets.size === 0) clients.delete(userId);
+        });
+      });
+    });
+  });
+}
@@ -0,0 +1,131 @@
+import {
+  CommentRangeEnd,
+  CommentRangeStart,
+  CommentReference,
+  DeletedTextRun,
+  Document,
+  InsertedTextRun,
+  Packer,
+  Paragraph,
+  TextRun,
+  type ICommentOptions,
+  type ParagraphChild,
+} from "docx";
+import { planSuggestionEdits, reviewedSuggestion } from "./revision";
+import { type Contract, type RiskyClause, type User } from "@shared/schema";
+
+export interface RedlineInput {
+  contract: Contract;
+  // Accepted and edited suggestions appear as tracked changes; others are ignored
+  riskyClauses: RiskyClause[];
+  author: User;
+}
+
+const authorName = (user: User) =>
+  [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email;
+
+const authorInitials = (user: User) =>
+  [user.firstName, user.lastName]
+    .map((part) => part?.charAt(0).toUpperCase() ?? "")
+    .join("") || user.email.charAt(0).toUpperCase();
+
+// A multi-line suggestion becomes one inserted run per line
+function insertedRuns(text: string, change: () => { id: number; author: string; date: string }) {
+  return text
+    .replace(/\r/g, "")
+    .split("\n")
+    .map((line, index) => new InsertedTextRun({ ...change(), text: line, break: index > 0 ? 1 : undefined }));
+}
+
+// Build a DOCX of the contract text in which every accepted suggestion is a
+// tracked change (the quoted text deleted, the agreed wording inserted)
+// carrying a comment with the explanation, ready to accept or reject in Word
+export async function renderRedlineDocx({ contract, riskyClauses, author }: RedlineInput): Promise<Buffer> {
+  const text = contract.originalText;
+  const { edits, unplaced } = planSuggestionEdits(text, riskyClauses);
+
+  const name = authorName(author);
+  const initials = authorInitials(author);
+  const now = new Date();
+  // Insertions and deletions share one id space, separate from comments
+  let revisionId = 0;
+  const change = () => ({ id: revisionId++, author: name, date: now.toISOString() });
+
+  const comments: ICommentOptions[] = edits.map((edit, index) => ({
+    id: index,
+    author: name,
+    initials,
+    date: now,
+    children: [new Paragraph(edit.riskyClause.explanation)],
+  }));
+
+  const paragraphs: Paragraph[] = [];
+  const linePattern = /[^\r\n]*/g;
+  let next = 0;
+  for (let match = linePattern.exec(text); match; match = linePattern.exec(text)) {
+    const lineStart = match.index;
+    const lineEnd = lineStart + match[0].length;
+    const children: ParagraphChild[] = [];
+    let cursor = lineStart;
+
+    while (next < edits.length && edits[next].start < lineEnd) {
+      const edit = edits[next];
+      const commentId = next;
+      const from = Math.max(edit.start, lineStart);
+      if (from > cursor) children.push(new TextRun(text.slice(cursor, from)));
+      if (edit.start >= lineStart) children.push(new CommentRangeStart(commentId));
+
+      const to = Math.min(edit.end, lineEnd);
+      if (to > from) children.push(new DeletedTextRun({ ...change(), text: text.slice(from, to) }));
+
+      // The replacement goes after the last line of the deleted passage
+      if (edit.end > lineEnd) {
+        cursor = lineEnd;
+        break;
+      }
+      children.push(
+        ...insertedRuns(edit.replacement, change),
+        new CommentRangeEnd(commentId),
+        new TextRun({ children: [new CommentReference(commentId)] }),
+      );
+      cursor = edit.end;
+      next++;
+    }
+
+    if (lineEnd > cursor) children.push(new TextRun(text.slice(cursor, lineEnd)));
+    paragraphs.push(new Paragraph({ children }));
+
+    // Step over the line break; a zero-length match at the end would loop forever
+    if (lineEnd >= text.length) break;
+    linePattern.lastIndex = lineEnd + (text.startsWith("\r\n", lineEnd) ? 2 : 1);
+  }
+
+  // Suggestions whose passage is no longer in the text are kept as comments on
+  // the opening paragraph rather than dropped
+  if (unplaced.length > 0 && paragraphs.length > 0) {
+    const first = paragraphs[0];
+    unplaced.forEach((riskyClause, index) => {
+      const id = edits.length + index;
+      comments.push({
+        id,
+        author: name,
+        initials,
+        date: now,
+        children: [
+          new Paragraph(`Suggested change could not be placed in the text. Original: "${riskyClause.clauseText}"`),
+          new Paragraph(`Suggestion: "${reviewedSuggestion(riskyClause)}"`),
+          new Paragraph(riskyClause.explanation),
+        ],
+      });
+      first.addChildElement(new TextRun({ children: [new CommentReference(id)] }));
+    });
+  }
+
+  const document = new Document({
+    creator: name,
+    title: contract.name,
+    comments: { children: comments },
+    sections: [{ children: paragraphs }],
+  });
+  return Packer.toBuffer(document);
+}
@@ -0,0 +1,326 @@
+import PDFDocument from "pdfkit";
+import { describeClause } from "@shared/clauses";
+import { RISK_CATEGORY_LABELS, type ScoreBreakdown } from "@shared/scoring";
+import {
+  RiskLevel,
+  type Analysis,
+  type Clause,
+  type Contract,
+  type RiskCategoryType,
+  type RiskyClause,
+} from "@shared/schema";
+
+export interface ReportInput {
+  contract: Contract;
+  analysis: Analysis;
+  riskyClauses: RiskyClause[];
+  clauses: Clause[];
+}
+
+const BRAND_COLOR = "#2196f3";
+const TEXT_COLOR = "#111827";
+const MUTED_COLOR = "#6b7280";
+
+const RISK_COLORS: Record<string, string> = {
+  [RiskLevel.LOW]: "#16a34a",
+  [RiskLevel.MEDIUM]: "#ca8a04",
+  [RiskLevel.HIGH]: "#dc2626",
+};
+
+const riskColor = (level: string | null) => (level && RISK_COLORS[level]) || MUTED_COLOR;
+
+const riskLabel = (level: string | null) =>
+  level ? `${level.charAt(0).toUpperCase()}${level.slice(1)} risk` : "Not analyzed";
+
+const formatDate = (date: Date | string | null) =>
+  date
+    ? new Date(date).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" })
+    : "Unknown";
+
+// The standard PDF fonts only cover Latin-1 plus a few typographic marks, so
+// characters outside it are replaced rather than rendered as garbage
+export function pdfSafe(text: string): string {
+  return text
+    .replace(/\r/g, "")
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/…/g, "...")
+    .replace(/[^\n\t\x20-\x7e\xa0-\xff]/g, "?");
+}
+
+interface Highlight {
+  start: number;
+  end: number;
+  finding: number; // 1-based number of the finding in the report
+  riskLevel: string;
+}
+
+// Where each finding sits in the contract text: its located passage, or the
+// whole clause when only the clause is known. Overlaps keep the earlier finding.
+function findHighlights(riskyClauses: RiskyClause[], clauses: Clause[], textLength: number): Highlight[] {
+  const ranges = riskyClauses
+    .map((riskyClause, index) => {
+      const clause = clauses.find((candidate) => candidate.id === riskyClause.clauseId);
+      const start = riskyClause.startOffset ?? clause?.startOffset;
+      const end = riskyClause.endOffset ?? clause?.endOffset;
+      return start !== undefined && end !== undefined && end > start
+        ? { start, end: Math.min(end, textLength), finding: index + 1, riskLevel: riskyClause.riskLevel }
+        : null;
+    })
+    .filter((range): range is Highlight => range !== null)
+    .sort((a, b) => a.start - b.start);
+
+  const highlights: Highlight[] = [];
+  for (const range of ranges) {
+    const previous = highlights[highlights.length - 1];
+    if (previous && range.start < previous.end) {
+      if (range.end > previous.end) highlights.push({ ...range, start: previous.end });
+    } else {
+      highlights.push(range);
+    }
+  }
+  return highlights;
+}
+
+function sectionHeading(doc: PDFKit.PDFDocument, title: string) {
+  doc.moveDown(1.2);
+  doc.font("Helvetica-Bold").fontSize(14).fillColor(BRAND_COLOR).text(title);
+  const y = doc.y + 2;
+  doc.moveTo(doc.page.margins.left, y).lineTo(doc.page.width - doc.page.margins.right, y)
+    .lineWidth(0.5).strokeColor(BRAND_COLOR).stroke();
+  doc.moveDown(0.6);
+  doc.font("Helvetica").fontSize(10).fillColor(TEXT_COLOR);
+}
+
+function field(doc: PDFKit.PDFDocument, label: string, value: string) {
+  doc.font("Helvetica-Bold").fontSize(10).fillColor(MUTED_COLOR).text(`${label}: `, { continued: true });
+  doc.font("Helvetica").fillColor(TEXT_COLOR).text(pdfSafe(value));
+}
+
+function renderHeader(doc: PDFKit.PDFDocument, { contract, analysis }: ReportInput) {
+  const { left } = doc.page.margins;
+  const width = doc.page.width - left - doc.page.margins.right;
+
+  doc.rect(0, 0, doc.page.width, 80).fill(BRAND_COLOR);
+  doc.font("Helvetica-Bold").fontSize(22).fillColor("#ffffff").text("SmartClause", left, 24);
+  doc.font("Helvetica").fontSize(11).text("Contract Risk Report", left, 50);
+  doc.fontSize(9).text(`Generated ${formatDate(new Date())}`, left, 52, { width, align: "right" });
+
+  doc.x = left;
+  doc.y = 100;
+  doc.font("Helvetica-Bold").fontSize(18).fillColor(TEXT_COLOR).text(pdfSafe(contract.name));
+  doc.moveDown(0.5);
+
+  const playbook = (analysis.fullAnalysis as { playbook?: { name: string; version: number } }).playbook;
+  field(doc, "Contract type", contract.contractType || "Not specified");
+  field(doc, "Format", contract.fileType.toUpperCase());
+  field(doc, "Uploaded", formatDate(contract.uploadedAt));
+  field(doc, "Analysis", `Run ${analysis.version} on ${formatDate(analysis.createdAt)}`);
+  if (playbook) field(doc, "Playbook", `${playbook.name} (v${playbook.version})`);
+  const engine = [analysis.engine, analysis.provider && `${analysis.provider} ${analysis.model ?? ""}`.trim()]
+    .filter(Boolean)
+    .join(", ");
+  if (engine) field(doc, "Engine", engine);
+}
+
+function renderScore(doc: PDFKit.PDFDocument, { analysis }: ReportInput) {
+  sectionHeading(doc, "Risk Score");
+
+  const { left } = doc.page.margins;
+  const width = doc.page.width - left - doc.page.margins.right;
+  const color = riskColor(analysis.riskLevel);
+  const top = doc.y;
+
+  doc.font("Helvetica-Bold").fontSize(32).fillColor(color)
+    .text(analysis.riskScore !== null ? `${analysis.riskScore}` : "-", left, top, { continued: true });
+  doc.font("Helvetica").fontSize(14).fillColor(MUTED_COLOR).text(" / 100");
+  doc.font("Helvetica-Bold").fontSize(12).fillColor(color).text(riskLabel(analysis.riskLevel));
+
+  const reason = (analysis.fullAnalysis as { riskReason?: string }).riskReason;
+  if (reason) {
+    doc.moveDown(0.3);
+    doc.font("Helvetica").fontSize(10).fillColor(TEXT_COLOR).text(pdfSafe(reason));
+  }
+
+  const breakdown = analysis.scoreBreakdown as ScoreBreakdown | null;
+  if (!breakdown) return;
+
+  doc.moveDown(0.8);
+  const labelWidth = 140;
+  const barWidth = width - labelWidth - 60;
+  for (const [category, categoryScore] of Object.entries(breakdown.categories)) {
+    const y = doc.y;
+    const barColor = categoryScore.score >= breakdown.thresholds.high ? RISK_COLORS.high
+      : categoryScore.score >= breakdown.thresholds.medium ? RISK_COLORS.medium
+      : RISK_COLORS.low;
+
+    doc.font("Helvetica").fontSize(10).fillColor(TEXT_COLOR)
+      .text(RISK_CATEGORY_LABELS[category as RiskCategoryType], left, y, { width: labelWidth });
+    doc.rect(left + labelWidth, y + 2, barWidth, 7).fill("#e5e7eb");
+    if (categoryScore.score > 0) {
+      doc.rect(left + labelWidth, y + 2, (barWidth * categoryScore.score) / 100, 7).fill(barColor);
+    }
+    doc.fillColor(MUTED_COLOR).text(`${categoryScore.score}`, left + labelWidth + barWidth + 10, y);
+    doc.x = left;
+    doc.y = y + 16;
+  }
+}
+
+function renderSummary(doc: PDFKit.PDFDocument, { analysis }: ReportInput) {
+  const summary = (analysis.summary as string[] | null) || [];
+  if (summary.length === 0) return;
+
+  sectionHeading(doc, "Summary");
+  doc.list(summary.map(pdfSafe), { bulletRadius: 2, textIndent: 12, paragraphGap: 4 });
+}
+
+function renderRiskyClauses(doc: PDFKit.PDFDocument, { riskyClauses, clauses }: ReportInput) {
+  sectionHeading(doc, `Risky Clauses (${riskyClauses.length})`);
+
+  if (riskyClauses.length === 0) {
+    doc.fillColor(MUTED_COLOR).text("No significant risky clauses were identified.");
+    return;
+  }
+
+  const { left } = doc.page.margins;
+  const width = doc.page.width - left - doc.page.margins.right;
+
+  riskyClauses.forEach((riskyClause, index) => {
+    const clause = clauses.find((candidate) =>
+      riskyClause.clauseId ? candidate.id === riskyClause.clauseId : candidate.position === riskyClause.clauseIndex
+    );
+    const label = clause ? describeClause(clause) : `Section ${riskyClause.clauseIndex + 1}`;
+    const category = riskyClause.category
+      ? RISK_CATEGORY_LABELS[riskyClause.category as RiskCategoryType] ?? riskyClause.category
+      : null;
+
+    if (index > 0) doc.moveDown(0.8);
+    // Keep a finding's heading with at least the start of its text
+    if (doc.y > doc.page.height - doc.page.margins.bottom - 80) doc.addPage();
+
+    doc.font("Helvetica-Bold").fontSize(11).fillColor(TEXT_COLOR)
+      .text(`${index + 1}. ${pdfSafe(label)}`, { continued: true });
+    doc.fillColor(riskColor(riskyClause.riskLevel)).text(`  ${riskLabel(riskyClause.riskLevel)}`);
+    doc.font("Helvetica").fontSize(9).fillColor(MUTED_COLOR)
+      .text([category, riskyClause.source === "rule" ? `Playbook rule ${riskyClause.ruleId}` : "AI review"]
+        .filter(Boolean)
+        .join(" · "));
+
+    doc.moveDown(0.3);
+    const quoteTop = doc.y;
+    doc.font("Helvetica-Oblique").fontSize(10).fillColor(TEXT_COLOR)
+      .text(pdfSafe(riskyClause.clauseText), left + 10, quoteTop, { width: width - 10 });
+    doc.rect(left, quoteTop, 2, doc.y - quoteTop).fill(riskColor(riskyClause.riskLevel));
+    doc.x = left;
+
+    doc.moveDown(0.3);
+    doc.font("Helvetica-Bold").fillColor(TEXT_COLOR).text("Why it matters: ", { continued: true });
+    doc.font("Helvetica").text(pdfSafe(riskyClause.explanation));
+
+    if (riskyClause.suggestion) {
+      doc.moveDown(0.3);
+      doc.font("Helvetica-Bold").text("Suggested replacement: ", { continued: true });
+      doc.font("Helvetica").text(pdfSafe(riskyClause.suggestion));
+    }
+  });
+}
+
+function renderAppendix(doc: PDFKit.PDFDocument, { contract, riskyClauses, clauses }: ReportInput) {
+  doc.addPage();
+  sectionHeading(doc, "Appendix: Contract Text");
+  doc.fontSize(8).fillColor(MUTED_COLOR)
+    .text("Passages flagged as risky are highlighted and numbered to match the findings above.");
+  doc.moveDown(0.6);
+
+  const text = contract.originalText;
+  const highlights = findHighlights(riskyClauses, clauses, text.length);
+
+  // Lines are rendered one at a time because pdfkit mislays line breaks
+  // inside continued text; highlights are split at line boundaries
+  doc.fontSize(9);
+  let lineStart = 0;
+  for (const line of text.split("\n")) {
+    const lineEnd = lineStart + line.length;
+    const runs: { text: string; highlight?: Highlight; endsHighlight?: boolean }[] = [];
+    let position = lineStart;
+    for (const highlight of highlights) {
+      if (highlight.end <= lineStart || highlight.start >= lineEnd) continue;
+      const start = Math.max(highlight.start, lineStart);
+      const end = Math.min(highlight.end, lineEnd);
+      if (start > position) runs.push({ text: text.slice(position, start) });
+      runs.push({ text: text.slice(start, end), highlight, endsHighlight: highlight.end <= lineEnd + 1 });
+      position = end;
+    }
+    if (position < lineEnd || runs.length === 0) runs.push({ text: text.slice(position, lineEnd) });
+
+    if (runs.length === 1 && !runs[0].highlight && !runs[0].text.trim()) {
+      doc.moveDown(0.5);
+      lineStart = lineEnd + 1;
+      continue;
+    }
+
+    runs.forEach((run, index) => {
+      const continued = index < runs.length - 1;
+      if (!run.highlight) {
+        doc.font("Helvetica").fillColor(TEXT_COLOR).text(pdfSafe(run.text), { continued, underline: false });
+        return;
+      }
+      const color = riskColor(run.highlight.riskLevel);
+      doc.font("Helvetica-Bold").fillColor(color)
+        .text(pdfSafe(run.text), { continued: continued || !!run.endsHighlight, underline: true });
+      if (run.endsHighlight) {
+        doc.fillColor(color).text(` [${run.highlight.finding}]`, { continued, underline: false });
+      }
+    });
+    lineStart = lineEnd + 1;
+  }
+}
+
+// Page numbers go in the bottom margin once every page exists
+function renderFooters(doc: PDFKit.PDFDocument, contract: Contract) {
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    const bottom = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc.font("Helvetica").fontSize(8).fillColor(MUTED_COLOR).text(
+      `${pdfSafe(contract.name)} - SmartClause risk report - page ${i + 1} of ${range.count}`,
+      doc.page.margins.left,
+      doc.page.height - bottom / 2,
+      { width: doc.page.width - doc.page.margins.left - doc.page.margins.right, align: "center", lineBreak: false },
+    );
+    doc.page.margins.bottom = bottom;
+  }
+}
+
+// Render the analysis report as a PDF with the standard PDF fonts, so no
+// browser, font files or network access are needed
+export function renderAnalysisReport(input: ReportInput): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: 50,
+    bufferPages: true,
+    info: {
+      Title: `${pdfSafe(input.contract.name)} - Risk Report`,
+      Author: "SmartClause",
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  renderHeader(doc, input);
+  renderScore(doc, input);
+  renderSummary(doc, input);
+  renderRiskyClauses(doc, input);
+  renderAppendix(doc, input);
+  renderFooters(doc, input.contract);
+  doc.end();
+
+  return done;
+}
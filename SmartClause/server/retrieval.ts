@@ -0,0 +1,166 @@
+import { locatePassage } from "./segmenter";
+import { describeClause } from "@shared/clauses";
+import type { Citation, Clause, Contract } from "@shared/schema";
+
+// Okapi BM25 parameters: term frequency saturation and length normalisation
+const K1 = 1.2;
+const B = 0.75;
+
+// Words too common in contracts and questions to tell passages apart
+const STOPWORDS = new Set([
+  "a", "an", "and", "any", "are", "as", "at", "be", "been", "by", "can", "could", "do", "does", "for", "from",
+  "has", "have", "how", "i", "if", "in", "into", "is", "it", "its", "may", "me", "my", "no", "not", "of", "on",
+  "or", "our", "shall", "should", "so", "such", "than", "that", "the", "their", "them", "then", "there", "these",
+  "they", "this", "those", "to", "under", "upon", "us", "was", "we", "what", "when", "where", "which", "who",
+  "will", "with", "would", "you", "your", "agreement", "party", "parties", "contract", "hereunder", "herein",
+]);
+
+// Everyday words for what contracts say in legal terms; a question using one
+// of the first also searches for the others
+const SYNONYMS: [RegExp, string[]][] = [
+  [/^(?:cancel|quit|end|exit)/, ["termination"]],
+  [/^(?:pay|paid|cost|price|charge)/, ["payment", "fees", "invoice"]],
+  [/^(?:secret|private|privacy)/, ["confidential"]],
+  [/^(?:sue|damage|losses)/, ["liability", "indemnify", "claims"]],
+  [/^(?:law|court)/, ["governing", "jurisdiction", "disputes"]],
+  [/^(?:own|owner)/, ["intellectual", "property", "title"]],
+];
+
+// Truncating to six letters conflates "terminate", "terminated" and
+// "termination" without a dictionary; shorter words only lose a plural s
+const stem = (word: string) => word.length > 6 ? word.slice(0, 6) : word.replace(/^(\w{3,})s$/, "$1");
+
+// Lowercase word stems of a text, without stopwords
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+    .filter((word) => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+interface IndexedDocument<T> {
+  item: T;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+export interface SearchIndex<T> {
+  documents: IndexedDocument<T>[];
+  documentFrequencies: Map<string, number>;
+  averageLength: number;
+}
+
+export interface SearchResult<T> {
+  item: T;
+  score: number;
+}
+
+export function buildSearchIndex<T>(documents: { item: T; text: string }[]): SearchIndex<T> {
+  const documentFrequencies = new Map<string, number>();
+  const indexed = documents.map(({ item, text }) => {
+    const terms = tokenize(text);
+    const termFrequencies = new Map<string, number>();
+    for (const term of terms) termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + 1);
+    termFrequencies.forEach((_, term) => documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1));
+    return { item, termFrequencies, length: terms.length };
+  });
+  const totalLength = indexed.reduce((sum, document) => sum + document.length, 0);
+  return { documents: indexed, documentFrequencies, averageLength: totalLength / Math.max(indexed.length, 1) };
+}
+
+// Query terms and their weights. Synonyms count for less than the words the
+// user wrote, and context (an earlier question) for less again.
+function queryWeights(query: string, context?: string): Map<string, number> {
+  const weights = new Map<string, number>();
+  const add = (term: string, weight: number) => weights.set(term, Math.max(weights.get(term) ?? 0, weight));
+  for (const word of query.toLowerCase().match(/[a-z]+/g) || []) {
+    for (const [pattern, synonyms] of SYNONYMS) {
+      if (pattern.test(word)) synonyms.forEach((synonym) => add(stem(synonym), 0.6));
+    }
+  }
+  for (const term of tokenize(query)) add(term, 1);
+  if (context) tokenize(context).forEach((term) => add(term, 0.4));
+  return weights;
+}
+
+// Documents ranked by BM25 against the query; documents sharing no term with it are left out
+export function searchIndex<T>(index: SearchIndex<T>, query: string, options: { context?: string; limit?: number } = {}): SearchResult<T>[] {
+  const weights = queryWeights(query, options.context);
+  const count = index.documents.length;
+
+  const results = index.documents.map((document) => {
+    let score = 0;
+    weights.forEach((weight, term) => {
+      const frequency = document.termFrequencies.get(term);
+      if (!frequency) return;
+      const documentFrequency = index.documentFrequencies.get(term) ?? 0;
+      const idf = Math.log(1 + (count - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      const norm = frequency + K1 * (1 - B + B * (document.length / (index.averageLength || 1)));
+      score += weight * idf * (frequency * (K1 + 1)) / norm;
+    });
+    return { item: document.item, score };
+  });
+
+  return results
+    .filter((result) => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? count);
+}
+
+// Clauses most relevant to a question, best first. Each clause is indexed
+// with its label and heading, so "termination" finds a section headed that way.
+export function retrieveClauses(
+  clauses: Clause[],
+  question: string,
+  options: { context?: string; limit?: number } = {},
+): SearchResult<Clause>[] {
+  const index = buildSearchIndex(
+    clauses
+      .filter((clause) => clause.text.trim() || clause.heading)
+      .map((clause) => ({ item: clause, text: `${describeClause(clause)} ${clause.text}` })),
+  );
+  return searchIndex(index, question, options);
+}
+
+// A clause and the contract it belongs to, for retrieval across contracts
+export interface ContractClause {
+  contract: Contract;
+  clause: Clause;
+}
+
+// Clauses of several contracts most relevant to a question, best first. The
+// contract name is indexed too, so a question naming a supplier finds its contract.
+export function retrievePortfolioClauses(
+  contracts: { contract: Contract; clauses: Clause[] }[],
+  question: string,
+  options: { context?: string; limit?: number } = {},
+): SearchResult<ContractClause>[] {
+  const index = buildSearchIndex(
+    contracts.flatMap(({ contract, clauses }) => clauses
+      .filter((clause) => clause.text.trim() || clause.heading)
+      .map((clause) => ({ item: { contract, clause }, text: `${contract.name} ${describeClause(clause)} ${clause.text}` }))),
+  );
+  return searchIndex(index, question, options);
+}
+
+// Longest snippet kept for a citation
+const MAX_SNIPPET_CHARS = 300;
+
+// Point a citation at the words quoted from a passage. When the quote cannot
+// be found in the passage the citation covers the start of the passage.
+export function citePassage(text: string, clause: Clause, number: number, quote: string): Citation {
+  const passage = text.slice(clause.startOffset, clause.endOffset);
+  const located = quote.trim() ? locatePassage(passage, quote) : null;
+  const start = clause.startOffset + (located?.start ?? 0);
+  const end = located
+    ? clause.startOffset + located.end
+    : Math.min(clause.endOffset, clause.startOffset + MAX_SNIPPET_CHARS);
+  const snippet = text.slice(start, end).replace(/\s+/g, " ").trim();
+  return {
+    number,
+    clauseId: clause.id,
+    label: describeClause(clause),
+    startOffset: start,
+    endOffset: end,
+    snippet: snippet.length > MAX_SNIPPET_CHARS ? `${snippet.slice(0, MAX_SNIPPET_CHARS - 1)}…` : snippet,
+  };
+}
@@ -0,0 +1,67 @@
+import { locatePassage } from "./segmenter";
+import { ReviewStatus, type RevisedText, type RiskyClause } from "@shared/schema";
+
+export interface SuggestionEdit {
+  start: number;
+  end: number;
+  replacement: string;
+  riskyClause: RiskyClause;
+}
+
+// The wording a reviewer agreed to, or null while the suggestion is not accepted
+export function reviewedSuggestion(riskyClause: RiskyClause): string | null {
+  if (riskyClause.reviewStatus === ReviewStatus.EDITED) return riskyClause.editedSuggestion;
+  if (riskyClause.reviewStatus === ReviewStatus.ACCEPTED) return riskyClause.suggestion;
+  return null;
+}
+
+// Where each accepted suggestion replaces text. The quoted passage is searched
+// for again because the stored offsets may fall back to the whole clause.
+// Findings that cannot be placed, or overlap an earlier one, are returned separately.
+export function planSuggestionEdits(text: string, riskyClauses: RiskyClause[]) {
+  const located = riskyClauses
+    .map((riskyClause) => ({ riskyClause, replacement: reviewedSuggestion(riskyClause)?.trim() }))
+    .filter((candidate): candidate is { riskyClause: RiskyClause; replacement: string } => !!candidate.replacement)
+    .map((candidate) => {
+      const range = locatePassage(text, candidate.riskyClause.clauseText);
+      if (!range) return { ...candidate, range: null };
+
+      // Keep ranges off surrounding whitespace so none ends on a line break
+      let { start, end } = range;
+      while (start < end && /\s/.test(text[start])) start++;
+      while (end > start && /\s/.test(text[end - 1])) end--;
+      return { ...candidate, range: end > start ? { start, end } : null };
+    })
+    .sort((a, b) => (a.range?.start ?? 0) - (b.range?.start ?? 0));
+
+  const edits: SuggestionEdit[] = [];
+  const unplaced: RiskyClause[] = [];
+  for (const { riskyClause, replacement, range } of located) {
+    const previous = edits[edits.length - 1];
+    if (!range || (previous && range.start < previous.end)) {
+      unplaced.push(riskyClause);
+    } else {
+      edits.push({ ...range, replacement, riskyClause });
+    }
+  }
+  return { edits, unplaced };
+}
+
+// The contract text with every accepted or edited suggestion applied
+export function applyReviewedSuggestions(text: string, riskyClauses: RiskyClause[]): RevisedText {
+  const { edits, unplaced } = planSuggestionEdits(text, riskyClauses);
+
+  let revised = "";
+  let cursor = 0;
+  for (const edit of edits) {
+    revised += text.slice(cursor, edit.start) + edit.replacement;
+    cursor = edit.end;
+  }
+  revised += text.slice(cursor);
+
+  return {
+    text: revised,
+    applied: edits.map((edit) => edit.riskyClause.id),
+    unplaced: unplaced.map((riskyClause) => riskyClause.id),
+  };
+}
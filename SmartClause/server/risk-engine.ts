@@ -0,0 +1,350 @@
+import {
+  ClauseKind,
+  RiskLevel,
+  RiskCategory,
+  playbookRulesSchema,
+  type Clause,
+  type Playbook,
+  type PlaybookRule,
+  type PlaybookVersion,
+  type RuleCondition,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+// Recorded on every analysis; bump when evaluation semantics change
+export const RISK_ENGINE_VERSION = "playbook-rules/1";
+
+export const DEFAULT_PLAYBOOK_NAME = "Standard playbook";
+
+// Built-in rules used when a user has not picked a playbook of their own
+export const DEFAULT_RULES: PlaybookRule[] = playbookRulesSchema.parse([
+  {
+    id: "long-non-compete",
+    name: "Non-compete longer than 2 years",
+    category: RiskCategory.COMPLIANCE,
+    riskLevel: RiskLevel.HIGH,
+    explanation:
+      "Non-compete restrictions longer than two years are frequently found unreasonable and may be unenforceable or block future work.",
+    suggestion: "Limit the restriction to 12 months, to services substantially similar to those provided, and to regions where you actually worked.",
+    conditions: [
+      { type: "regex", pattern: "\\b(non-?compet\\w*|compet(e|ing|itive))\\b", flags: "i" },
+      { type: "duration", operator: "gt", value: 2, unit: "years" },
+    ],
+  },
+  {
+    id: "long-payment-terms",
+    name: "Payment terms over 45 days",
+    category: RiskCategory.PAYMENT,
+    riskLevel: RiskLevel.MEDIUM,
+    explanation: "Payment terms longer than 45 days delay cash flow and increase exposure to non-payment.",
+    suggestion: "Require payment within 30 days of invoice, with interest on late payments.",
+    conditions: [
+      { type: "regex", pattern: "\\b(invoices?|payable|shall pay|payment|net\\s+\\d+)\\b", flags: "i" },
+      { type: "duration", operator: "gt", value: 45, unit: "days" },
+    ],
+  },
+  {
+    id: "uncapped-indemnity",
+    name: "Uncapped indemnity",
+    category: RiskCategory.LIABILITY,
+    riskLevel: RiskLevel.HIGH,
+    explanation:
+      "The indemnity is not limited in amount or scope, so a single claim could exceed the total value of the contract.",
+    suggestion:
+      "Limit the indemnity to third-party claims caused by your gross negligence or wilful misconduct, and cap it at the fees paid in the preceding 12 months.",
+    conditions: [
+      { type: "regex", pattern: "\\bindemnif(y|ies|ication)\\b", flags: "i" },
+      { type: "absent", pattern: "\\b(cap(ped)?|limited to|not (to )?exceed|maximum|aggregate liability)\\b", scope: "clause" },
+    ],
+  },
+  {
+    id: "unlimited-liability",
+    name: "Unlimited liability",
+    category: RiskCategory.LIABILITY,
+    riskLevel: RiskLevel.HIGH,
+    explanation: "The clause expressly leaves liability unlimited.",
+    suggestion: "Cap each party's total liability at the fees paid under the agreement in the 12 months before the claim.",
+    conditions: [
+      { type: "regex", pattern: "\\bunlimited\\b", flags: "i" },
+      { type: "keywords", keywords: ["liable", "liability", "liabilities"], mode: "any" },
+    ],
+  },
+  {
+    id: "automatic-renewal",
+    name: "Automatic renewal",
+    category: RiskCategory.TERMINATION,
+    riskLevel: RiskLevel.MEDIUM,
+    explanation: "The contract renews automatically, which can lock you into another term if the opt-out window is missed.",
+    suggestion: "Require renewal by mutual written agreement, or add a reminder obligation and a 30-day opt-out window.",
+    conditions: [
+      { type: "regex", pattern: "\\b(automatic(ally)?|auto)[- ]?renew\\w*|\\brenew\\w*\\s+automatically\\b", flags: "i" },
+    ],
+  },
+  {
+    id: "short-termination-notice",
+    name: "Termination for convenience on short notice",
+    category: RiskCategory.TERMINATION,
+    riskLevel: RiskLevel.MEDIUM,
+    explanation: "The other party can walk away for any reason on less than 30 days' notice.",
+    suggestion: "Require at least 30 days' written notice for termination for convenience and payment for work performed up to termination.",
+    conditions: [
+      { type: "regex", pattern: "\\bterminat\\w*\\b", flags: "i" },
+      { type: "regex", pattern: "\\b(for convenience|for any reason|without cause)\\b", flags: "i" },
+      { type: "duration", operator: "lt", value: 30, unit: "days" },
+    ],
+  },
+  {
+    id: "broad-ip-assignment",
+    name: "IP assignment without carve-outs",
+    category: RiskCategory.IP,
+    riskLevel: RiskLevel.MEDIUM,
+    explanation:
+      "All intellectual property is assigned and the contract does not reserve pre-existing or background IP, so your own tools and know-how may transfer.",
+    suggestion: "Exclude pre-existing and independently developed IP from the assignment and grant a licence to it instead.",
+    conditions: [
+      { type: "regex", pattern: "\\bassign(s|ed|ment)?\\b", flags: "i" },
+      { type: "regex", pattern: "\\b(all|any)\\b[^.]{0,40}\\b(intellectual property|right, title and interest|work product)\\b", flags: "i" },
+      { type: "absent", pattern: "\\b(pre-?existing|background|prior)\\s+(ip|intellectual property|materials|technology|works?)\\b", scope: "contract" },
+    ],
+  },
+  {
+    id: "perpetual-confidentiality",
+    name: "Perpetual confidentiality",
+    category: RiskCategory.CONFIDENTIALITY,
+    riskLevel: RiskLevel.LOW,
+    explanation: "Confidentiality obligations never expire, which is hard to comply with for ordinary business information.",
+    suggestion: "Limit confidentiality obligations to 3-5 years after termination, keeping trade secrets protected for as long as they remain secret.",
+    conditions: [
+      { type: "keywords", keywords: ["confidential"], mode: "any" },
+      { type: "regex", pattern: "\\b(perpetu\\w*|indefinite(ly)?|in perpetuity|survive[sd]? indefinitely)\\b", flags: "i" },
+    ],
+  },
+  {
+    id: "unilateral-amendment",
+    name: "Unilateral amendment",
+    category: RiskCategory.COMPLIANCE,
+    riskLevel: RiskLevel.MEDIUM,
+    explanation: "One party can change the terms without the other's agreement.",
+    suggestion: "Require amendments to be in writing and signed by both parties.",
+    conditions: [
+      { type: "regex", pattern: "\\b(may|reserves the right to)\\s+(amend|modify|change|update)\\b[^.]{0,40}\\b(agreement|terms)\\b", flags: "i" },
+      { type: "absent", pattern: "\\b(mutual|both parties|signed by)\\b", scope: "clause" },
+    ],
+  },
+]);
+
+// A clause flagged by a playbook rule
+export interface RuleFinding {
+  rule: PlaybookRule;
+  clause: Clause;
+  clauseText: string;
+  startOffset: number;
+  endOffset: number;
+}
+
+const DAYS_PER_UNIT: Record<string, number> = { day: 1, week: 7, month: 30, year: 365 };
+
+const WORD_NUMBERS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fourteen: 14, fifteen: 15, eighteen: 18, twenty: 20, "twenty-four": 24,
+  thirty: 30, "forty-five": 45, sixty: 60, ninety: 90,
+};
+
+// "five (5) years", "(30) days", "12 months", "six weeks"
+const DURATION_PATTERN =
+  /\b(?:(\d+(?:\.\d+)?)|([a-z]+(?:-[a-z]+)?))(?:\s*\((\d+(?:\.\d+)?)\))?\s+(?:business\s+|calendar\s+)?(day|week|month|year)s?\b/gi;
+const NET_TERMS_PATTERN = /\bnet\s+(\d+)\b/gi;
+
+// A period stated in a text, converted to days, and where it was written
+export interface StatedDuration {
+  days: number;
+  index: number;
+  text: string;
+}
+
+// Every period stated in the text, in order, with "net 30" read as 30 days
+export function findDurations(text: string): StatedDuration[] {
+  const durations: StatedDuration[] = [];
+  let match: RegExpExecArray | null;
+
+  DURATION_PATTERN.lastIndex = 0;
+  while ((match = DURATION_PATTERN.exec(text))) {
+    const [, digits, word, bracketed, unit] = match;
+    const amount = bracketed ? parseFloat(bracketed) : digits ? parseFloat(digits) : WORD_NUMBERS[word.toLowerCase()];
+    if (amount !== undefined) {
+      durations.push({ days: amount * DAYS_PER_UNIT[unit.toLowerCase()], index: match.index, text: match[0] });
+    }
+  }
+
+  NET_TERMS_PATTERN.lastIndex = 0;
+  while ((match = NET_TERMS_PATTERN.exec(text))) {
+    durations.push({ days: parseInt(match[1]), index: match.index, text: match[0] });
+  }
+
+  return durations.sort((a, b) => a.index - b.index);
+}
+
+// Every period stated in the text, converted to days
+export function extractDurations(text: string): number[] {
+  return findDurations(text).map((duration) => duration.days);
+}
+
+function compare(actual: number, operator: "gt" | "gte" | "lt" | "lte", threshold: number): boolean {
+  switch (operator) {
+    case "gt":
+      return actual > threshold;
+    case "gte":
+      return actual >= threshold;
+    case "lt":
+      return actual < threshold;
+    case "lte":
+      return actual <= threshold;
+  }
+}
+
+interface EvaluationContext {
+  contractText: string;
+  headings: string[]; // the clause's heading followed by its ancestors' headings
+}
+
+function testCondition(condition: RuleCondition, clause: Clause, context: EvaluationContext): boolean {
+  switch (condition.type) {
+    case "regex":
+      return new RegExp(condition.pattern, condition.flags).test(clause.text);
+    case "keywords": {
+      const text = clause.text.toLowerCase();
+      const found = condition.keywords.map((keyword) => text.includes(keyword.toLowerCase()));
+      return condition.mode === "all" ? found.every(Boolean) : found.some(Boolean);
+    }
+    case "absent": {
+      const haystack = condition.scope === "contract" ? context.contractText : clause.text;
+      return !new RegExp(condition.pattern, "i").test(haystack);
+    }
+    case "clauseKind":
+      return (condition.kinds as string[]).includes(clause.kind);
+    case "heading": {
+      const pattern = new RegExp(condition.pattern, "i");
+      return context.headings.some((heading) => pattern.test(heading));
+    }
+    case "duration": {
+      const threshold = condition.value * DAYS_PER_UNIT[condition.unit.replace(/s$/, "")];
+      return extractDurations(clause.text).some((days) => compare(days, condition.operator, threshold));
+    }
+  }
+}
+
+// Headings such as "7. INDEMNIFICATION" carry no obligations of their own
+function hasBody(clause: Clause): boolean {
+  let body = clause.text.trim();
+  if (clause.number && body.startsWith(clause.number)) body = body.slice(clause.number.length);
+  body = body.replace(/^[.:\s]+/, "");
+  if (clause.heading && body.startsWith(clause.heading)) body = body.slice(clause.heading.length);
+  return body.replace(/[.:\s]+/g, "").length > 0;
+}
+
+// Run every enabled rule against each clause's own text. Signature blocks
+// are only checked by rules that explicitly target them.
+export function evaluateRules(rules: PlaybookRule[], clauses: Clause[], contractText: string): RuleFinding[] {
+  const byKey = new Map(clauses.map((clause) => [clause.key, clause]));
+  const findings: RuleFinding[] = [];
+
+  for (const clause of clauses) {
+    if (!hasBody(clause)) continue;
+
+    const headings: string[] = [];
+    for (let current: Clause | undefined = clause; current; current = current.parentKey ? byKey.get(current.parentKey) : undefined) {
+      if (current.heading) headings.push(current.heading);
+    }
+    const context = { contractText, headings };
+
+    for (const rule of rules) {
+      if (!rule.enabled) continue;
+
+      const targetsKind = rule.conditions.some((condition) => condition.type === "clauseKind");
+      if (clause.kind === ClauseKind.SIGNATURE && !targetsKind) continue;
+
+      if (rule.conditions.every((condition) => testCondition(condition, clause, context))) {
+        findings.push({
+          rule,
+          clause,
+          clauseText: clause.text,
+          startOffset: clause.startOffset,
+          endOffset: clause.startOffset + clause.text.length,
+        });
+      }
+    }
+  }
+
+  return findings;
+}
+
+// JSON with sorted object keys, so rules read back from jsonb compare equal
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function rulesEqual(a: unknown, b: unknown): boolean {
+  return canonicalJson(a) === canonicalJson(b);
+}
+
+// Create the built-in playbook on first use, recording a new version
+// whenever DEFAULT_RULES changes between releases
+async function syncDefaultPlaybook(): Promise<Playbook> {
+  const existing = (await storage.getSystemPlaybooks()).find((playbook) => playbook.name === DEFAULT_PLAYBOOK_NAME);
+
+  if (!existing) {
+    return storage.createPlaybook(
+      {
+        userId: null,
+        name: DEFAULT_PLAYBOOK_NAME,
+        description: "Built-in rules covering non-competes, payment terms, indemnities, liability, renewal, termination, IP and confidentiality.",
+      },
+      { rules: DEFAULT_RULES, notes: "Initial built-in rules", createdBy: null },
+    );
+  }
+
+  const current = await storage.getPlaybookVersion(existing.id, existing.currentVersion);
+  if (!current || !rulesEqual(current.rules, DEFAULT_RULES)) {
+    await storage.addPlaybookVersion(existing.id, { rules: DEFAULT_RULES, notes: "Built-in rules updated", createdBy: null });
+    return (await storage.getPlaybook(existing.id))!;
+  }
+  return existing;
+}
+
+let defaultPlaybook: Promise<Playbook> | null = null;
+
+export function ensureDefaultPlaybook(): Promise<Playbook> {
+  if (!defaultPlaybook) {
+    defaultPlaybook = syncDefaultPlaybook().catch((error) => {
+      defaultPlaybook = null;
+      throw error;
+    });
+  }
+  return defaultPlaybook;
+}
+
+export function canAccessPlaybook(playbook: Playbook, userId: number): boolean {
+  return playbook.userId === null || playbook.userId === userId;
+}
+
+// The current version of the requested playbook, or of the built-in playbook
+// when none is given. Returns undefined when the user cannot use the playbook.
+export async function loadPlaybookVersion(
+  playbookId: number | undefined,
+  userId: number,
+): Promise<{ playbook: Playbook; version: PlaybookVersion; rules: PlaybookRule[] } | undefined> {
+  const playbook = playbookId ? await storage.getPlaybook(playbookId) : await ensureDefaultPlaybook();
+  if (!playbook || playbook.archived || !canAccessPlaybook(playbook, userId)) return undefined;
+
+  const version = await storage.getPlaybookVersion(playbook.id, playbook.currentVersion);
+  if (!version) return undefined;
+
+  return { playbook, version, rules: playbookRulesSchema.parse(version.rules) };
+}
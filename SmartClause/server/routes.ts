@@ -1,130 +1,256 @@
-import type { Express, Request, Response } from "express";
+import type { Express, NextFunction, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, type SavedClauseContent } from "./storage";
 import { 
   insertUserSchema, 
   insertContractSchema, 
+  updateUserSchema,
+  updateContractSchema,
   insertAnalysisSchema, 
   insertRiskyClauseSchema,
-  insertSavedClauseSchema,
+  createSavedClauseSchema,
+  updateSavedClauseSchema,
   insertConversationSchema,
-  type Message
+  updateConversationSchema,
+  conversationQuestionSchema,
+  createPlaybookSchema,
+  updatePlaybookSchema,
+  reviewRiskyClauseSchema,
+  addContractClauseSchema,
+  fillBlankFieldsSchema,
+  contractTermInputSchema,
+  updateContractTermSchema,
+  contractTermValueSchemas,
+  ContractTermSource,
+  ContractTermType,
+  createContractTemplateSchema,
+  updateContractTemplateSchema,
+  assembleContractSchema,
+  ReviewStatus,
+  JobType,
+  PortfolioScopeType,
+  type Analysis,
+  type Contract,
+  type Conversation,
+  type Message,
+  type PortfolioScope,
+  type SavedClause,
+  type TemplateSlot,
+  type ContractTermTypeType
 } from "@shared/schema";
 import { z } from "zod";
-import bcrypt from "bcryptjs";
+import passport from "passport";
+import multer from "multer";
+import {
+  setupAuth,
+  hashPassword,
+  sanitizeUser,
+  requireAuth,
+  requireSelf,
+  requireContractOwner,
+  requireAnalysisOwner,
+  requireRiskyClauseOwner,
+  requireContractTermOwner,
+  requireSavedClauseOwner,
+  requireConversationOwner,
+  requirePlaybookOwner,
+  requireTemplateOwner,
+  requireJobOwner
+} from "./auth";
+import { type User } from "@shared/schema";
+import { type AnswerStreamEvent } from "@shared/realtime";
+import { extractDocumentText, ExtractionError, type ExtractionResult } from "./extraction";
+import {
+  segmentContract,
+  toInsertClauses,
+  ensureContractClauses,
+  buildClauseTree
+} from "./segmenter";
+import {
+  loadPlaybookVersion,
+  canAccessPlaybook,
+  rulesEqual
+} from "./risk-engine";
+import {
+  generateClause,
+  answerContractQuestion,
+  answerPortfolioQuestion,
+  answerDocumentQuestion,
+  LLMError,
+  LLMCancelledError,
+  type AnswerOptions
+} from "./ai";
+import { enqueueJob, registerJobHandler } from "./jobs";
+import { setupRealtime, publish } from "./realtime";
+import { renderAnalysisReport } from "./report";
+import { renderRedlineDocx } from "./redline";
+import { renderContractDocx, renderContractPdf } from "./document";
+import { assembleContract, canAccessTemplate, ensureDefaultTemplate, TemplateError } from "./templates";
+import { applyReviewedSuggestions } from "./revision";
+import { ensureContractVersions, diffContractVersions } from "./versions";
+import { DiffGranularity } from "@shared/diff";
+import { compareContracts } from "./compare";
+import { insertClause, ClauseInsertionError } from "./insertion";
+import { fillBlankFields, BlankFieldError } from "./blanks";
+import { renderContractTermsCsv } from "./terms";
+import { CONTRACT_TERM_LABELS, MULTI_VALUED_TERM_TYPES } from "@shared/terms";
+import { runAnalysisJob, type AnalyzeContractPayload } from "./analysis";
+import { renderConversationMarkdown, renderConversationPdf } from "./conversations";
+import { conversationTitle, displayConversationTitle } from "@shared/conversations";
+import { v4 as uuidv4 } from "uuid";
 
-// Utility function to hash password
-async function hashPassword(password: string): Promise<string> {
-  const salt = await bcrypt.genSalt(10);
-  return await bcrypt.hash(password, salt);
+// The first template slot that uses a library clause the user does not own
+async function findForeignSavedClause(slots: TemplateSlot[], userId: number) {
+  for (const slot of slots) {
+    if (slot.savedClauseId === undefined) continue;
+    const clause = await storage.getSavedClause(slot.savedClauseId);
+    if (!clause || clause.userId !== userId) return slot;
+  }
+  return undefined;
 }
 
-// Utility function to verify password
-async function verifyPassword(password: string, hashedPassword: string): Promise<boolean> {
-  return await bcrypt.compare(password, hashedPassword);
+// Playbook to re-analyse a contract with after an edit: the one of its last
+// analysis while it is still available, else the default
+async function reanalysisPlaybook(analysis: Analysis | undefined, userId: number) {
+  const playbookVersion = analysis?.playbookVersionId
+    ? await storage.getPlaybookVersionById(analysis.playbookVersionId)
+    : undefined;
+  return (playbookVersion && await loadPlaybookVersion(playbookVersion.playbookId, userId))
+    ?? loadPlaybookVersion(undefined, userId);
 }
 
-// Mock OpenAI API integration for contract analysis
-async function analyzeContract(text: string, contractType: string): Promise<any> {
-  // In a real implementation, this would call OpenAI API
-  // For now, return mock data based on input
-  
-  // Check if text contains any concerning keywords
-  const hasHighRisk = text.toLowerCase().includes('termination') || text.toLowerCase().includes('compete');
-  const hasMediumRisk = text.toLowerCase().includes('payment') || text.toLowerCase().includes('liability');
-  
-  let riskScore = 'low';
-  if (hasHighRisk) riskScore = 'high';
-  else if (hasMediumRisk) riskScore = 'medium';
-  
-  const summary = [
-    "Contract duration is 12 months with automatic renewal unless terminated with 30 days notice",
-    "Payment terms require invoice payment within 30 days",
-    "Broadly worded indemnification clause places significant burden on your company",
-    "Non-compete clause is excessively broad and may not be enforceable in all jurisdictions",
-    "Confidentiality provisions expire 3 years after termination",
-    "Intellectual property ownership assigns all work product to client without limitation"
-  ];
-  
-  const riskyClauseIndices = hasHighRisk ? [0, 3] : hasMediumRisk ? [1] : [];
-  
-  const fullAnalysis = {
-    riskLevel: riskScore,
-    riskReason: "This contract has some concerning clauses that place undue burden on one party",
-    suggestions: "Consider negotiating the indemnification and non-compete clauses"
-  };
-  
-  return {
-    summary,
-    riskyClauseIndices,
-    fullAnalysis,
-    riskScore
-  };
+// Forward Q&A answer tokens to the asking user's sockets when the client sent a stream id
+function streamTokens(userId: number, streamId: unknown) {
+  if (typeof streamId !== 'string' || !streamId) return undefined;
+  return (token: string) => publish(userId, { type: 'qa.token', streamId, token });
 }
 
-// Mock function to generate a clause based on parameters
-async function generateClause(clauseType: string, tone: string, details: string): Promise<string> {
-  // In a real implementation, this would call OpenAI API
-  // For now, return a template based on clause type and tone
-  let template = '';
-  
-  if (clauseType === 'nda' || clauseType === 'confidentiality') {
-    template = `11.1 Confidential Information. Each party acknowledges that it may be furnished with or may otherwise receive or have access to information or material that relates to past, present, or future products, software, research, development, inventions, processes, techniques, designs, or technical information and data, and marketing plans (hereinafter the "Confidential Information"). Each party agrees to preserve and protect the confidentiality of the Confidential Information.
+// The user's contracts a portfolio conversation covers. Selected contracts
+// deleted since are left out, and tags match case-insensitively.
+async function portfolioContracts(userId: number, scope: PortfolioScope): Promise<Contract[]> {
+  const contracts = await storage.getContractsByUserId(userId);
+  switch (scope.type) {
+    case PortfolioScopeType.ALL:
+      return contracts;
+    case PortfolioScopeType.TAG:
+      return contracts.filter((contract) => contract.tags.some((tag) => tag.toLowerCase() === scope.tag.toLowerCase()));
+    case PortfolioScopeType.SELECTION:
+      return contracts.filter((contract) => scope.contractIds.includes(contract.id));
+  }
+}
 
-11.2 Non-Disclosure. Each party agrees that it will not disclose to any third party or use any Confidential Information disclosed to it by the other party except as expressly permitted in this Agreement, and will take reasonable measures to maintain the confidentiality of such information, which measures shall not be less than the degree of care employed by the recipient to preserve and safeguard its own confidential information, but in no event less than a reasonable degree of care.
+// Answer the next question of a conversation: about its contract, across its
+// portfolio, or about the ad-hoc document it was started with
+async function answerConversationQuestion(conversation: Conversation, question: string, options: AnswerOptions) {
+  if (conversation.document) return answerDocumentQuestion(conversation.document, question, options);
+  return conversation.scope
+    ? answerPortfolioQuestion(await portfolioContracts(conversation.userId, conversation.scope), question, options)
+    : answerContractQuestion(conversation.contractId!, question, options);
+}
 
-11.3 Term of Obligation. The obligations of the parties under this Section shall continue in full force and effect for a period of three (3) years from the date of termination or expiration of this Agreement.`;
-  } else if (clauseType === 'termination') {
-    template = `8.1 Termination for Convenience. Either party may terminate this Agreement for any reason upon thirty (30) days' prior written notice to the other party.
+// A conversation without a title takes it from its first question
+function untitledUpdate(conversation: Conversation, question: string) {
+  return conversation.title ? {} : { title: conversationTitle(question) };
+}
 
-8.2 Termination for Cause. Either party may terminate this Agreement immediately upon written notice to the other party if the other party materially breaches this Agreement and fails to cure such breach within fifteen (15) business days after receiving written notice thereof.
+// Query of the version diff route; versions default to the current one and its predecessor
+const versionDiffQuerySchema = z.object({
+  from: z.coerce.number().int().positive().optional(),
+  to: z.coerce.number().int().positive().optional(),
+  granularity: z.enum([DiffGranularity.WORD, DiffGranularity.SENTENCE]).default(DiffGranularity.WORD),
+});
 
-8.3 Effect of Termination. Upon termination of this Agreement for any reason, each party shall promptly return to the other party all property belonging to the other party, including without limitation all Confidential Information.`;
-  } else if (clauseType === 'payment') {
-    template = `5.1 Fees. Client shall pay the fees set forth in the applicable Statement of Work. All fees are exclusive of taxes, which Client shall pay as applicable.
+// Query of the contract comparison route: our own paper (base) and the one checked against it
+const compareQuerySchema = z.object({
+  base: z.coerce.number().int().positive(),
+  other: z.coerce.number().int().positive(),
+});
 
-5.2 Payment Terms. Client shall pay all invoices within thirty (30) days of receipt. Late payments shall accrue interest at a rate of 1.5% per month or the highest rate allowed by applicable law, whichever is lower, from the date such payment was due until the date paid.
+// Filters of the key term report across a user's contracts
+const contractTermQuerySchema = z.object({
+  type: z.enum(Object.values(ContractTermType) as [ContractTermTypeType, ...ContractTermTypeType[]]).optional(),
+  contractId: z.coerce.number().int().positive().optional(),
+  q: z.string().trim().optional(),
+  format: z.enum(['json', 'csv']).default('json'),
+});
 
-5.3 Disputes. Client shall notify Contractor in writing of any disputed charges within fifteen (15) days of the invoice date, or such charges shall be deemed accepted by Client.`;
-  } else {
-    template = `This is a template for the ${clauseType} clause type with a ${tone} tone.
+// Search text and filters of the clause library
+const savedClauseQuerySchema = z.object({
+  q: z.string().trim().optional(),
+  folder: z.string().trim().optional(),
+  tag: z.string().trim().optional(),
+  jurisdiction: z.string().trim().optional(),
+  clauseType: z.string().trim().optional(),
+  tone: z.string().trim().optional(),
+});
 
-The clause would typically include specific legal language relevant to this type of provision, with appropriate binding terms and conditions that protect the party's interests.
+// The fields of an edit that actually differ from the stored clause
+function savedClauseChanges(clause: SavedClause, update: Partial<SavedClauseContent>): Partial<SavedClauseContent> {
+  return Object.fromEntries(
+    Object.entries(update).filter(([field, value]) =>
+      JSON.stringify(value) !== JSON.stringify(clause[field as keyof SavedClauseContent])
+    )
+  );
+}
 
-Additional details from your input would be incorporated here: ${details || "No additional details provided."}`;
-  }
-  
-  // Adjust tone if needed
-  if (tone === 'friendly') {
-    template = template.replace(/shall/g, 'will').replace(/hereinafter/g, 'below');
-  } else if (tone === 'aggressive') {
-    template = template.replace(/may/g, 'shall').replace(/reasonable/g, 'strict');
-  }
-  
-  return template;
+// Maximum accepted upload size, mirrored by the client's FileUpload component
+const MAX_UPLOAD_SIZE = 10 * 1024 * 1024;
+
+// Uploaded files are kept in memory just long enough to extract and store them
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_SIZE },
+});
+
+// Accept a single multipart "file" field, turning multer errors into JSON responses
+function receiveFile(req: Request, res: Response, next: NextFunction) {
+  upload.single('file')(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE') {
+      return res.status(413).json({ message: 'File exceeds the 10MB upload limit', code: 'file_too_large' });
+    }
+    if (err) {
+      return res.status(400).json({ message: 'Invalid upload' });
+    }
+    next();
+  });
 }
 
-// Mock function to answer questions about a contract
-async function answerContractQuestion(contractId: number, question: string): Promise<string> {
-  // In a real implementation, this would retrieve the contract text and call OpenAI API
-  // For now, return predefined answers based on the question
-  
-  if (question.toLowerCase().includes('terminate') || question.toLowerCase().includes('termination')) {
-    return "Yes, this contract can be terminated early in several ways. According to Section 8.1, either party may terminate with 30 days written notice. Additionally, Section 8.2 allows for immediate termination if there's a material breach that remains uncured for 15 business days after written notification.";
-  } else if (question.toLowerCase().includes('confidential') || question.toLowerCase().includes('confidentiality')) {
-    return "According to Section 11.3 of the contract, the confidentiality obligations survive for 3 years after termination. During this period, both parties must continue to protect confidential information as defined in the agreement. Upon request, each party must either return or destroy all confidential information in their possession.";
-  } else if (question.toLowerCase().includes('payment') || question.toLowerCase().includes('invoice')) {
-    return "The payment terms are outlined in Section 5. Client must pay all invoices within 30 days of receipt. Late payments accrue interest at a rate of 1.5% per month. Any disputed charges must be raised within 15 days of the invoice date.";
-  } else if (question.toLowerCase().includes('liability') || question.toLowerCase().includes('damages')) {
-    return "The contract limits liability in Section 9. Neither party is liable for indirect, consequential, or punitive damages. Each party's total liability is capped at the amount paid under the agreement in the 12 months preceding the claim. These limitations don't apply to breaches of confidentiality or intellectual property provisions.";
-  } else {
-    return "I'd need to analyze that specific aspect of the contract more carefully. The contract does contain various provisions covering termination, confidentiality, payment terms, intellectual property, and liability. Could you specify which section or topic you're most interested in?";
-  }
+// Store an uploaded file as a new contract with its clauses, keeping the
+// original binary so it can be downloaded later
+async function storeUploadedContract(
+  userId: number,
+  file: Express.Multer.File,
+  extraction: ExtractionResult,
+  details: { name?: string; contractType?: string },
+): Promise<Contract> {
+  const contractData = insertContractSchema.parse({
+    userId,
+    name: details.name || file.originalname.replace(/\.[^.]+$/, ''),
+    fileType: extraction.fileType,
+    originalText: extraction.text,
+    contractType: details.contractType || ''
+  });
+  const contract = await storage.createContract(contractData);
+  await storage.replaceClauses(contract.id, toInsertClauses(contract.id, segmentContract(contract.originalText)));
+  await storage.createContractFile({
+    contractId: contract.id,
+    fileName: file.originalname,
+    mimeType: file.mimetype,
+    size: file.size,
+    data: file.buffer,
+    structure: extraction.structure
+  });
+  publish(userId, { type: 'contracts.changed', contractId: contract.id });
+  return contract;
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
 
+  const sessionParser = setupAuth(app);
+  setupRealtime(httpServer, sessionParser);
+  registerJobHandler(JobType.ANALYZE_CONTRACT, runAnalysisJob);
+
   // Auth routes
   app.post('/api/auth/register', async (req: Request, res: Response) => {
     try {
@@ -145,10 +271,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         password: hashedPassword
       });
       
-      // Don't return the password in the response
-      const { password, ...userWithoutPassword } = user;
-      
-      return res.status(201).json({ user: userWithoutPassword });
+      // Start a session for the new user
+      req.login(user, (err) => {
+        if (err) {
+          return res.status(500).json({ message: 'Server error' });
+        }
+        return res.status(201).json({ user: sanitizeUser(user) });
+      });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: 'Invalid input', errors: error.errors });
@@ -157,38 +286,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/auth/login', async (req: Request, res: Response) => {
-    try {
-      const { email, password } = req.body;
-      
-      // Validate input
-      if (!email || !password) {
-        return res.status(400).json({ message: 'Email and password are required' });
+  app.post('/api/auth/login', (req: Request, res: Response) => {
+    const { email, password } = req.body;
+    
+    // Validate input
+    if (!email || !password) {
+      return res.status(400).json({ message: 'Email and password are required' });
+    }
+    
+    passport.authenticate('local', (err: unknown, user: User | false) => {
+      if (err) {
+        return res.status(500).json({ message: 'Server error' });
       }
-      
-      // Find user
-      const user = await storage.getUserByEmail(email);
       if (!user) {
         return res.status(401).json({ message: 'Invalid credentials' });
       }
       
-      // Verify password
-      const isPasswordValid = await verifyPassword(password, user.password);
-      if (!isPasswordValid) {
-        return res.status(401).json({ message: 'Invalid credentials' });
+      req.login(user, (loginErr) => {
+        if (loginErr) {
+          return res.status(500).json({ message: 'Server error' });
+        }
+        return res.status(200).json({ user: sanitizeUser(user) });
+      });
+    })(req, res);
+  });
+
+  app.post('/api/auth/logout', (req: Request, res: Response) => {
+    req.logout((err) => {
+      if (err) {
+        return res.status(500).json({ message: 'Server error' });
       }
-      
-      // Don't return the password in the response
-      const { password: _, ...userWithoutPassword } = user;
-      
-      return res.status(200).json({ user: userWithoutPassword });
-    } catch (error) {
-      return res.status(500).json({ message: 'Server error' });
-    }
+      req.session.destroy(() => {
+        res.clearCookie('connect.sid');
+        return res.status(200).json({ message: 'Logged out successfully' });
+      });
+    });
+  });
+
+  app.get('/api/auth/me', requireAuth, (req: Request, res: Response) => {
+    return res.status(200).json({ user: sanitizeUser(req.user!) });
   });
 
   // User routes
-  app.get('/api/user/:id', async (req: Request, res: Response) => {
+  app.get('/api/user/:id', requireSelf('id'), async (req: Request, res: Response) => {
     try {
       const userId = parseInt(req.params.id);
       const user = await storage.getUser(userId);
@@ -198,23 +338,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Don't return the password in the response
-      const { password, ...userWithoutPassword } = user;
-      
-      return res.status(200).json(userWithoutPassword);
+      return res.status(200).json(sanitizeUser(user));
     } catch (error) {
       return res.status(500).json({ message: 'Server error' });
     }
   });
 
-  app.patch('/api/user/:id', async (req: Request, res: Response) => {
+  app.patch('/api/user/:id', requireSelf('id'), async (req: Request, res: Response) => {
     try {
       const userId = parseInt(req.params.id);
-      const userData = req.body;
       
-      // Don't allow updating password through this endpoint
-      if (userData.password) {
-        delete userData.password;
-      }
+      // Only profile fields; credentials, identity and plan can't be changed here
+      const userData = updateUserSchema.parse(req.body);
       
       const updatedUser = await storage.updateUser(userId, userData);
       
@@ -223,16 +358,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Don't return the password in the response
-      const { password, ...userWithoutPassword } = updatedUser;
-      
-      return res.status(200).json(userWithoutPassword);
+      return res.status(200).json(sanitizeUser(updatedUser));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      }
       return res.status(500).json({ message: 'Server error' });
     }
   });
 
   // Contract routes
-  app.get('/api/contracts/user/:userId', async (req: Request, res: Response) => {
+  app.get('/api/contracts/user/:userId', requireSelf('userId'), async (req: Request, res: Response) => {
     try {
       const userId = parseInt(req.params.userId);
       const contracts = await storage.getContractsByUserId(userId);
@@ -243,7 +379,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/contract/:id', async (req: Request, res: Response) => {
+  app.get('/api/contract/:id', requireContractOwner('id'), async (req: Request, res: Response) => {
     try {
       const contractId = parseInt(req.params.id);
       const contract = await storage.getContract(contractId);
@@ -258,10 +394,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/contract', async (req: Request, res: Response) => {
+  app.post('/api/contract', requireAuth, async (req: Request, res: Response) => {
     try {
-      const contractData = insertContractSchema.parse(req.body);
+      const contractData = insertContractSchema.parse({ ...req.body, userId: req.user!.id });
       const contract = await storage.createContract(contractData);
+      await storage.replaceClauses(contract.id, toInsertClauses(contract.id, segmentContract(contract.originalText)));
+      publish(contract.userId, { type: 'contracts.changed', contractId: contract.id });
       
       return res.status(201).json(contract);
     } catch (error) {
@@ -272,132 +410,237 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/contract/:id', async (req: Request, res: Response) => {
+  app.post('/api/contracts/upload', requireAuth, receiveFile, async (req: Request, res: Response) => {
     try {
-      const contractId = parseInt(req.params.id);
-      const success = await storage.deleteContract(contractId);
+      const file = req.file;
       
-      if (!success) {
-        return res.status(404).json({ message: 'Contract not found' });
+      if (!file) {
+        return res.status(400).json({ message: 'A contract file is required' });
       }
       
-      return res.status(200).json({ message: 'Contract deleted successfully' });
+      // Extract the text on the server so page and paragraph boundaries survive
+      const extraction = await extractDocumentText(file.buffer, file.originalname, file.mimetype);
+      const contract = await storeUploadedContract(req.user!.id, file, extraction, req.body);
+      
+      return res.status(201).json({ contract, structure: extraction.structure });
     } catch (error) {
+      if (error instanceof ExtractionError) {
+        return res.status(422).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      }
       return res.status(500).json({ message: 'Server error' });
     }
   });
 
-  // Analysis routes
-  app.get('/api/analysis/contract/:contractId', async (req: Request, res: Response) => {
+  app.patch('/api/contract/:id', requireContractOwner('id'), async (req: Request, res: Response) => {
     try {
-      const contractId = parseInt(req.params.contractId);
-      const analysis = await storage.getAnalysisByContractId(contractId);
+      const contractId = parseInt(req.params.id);
+      const contractData = updateContractSchema.parse(req.body);
+      const existing = await storage.getContract(contractId);
       
-      if (!analysis) {
-        return res.status(404).json({ message: 'Analysis not found' });
+      if (!existing) {
+        return res.status(404).json({ message: 'Contract not found' });
       }
       
-      return res.status(200).json(analysis);
+      // Edited text is recorded as a new version, which also clears the previous
+      // score; the clause tree is rebuilt from it
+      const { originalText, ...details } = contractData;
+      if (originalText !== undefined && originalText !== existing.originalText) {
+        await ensureContractVersions(existing);
+        await storage.addContractVersion(contractId, {
+          originalText,
+          fileType: existing.fileType,
+          note: 'Edited text',
+          createdBy: req.user!.id
+        });
+        await storage.replaceClauses(contractId, toInsertClauses(contractId, segmentContract(originalText)));
+      }
+      const contract = Object.keys(details).length > 0
+        ? await storage.updateContract(contractId, details)
+        : await storage.getContract(contractId);
+      publish(existing.userId, { type: 'contracts.changed', contractId });
+      
+      return res.status(200).json(contract);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      }
       return res.status(500).json({ message: 'Server error' });
     }
   });
 
-  app.post('/api/analyze-contract', async (req: Request, res: Response) => {
+  app.get('/api/contract/:id/file', requireContractOwner('id'), async (req: Request, res: Response) => {
     try {
-      const { contractId, text, contractType } = req.body;
+      const contractId = parseInt(req.params.id);
+      const file = await storage.getContractFileByContractId(contractId);
       
-      if (!contractId || !text) {
-        return res.status(400).json({ message: 'Contract ID and text are required' });
+      if (!file) {
+        return res.status(404).json({ message: 'Original file not found' });
       }
       
-      // Get the contract
-      const contract = await storage.getContract(parseInt(contractId));
+      res.attachment(file.fileName);
+      res.type(file.mimeType);
+      return res.status(200).send(file.data);
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // The contract's current text as a Word or PDF document
+  app.get('/api/contract/:id/document.:format(docx|pdf)', requireContractOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const contract = await storage.getContract(parseInt(req.params.id));
       if (!contract) {
         return res.status(404).json({ message: 'Contract not found' });
       }
       
-      // Analyze the contract text (mock implementation)
-      const analysisResult = await analyzeContract(text, contractType || '');
+      const input = { contract, clauses: await ensureContractClauses(contract) };
+      const fileName = contract.name.replace(/[^\w\- ]+/g, '').trim() || 'contract';
+      if (req.params.format === 'pdf') {
+        res.attachment(`${fileName}.pdf`);
+        res.type('application/pdf');
+        return res.status(200).send(await renderContractPdf(input));
+      }
+      res.attachment(`${fileName}.docx`);
+      res.type('application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+      return res.status(200).send(await renderContractDocx(input));
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Negotiation rounds: every text the contract has had, newest first
+  app.get('/api/contract/:id/versions', requireContractOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const contract = await storage.getContract(parseInt(req.params.id));
+      if (!contract) {
+        return res.status(404).json({ message: 'Contract not found' });
+      }
       
-      // Create analysis record
-      const analysis = await storage.createAnalysis({
-        contractId: parseInt(contractId),
-        summary: analysisResult.summary,
-        riskyClauseIndices: analysisResult.riskyClauseIndices,
-        fullAnalysis: analysisResult.fullAnalysis
-      });
+      return res.status(200).json(await ensureContractVersions(contract));
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.get('/api/contract/:id/versions/:version', requireContractOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const contract = await storage.getContract(parseInt(req.params.id));
+      if (!contract) {
+        return res.status(404).json({ message: 'Contract not found' });
+      }
       
-      // Update contract risk score
-      await storage.updateUser(contract.id, { riskScore: analysisResult.riskScore });
-      
-      // Generate risky clauses if needed
-      if (analysisResult.riskyClauseIndices.length > 0) {
-        // Mock risky clauses for simplicity
-        const mockRiskyClauses = [
-          {
-            clauseIndex: 0,
-            clauseText: "Contractor agrees not to engage in any business activity competitive with Client's business for a period of five (5) years in any geographic location where Client conducts business.",
-            riskLevel: 'high',
-            explanation: "This non-compete clause is overly broad in both duration and geographic scope, making it potentially unenforceable in many jurisdictions.",
-            suggestion: "Contractor agrees not to engage in substantially similar business activity competitive with Client's core business for a period of one (1) year limited to regions where Contractor directly provided services to Client."
-          },
-          {
-            clauseIndex: 3,
-            clauseText: "Contractor shall indemnify, defend, and hold harmless Client from any and all claims, damages, liabilities, costs, and expenses, including reasonable attorneys' fees arising from or relating to Contractor's services.",
-            riskLevel: 'medium',
-            explanation: "This indemnification clause is broad and doesn't limit the contractor's liability to third-party claims or direct damages.",
-            suggestion: "Contractor shall indemnify, defend, and hold harmless Client from any third-party claims, damages, liabilities, costs, and expenses, including reasonable attorneys' fees arising directly from Contractor's gross negligence or willful misconduct in performing the services."
-          }
-        ];
-        
-        // Create risky clause records
-        for (const clauseInfo of mockRiskyClauses) {
-          if (analysisResult.riskyClauseIndices.includes(clauseInfo.clauseIndex)) {
-            await storage.createRiskyClause({
-              analysisId: analysis.id,
-              ...clauseInfo
-            });
-          }
-        }
+      await ensureContractVersions(contract);
+      const version = await storage.getContractVersion(contract.id, parseInt(req.params.version));
+      if (!version) {
+        return res.status(404).json({ message: 'Version not found' });
       }
       
-      return res.status(200).json(analysis);
+      return res.status(200).json(version);
     } catch (error) {
       return res.status(500).json({ message: 'Server error' });
     }
   });
 
-  // Risky Clause routes
-  app.get('/api/risky-clauses/analysis/:analysisId', async (req: Request, res: Response) => {
+  // Upload the next draft of an existing contract; it becomes the current text
+  app.post('/api/contract/:id/versions', requireContractOwner('id'), receiveFile, async (req: Request, res: Response) => {
     try {
-      const analysisId = parseInt(req.params.analysisId);
-      const riskyClauses = await storage.getRiskyClausesByAnalysisId(analysisId);
+      const file = req.file;
       
-      return res.status(200).json(riskyClauses);
+      if (!file) {
+        return res.status(400).json({ message: 'A contract file is required' });
+      }
+      
+      const existing = await storage.getContract(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: 'Contract not found' });
+      }
+      
+      const extraction = await extractDocumentText(file.buffer, file.originalname, file.mimetype);
+      
+      await ensureContractVersions(existing);
+      const version = await storage.addContractVersion(existing.id, {
+        originalText: extraction.text,
+        fileType: extraction.fileType,
+        fileName: file.originalname,
+        note: typeof req.body.note === 'string' && req.body.note.trim() ? req.body.note.trim() : null,
+        createdBy: req.user!.id
+      });
+      await storage.replaceClauses(existing.id, toInsertClauses(existing.id, segmentContract(version.originalText)));
+      await storage.createContractFile({
+        contractId: existing.id,
+        fileName: file.originalname,
+        mimeType: file.mimetype,
+        size: file.size,
+        data: file.buffer,
+        structure: extraction.structure,
+        version: version.version
+      });
+      publish(existing.userId, { type: 'contracts.changed', contractId: existing.id });
+      
+      const contract = await storage.getContract(existing.id);
+      return res.status(201).json({ contract, version, structure: extraction.structure });
     } catch (error) {
+      if (error instanceof ExtractionError) {
+        return res.status(422).json({ message: error.message, code: error.code });
+      }
       return res.status(500).json({ message: 'Server error' });
     }
   });
 
-  // Saved Clause routes
-  app.get('/api/saved-clauses/user/:userId', async (req: Request, res: Response) => {
+  // Text changes between two versions (by default the current one and the one
+  // before it), with the findings their analyses added, resolved or changed
+  app.get('/api/contract/:id/diff', requireContractOwner('id'), async (req: Request, res: Response) => {
     try {
-      const userId = parseInt(req.params.userId);
-      const savedClauses = await storage.getSavedClausesByUserId(userId);
+      const query = versionDiffQuerySchema.parse(req.query);
+      const contract = await storage.getContract(parseInt(req.params.id));
+      if (!contract) {
+        return res.status(404).json({ message: 'Contract not found' });
+      }
       
-      return res.status(200).json(savedClauses);
+      await ensureContractVersions(contract);
+      const toVersion = query.to ?? contract.currentVersion;
+      const fromVersion = query.from ?? toVersion - 1;
+      const [from, to] = await Promise.all([
+        storage.getContractVersion(contract.id, fromVersion),
+        storage.getContractVersion(contract.id, toVersion)
+      ]);
+      if (!from || !to) {
+        return res.status(404).json({ message: 'Version not found' });
+      }
+      
+      return res.status(200).json(await diffContractVersions(from, to, query.granularity));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      }
       return res.status(500).json({ message: 'Server error' });
     }
   });
 
-  app.post('/api/saved-clause', async (req: Request, res: Response) => {
+  // Align the clauses of two of the user's contracts by topic and report the
+  // matching, materially different, missing and extra ones
+  app.get('/api/compare', requireAuth, async (req: Request, res: Response) => {
     try {
-      const clauseData = insertSavedClauseSchema.parse(req.body);
-      const savedClause = await storage.createSavedClause(clauseData);
+      const query = compareQuerySchema.parse(req.query);
+      const [base, other] = await Promise.all([
+        storage.getContract(query.base),
+        storage.getContract(query.other)
+      ]);
+      if (!base || !other) {
+        return res.status(404).json({ message: 'Contract not found' });
+      }
+      if (base.userId !== req.user!.id || other.userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
       
-      return res.status(201).json(savedClause);
+      const [baseClauses, otherClauses] = await Promise.all([
+        ensureContractClauses(base),
+        ensureContractClauses(other)
+      ]);
+      return res.status(200).json(compareContracts(base, baseClauses, other, otherClauses));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: 'Invalid input', errors: error.errors });
@@ -406,137 +649,1291 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/saved-clause/:id', async (req: Request, res: Response) => {
+  app.get('/api/contract/:id/clauses', requireContractOwner('id'), async (req: Request, res: Response) => {
     try {
-      const clauseId = parseInt(req.params.id);
-      const success = await storage.deleteSavedClause(clauseId);
+      const contractId = parseInt(req.params.id);
+      const contract = await storage.getContract(contractId);
       
-      if (!success) {
-        return res.status(404).json({ message: 'Saved clause not found' });
+      if (!contract) {
+        return res.status(404).json({ message: 'Contract not found' });
       }
       
-      return res.status(200).json({ message: 'Saved clause deleted successfully' });
+      const clauses = await ensureContractClauses(contract);
+      
+      // ?format=tree nests sub-clauses under their parents; the default is a flat list in document order
+      if (req.query.format === 'tree') {
+        return res.status(200).json(buildClauseTree(clauses));
+      }
+      return res.status(200).json(clauses);
     } catch (error) {
       return res.status(500).json({ message: 'Server error' });
     }
   });
 
-  // Clause Generator route
-  app.post('/api/generate-clause', async (req: Request, res: Response) => {
+  // Insert a clause after a section, in place of one, or at the end. The edit
+  // becomes a new version, and only the changed region is analysed again.
+  app.post('/api/contract/:id/clauses', requireContractOwner('id'), async (req: Request, res: Response) => {
     try {
-      const { clauseType, tone, details } = req.body;
+      const input = addContractClauseSchema.parse(req.body);
+      const existing = await storage.getContract(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: 'Contract not found' });
+      }
       
-      if (!clauseType || !tone) {
-        return res.status(400).json({ message: 'Clause type and tone are required' });
+      // Re-analysis uses the requested playbook, else that of the last analysis
+      const playbook = input.playbookId
+        ? await loadPlaybookVersion(input.playbookId, req.user!.id)
+        : await reanalysisPlaybook(await storage.getAnalysisByContractId(existing.id), req.user!.id);
+      if (!playbook) {
+        return res.status(404).json({ message: 'Playbook not found' });
       }
       
-      // Generate clause (mock implementation)
-      const generatedClause = await generateClause(clauseType, tone, details || '');
+      const clauses = await ensureContractClauses(existing);
+      const { text, insertion } = insertClause(existing.originalText, clauses, input);
       
-      return res.status(200).json({ 
-        clause: generatedClause,
-        legalContext: "This clause establishes standard protections with reasonable terms that courts typically uphold. It provides clear guidance on handling proprietary information and is balanced between parties."
+      await ensureContractVersions(existing);
+      const version = await storage.addContractVersion(existing.id, {
+        originalText: text,
+        fileType: existing.fileType,
+        note: insertion.number ? `Inserted clause ${insertion.number}` : 'Inserted clause',
+        createdBy: req.user!.id
       });
+      await storage.replaceClauses(existing.id, toInsertClauses(existing.id, segmentContract(version.originalText)));
+      publish(existing.userId, { type: 'contracts.changed', contractId: existing.id });
+      
+      const payload: AnalyzeContractPayload = {
+        contractId: existing.id,
+        contractType: existing.contractType || '',
+        playbookId: playbook.playbook.id,
+        changedRange: { startOffset: insertion.startOffset, endOffset: insertion.endOffset }
+      };
+      const job = await enqueueJob({
+        type: JobType.ANALYZE_CONTRACT,
+        userId: req.user!.id,
+        contractId: existing.id,
+        payload
+      });
+      
+      const contract = await storage.getContract(existing.id);
+      return res.status(201).json({ contract, version, insertion, job });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      }
+      if (error instanceof ClauseInsertionError) {
+        return res.status(400).json({ message: error.message });
+      }
       return res.status(500).json({ message: 'Server error' });
     }
   });
 
-  // Conversation routes
-  app.get('/api/conversations/contract/:contractId', async (req: Request, res: Response) => {
+  app.delete('/api/contract/:id', requireContractOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const contractId = parseInt(req.params.id);
+      const success = await storage.deleteContract(contractId);
+      
+      if (!success) {
+        return res.status(404).json({ message: 'Contract not found' });
+      }
+      publish(req.user!.id, { type: 'contracts.changed', contractId });
+      
+      return res.status(200).json({ message: 'Contract deleted successfully' });
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Analysis routes
+  app.get('/api/analysis/contract/:contractId', requireContractOwner('contractId'), async (req: Request, res: Response) => {
     try {
       const contractId = parseInt(req.params.contractId);
-      const conversations = await storage.getConversationsByContractId(contractId);
+      const analysis = await storage.getAnalysisByContractId(contractId);
+      
+      if (!analysis) {
+        return res.status(404).json({ message: 'Analysis not found' });
+      }
       
-      return res.status(200).json(conversations);
+      return res.status(200).json(analysis);
     } catch (error) {
       return res.status(500).json({ message: 'Server error' });
     }
   });
 
-  app.post('/api/conversation', async (req: Request, res: Response) => {
+  app.get('/api/analysis/contract/:contractId/history', requireContractOwner('contractId'), async (req: Request, res: Response) => {
     try {
-      const conversationData = insertConversationSchema.parse(req.body);
-      const conversation = await storage.createConversation(conversationData);
+      const contractId = parseInt(req.params.contractId);
+      const analyses = await storage.getAnalysesByContractId(contractId);
       
-      return res.status(201).json(conversation);
+      return res.status(200).json(analyses);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: 'Invalid input', errors: error.errors });
-      }
       return res.status(500).json({ message: 'Server error' });
     }
   });
 
-  app.post('/api/conversation/:id/message', async (req: Request, res: Response) => {
+  app.get('/api/analysis/:id', requireAnalysisOwner('id'), async (req: Request, res: Response) => {
     try {
-      const { question } = req.body;
-      const conversationId = parseInt(req.params.id);
+      const analysis = await storage.getAnalysis(parseInt(req.params.id));
       
-      if (!question) {
-        return res.status(400).json({ message: 'Question is required' });
+      if (!analysis) {
+        return res.status(404).json({ message: 'Analysis not found' });
       }
       
-      // Get the conversation
-      const conversation = await storage.getConversation(conversationId);
-      if (!conversation) {
-        return res.status(404).json({ message: 'Conversation not found' });
+      return res.status(200).json(analysis);
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Branded PDF of an analysis run, rendered on demand
+  app.get('/api/analysis/:id/report.pdf', requireAnalysisOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const analysis = await storage.getAnalysis(parseInt(req.params.id));
+      if (!analysis) {
+        return res.status(404).json({ message: 'Analysis not found' });
       }
       
-      // Add the user's question to messages
-      const updatedMessages = [...conversation.messages];
-      const userMessage: Message = {
-        id: Math.random().toString(36).substr(2, 9),
-        role: 'user',
-        content: question,
-        timestamp: new Date().toISOString()
-      };
-      updatedMessages.push(userMessage);
-      
-      // Generate AI response (mock implementation)
-      const answer = await answerContractQuestion(conversation.contractId, question);
-      
-      // Add AI response to messages
-      const aiMessage: Message = {
-        id: Math.random().toString(36).substr(2, 9),
-        role: 'assistant',
-        content: answer,
-        timestamp: new Date().toISOString()
-      };
-      updatedMessages.push(aiMessage);
+      const contract = await storage.getContract(analysis.contractId);
+      if (!contract) {
+        return res.status(404).json({ message: 'Contract not found' });
+      }
       
-      // Update conversation with new messages
-      const updatedConversation = await storage.updateConversation(conversationId, updatedMessages);
+      const pdf = await renderAnalysisReport({
+        contract,
+        analysis,
+        riskyClauses: await storage.getRiskyClausesByAnalysisId(analysis.id),
+        clauses: await ensureContractClauses(contract)
+      });
       
-      return res.status(200).json(updatedConversation);
+      res.attachment(`${contract.name.replace(/[^\w\- ]+/g, '').trim() || 'contract'} - risk report.pdf`);
+      res.type('application/pdf');
+      return res.status(200).send(pdf);
     } catch (error) {
       return res.status(500).json({ message: 'Server error' });
     }
   });
 
-  // Q&A route - Direct question without saving conversation
-  app.post('/api/contract-qa', async (req: Request, res: Response) => {
+  // The contract text with the analysis's accepted and edited suggestions applied
+  app.get('/api/analysis/:id/revised-text', requireAnalysisOwner('id'), async (req: Request, res: Response) => {
     try {
-      const { contractId, question } = req.body;
-      
-      if (!contractId || !question) {
-        return res.status(400).json({ message: 'Contract ID and question are required' });
+      const analysis = await storage.getAnalysis(parseInt(req.params.id));
+      if (!analysis) {
+        return res.status(404).json({ message: 'Analysis not found' });
       }
-      
-      // Get the contract
-      const contract = await storage.getContract(parseInt(contractId));
+
+      const contract = await storage.getContract(analysis.contractId);
       if (!contract) {
         return res.status(404).json({ message: 'Contract not found' });
       }
-      
-      // Generate answer (mock implementation)
-      const answer = await answerContractQuestion(parseInt(contractId), question);
-      
-      return res.status(200).json({ answer });
+
+      const riskyClauses = await storage.getRiskyClausesByAnalysisId(analysis.id);
+      return res.status(200).json(applyReviewedSuggestions(contract.originalText, riskyClauses));
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Word copy of the contract with accepted suggestions as tracked changes
+  app.get('/api/analysis/:id/redline.docx', requireAnalysisOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const analysis = await storage.getAnalysis(parseInt(req.params.id));
+      if (!analysis) {
+        return res.status(404).json({ message: 'Analysis not found' });
+      }
+
+      const contract = await storage.getContract(analysis.contractId);
+      if (!contract) {
+        return res.status(404).json({ message: 'Contract not found' });
+      }
+
+      const docx = await renderRedlineDocx({
+        contract,
+        riskyClauses: await storage.getRiskyClausesByAnalysisId(analysis.id),
+        author: req.user!
+      });
+
+      res.attachment(`${contract.name.replace(/[^\w\- ]+/g, '').trim() || 'contract'} - redline.docx`);
+      res.type('application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+      return res.status(200).send(docx);
     } catch (error) {
       return res.status(500).json({ message: 'Server error' });
     }
   });
 
+  // Analysis runs in the background; the client follows the returned job for progress
+  app.post('/api/analyze-contract', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { contractId, contractType, playbookId } = req.body;
+      
+      if (!contractId) {
+        return res.status(400).json({ message: 'Contract ID is required' });
+      }
+      
+      // Get the contract
+      const contract = await storage.getContract(parseInt(contractId));
+      if (!contract) {
+        return res.status(404).json({ message: 'Contract not found' });
+      }
+      if (contract.userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+      
+      // Check the playbook now so a bad id fails the request rather than the job
+      const playbook = await loadPlaybookVersion(playbookId ? parseInt(playbookId) : undefined, req.user!.id);
+      if (!playbook) {
+        return res.status(404).json({ message: 'Playbook not found' });
+      }
+      
+      const payload: AnalyzeContractPayload = {
+        contractId: contract.id,
+        contractType: contractType || '',
+        playbookId: playbook.playbook.id
+      };
+      const job = await enqueueJob({
+        type: JobType.ANALYZE_CONTRACT,
+        userId: req.user!.id,
+        contractId: contract.id,
+        payload
+      });
+      
+      return res.status(202).json(job);
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Job routes
+  app.get('/api/job/:id', requireJobOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const job = await storage.getJob(parseInt(req.params.id));
+      
+      if (!job) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+      
+      return res.status(200).json(job);
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.get('/api/jobs/contract/:contractId', requireContractOwner('contractId'), async (req: Request, res: Response) => {
+    try {
+      const jobs = await storage.getJobsByContractId(parseInt(req.params.contractId));
+      return res.status(200).json(jobs);
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Risky Clause routes
+  app.get('/api/risky-clauses/analysis/:analysisId', requireAnalysisOwner('analysisId'), async (req: Request, res: Response) => {
+    try {
+      const analysisId = parseInt(req.params.analysisId);
+      const riskyClauses = await storage.getRiskyClausesByAnalysisId(analysisId);
+      
+      return res.status(200).json(riskyClauses);
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Record a reviewer's decision on a risky clause's suggestion
+  app.patch('/api/risky-clause/:id/review', requireRiskyClauseOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const riskyClauseId = parseInt(req.params.id);
+      const { status, editedSuggestion } = reviewRiskyClauseSchema.parse(req.body);
+
+      const riskyClause = await storage.getRiskyClause(riskyClauseId);
+      if (!riskyClause) {
+        return res.status(404).json({ message: 'Risky clause not found' });
+      }
+      if (status === ReviewStatus.ACCEPTED && !riskyClause.suggestion) {
+        return res.status(400).json({ message: 'This clause has no suggestion to accept' });
+      }
+
+      const updatedClause = await storage.updateRiskyClauseReview(riskyClauseId, {
+        reviewStatus: status,
+        editedSuggestion: status === ReviewStatus.EDITED ? editedSuggestion! : null,
+        reviewedBy: req.user!.id,
+        reviewedAt: new Date()
+      });
+
+      return res.status(200).json(updatedClause);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      }
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Blank field routes
+  app.get('/api/blank-fields/analysis/:analysisId', requireAnalysisOwner('analysisId'), async (req: Request, res: Response) => {
+    try {
+      const blankFields = await storage.getBlankFieldsByAnalysisId(parseInt(req.params.analysisId));
+      
+      return res.status(200).json(blankFields);
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Fill in blank fields an analysis found. The filled text becomes a new
+  // version, and only the edited region is analysed again.
+  app.post('/api/analysis/:id/blank-fields/fill', requireAnalysisOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const { fills } = fillBlankFieldsSchema.parse(req.body);
+      const analysis = await storage.getAnalysis(parseInt(req.params.id));
+      if (!analysis) {
+        return res.status(404).json({ message: 'Analysis not found' });
+      }
+      
+      const existing = await storage.getContract(analysis.contractId);
+      if (!existing) {
+        return res.status(404).json({ message: 'Contract not found' });
+      }
+      if (analysis.contractVersion !== null && analysis.contractVersion !== existing.currentVersion) {
+        return res.status(409).json({ message: 'The contract has changed since this analysis. Analyze it again to fill in its blanks.' });
+      }
+      
+      const playbook = await reanalysisPlaybook(analysis, req.user!.id);
+      if (!playbook) {
+        return res.status(404).json({ message: 'Playbook not found' });
+      }
+      
+      const { text, changedRange } = fillBlankFields(
+        existing.originalText,
+        await storage.getBlankFieldsByAnalysisId(analysis.id),
+        fills
+      );
+      
+      await ensureContractVersions(existing);
+      const version = await storage.addContractVersion(existing.id, {
+        originalText: text,
+        fileType: existing.fileType,
+        note: fills.length === 1 ? 'Filled in 1 blank' : `Filled in ${fills.length} blanks`,
+        createdBy: req.user!.id
+      });
+      const filledAt = new Date();
+      const blankFields = await Promise.all(fills.map((fill) =>
+        storage.fillBlankField(fill.blankFieldId, { filledWith: fill.value, filledBy: req.user!.id, filledAt })
+      ));
+      await storage.replaceClauses(existing.id, toInsertClauses(existing.id, segmentContract(version.originalText)));
+      publish(existing.userId, { type: 'contracts.changed', contractId: existing.id });
+      
+      const payload: AnalyzeContractPayload = {
+        contractId: existing.id,
+        contractType: existing.contractType || '',
+        playbookId: playbook.playbook.id,
+        changedRange
+      };
+      const job = await enqueueJob({
+        type: JobType.ANALYZE_CONTRACT,
+        userId: req.user!.id,
+        contractId: existing.id,
+        payload
+      });
+      
+      const contract = await storage.getContract(existing.id);
+      return res.status(201).json({ contract, version, blankFields, job });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      }
+      if (error instanceof BlankFieldError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Contract term routes
+  app.get('/api/contract/:id/terms', requireContractOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const terms = await storage.getContractTerms(parseInt(req.params.id));
+      
+      return res.status(200).json(terms);
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Add a key term the extraction missed; it is kept when the contract is analysed again
+  app.post('/api/contract/:id/terms', requireContractOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const contractId = parseInt(req.params.id);
+      const { type, value } = contractTermInputSchema.parse(req.body);
+      
+      const existing = await storage.getContractTerms(contractId);
+      if (!MULTI_VALUED_TERM_TYPES.includes(type) && existing.some((term) => term.type === type)) {
+        return res.status(409).json({ message: `This contract already has a ${CONTRACT_TERM_LABELS[type].toLowerCase()}. Edit it instead.` });
+      }
+      
+      const term = await storage.createContractTerm(contractId, {
+        type,
+        value,
+        confidence: 1,
+        source: ContractTermSource.USER,
+        editedBy: req.user!.id,
+        editedAt: new Date()
+      });
+      
+      return res.status(201).json(term);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      }
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Correct a key term. A corrected term counts as the user's and is kept on re-analysis.
+  app.patch('/api/contract-term/:id', requireContractTermOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const term = await storage.getContractTerm(parseInt(req.params.id));
+      if (!term) {
+        return res.status(404).json({ message: 'Contract term not found' });
+      }
+      
+      const { value } = updateContractTermSchema.parse(req.body);
+      const valueSchema = contractTermValueSchemas[term.type as ContractTermTypeType];
+      if (!valueSchema) {
+        return res.status(400).json({ message: 'This term cannot be edited' });
+      }
+      
+      const updatedTerm = await storage.updateContractTerm(term.id, {
+        value: valueSchema.parse(value),
+        source: ContractTermSource.USER,
+        confidence: 1,
+        editedBy: req.user!.id,
+        editedAt: new Date()
+      });
+      
+      return res.status(200).json(updatedTerm);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      }
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.delete('/api/contract-term/:id', requireContractTermOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const success = await storage.deleteContractTerm(parseInt(req.params.id));
+      
+      if (!success) {
+        return res.status(404).json({ message: 'Contract term not found' });
+      }
+      
+      return res.status(200).json({ message: 'Contract term deleted successfully' });
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Key terms across the user's contracts, for portfolio reporting: e.g.
+  // every governing law, or every contract renewing automatically, as JSON or CSV
+  app.get('/api/contract-terms', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { type, contractId, q, format } = contractTermQuerySchema.parse(req.query);
+      const terms = await storage.getContractTermsForUser(req.user!.id, { type, contractId, query: q });
+      
+      if (format === 'csv') {
+        res.type('text/csv');
+        res.attachment('contract-terms.csv');
+        return res.send(renderContractTermsCsv(terms));
+      }
+      return res.status(200).json(terms);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      }
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Playbook routes
+  app.get('/api/playbooks', requireAuth, async (req: Request, res: Response) => {
+    try {
+      // Make sure the built-in playbook exists before listing
+      await loadPlaybookVersion(undefined, req.user!.id);
+      const playbooks = await storage.getPlaybooksForUser(req.user!.id);
+      
+      return res.status(200).json(playbooks);
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.get('/api/playbook/:id', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const playbook = await storage.getPlaybook(parseInt(req.params.id));
+      
+      if (!playbook || playbook.archived) {
+        return res.status(404).json({ message: 'Playbook not found' });
+      }
+      if (!canAccessPlaybook(playbook, req.user!.id)) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+      
+      const version = await storage.getPlaybookVersion(playbook.id, playbook.currentVersion);
+      return res.status(200).json({ ...playbook, rules: version?.rules ?? [] });
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.post('/api/playbook', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { name, description, rules, notes } = createPlaybookSchema.parse(req.body);
+      const playbook = await storage.createPlaybook(
+        { userId: req.user!.id, name, description: description ?? null },
+        { rules, notes: notes ?? null, createdBy: req.user!.id }
+      );
+      
+      return res.status(201).json({ ...playbook, rules });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      }
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Editing rules records a new version; earlier versions stay available for past analyses
+  app.patch('/api/playbook/:id', requirePlaybookOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const playbookId = parseInt(req.params.id);
+      const { name, description, rules, notes } = updatePlaybookSchema.parse(req.body);
+      
+      const current = await storage.getPlaybook(playbookId);
+      const currentVersion = await storage.getPlaybookVersion(playbookId, current!.currentVersion);
+      if (rules && !rulesEqual(rules, currentVersion?.rules)) {
+        await storage.addPlaybookVersion(playbookId, { rules, notes: notes ?? null, createdBy: req.user!.id });
+      }
+      
+      const playbook = await storage.updatePlaybook(playbookId, {
+        ...(name !== undefined && { name }),
+        ...(description !== undefined && { description })
+      });
+      const version = await storage.getPlaybookVersion(playbookId, playbook!.currentVersion);
+      
+      return res.status(200).json({ ...playbook, rules: version?.rules ?? [] });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      }
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Playbooks are archived rather than deleted so analyses keep their provenance
+  app.delete('/api/playbook/:id', requirePlaybookOwner('id'), async (req: Request, res: Response) => {
+    try {
+      await storage.updatePlaybook(parseInt(req.params.id), { archived: true });
+      
+      return res.status(200).json({ message: 'Playbook deleted successfully' });
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.get('/api/playbook/:id/versions', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const playbook = await storage.getPlaybook(parseInt(req.params.id));
+      
+      if (!playbook) {
+        return res.status(404).json({ message: 'Playbook not found' });
+      }
+      if (!canAccessPlaybook(playbook, req.user!.id)) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+      
+      const versions = await storage.getPlaybookVersions(playbook.id);
+      return res.status(200).json(versions);
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.get('/api/playbook/:id/versions/:version', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const playbook = await storage.getPlaybook(parseInt(req.params.id));
+      
+      if (!playbook) {
+        return res.status(404).json({ message: 'Playbook not found' });
+      }
+      if (!canAccessPlaybook(playbook, req.user!.id)) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+      
+      const version = await storage.getPlaybookVersion(playbook.id, parseInt(req.params.version));
+      if (!version) {
+        return res.status(404).json({ message: 'Playbook version not found' });
+      }
+      
+      return res.status(200).json(version);
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Contract template routes
+  app.get('/api/templates', requireAuth, async (req: Request, res: Response) => {
+    try {
+      // Make sure the built-in template exists before listing
+      await ensureDefaultTemplate();
+      const templates = await storage.getContractTemplatesForUser(req.user!.id);
+      
+      return res.status(200).json(templates);
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.get('/api/template/:id', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const template = await storage.getContractTemplate(parseInt(req.params.id));
+      
+      if (!template) {
+        return res.status(404).json({ message: 'Template not found' });
+      }
+      if (!canAccessTemplate(template, req.user!.id)) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+      
+      return res.status(200).json(template);
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.post('/api/template', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const definition = createContractTemplateSchema.parse(req.body);
+      const invalidSlot = await findForeignSavedClause(definition.slots, req.user!.id);
+      if (invalidSlot) {
+        return res.status(400).json({ message: `Slot "${invalidSlot.title}" uses a clause that is not in your library` });
+      }
+      
+      const template = await storage.createContractTemplate({
+        ...definition,
+        userId: req.user!.id,
+        description: definition.description ?? null,
+        contractType: definition.contractType ?? null
+      });
+      return res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      }
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.patch('/api/template/:id', requireTemplateOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const templateId = parseInt(req.params.id);
+      const changes = updateContractTemplateSchema.parse(req.body);
+      const current = await storage.getContractTemplate(templateId);
+      
+      // Variables and slots refer to each other, so the result is checked as a whole
+      const definition = createContractTemplateSchema.parse({
+        name: current!.name,
+        description: current!.description,
+        contractType: current!.contractType,
+        variables: current!.variables,
+        slots: current!.slots,
+        ...changes
+      });
+      const invalidSlot = await findForeignSavedClause(definition.slots, req.user!.id);
+      if (invalidSlot) {
+        return res.status(400).json({ message: `Slot "${invalidSlot.title}" uses a clause that is not in your library` });
+      }
+      
+      const template = await storage.updateContractTemplate(templateId, {
+        ...definition,
+        description: definition.description ?? null,
+        contractType: definition.contractType ?? null
+      });
+      return res.status(200).json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      }
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.delete('/api/template/:id', requireTemplateOwner('id'), async (req: Request, res: Response) => {
+    try {
+      await storage.deleteContractTemplate(parseInt(req.params.id));
+      
+      return res.status(200).json({ message: 'Template deleted successfully' });
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Fill in a template from questionnaire answers and save the result as a new contract
+  app.post('/api/template/:id/assemble', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { name, answers } = assembleContractSchema.parse(req.body);
+      const template = await storage.getContractTemplate(parseInt(req.params.id));
+      
+      if (!template) {
+        return res.status(404).json({ message: 'Template not found' });
+      }
+      if (!canAccessTemplate(template, req.user!.id)) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+      
+      // Only the user's own library clauses can be pulled into their contract
+      const savedClauses = (await Promise.all(
+        template.slots
+          .filter((slot) => slot.savedClauseId !== undefined)
+          .map((slot) => storage.getSavedClause(slot.savedClauseId!))
+      )).filter((clause): clause is SavedClause => !!clause && clause.userId === req.user!.id);
+      
+      const assembled = assembleContract(template, answers, savedClauses);
+      const contract = await storage.createContract({
+        userId: req.user!.id,
+        name,
+        fileType: 'txt',
+        originalText: assembled.text,
+        contractType: template.contractType
+      });
+      await storage.replaceClauses(contract.id, toInsertClauses(contract.id, segmentContract(contract.originalText)));
+      publish(contract.userId, { type: 'contracts.changed', contractId: contract.id });
+      
+      return res.status(201).json({ contract, slotIds: assembled.slotIds, unresolved: assembled.unresolved });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      }
+      if (error instanceof TemplateError) {
+        return res.status(400).json({ message: error.message, fields: error.fields });
+      }
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Saved Clause routes
+  // ?q= searches titles, text, notes and tags; folder, tag, jurisdiction, clauseType and tone filter
+  app.get('/api/saved-clauses/user/:userId', requireSelf('userId'), async (req: Request, res: Response) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const { q, ...filters } = savedClauseQuerySchema.parse(req.query);
+      const savedClauses = await storage.getSavedClausesByUserId(userId, { query: q, ...filters });
+      
+      return res.status(200).json(savedClauses);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      }
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.get('/api/saved-clause/:id', requireSavedClauseOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const savedClause = await storage.getSavedClause(parseInt(req.params.id));
+      
+      return res.status(200).json(savedClause);
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.post('/api/saved-clause', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const clauseData = createSavedClauseSchema.parse(req.body);
+      const savedClause = await storage.createSavedClause({ ...clauseData, userId: req.user!.id });
+      
+      return res.status(201).json(savedClause);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      }
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Edits that change anything are recorded as a new version of the clause
+  app.patch('/api/saved-clause/:id', requireSavedClauseOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const clauseId = parseInt(req.params.id);
+      const { changeNote, ...update } = updateSavedClauseSchema.parse(req.body);
+      
+      const current = await storage.getSavedClause(clauseId);
+      const changes = savedClauseChanges(current!, update);
+      if (Object.keys(changes).length === 0) {
+        return res.status(200).json(current);
+      }
+      
+      const savedClause = await storage.updateSavedClause(clauseId, changes, req.user!.id, changeNote || null);
+      return res.status(200).json(savedClause);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      }
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.get('/api/saved-clause/:id/versions', requireSavedClauseOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const versions = await storage.getSavedClauseVersions(parseInt(req.params.id));
+      
+      return res.status(200).json(versions);
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Restoring copies an earlier version into a new one, so the history is never rewritten
+  app.post('/api/saved-clause/:id/versions/:version/restore', requireSavedClauseOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const clauseId = parseInt(req.params.id);
+      const version = await storage.getSavedClauseVersion(clauseId, parseInt(req.params.version));
+      if (!version) {
+        return res.status(404).json({ message: 'Saved clause version not found' });
+      }
+      
+      const current = await storage.getSavedClause(clauseId);
+      const { title, clauseType, tone, content, folder, tags, jurisdiction, notes } = version;
+      const changes = savedClauseChanges(current!, { title, clauseType, tone, content, folder, tags, jurisdiction, notes });
+      if (Object.keys(changes).length === 0) {
+        return res.status(200).json(current);
+      }
+      
+      const savedClause = await storage.updateSavedClause(clauseId, changes, req.user!.id, `Restored version ${version.version}`);
+      return res.status(200).json(savedClause);
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.delete('/api/saved-clause/:id', requireSavedClauseOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const clauseId = parseInt(req.params.id);
+      const success = await storage.deleteSavedClause(clauseId);
+      
+      if (!success) {
+        return res.status(404).json({ message: 'Saved clause not found' });
+      }
+      
+      return res.status(200).json({ message: 'Saved clause deleted successfully' });
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Clause Generator route
+  app.post('/api/generate-clause', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { clauseType, tone, details } = req.body;
+      
+      if (!clauseType || !tone) {
+        return res.status(400).json({ message: 'Clause type and tone are required' });
+      }
+      
+      // Generate clause with the configured AI provider
+      const generatedClause = await generateClause(clauseType, tone, details || '');
+      
+      return res.status(200).json({ 
+        clause: generatedClause.clause,
+        legalContext: generatedClause.legalContext
+      });
+    } catch (error) {
+      if (error instanceof LLMError) {
+        return res.status(502).json({ message: 'AI provider error' });
+      }
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Conversation routes
+  app.get('/api/conversations/contract/:contractId', requireContractOwner('contractId'), async (req: Request, res: Response) => {
+    try {
+      const contractId = parseInt(req.params.contractId);
+      const conversations = await storage.getConversationsByContractId(contractId);
+      
+      return res.status(200).json(
+        conversations.filter((conversation) => conversation.userId === req.user!.id)
+      );
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.get('/api/conversations/portfolio', requireAuth, async (req: Request, res: Response) => {
+    try {
+      return res.status(200).json(await storage.getPortfolioConversations(req.user!.id));
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.get('/api/conversations/documents', requireAuth, async (req: Request, res: Response) => {
+    try {
+      return res.status(200).json(await storage.getDocumentConversations(req.user!.id));
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.post('/api/conversation', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const conversationData = insertConversationSchema.parse({ ...req.body, userId: req.user!.id });
+      
+      // Conversations can only be attached to the user's own contracts
+      const { scope, document } = conversationData;
+      if (document && (scope || conversationData.contractId)) {
+        return res.status(400).json({ message: 'A document conversation cannot also have a contract or a portfolio scope' });
+      }
+      const contractIds = scope
+        ? scope.type === PortfolioScopeType.SELECTION ? scope.contractIds : []
+        : conversationData.contractId ? [conversationData.contractId] : [];
+      if (!scope && !document && contractIds.length === 0) {
+        return res.status(400).json({ message: 'A contract, a portfolio scope or a document is required' });
+      }
+      for (const contractId of contractIds) {
+        const contract = await storage.getContract(contractId);
+        if (!contract) {
+          return res.status(404).json({ message: 'Contract not found' });
+        }
+        if (contract.userId !== req.user!.id) {
+          return res.status(403).json({ message: 'Forbidden' });
+        }
+      }
+      if (scope && (await portfolioContracts(req.user!.id, scope)).length === 0) {
+        return res.status(400).json({ message: 'No contracts match this scope' });
+      }
+      const firstQuestion = conversationData.messages.find((message) => message.role === 'user');
+      const conversation = await storage.createConversation({
+        ...conversationData,
+        contractId: scope || document ? null : conversationData.contractId,
+        title: conversationData.title ?? (firstQuestion ? conversationTitle(firstQuestion.content) : null)
+      });
+      
+      return res.status(201).json(conversation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      }
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Start a conversation about an uploaded file. Its text is extracted and
+  // either saved as a contract ("save" set) or kept on the conversation only.
+  app.post('/api/conversation/upload', requireAuth, receiveFile, async (req: Request, res: Response) => {
+    try {
+      const file = req.file;
+      
+      if (!file) {
+        return res.status(400).json({ message: 'A document file is required' });
+      }
+      
+      const extraction = await extractDocumentText(file.buffer, file.originalname, file.mimetype);
+      const name = req.body.name || file.originalname.replace(/\.[^.]+$/, '');
+      if (req.body.save === 'true') {
+        const contract = await storeUploadedContract(req.user!.id, file, extraction, { name, contractType: req.body.contractType });
+        const conversation = await storage.createConversation({ userId: req.user!.id, contractId: contract.id, messages: [] });
+        return res.status(201).json({ conversation, contract });
+      }
+      
+      const conversationData = insertConversationSchema.parse({
+        userId: req.user!.id,
+        document: { name, fileType: extraction.fileType, text: extraction.text },
+        messages: []
+      });
+      const conversation = await storage.createConversation(conversationData);
+      
+      return res.status(201).json({ conversation, contract: null });
+    } catch (error) {
+      if (error instanceof ExtractionError) {
+        return res.status(422).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      }
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Save the document of an ad-hoc conversation as a contract. The conversation
+  // moves onto the new contract; its citations still match the same text.
+  app.post('/api/conversation/:id/save-document', requireConversationOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const conversationId = parseInt(req.params.id);
+      const conversation = await storage.getConversation(conversationId);
+      if (!conversation) {
+        return res.status(404).json({ message: 'Conversation not found' });
+      }
+      if (!conversation.document) {
+        return res.status(400).json({ message: 'This conversation is not about an unsaved document' });
+      }
+      
+      const { document } = conversation;
+      const contractData = insertContractSchema.parse({
+        userId: req.user!.id,
+        name: req.body.name || document.name,
+        fileType: document.fileType,
+        originalText: document.text,
+        contractType: req.body.contractType || ''
+      });
+      const contract = await storage.createContract(contractData);
+      await storage.replaceClauses(contract.id, toInsertClauses(contract.id, segmentContract(contract.originalText)));
+      publish(contract.userId, { type: 'contracts.changed', contractId: contract.id });
+      
+      const updatedConversation = await storage.updateConversation(conversationId, { contractId: contract.id, document: null });
+      
+      return res.status(201).json({ conversation: updatedConversation, contract });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      }
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.post('/api/conversation/:id/message', requireConversationOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const { question } = conversationQuestionSchema.parse(req.body);
+      const conversationId = parseInt(req.params.id);
+      
+      // Get the conversation
+      const conversation = await storage.getConversation(conversationId);
+      if (!conversation) {
+        return res.status(404).json({ message: 'Conversation not found' });
+      }
+      
+      // Add the user's question to messages
+      const updatedMessages = [...conversation.messages];
+      const userMessage: Message = {
+        id: uuidv4(),
+        role: 'user',
+        content: question,
+        timestamp: new Date().toISOString()
+      };
+      updatedMessages.push(userMessage);
+      
+      // Generate AI response from the relevant clauses and the conversation so far,
+      // pushing the answer over the realtime socket as it is written
+      const { answer, citations } = await answerConversationQuestion(conversation, question, {
+        history: conversation.messages as Message[],
+        onToken: streamTokens(req.user!.id, req.body.streamId)
+      });
+      
+      // Add AI response to messages
+      const aiMessage: Message = {
+        id: uuidv4(),
+        role: 'assistant',
+        content: answer,
+        timestamp: new Date().toISOString(),
+        citations
+      };
+      updatedMessages.push(aiMessage);
+      
+      // Update conversation with new messages
+      const updatedConversation = await storage.updateConversation(conversationId, {
+        messages: updatedMessages,
+        ...untitledUpdate(conversation, question)
+      });
+      
+      return res.status(200).json(updatedConversation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      }
+      if (error instanceof LLMError) {
+        return res.status(502).json({ message: 'AI provider error' });
+      }
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Streamed variant of the message route using Server-Sent Events (see
+  // AnswerStreamEvent). Closing the request stops generation; the question and
+  // whatever was answered so far are then saved, marked as stopped.
+  app.post('/api/conversation/:id/message/stream', requireConversationOwner('id'), async (req: Request, res: Response) => {
+    const parsed = conversationQuestionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid input', errors: parsed.error.errors });
+    }
+    const { question } = parsed.data;
+    const conversationId = parseInt(req.params.id);
+
+    let conversation;
+    try {
+      conversation = await storage.getConversation(conversationId);
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+    if (!conversation) {
+      return res.status(404).json({ message: 'Conversation not found' });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      // Keep proxies such as nginx from buffering the stream
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    const send = (event: AnswerStreamEvent) => {
+      if (!res.writableEnded) res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    const previousMessages = conversation.messages as Message[];
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    const userMessage: Message = {
+      id: uuidv4(),
+      role: 'user',
+      content: question,
+      timestamp: new Date().toISOString()
+    };
+
+    let partialAnswer = '';
+    try {
+      const { answer, citations } = await answerConversationQuestion(conversation, question, {
+        history: previousMessages,
+        onToken: (token) => {
+          partialAnswer += token;
+          send({ type: 'token', token });
+        },
+        signal: controller.signal
+      });
+      send({ type: 'citations', citations });
+
+      const aiMessage: Message = {
+        id: uuidv4(),
+        role: 'assistant',
+        content: answer,
+        timestamp: new Date().toISOString(),
+        citations
+      };
+      const updatedConversation = await storage.updateConversation(conversationId, {
+        messages: [...previousMessages, userMessage, aiMessage],
+        ...untitledUpdate(conversation, question)
+      });
+      send({ type: 'done', messageId: aiMessage.id, conversation: updatedConversation! });
+    } catch (error) {
+      if (error instanceof LLMCancelledError) {
+        const messages = [...previousMessages, userMessage];
+        if (partialAnswer) {
+          messages.push({
+            id: uuidv4(),
+            role: 'assistant',
+            content: partialAnswer,
+            timestamp: new Date().toISOString(),
+            stopped: true
+          });
+        }
+        await storage.updateConversation(conversationId, { messages, ...untitledUpdate(conversation, question) })
+          .catch(() => undefined);
+        return;
+      }
+      send({ type: 'error', message: error instanceof LLMError ? 'AI provider error' : 'Server error' });
+    }
+    res.end();
+  });
+
+  // Rename or pin a conversation
+  app.patch('/api/conversation/:id', requireConversationOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const changes = updateConversationSchema.parse(req.body);
+      const conversation = await storage.updateConversation(parseInt(req.params.id), changes);
+      if (!conversation) {
+        return res.status(404).json({ message: 'Conversation not found' });
+      }
+      
+      return res.status(200).json(conversation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+      }
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.delete('/api/conversation/:id', requireConversationOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const deleted = await storage.deleteConversation(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: 'Conversation not found' });
+      }
+      
+      return res.status(200).json({ message: 'Conversation deleted successfully' });
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // A conversation with its citations as a Markdown or PDF document
+  app.get('/api/conversation/:id/export.:format(md|pdf)', requireConversationOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const conversation = await storage.getConversation(parseInt(req.params.id));
+      if (!conversation) {
+        return res.status(404).json({ message: 'Conversation not found' });
+      }
+      
+      const contract = conversation.contractId ? await storage.getContract(conversation.contractId) : undefined;
+      const input = { conversation, contractName: contract?.name ?? null };
+      const fileName = displayConversationTitle(conversation).replace(/[^\w\- ]+/g, '').trim() || 'conversation';
+      if (req.params.format === 'pdf') {
+        res.attachment(`${fileName}.pdf`);
+        res.type('application/pdf');
+        return res.status(200).send(await renderConversationPdf(input));
+      }
+      res.attachment(`${fileName}.md`);
+      res.type('text/markdown');
+      return res.status(200).send(renderConversationMarkdown(input));
+    } catch (error) {
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Q&A route - Direct question without saving conversation
+  app.post('/api/contract-qa', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { contractId, question, streamId } = req.body;
+      
+      if (!contractId || !question) {
+        return res.status(400).json({ message: 'Contract ID and question are required' });
+      }
+      
+      // Get the contract
+      const contract = await storage.getContract(parseInt(contractId));
+      if (!contract) {
+        return res.status(404).json({ message: 'Contract not found' });
+      }
+      if (contract.userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+      
+      // Generate answer
+      const { answer, citations } = await answerContractQuestion(parseInt(contractId), question, {
+        onToken: streamTokens(req.user!.id, streamId)
+      });
+      
+      return res.status(200).json({ answer, citations });
+    } catch (error) {
+      if (error instanceof LLMError) {
+        return res.status(502).json({ message: 'AI provider error' });
+      }
+      return res.status(500).json({ message: 'Server error' });
+    }
+  });
+
   return httpServer;
 }
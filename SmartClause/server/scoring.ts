@@ -0,0 +1,98 @@
+import { RiskLevel, RiskCategory, type RiskLevelType, type RiskCategoryType } from "@shared/schema";
+import {
+  DEFAULT_RISK_THRESHOLDS,
+  riskLevelForScore,
+  type CategoryScore,
+  type RiskThresholds,
+  type ScoreBreakdown,
+} from "@shared/scoring";
+
+export interface ScoringConfig {
+  thresholds: RiskThresholds;
+  // Probability-like weight of a single finding at each risk level
+  levelWeights: Record<RiskLevelType, number>;
+  // How much findings in each category count towards the composite
+  categoryWeights: Record<RiskCategoryType, number>;
+  uncategorisedWeight: number;
+}
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  thresholds: DEFAULT_RISK_THRESHOLDS,
+  levelWeights: {
+    [RiskLevel.LOW]: 0.1,
+    [RiskLevel.MEDIUM]: 0.3,
+    [RiskLevel.HIGH]: 0.6,
+  },
+  categoryWeights: {
+    [RiskCategory.LIABILITY]: 1,
+    [RiskCategory.IP]: 0.9,
+    [RiskCategory.TERMINATION]: 0.8,
+    [RiskCategory.PAYMENT]: 0.8,
+    [RiskCategory.CONFIDENTIALITY]: 0.7,
+    [RiskCategory.COMPLIANCE]: 0.9,
+  },
+  uncategorisedWeight: 0.8,
+};
+
+// Thresholds can be tuned per deployment with RISK_THRESHOLD_MEDIUM and RISK_THRESHOLD_HIGH
+export function loadScoringConfig(env: NodeJS.ProcessEnv = process.env): ScoringConfig {
+  const medium = parseInt(env.RISK_THRESHOLD_MEDIUM || String(DEFAULT_RISK_THRESHOLDS.medium));
+  const high = parseInt(env.RISK_THRESHOLD_HIGH || String(DEFAULT_RISK_THRESHOLDS.high));
+
+  if (!(medium >= 0 && medium < high && high <= 100)) {
+    throw new Error("RISK_THRESHOLD_MEDIUM and RISK_THRESHOLD_HIGH must satisfy 0 <= medium < high <= 100");
+  }
+
+  return { ...DEFAULT_SCORING_CONFIG, thresholds: { medium, high } };
+}
+
+export interface ScoredFinding {
+  riskLevel: string;
+  category: string | null;
+}
+
+function isCategory(category: string | null): category is RiskCategoryType {
+  return category !== null && Object.values(RiskCategory).includes(category as RiskCategoryType);
+}
+
+// Combine weights so each extra finding adds less than the last and the
+// score approaches, but never exceeds, 100
+function combine(weights: number[]): CategoryScore {
+  const remaining = weights.reduce((product, weight) => product * (1 - weight), 1);
+  return { score: Math.round((1 - remaining) * 100), findings: weights.length };
+}
+
+// Turn per-clause findings into a 0-100 composite score, a risk level and
+// per-category sub-scores
+export function scoreFindings(findings: ScoredFinding[], config: ScoringConfig = loadScoringConfig()) {
+  const weightsByCategory = new Map<RiskCategoryType, number[]>();
+  const uncategorisedWeights: number[] = [];
+  const allWeights: number[] = [];
+
+  for (const finding of findings) {
+    const levelWeight = config.levelWeights[finding.riskLevel as RiskLevelType] ?? config.levelWeights[RiskLevel.LOW];
+
+    if (isCategory(finding.category)) {
+      const weight = levelWeight * config.categoryWeights[finding.category];
+      weightsByCategory.set(finding.category, [...(weightsByCategory.get(finding.category) || []), weight]);
+      allWeights.push(weight);
+    } else {
+      const weight = levelWeight * config.uncategorisedWeight;
+      uncategorisedWeights.push(weight);
+      allWeights.push(weight);
+    }
+  }
+
+  const categories = Object.fromEntries(
+    Object.values(RiskCategory).map((category) => [category, combine(weightsByCategory.get(category) || [])]),
+  ) as Record<RiskCategoryType, CategoryScore>;
+
+  const score = combine(allWeights).score;
+  const breakdown: ScoreBreakdown = {
+    categories,
+    uncategorised: combine(uncategorisedWeights),
+    thresholds: config.thresholds,
+  };
+
+  return { score, level: riskLevelForScore(score, config.thresholds), breakdown };
+}
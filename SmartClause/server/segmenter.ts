@@ -0,0 +1,351 @@
+import { ClauseKind, type ClauseKindType, type InsertClause, type Clause, type Contract } from "@shared/schema";
+import { storage } from "./storage";
+
+// A clause found in the contract text. Offsets are character positions in
+// contracts.originalText; [startOffset, endOffset) spans the clause and all of
+// its sub-clauses, while `text` holds only the clause's own wording.
+export interface SegmentedClause {
+  key: string;
+  parentKey: string | null;
+  kind: ClauseKindType;
+  number: string | null;
+  heading: string | null;
+  text: string;
+  startOffset: number;
+  endOffset: number;
+  depth: number;
+  position: number;
+}
+
+interface Marker {
+  kind: ClauseKindType;
+  number: string | null;
+  // Lower ranks contain higher ranks: articles contain sections, sections contain (a), (a) contains (i)
+  rank: number;
+  keyPart: string;
+  heading: string | null;
+  start: number;
+}
+
+const ROMAN_VALUES: Record<string, number> = { i: 1, v: 5, x: 10, l: 50, c: 100, d: 500, m: 1000 };
+
+function romanToInt(roman: string): number {
+  const chars = roman.toLowerCase().split("");
+  return chars.reduce((total, char, index) => {
+    const value = ROMAN_VALUES[char];
+    const next = ROMAN_VALUES[chars[index + 1]] || 0;
+    return value < next ? total - value : total + value;
+  }, 0);
+}
+
+const ARTICLE_LINE = /^article\s+([ivxlcdm]+|\d+)\b[.:\s-]*(.*)$/i;
+const SECTION_WORD_LINE = /^section\s+(\d+(?:\.\d+)*)\.?\s*(.*)$/i;
+const NUMBERED_LINE = /^(\d{1,3}(?:\.\d{1,3})*)(\.?)\s+(\S.*)$/;
+const LETTERED = /^\(([a-z]{1,2})\)\s+/;
+const ROMAN = /^\(((?:x{0,3})(?:ix|iv|v?i{0,3}))\)\s+/;
+const DEFINITION_LINE = /^["“]([^"”]{2,80})["”]\s+(?:means|shall mean|has the meaning|includes|refers to)/i;
+const DEFINITIONS_HEADING = /\bdefinitions?\b/i;
+const SIGNATURE_START = /^(in witness whereof|signed by|signature page|agreed and accepted)/i;
+const SIGNATURE_LINE = /^(by|name|title|date|signature)\s*:\s*_{3,}/i;
+
+// Take the leading short, mostly-uppercase or period-terminated phrase as the heading
+function splitHeading(rest: string): { heading: string | null } {
+  const periodHeading = /^([A-Z][^.]{0,80}?)\.\s/.exec(rest);
+  if (/^[A-Z0-9 ,&'/-]{3,}$/.test(rest.trim())) return { heading: rest.trim() };
+  if (periodHeading && periodHeading[1].split(/\s+/).length <= 8) return { heading: periodHeading[1] };
+  return { heading: null };
+}
+
+// Classify a line start as a structural marker, or null for ordinary text
+function matchLine(line: string, previousLetter: string | null): Omit<Marker, "start"> | null {
+  let match = ARTICLE_LINE.exec(line);
+  if (match) {
+    const value = /^\d+$/.test(match[1]) ? parseInt(match[1]) : romanToInt(match[1]);
+    return {
+      kind: ClauseKind.ARTICLE,
+      number: match[1].toUpperCase(),
+      rank: 0,
+      keyPart: `art-${value}`,
+      heading: match[2].trim() || null,
+    };
+  }
+
+  match = SECTION_WORD_LINE.exec(line);
+  if (match) {
+    return {
+      kind: ClauseKind.SECTION,
+      number: match[1],
+      rank: match[1].split(".").length,
+      keyPart: match[1],
+      heading: splitHeading(match[2]).heading,
+    };
+  }
+
+  match = NUMBERED_LINE.exec(line);
+  // A bare number ("3 Payment") only counts when followed by a capitalised word
+  if (match && (match[2] === "." || match[1].includes(".") || /^[A-Z]/.test(match[3]))) {
+    return {
+      kind: ClauseKind.SECTION,
+      number: match[1],
+      rank: match[1].split(".").length,
+      keyPart: match[1],
+      heading: splitHeading(match[3]).heading,
+    };
+  }
+
+  // "(i)" directly after "(h)" (or "(v)" after "(u)") is a letter, not a roman numeral
+  const roman = ROMAN.exec(line);
+  const continuesLetters =
+    roman !== null && roman[1].length === 1 && previousLetter !== null &&
+    roman[1].charCodeAt(0) === previousLetter.charCodeAt(0) + 1;
+  if (roman && roman[1] && !continuesLetters) {
+    return { kind: ClauseKind.SUBCLAUSE, number: `(${roman[1]})`, rank: 60, keyPart: `(${roman[1]})`, heading: null };
+  }
+
+  match = LETTERED.exec(line);
+  if (match) {
+    return { kind: ClauseKind.SUBCLAUSE, number: `(${match[1]})`, rank: 50, keyPart: `(${match[1]})`, heading: null };
+  }
+
+  match = DEFINITION_LINE.exec(line);
+  if (match) {
+    return { kind: ClauseKind.DEFINITION, number: null, rank: 50, keyPart: `def:${match[1]}`, heading: match[1] };
+  }
+
+  return null;
+}
+
+// Find inline enumerations such as "...include: (a) a description; (b) the timeline; and (c) the fees."
+// Only sequences starting at (a) or (i) with at least two consecutive items are split.
+function findInlineMarkers(text: string, offset: number): Omit<Marker, "rank">[] {
+  const pattern = /(?:^|[:;,]\s*(?:and\s+|or\s+)?|\s)\(([a-z]|[ivx]{1,4})\)\s+/g;
+  const found: { label: string; index: number }[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text))) {
+    found.push({ label: match[1], index: match.index + match[0].indexOf("(") });
+  }
+
+  const sequence: { label: string; index: number }[] = [];
+  for (const candidate of found) {
+    const expected = sequence.length === 0 ? null : sequence[sequence.length - 1].label;
+    const isNext =
+      expected === null
+        ? candidate.label === "a" || candidate.label === "i"
+        : /^[ivx]+$/.test(expected) && sequence[0].label === "i"
+          ? romanToInt(candidate.label) === romanToInt(expected) + 1
+          : candidate.label.charCodeAt(0) === expected.charCodeAt(0) + 1 && candidate.label.length === 1;
+    if (isNext) sequence.push(candidate);
+  }
+
+  if (sequence.length < 2) return [];
+  return sequence.map(({ label, index }) => ({
+    kind: ClauseKind.SUBCLAUSE,
+    number: `(${label})`,
+    keyPart: `(${label})`,
+    heading: null,
+    start: offset + index,
+  }));
+}
+
+// Split contract text into a tree of articles, sections, sub-clauses,
+// definitions and the signature block. Returned clauses are in document order.
+export function segmentContract(text: string): SegmentedClause[] {
+  const markers: Marker[] = [];
+  const lineRegex = /[^\n]*(\n|$)/g;
+  let previousLetter: string | null = null;
+  let inDefinitions = false;
+  let match: RegExpExecArray | null;
+
+  while ((match = lineRegex.exec(text)) && match[0].length > 0) {
+    const rawLine = match[0];
+    const leading = rawLine.length - rawLine.trimStart().length;
+    const line = rawLine.trim();
+    const start = match.index + leading;
+    if (!line) continue;
+
+    if (SIGNATURE_START.test(line) || SIGNATURE_LINE.test(line)) {
+      markers.push({ kind: ClauseKind.SIGNATURE, number: null, rank: 0, keyPart: "signature", heading: "Signatures", start });
+      break;
+    }
+
+    const marker = matchLine(line, previousLetter);
+    if (!marker) continue;
+
+    if (marker.kind === ClauseKind.DEFINITION && !inDefinitions) continue;
+    if (marker.kind === ClauseKind.SUBCLAUSE && marker.rank === 50) previousLetter = marker.number!.slice(1, -1);
+
+    if (marker.kind !== ClauseKind.SUBCLAUSE && marker.kind !== ClauseKind.DEFINITION) {
+      inDefinitions = DEFINITIONS_HEADING.test(marker.heading || line.slice(0, 60));
+      if (inDefinitions) marker.kind = ClauseKind.DEFINITIONS;
+      previousLetter = null;
+    }
+
+    markers.push({ ...marker, start });
+  }
+
+  // Add sub-clauses enumerated inline within a clause's paragraph
+  const withInline: Marker[] = [];
+  markers.forEach((marker, index) => {
+    withInline.push(marker);
+    if (marker.kind === ClauseKind.SIGNATURE) return;
+    const end = index + 1 < markers.length ? markers[index + 1].start : text.length;
+    const body = text.slice(marker.start, end);
+    const bodyOffset = marker.number ? body.indexOf(marker.number) + marker.number.length : 0;
+    const inline = findInlineMarkers(body.slice(bodyOffset), marker.start + bodyOffset);
+    const childRank = marker.rank >= 50 ? 60 : 50;
+    inline.forEach((child) => withInline.push({ ...child, rank: childRank }));
+  });
+
+  const clauses: SegmentedClause[] = [];
+  const usedKeys = new Map<string, number>();
+  const stack: { marker: Marker; clause: SegmentedClause }[] = [];
+
+  const firstStart = withInline.length > 0 ? withInline[0].start : text.length;
+  if (text.slice(0, firstStart).trim()) {
+    const preambleStart = text.length - text.trimStart().length;
+    clauses.push({
+      key: "preamble",
+      parentKey: null,
+      kind: ClauseKind.PREAMBLE,
+      number: null,
+      heading: null,
+      text: text.slice(preambleStart, firstStart).trim(),
+      startOffset: preambleStart,
+      endOffset: firstStart,
+      depth: 0,
+      position: 0,
+    });
+  }
+
+  withInline.forEach((marker, index) => {
+    while (stack.length > 0 && stack[stack.length - 1].marker.rank >= marker.rank) stack.pop();
+    const parent = stack.length > 0 ? stack[stack.length - 1].clause : null;
+
+    // Numbered sections already carry their full path ("1.2"); everything else is qualified by its parent
+    const baseKey =
+      marker.kind === ClauseKind.SECTION || !parent ? marker.keyPart : `${parent.key}${marker.keyPart.startsWith("(") ? "" : "/"}${marker.keyPart}`;
+    const seen = usedKeys.get(baseKey) || 0;
+    usedKeys.set(baseKey, seen + 1);
+    const key = seen === 0 ? baseKey : `${baseKey}~${seen + 1}`;
+
+    const nextStart = index + 1 < withInline.length ? withInline[index + 1].start : text.length;
+    const clause: SegmentedClause = {
+      key,
+      parentKey: parent?.key ?? null,
+      kind: marker.kind,
+      number: marker.number,
+      heading: marker.heading,
+      text: text.slice(marker.start, nextStart).trim(),
+      startOffset: marker.start,
+      endOffset: nextStart,
+      depth: stack.length,
+      position: clauses.length,
+    };
+
+    clauses.push(clause);
+    stack.push({ marker, clause });
+  });
+
+  // Extend each clause's span to cover its descendants
+  for (let i = clauses.length - 1; i >= 0; i--) {
+    const clause = clauses[i];
+    if (!clause.parentKey) continue;
+    const parent = clauses.find((candidate) => candidate.key === clause.parentKey);
+    if (parent && parent.endOffset < clause.endOffset) parent.endOffset = clause.endOffset;
+  }
+
+  // Trim trailing whitespace from spans so offsets point at real text
+  for (const clause of clauses) {
+    while (clause.endOffset > clause.startOffset && /\s/.test(text[clause.endOffset - 1])) clause.endOffset--;
+  }
+
+  return clauses;
+}
+
+export function toInsertClauses(contractId: number, segments: SegmentedClause[]): InsertClause[] {
+  return segments.map((segment) => ({ contractId, ...segment }));
+}
+
+// The innermost clause whose span contains [start, end)
+export function findClauseForRange<T extends Pick<Clause, "startOffset" | "endOffset" | "depth">>(
+  clauses: T[],
+  start: number,
+  end: number,
+): T | undefined {
+  return clauses
+    .filter((clause) => clause.startOffset <= start && clause.endOffset >= end)
+    .sort((a, b) => b.depth - a.depth)[0];
+}
+
+// Clauses of a contract, segmenting and persisting them on first use for
+// contracts created before segmentation existed
+export async function ensureContractClauses(contract: Contract): Promise<Clause[]> {
+  const existing = await storage.getClausesByContractId(contract.id);
+  if (existing.length > 0) return existing;
+  return storage.replaceClauses(contract.id, toInsertClauses(contract.id, segmentContract(contract.originalText)));
+}
+
+// Clauses of text that is not stored as a contract, such as a pasted snippet.
+// They have no rows of their own, so their ids are 0.
+export function segmentDocument(text: string): Clause[] {
+  return segmentContract(text).map((segment) => ({ ...segment, id: 0, contractId: 0 }));
+}
+
+// Escape text so it matches literally inside a regular expression
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Find a quoted passage in the contract text. Models often reflow whitespace,
+// so fall back to matching the first words with flexible spacing.
+export function locatePassage(text: string, passage: string): { start: number; end: number } | null {
+  const trimmed = passage.trim();
+  if (!trimmed) return null;
+
+  const exact = text.indexOf(trimmed);
+  if (exact !== -1) return { start: exact, end: exact + trimmed.length };
+
+  const words = trimmed.split(/\s+/).slice(0, 40);
+  const match = new RegExp(words.map(escapeRegExp).join("\\s+"), "i").exec(text);
+  if (!match) return null;
+  return { start: match.index, end: match.index + match[0].length };
+}
+
+// Tie a passage flagged by the AI to a stored clause. When the passage cannot
+// be found, fall back to the clause position the provider reported.
+export function resolveClauseReference(text: string, clauses: Clause[], passage: string, fallbackPosition: number) {
+  const range = locatePassage(text, passage);
+  const clause = range
+    ? findClauseForRange(clauses, range.start, range.end)
+    : clauses.find((candidate) => candidate.position === fallbackPosition);
+
+  return {
+    clauseIndex: clause?.position ?? fallbackPosition,
+    clauseId: clause?.id ?? null,
+    startOffset: range?.start ?? clause?.startOffset ?? null,
+    endOffset: range?.end ?? clause?.endOffset ?? null,
+  };
+}
+
+export interface ClauseNode extends Clause {
+  children: ClauseNode[];
+}
+
+// Nest a contract's clauses under their parents
+export function buildClauseTree(clauses: Clause[]): ClauseNode[] {
+  const nodes = new Map<string, ClauseNode>();
+  const roots: ClauseNode[] = [];
+
+  for (const clause of clauses) {
+    nodes.set(clause.key, { ...clause, children: [] });
+  }
+  for (const clause of clauses) {
+    const node = nodes.get(clause.key)!;
+    const parent = clause.parentKey ? nodes.get(clause.parentKey) : undefined;
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  }
+
+  return roots;
+}
@@ -1,16 +1,122 @@
 import { v4 as uuidv4 } from 'uuid';
 import { 
-  users, contracts, analyses, riskyClauses, savedClauses, conversations, 
+  users, contracts, contractVersions, contractFiles, clauses, analyses, riskyClauses, blankFields, contractTerms, savedClauses, savedClauseVersions,
+  conversations, playbooks, playbookVersions, contractTemplates, jobs,
   type User, type InsertUser,
   type Contract, type InsertContract,
-  type Analysis, type InsertAnalysis,
-  type RiskyClause, type InsertRiskyClause,
-  type SavedClause, type InsertSavedClause,
+  type ContractVersion, type InsertContractVersion,
+  type ContractFile, type InsertContractFile,
+  type Clause, type InsertClause,
+  type Analysis, type InsertAnalysis, AnalysisStatus,
+  type RiskyClause, type InsertRiskyClause, ReviewStatus,
+  type BlankField, type InsertBlankField,
+  type ContractTerm, type InsertContractTerm, type ContractTermValue, type PortfolioContractTerm, ContractTermSource,
+  type Playbook, type InsertPlaybook,
+  type PlaybookVersion, type InsertPlaybookVersion,
+  type SavedClause, type InsertSavedClause, type SavedClauseVersion,
+  type ContractTemplate, type InsertContractTemplate,
   type Conversation, type InsertConversation,
+  type Job, type InsertJob, JobStatus,
   type Message
 } from "@shared/schema";
 import { db } from './db';
-import { eq } from 'drizzle-orm';
+import { eq, and, or, asc, desc, inArray, isNull, isNotNull, gte, lt, lte, ilike, sql } from 'drizzle-orm';
+
+// Editable contract fields; ownership and upload time never change
+export type ContractUpdate = Partial<Omit<Contract, 'id' | 'userId' | 'uploadedAt'>>;
+
+// Saving an ad-hoc document as a contract moves its conversation onto the new contract
+export type ConversationUpdate = Partial<Pick<Conversation, 'title' | 'pinned' | 'contractId' | 'document'>> & { messages?: Message[] };
+
+// Error of a stale job with no attempts left
+const STALE_JOB_ERROR = 'The job stopped without finishing and has no attempts left';
+
+// Pinned conversations first, then by latest activity
+const compareConversations = (a: Conversation, b: Conversation) =>
+  Number(b.pinned) - Number(a.pinned) ||
+  new Date(b.updatedAt ?? 0).getTime() - new Date(a.updatedAt ?? 0).getTime() ||
+  b.id - a.id;
+
+// A new text for an existing contract; the version number is assigned by storage
+export type NewContractVersion = Omit<InsertContractVersion, 'contractId'>;
+
+// Risky clauses saved together with an analysis, before the analysis id is known
+export type NewRiskyClause = Omit<InsertRiskyClause, 'analysisId'>;
+
+// A reviewer's decision on a risky clause's suggestion
+export type RiskyClauseReview = Pick<RiskyClause, 'reviewStatus' | 'editedSuggestion' | 'reviewedBy' | 'reviewedAt'>;
+
+// Blank fields saved together with an analysis, before the analysis id is known
+export type NewBlankField = Omit<InsertBlankField, 'analysisId'>;
+
+// The text a user filled a blank field in with
+export type BlankFieldFill = Pick<BlankField, 'filledWith' | 'filledBy' | 'filledAt'>;
+
+// A key term of a contract, before the contract id is known; its value has
+// already been checked against its type
+export type NewContractTerm = Omit<InsertContractTerm, 'contractId' | 'value'> & { value: ContractTermValue };
+
+// A user's correction to a key term
+export type ContractTermUpdate = Pick<ContractTerm, 'value' | 'source' | 'confidence' | 'editedBy' | 'editedAt'>;
+
+// Filters for key terms across a user's contracts; every given filter must match
+export interface ContractTermFilter {
+  type?: string;
+  contractId?: number;
+  query?: string; // matched against the contract name and the term's source text
+}
+
+// Rules and notes for a new playbook version; the version number is assigned by storage
+export type NewPlaybookVersion = Omit<InsertPlaybookVersion, 'playbookId' | 'version'>;
+
+// Library fields of a saved clause; every version keeps a snapshot of them
+export type SavedClauseContent = Pick<SavedClause, 'title' | 'clauseType' | 'tone' | 'content' | 'folder' | 'tags' | 'jurisdiction' | 'notes'>;
+
+// Search text and filters for a user's clause library; every given filter must match
+export interface SavedClauseFilter {
+  query?: string;
+  folder?: string; // also matches the folder's subfolders
+  tag?: string;
+  jurisdiction?: string;
+  clauseType?: string;
+  tone?: string;
+}
+
+const savedClauseContent = (clause: SavedClauseContent): SavedClauseContent => ({
+  title: clause.title,
+  clauseType: clause.clauseType,
+  tone: clause.tone,
+  content: clause.content,
+  folder: clause.folder,
+  tags: clause.tags,
+  jurisdiction: clause.jurisdiction,
+  notes: clause.notes,
+});
+
+// In-memory counterpart of the database's full-text search: every query word must appear
+function matchesSavedClauseFilter(clause: SavedClause, filter: SavedClauseFilter): boolean {
+  const { query, folder, tag, jurisdiction, clauseType, tone } = filter;
+  if (folder && clause.folder !== folder && !clause.folder?.startsWith(`${folder}/`)) return false;
+  if (tag && !clause.tags.some((candidate) => candidate.toLowerCase() === tag.toLowerCase())) return false;
+  if (jurisdiction && clause.jurisdiction?.toLowerCase() !== jurisdiction.toLowerCase()) return false;
+  if (clauseType && clause.clauseType !== clauseType) return false;
+  if (tone && clause.tone !== tone) return false;
+  if (query) {
+    const text = [clause.title, clause.clauseType, clause.content, clause.notes ?? '', ...clause.tags].join(' ').toLowerCase();
+    return query.toLowerCase().split(/\s+/).filter(Boolean).every((word) => text.includes(word));
+  }
+  return true;
+}
+
+// Contract order for key terms; terms a user added without a source go last
+const compareContractTerms = (a: ContractTerm, b: ContractTerm) =>
+  (a.startOffset ?? Infinity) - (b.startOffset ?? Infinity) || a.id - b.id;
+
+// Editable template fields; built-in templates stay without an owner
+export type ContractTemplateUpdate = Partial<Omit<InsertContractTemplate, 'userId'>>;
+
+// Fields the job worker changes as a job runs
+export type JobUpdate = Partial<Pick<Job, 'status' | 'stage' | 'progress' | 'runAt' | 'lockedAt' | 'result' | 'error' | 'completedAt'>>;
 
 export interface IStorage {
   // User operations
@@ -23,59 +129,188 @@ export interface IStorage {
   getContract(id: number): Promise<Contract | undefined>;
   getContractsByUserId(userId: number): Promise<Contract[]>;
   createContract(contract: InsertContract): Promise<Contract>;
+  updateContract(id: number, contractData: ContractUpdate): Promise<Contract | undefined>;
+  // Also removes everything kept for the contract: versions, files, clauses, terms,
+  // analyses with their findings, jobs and its conversations
   deleteContract(id: number): Promise<boolean>;
 
+  // Contract version operations
+  // Versions of a contract, newest first
+  getContractVersions(contractId: number): Promise<ContractVersion[]>;
+  getContractVersion(contractId: number, version: number): Promise<ContractVersion | undefined>;
+  // Record the next version and make its text the contract's current text
+  addContractVersion(contractId: number, version: NewContractVersion): Promise<ContractVersion>;
+
+  // Contract file operations
+  getContractFileByContractId(contractId: number): Promise<ContractFile | undefined>;
+  createContractFile(file: InsertContractFile): Promise<ContractFile>;
+
+  // Clause operations
+  getClausesByContractId(contractId: number): Promise<Clause[]>;
+  replaceClauses(contractId: number, clauses: InsertClause[]): Promise<Clause[]>;
+
   // Analysis operations
   getAnalysis(id: number): Promise<Analysis | undefined>;
+  // Latest completed analysis of a contract
   getAnalysisByContractId(contractId: number): Promise<Analysis | undefined>;
+  // Every analysis run of a contract, newest first
+  getAnalysesByContractId(contractId: number): Promise<Analysis[]>;
   createAnalysis(analysis: InsertAnalysis): Promise<Analysis>;
+  // Store an analysis, its risky clauses, its blank fields and, while the analysed version is still current, the contract's new score as one unit
+  saveAnalysisResult(analysis: InsertAnalysis, riskyClauses: NewRiskyClause[], blankFields: NewBlankField[]): Promise<Analysis>;
 
   // Risky Clause operations
+  getRiskyClause(id: number): Promise<RiskyClause | undefined>;
   getRiskyClausesByAnalysisId(analysisId: number): Promise<RiskyClause[]>;
   createRiskyClause(clause: InsertRiskyClause): Promise<RiskyClause>;
+  updateRiskyClauseReview(id: number, review: RiskyClauseReview): Promise<RiskyClause | undefined>;
+
+  // Blank field operations
+  getBlankField(id: number): Promise<BlankField | undefined>;
+  getBlankFieldsByAnalysisId(analysisId: number): Promise<BlankField[]>;
+  fillBlankField(id: number, fill: BlankFieldFill): Promise<BlankField | undefined>;
+
+  // Contract term operations
+  // Key terms of a contract, in contract order
+  getContractTerms(contractId: number): Promise<ContractTerm[]>;
+  getContractTerm(id: number): Promise<ContractTerm | undefined>;
+  // Swap the extracted terms of a contract for new ones; terms a user entered or corrected stay
+  replaceExtractedContractTerms(contractId: number, terms: NewContractTerm[]): Promise<ContractTerm[]>;
+  createContractTerm(contractId: number, term: NewContractTerm): Promise<ContractTerm>;
+  updateContractTerm(id: number, data: ContractTermUpdate): Promise<ContractTerm | undefined>;
+  deleteContractTerm(id: number): Promise<boolean>;
+  // Key terms across a user's contracts, by contract and then in contract order
+  getContractTermsForUser(userId: number, filter?: ContractTermFilter): Promise<PortfolioContractTerm[]>;
+
+  // Playbook operations
+  getPlaybooksForUser(userId: number): Promise<Playbook[]>;
+  getSystemPlaybooks(): Promise<Playbook[]>;
+  getPlaybook(id: number): Promise<Playbook | undefined>;
+  createPlaybook(playbook: InsertPlaybook, firstVersion: NewPlaybookVersion): Promise<Playbook>;
+  updatePlaybook(id: number, data: Partial<Pick<Playbook, 'name' | 'description' | 'archived'>>): Promise<Playbook | undefined>;
+  addPlaybookVersion(playbookId: number, version: NewPlaybookVersion): Promise<PlaybookVersion>;
+  getPlaybookVersions(playbookId: number): Promise<PlaybookVersion[]>;
+  getPlaybookVersion(playbookId: number, version: number): Promise<PlaybookVersion | undefined>;
+  getPlaybookVersionById(id: number): Promise<PlaybookVersion | undefined>;
 
   // Saved Clause operations
-  getSavedClausesByUserId(userId: number): Promise<SavedClause[]>;
+  // A user's library, best search matches first, otherwise most recently updated first
+  getSavedClausesByUserId(userId: number, filter?: SavedClauseFilter): Promise<SavedClause[]>;
   getSavedClause(id: number): Promise<SavedClause | undefined>;
+  // Store a clause together with its first version
   createSavedClause(clause: InsertSavedClause): Promise<SavedClause>;
+  // Apply the changes and record the result as the clause's next version
+  updateSavedClause(id: number, changes: Partial<SavedClauseContent>, editedBy: number, changeNote?: string | null): Promise<SavedClause | undefined>;
+  // Versions of a saved clause, newest first
+  getSavedClauseVersions(savedClauseId: number): Promise<SavedClauseVersion[]>;
+  getSavedClauseVersion(savedClauseId: number, version: number): Promise<SavedClauseVersion | undefined>;
   deleteSavedClause(id: number): Promise<boolean>;
 
+  // Contract template operations
+  // The user's own templates and the built-in ones
+  getContractTemplatesForUser(userId: number): Promise<ContractTemplate[]>;
+  getSystemContractTemplates(): Promise<ContractTemplate[]>;
+  getContractTemplate(id: number): Promise<ContractTemplate | undefined>;
+  createContractTemplate(template: InsertContractTemplate): Promise<ContractTemplate>;
+  updateContractTemplate(id: number, data: ContractTemplateUpdate): Promise<ContractTemplate | undefined>;
+  deleteContractTemplate(id: number): Promise<boolean>;
+
   // Conversation operations
+  // Conversation lists put pinned conversations first, then the most recently active
   getConversationsByContractId(contractId: number): Promise<Conversation[]>;
+  // Conversations scoped to several contracts rather than one
+  getPortfolioConversations(userId: number): Promise<Conversation[]>;
+  // Conversations about pasted or uploaded text that is not a saved contract
+  getDocumentConversations(userId: number): Promise<Conversation[]>;
   getConversation(id: number): Promise<Conversation | undefined>;
   createConversation(conversation: InsertConversation): Promise<Conversation>;
-  updateConversation(id: number, messages: Message[]): Promise<Conversation | undefined>;
+  // New messages mark the conversation as active; renaming and pinning do not
+  updateConversation(id: number, update: ConversationUpdate): Promise<Conversation | undefined>;
+  deleteConversation(id: number): Promise<boolean>;
+
+  // Job operations
+  createJob(job: InsertJob): Promise<Job>;
+  getJob(id: number): Promise<Job | undefined>;
+  // Jobs of a contract, newest first
+  getJobsByContractId(contractId: number): Promise<Job[]>;
+  // Mark the oldest due queued job as running and return it, or nothing when the queue is empty
+  claimNextJob(): Promise<Job | undefined>;
+  updateJob(id: number, data: JobUpdate): Promise<Job | undefined>;
+  // Put running jobs claimed before the given time back in the queue. Those that
+  // have used all their attempts fail instead, so a job that crashes the worker
+  // is not retried forever. Returns the jobs changed.
+  requeueStaleJobs(lockedBefore: Date): Promise<Job[]>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private contracts: Map<number, Contract>;
+  private contractVersions: Map<number, ContractVersion>;
+  private contractFiles: Map<number, ContractFile>;
+  private clauses: Map<number, Clause>;
   private analyses: Map<number, Analysis>;
   private riskyClauses: Map<number, RiskyClause>;
+  private blankFields: Map<number, BlankField>;
+  private contractTerms: Map<number, ContractTerm>;
   private savedClauses: Map<number, SavedClause>;
+  private savedClauseVersions: Map<number, SavedClauseVersion>;
   private conversations: Map<number, Conversation>;
+  private playbooks: Map<number, Playbook>;
+  private playbookVersions: Map<number, PlaybookVersion>;
+  private contractTemplates: Map<number, ContractTemplate>;
+  private jobs: Map<number, Job>;
   
   private nextUserId: number;
   private nextContractId: number;
+  private nextContractVersionId: number;
+  private nextContractFileId: number;
+  private nextClauseId: number;
   private nextAnalysisId: number;
   private nextRiskyClauseId: number;
+  private nextBlankFieldId: number;
+  private nextContractTermId: number;
   private nextSavedClauseId: number;
+  private nextSavedClauseVersionId: number;
   private nextConversationId: number;
+  private nextPlaybookId: number;
+  private nextPlaybookVersionId: number;
+  private nextContractTemplateId: number;
+  private nextJobId: number;
 
   constructor() {
     this.users = new Map();
     this.contracts = new Map();
+    this.contractVersions = new Map();
+    this.contractFiles = new Map();
+    this.clauses = new Map();
     this.analyses = new Map();
     this.riskyClauses = new Map();
+    this.blankFields = new Map();
+    this.contractTerms = new Map();
     this.savedClauses = new Map();
+    this.savedClauseVersions = new Map();
     this.conversations = new Map();
+    this.playbooks = new Map();
+    this.playbookVersions = new Map();
+    this.contractTemplates = new Map();
+    this.jobs = new Map();
     
     this.nextUserId = 1;
     this.nextContractId = 1;
+    this.nextContractVersionId = 1;
+    this.nextContractFileId = 1;
+    this.nextClauseId = 1;
     this.nextAnalysisId = 1;
     this.nextRiskyClauseId = 1;
+    this.nextBlankFieldId = 1;
+    this.nextContractTermId = 1;
     this.nextSavedClauseId = 1;
+    this.nextSavedClauseVersionId = 1;
     this.nextConversationId = 1;
+    this.nextPlaybookId = 1;
+    this.nextPlaybookVersionId = 1;
+    this.nextContractTemplateId = 1;
+    this.nextJobId = 1;
     
     // Add some demo data
     this.addDemoData();
@@ -127,37 +362,219 @@ export class MemStorage implements IStorage {
   async createContract(insertContract: InsertContract): Promise<Contract> {
     const id = this.nextContractId++;
     const contract: Contract = { 
+      contractType: null,
+      riskScore: null,
+      riskLevel: null,
+      tags: [],
       ...insertContract, 
       id,
+      currentVersion: 1,
       uploadedAt: new Date()
     };
     this.contracts.set(id, contract);
     return contract;
   }
 
+  async updateContract(id: number, contractData: ContractUpdate): Promise<Contract | undefined> {
+    const contract = await this.getContract(id);
+    if (!contract) return undefined;
+    
+    const updatedContract = { ...contract, ...contractData };
+    this.contracts.set(id, updatedContract);
+    return updatedContract;
+  }
+
   async deleteContract(id: number): Promise<boolean> {
+    Array.from(this.contractVersions.values())
+      .filter((version) => version.contractId === id)
+      .forEach((version) => this.contractVersions.delete(version.id));
+    Array.from(this.contractFiles.values())
+      .filter((file) => file.contractId === id)
+      .forEach((file) => this.contractFiles.delete(file.id));
+    Array.from(this.clauses.values())
+      .filter((clause) => clause.contractId === id)
+      .forEach((clause) => this.clauses.delete(clause.id));
+    Array.from(this.contractTerms.values())
+      .filter((term) => term.contractId === id)
+      .forEach((term) => this.contractTerms.delete(term.id));
+    const analysisIds = new Set(
+      Array.from(this.analyses.values()).filter((analysis) => analysis.contractId === id).map((analysis) => analysis.id)
+    );
+    Array.from(this.riskyClauses.values())
+      .filter((riskyClause) => analysisIds.has(riskyClause.analysisId))
+      .forEach((riskyClause) => this.riskyClauses.delete(riskyClause.id));
+    Array.from(this.blankFields.values())
+      .filter((blankField) => analysisIds.has(blankField.analysisId))
+      .forEach((blankField) => this.blankFields.delete(blankField.id));
+    analysisIds.forEach((analysisId) => this.analyses.delete(analysisId));
+    Array.from(this.jobs.values())
+      .filter((job) => job.contractId === id)
+      .forEach((job) => this.jobs.delete(job.id));
+    Array.from(this.conversations.values())
+      .filter((conversation) => conversation.contractId === id)
+      .forEach((conversation) => this.conversations.delete(conversation.id));
     return this.contracts.delete(id);
   }
 
+  // Contract version operations
+  async getContractVersions(contractId: number): Promise<ContractVersion[]> {
+    return Array.from(this.contractVersions.values())
+      .filter((version) => version.contractId === contractId)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async getContractVersion(contractId: number, version: number): Promise<ContractVersion | undefined> {
+    return Array.from(this.contractVersions.values()).find(
+      (candidate) => candidate.contractId === contractId && candidate.version === version
+    );
+  }
+
+  async addContractVersion(contractId: number, newVersion: NewContractVersion): Promise<ContractVersion> {
+    const contract = this.contracts.get(contractId);
+    if (!contract) throw new Error(`Contract ${contractId} not found`);
+
+    const [latest] = await this.getContractVersions(contractId);
+    const version: ContractVersion = {
+      fileName: null,
+      note: null,
+      createdAt: new Date(),
+      ...newVersion,
+      id: this.nextContractVersionId++,
+      contractId,
+      version: (latest?.version ?? 0) + 1
+    };
+    this.contractVersions.set(version.id, version);
+
+    // A different text invalidates the previous score
+    const textChanged = version.originalText !== contract.originalText;
+    this.contracts.set(contractId, {
+      ...contract,
+      originalText: version.originalText,
+      fileType: version.fileType,
+      currentVersion: version.version,
+      ...(textChanged && { riskScore: null, riskLevel: null })
+    });
+    return version;
+  }
+
+  // Contract file operations
+  async getContractFileByContractId(contractId: number): Promise<ContractFile | undefined> {
+    return Array.from(this.contractFiles.values())
+      .filter((file) => file.contractId === contractId)
+      .sort((a, b) => b.version - a.version)[0];
+  }
+
+  async createContractFile(insertFile: InsertContractFile): Promise<ContractFile> {
+    const id = this.nextContractFileId++;
+    const file: ContractFile = {
+      version: 1,
+      ...insertFile,
+      id,
+      uploadedAt: new Date()
+    };
+    this.contractFiles.set(id, file);
+    return file;
+  }
+
+  // Clause operations
+  async getClausesByContractId(contractId: number): Promise<Clause[]> {
+    return Array.from(this.clauses.values())
+      .filter((clause) => clause.contractId === contractId)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  async replaceClauses(contractId: number, insertClauses: InsertClause[]): Promise<Clause[]> {
+    Array.from(this.clauses.values())
+      .filter((clause) => clause.contractId === contractId)
+      .forEach((clause) => this.clauses.delete(clause.id));
+
+    return insertClauses.map((insertClause) => {
+      const clause: Clause = {
+        parentKey: null,
+        number: null,
+        heading: null,
+        ...insertClause,
+        id: this.nextClauseId++
+      };
+      this.clauses.set(clause.id, clause);
+      return clause;
+    });
+  }
+
   // Analysis operations
   async getAnalysis(id: number): Promise<Analysis | undefined> {
     return this.analyses.get(id);
   }
 
   async getAnalysisByContractId(contractId: number): Promise<Analysis | undefined> {
-    return Array.from(this.analyses.values()).find(
-      (analysis) => analysis.contractId === contractId
+    return (await this.getAnalysesByContractId(contractId)).find(
+      (analysis) => analysis.status === AnalysisStatus.COMPLETED
     );
   }
 
+  async getAnalysesByContractId(contractId: number): Promise<Analysis[]> {
+    return Array.from(this.analyses.values())
+      .filter((analysis) => analysis.contractId === contractId)
+      .sort((a, b) => b.version - a.version);
+  }
+
   async createAnalysis(insertAnalysis: InsertAnalysis): Promise<Analysis> {
     const id = this.nextAnalysisId++;
-    const analysis: Analysis = { ...insertAnalysis, id };
+    const [latest] = await this.getAnalysesByContractId(insertAnalysis.contractId);
+    const analysis: Analysis = {
+      riskyClauseIndices: null,
+      playbookVersionId: null,
+      riskScore: null,
+      riskLevel: null,
+      scoreBreakdown: null,
+      contractVersion: null,
+      status: AnalysisStatus.COMPLETED,
+      engine: null,
+      provider: null,
+      model: null,
+      ...insertAnalysis,
+      id,
+      version: (latest?.version ?? 0) + 1,
+      createdAt: new Date()
+    };
     this.analyses.set(id, analysis);
     return analysis;
   }
 
+  async saveAnalysisResult(insertAnalysis: InsertAnalysis, newRiskyClauses: NewRiskyClause[], newBlankFields: NewBlankField[]): Promise<Analysis> {
+    const analysis = await this.createAnalysis(insertAnalysis);
+    for (const riskyClause of newRiskyClauses) {
+      await this.createRiskyClause({ ...riskyClause, analysisId: analysis.id });
+    }
+    for (const blankField of newBlankFields) {
+      const id = this.nextBlankFieldId++;
+      this.blankFields.set(id, {
+        clauseId: null,
+        suggestion: null,
+        ...blankField,
+        analysisId: analysis.id,
+        id,
+        filledWith: null,
+        filledBy: null,
+        filledAt: null
+      });
+    }
+    // A run of text the contract no longer has is kept, but does not score the contract
+    const contract = this.contracts.get(analysis.contractId);
+    if (contract && contract.currentVersion === analysis.contractVersion) {
+      await this.updateContract(analysis.contractId, {
+        riskScore: analysis.riskScore,
+        riskLevel: analysis.riskLevel
+      });
+    }
+    return analysis;
+  }
+
   // Risky Clause operations
+  async getRiskyClause(id: number): Promise<RiskyClause | undefined> {
+    return this.riskyClauses.get(id);
+  }
+
   async getRiskyClausesByAnalysisId(analysisId: number): Promise<RiskyClause[]> {
     return Array.from(this.riskyClauses.values()).filter(
       (clause) => clause.analysisId === analysisId
@@ -166,43 +583,336 @@ export class MemStorage implements IStorage {
 
   async createRiskyClause(insertClause: InsertRiskyClause): Promise<RiskyClause> {
     const id = this.nextRiskyClauseId++;
-    const clause: RiskyClause = { ...insertClause, id };
+    const clause: RiskyClause = {
+      clauseId: null,
+      startOffset: null,
+      endOffset: null,
+      suggestion: null,
+      source: 'ai',
+      ruleId: null,
+      category: null,
+      ...insertClause,
+      id,
+      reviewStatus: ReviewStatus.OPEN,
+      editedSuggestion: null,
+      reviewedBy: null,
+      reviewedAt: null
+    };
     this.riskyClauses.set(id, clause);
     return clause;
   }
 
-  // Saved Clause operations
-  async getSavedClausesByUserId(userId: number): Promise<SavedClause[]> {
-    return Array.from(this.savedClauses.values()).filter(
-      (clause) => clause.userId === userId
+  async updateRiskyClauseReview(id: number, review: RiskyClauseReview): Promise<RiskyClause | undefined> {
+    const clause = this.riskyClauses.get(id);
+    if (!clause) return undefined;
+
+    const updatedClause = { ...clause, ...review };
+    this.riskyClauses.set(id, updatedClause);
+    return updatedClause;
+  }
+
+  // Blank field operations
+  async getBlankField(id: number): Promise<BlankField | undefined> {
+    return this.blankFields.get(id);
+  }
+
+  async getBlankFieldsByAnalysisId(analysisId: number): Promise<BlankField[]> {
+    return Array.from(this.blankFields.values())
+      .filter((blankField) => blankField.analysisId === analysisId)
+      .sort((a, b) => a.startOffset - b.startOffset);
+  }
+
+  async fillBlankField(id: number, fill: BlankFieldFill): Promise<BlankField | undefined> {
+    const blankField = this.blankFields.get(id);
+    if (!blankField) return undefined;
+
+    const updatedField = { ...blankField, ...fill };
+    this.blankFields.set(id, updatedField);
+    return updatedField;
+  }
+
+  // Contract term operations
+  async getContractTerms(contractId: number): Promise<ContractTerm[]> {
+    return Array.from(this.contractTerms.values())
+      .filter((term) => term.contractId === contractId)
+      .sort(compareContractTerms);
+  }
+
+  async getContractTerm(id: number): Promise<ContractTerm | undefined> {
+    return this.contractTerms.get(id);
+  }
+
+  async replaceExtractedContractTerms(contractId: number, terms: NewContractTerm[]): Promise<ContractTerm[]> {
+    Array.from(this.contractTerms.values())
+      .filter((term) => term.contractId === contractId && term.source === ContractTermSource.EXTRACTED)
+      .forEach((term) => this.contractTerms.delete(term.id));
+    for (const term of terms) {
+      await this.createContractTerm(contractId, term);
+    }
+    return this.getContractTerms(contractId);
+  }
+
+  async createContractTerm(contractId: number, newTerm: NewContractTerm): Promise<ContractTerm> {
+    const id = this.nextContractTermId++;
+    const term: ContractTerm = {
+      analysisId: null,
+      clauseId: null,
+      startOffset: null,
+      endOffset: null,
+      sourceText: null,
+      source: ContractTermSource.EXTRACTED,
+      editedBy: null,
+      editedAt: null,
+      ...newTerm,
+      contractId,
+      id,
+      createdAt: new Date()
+    };
+    this.contractTerms.set(id, term);
+    return term;
+  }
+
+  async updateContractTerm(id: number, data: ContractTermUpdate): Promise<ContractTerm | undefined> {
+    const term = this.contractTerms.get(id);
+    if (!term) return undefined;
+
+    const updatedTerm = { ...term, ...data };
+    this.contractTerms.set(id, updatedTerm);
+    return updatedTerm;
+  }
+
+  async deleteContractTerm(id: number): Promise<boolean> {
+    return this.contractTerms.delete(id);
+  }
+
+  async getContractTermsForUser(userId: number, filter: ContractTermFilter = {}): Promise<PortfolioContractTerm[]> {
+    const query = filter.query?.toLowerCase();
+    const userContracts = (await this.getContractsByUserId(userId))
+      .filter((contract) => filter.contractId === undefined || contract.id === filter.contractId)
+      .sort((a, b) => a.id - b.id);
+
+    return userContracts.flatMap((contract) =>
+      Array.from(this.contractTerms.values())
+        .filter((term) =>
+          term.contractId === contract.id &&
+          (!filter.type || term.type === filter.type) &&
+          (!query || contract.name.toLowerCase().includes(query) || !!term.sourceText?.toLowerCase().includes(query))
+        )
+        .sort(compareContractTerms)
+        .map((term) => ({ ...term, contractName: contract.name, contractType: contract.contractType }))
+    );
+  }
+
+  // Playbook operations
+  async getPlaybooksForUser(userId: number): Promise<Playbook[]> {
+    return Array.from(this.playbooks.values()).filter(
+      (playbook) => !playbook.archived && (playbook.userId === userId || playbook.userId === null)
+    );
+  }
+
+  async getSystemPlaybooks(): Promise<Playbook[]> {
+    return Array.from(this.playbooks.values()).filter((playbook) => playbook.userId === null);
+  }
+
+  async getPlaybook(id: number): Promise<Playbook | undefined> {
+    return this.playbooks.get(id);
+  }
+
+  async createPlaybook(insertPlaybook: InsertPlaybook, firstVersion: NewPlaybookVersion): Promise<Playbook> {
+    const id = this.nextPlaybookId++;
+    const now = new Date();
+    const playbook: Playbook = {
+      userId: null,
+      description: null,
+      ...insertPlaybook,
+      id,
+      currentVersion: 0,
+      archived: false,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.playbooks.set(id, playbook);
+    await this.addPlaybookVersion(id, firstVersion);
+    return this.playbooks.get(id)!;
+  }
+
+  async updatePlaybook(id: number, data: Partial<Pick<Playbook, 'name' | 'description' | 'archived'>>): Promise<Playbook | undefined> {
+    const playbook = this.playbooks.get(id);
+    if (!playbook) return undefined;
+
+    const updatedPlaybook = { ...playbook, ...data, updatedAt: new Date() };
+    this.playbooks.set(id, updatedPlaybook);
+    return updatedPlaybook;
+  }
+
+  async addPlaybookVersion(playbookId: number, newVersion: NewPlaybookVersion): Promise<PlaybookVersion> {
+    const playbook = this.playbooks.get(playbookId);
+    if (!playbook) throw new Error(`Playbook ${playbookId} not found`);
+
+    const version: PlaybookVersion = {
+      notes: null,
+      createdBy: null,
+      ...newVersion,
+      id: this.nextPlaybookVersionId++,
+      playbookId,
+      version: playbook.currentVersion + 1,
+      createdAt: new Date()
+    };
+    this.playbookVersions.set(version.id, version);
+    this.playbooks.set(playbookId, { ...playbook, currentVersion: version.version, updatedAt: new Date() });
+    return version;
+  }
+
+  async getPlaybookVersions(playbookId: number): Promise<PlaybookVersion[]> {
+    return Array.from(this.playbookVersions.values())
+      .filter((version) => version.playbookId === playbookId)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async getPlaybookVersion(playbookId: number, version: number): Promise<PlaybookVersion | undefined> {
+    return Array.from(this.playbookVersions.values()).find(
+      (candidate) => candidate.playbookId === playbookId && candidate.version === version
     );
   }
 
+  async getPlaybookVersionById(id: number): Promise<PlaybookVersion | undefined> {
+    return this.playbookVersions.get(id);
+  }
+
+  // Saved Clause operations
+  async getSavedClausesByUserId(userId: number, filter: SavedClauseFilter = {}): Promise<SavedClause[]> {
+    return Array.from(this.savedClauses.values())
+      .filter((clause) => clause.userId === userId && matchesSavedClauseFilter(clause, filter))
+      .sort((a, b) => (b.updatedAt?.getTime() ?? 0) - (a.updatedAt?.getTime() ?? 0));
+  }
+
   async getSavedClause(id: number): Promise<SavedClause | undefined> {
     return this.savedClauses.get(id);
   }
 
   async createSavedClause(insertClause: InsertSavedClause): Promise<SavedClause> {
     const id = this.nextSavedClauseId++;
-    const timestamp = new Date().toISOString();
-    const clause: SavedClause = { 
-      ...insertClause, 
+    const now = new Date();
+    const clause: SavedClause = {
+      title: '',
+      folder: null,
+      tags: [],
+      jurisdiction: null,
+      notes: null,
+      ...insertClause,
       id,
-      createdAt: timestamp
+      currentVersion: 1,
+      createdAt: now,
+      updatedAt: now
     };
     this.savedClauses.set(id, clause);
+    this.recordSavedClauseVersion(clause, insertClause.userId, null);
     return clause;
   }
 
+  async updateSavedClause(id: number, changes: Partial<SavedClauseContent>, editedBy: number, changeNote: string | null = null): Promise<SavedClause | undefined> {
+    const current = this.savedClauses.get(id);
+    if (!current) return undefined;
+
+    const clause: SavedClause = { ...current, ...changes, currentVersion: current.currentVersion + 1, updatedAt: new Date() };
+    this.savedClauses.set(id, clause);
+    this.recordSavedClauseVersion(clause, editedBy, changeNote);
+    return clause;
+  }
+
+  private recordSavedClauseVersion(clause: SavedClause, createdBy: number, changeNote: string | null) {
+    const version: SavedClauseVersion = {
+      ...savedClauseContent(clause),
+      id: this.nextSavedClauseVersionId++,
+      savedClauseId: clause.id,
+      version: clause.currentVersion,
+      changeNote,
+      createdBy,
+      createdAt: clause.updatedAt
+    };
+    this.savedClauseVersions.set(version.id, version);
+  }
+
+  async getSavedClauseVersions(savedClauseId: number): Promise<SavedClauseVersion[]> {
+    return Array.from(this.savedClauseVersions.values())
+      .filter((version) => version.savedClauseId === savedClauseId)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async getSavedClauseVersion(savedClauseId: number, version: number): Promise<SavedClauseVersion | undefined> {
+    return Array.from(this.savedClauseVersions.values()).find(
+      (candidate) => candidate.savedClauseId === savedClauseId && candidate.version === version
+    );
+  }
+
   async deleteSavedClause(id: number): Promise<boolean> {
+    Array.from(this.savedClauseVersions.values())
+      .filter((version) => version.savedClauseId === id)
+      .forEach((version) => this.savedClauseVersions.delete(version.id));
     return this.savedClauses.delete(id);
   }
 
+  // Contract template operations
+  async getContractTemplatesForUser(userId: number): Promise<ContractTemplate[]> {
+    return Array.from(this.contractTemplates.values()).filter(
+      (template) => template.userId === userId || template.userId === null
+    );
+  }
+
+  async getSystemContractTemplates(): Promise<ContractTemplate[]> {
+    return Array.from(this.contractTemplates.values()).filter((template) => template.userId === null);
+  }
+
+  async getContractTemplate(id: number): Promise<ContractTemplate | undefined> {
+    return this.contractTemplates.get(id);
+  }
+
+  async createContractTemplate(insertTemplate: InsertContractTemplate): Promise<ContractTemplate> {
+    const id = this.nextContractTemplateId++;
+    const now = new Date();
+    const template: ContractTemplate = {
+      userId: null,
+      description: null,
+      contractType: null,
+      ...insertTemplate,
+      id,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.contractTemplates.set(id, template);
+    return template;
+  }
+
+  async updateContractTemplate(id: number, data: ContractTemplateUpdate): Promise<ContractTemplate | undefined> {
+    const template = this.contractTemplates.get(id);
+    if (!template) return undefined;
+
+    const updatedTemplate = { ...template, ...data, updatedAt: new Date() };
+    this.contractTemplates.set(id, updatedTemplate);
+    return updatedTemplate;
+  }
+
+  async deleteContractTemplate(id: number): Promise<boolean> {
+    return this.contractTemplates.delete(id);
+  }
+
   // Conversation operations
   async getConversationsByContractId(contractId: number): Promise<Conversation[]> {
-    return Array.from(this.conversations.values()).filter(
-      (conversation) => conversation.contractId === contractId
-    );
+    return Array.from(this.conversations.values())
+      .filter((conversation) => conversation.contractId === contractId)
+      .sort(compareConversations);
+  }
+
+  async getPortfolioConversations(userId: number): Promise<Conversation[]> {
+    return Array.from(this.conversations.values())
+      .filter((conversation) => conversation.userId === userId && conversation.scope)
+      .sort(compareConversations);
+  }
+
+  async getDocumentConversations(userId: number): Promise<Conversation[]> {
+    return Array.from(this.conversations.values())
+      .filter((conversation) => conversation.userId === userId && conversation.document)
+      .sort(compareConversations);
   }
 
   async getConversation(id: number): Promise<Conversation | undefined> {
@@ -213,6 +923,11 @@ export class MemStorage implements IStorage {
     const id = this.nextConversationId++;
     const timestamp = new Date().toISOString();
     const conversation: Conversation = { 
+      contractId: null,
+      scope: null,
+      document: null,
+      title: null,
+      pinned: false,
       ...insertConversation, 
       id,
       createdAt: timestamp,
@@ -222,21 +937,100 @@ export class MemStorage implements IStorage {
     return conversation;
   }
 
-  async updateConversation(id: number, messages: Message[]): Promise<Conversation | undefined> {
+  async updateConversation(id: number, update: ConversationUpdate): Promise<Conversation | undefined> {
     const conversation = await this.getConversation(id);
     if (!conversation) return undefined;
     
-    const timestamp = new Date().toISOString();
     const updatedConversation = { 
       ...conversation, 
-      messages, 
-      updatedAt: timestamp 
+      ...update, 
+      updatedAt: update.messages ? new Date() : conversation.updatedAt
     };
     this.conversations.set(id, updatedConversation);
     return updatedConversation;
   }
 
+  async deleteConversation(id: number): Promise<boolean> {
+    return this.conversations.delete(id);
+  }
+
   // Add demo data
+  // Job operations
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const id = this.nextJobId++;
+    const now = new Date();
+    const job: Job = {
+      contractId: null,
+      maxAttempts: 3,
+      ...insertJob,
+      id,
+      status: JobStatus.QUEUED,
+      stage: null,
+      progress: 0,
+      attempts: 0,
+      runAt: now,
+      lockedAt: null,
+      result: null,
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+      completedAt: null
+    };
+    this.jobs.set(id, job);
+    return job;
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async getJobsByContractId(contractId: number): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter((job) => job.contractId === contractId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async claimNextJob(): Promise<Job | undefined> {
+    const now = new Date();
+    const next = Array.from(this.jobs.values())
+      .filter((job) => job.status === JobStatus.QUEUED && job.runAt <= now)
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime() || a.id - b.id)[0];
+    if (!next) return undefined;
+
+    const claimed: Job = {
+      ...next,
+      status: JobStatus.RUNNING,
+      attempts: next.attempts + 1,
+      lockedAt: now,
+      updatedAt: now
+    };
+    this.jobs.set(claimed.id, claimed);
+    return claimed;
+  }
+
+  async updateJob(id: number, data: JobUpdate): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    const updatedJob = { ...job, ...data, updatedAt: new Date() };
+    this.jobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async requeueStaleJobs(lockedBefore: Date): Promise<Job[]> {
+    const stale = Array.from(this.jobs.values()).filter(
+      (job) => job.status === JobStatus.RUNNING && job.lockedAt !== null && job.lockedAt < lockedBefore
+    );
+    const changed: Job[] = [];
+    for (const job of stale) {
+      const updated = await this.updateJob(job.id, job.attempts >= job.maxAttempts
+        ? { status: JobStatus.FAILED, lockedAt: null, error: STALE_JOB_ERROR, completedAt: new Date() }
+        : { status: JobStatus.QUEUED, lockedAt: null });
+      if (updated) changed.push(updated);
+    }
+    return changed;
+  }
+
   private addDemoData() {
     // Add a demo user
     const user: User = {
@@ -258,28 +1052,32 @@ export class MemStorage implements IStorage {
         name: 'Client Services Agreement',
         fileType: 'pdf',
         contractType: 'Service Contract',
-        riskScore: 'high',
+        riskScore: 72,
+        riskLevel: 'high',
         uploadedAt: '2023-08-15T12:00:00Z'
       },
       {
         name: 'Employment Agreement',
         fileType: 'docx',
         contractType: 'Employment',
-        riskScore: 'low',
+        riskScore: 12,
+        riskLevel: 'low',
         uploadedAt: '2023-08-10T10:30:00Z'
       },
       {
         name: 'Non-Disclosure Agreement',
         fileType: 'pdf',
         contractType: 'NDA',
-        riskScore: 'medium',
+        riskScore: 38,
+        riskLevel: 'medium',
         uploadedAt: '2023-08-05T15:45:00Z'
       },
       {
         name: 'Software License Agreement',
         fileType: 'docx',
         contractType: 'License',
-        riskScore: 'medium',
+        riskScore: 31,
+        riskLevel: 'medium',
         uploadedAt: '2023-07-29T09:15:00Z'
       }
     ];
@@ -293,6 +1091,9 @@ export class MemStorage implements IStorage {
         originalText: 'Sample contract text for ' + contractInfo.name,
         contractType: contractInfo.contractType,
         riskScore: contractInfo.riskScore,
+        riskLevel: contractInfo.riskLevel,
+        currentVersion: 1,
+        tags: [],
         uploadedAt: contractInfo.uploadedAt
       };
       this.contracts.set(contract.id, contract);
@@ -311,23 +1112,44 @@ export class MemStorage implements IStorage {
         ],
         riskyClauseIndices: [1, 3],
         fullAnalysis: {
-          riskLevel: contractInfo.riskScore,
+          riskLevel: contractInfo.riskLevel,
           riskReason: "This contract has some concerning clauses that place undue burden on one party",
           suggestions: "Consider negotiating the indemnification and non-compete clauses"
-        }
+        },
+        playbookVersionId: null,
+        riskScore: contractInfo.riskScore,
+        riskLevel: contractInfo.riskLevel,
+        scoreBreakdown: null,
+        version: 1,
+        contractVersion: 1,
+        status: AnalysisStatus.COMPLETED,
+        engine: null,
+        provider: null,
+        model: null,
+        createdAt: new Date(contractInfo.uploadedAt)
       };
       this.analyses.set(analysis.id, analysis);
 
       // Add risky clauses
-      if (contractInfo.riskScore === 'high' || contractInfo.riskScore === 'medium') {
+      if (contractInfo.riskLevel === 'high' || contractInfo.riskLevel === 'medium') {
         const riskyClause1: RiskyClause = {
           id: this.nextRiskyClauseId++,
           analysisId: analysis.id,
           clauseIndex: 1,
+          clauseId: null,
+          startOffset: null,
+          endOffset: null,
           clauseText: "Contractor agrees not to engage in any business activity competitive with Client's business for a period of five (5) years in any geographic location where Client conducts business.",
           riskLevel: 'high',
           explanation: "This non-compete clause is overly broad in both duration and geographic scope, making it potentially unenforceable in many jurisdictions.",
-          suggestion: "Contractor agrees not to engage in substantially similar business activity competitive with Client's core business for a period of one (1) year limited to regions where Contractor directly provided services to Client."
+          suggestion: "Contractor agrees not to engage in substantially similar business activity competitive with Client's core business for a period of one (1) year limited to regions where Contractor directly provided services to Client.",
+          source: 'ai',
+          ruleId: null,
+          category: 'compliance',
+          reviewStatus: ReviewStatus.OPEN,
+          editedSuggestion: null,
+          reviewedBy: null,
+          reviewedAt: null
         };
         this.riskyClauses.set(riskyClause1.id, riskyClause1);
 
@@ -335,10 +1157,20 @@ export class MemStorage implements IStorage {
           id: this.nextRiskyClauseId++,
           analysisId: analysis.id,
           clauseIndex: 3,
+          clauseId: null,
+          startOffset: null,
+          endOffset: null,
           clauseText: "Contractor shall indemnify, defend, and hold harmless Client from any and all claims, damages, liabilities, costs, and expenses, including reasonable attorneys' fees arising from or relating to Contractor's services.",
           riskLevel: 'medium',
           explanation: "This indemnification clause is broad and doesn't limit the contractor's liability to third-party claims or direct damages.",
-          suggestion: "Contractor shall indemnify, defend, and hold harmless Client from any third-party claims, damages, liabilities, costs, and expenses, including reasonable attorneys' fees arising directly from Contractor's gross negligence or willful misconduct in performing the services."
+          suggestion: "Contractor shall indemnify, defend, and hold harmless Client from any third-party claims, damages, liabilities, costs, and expenses, including reasonable attorneys' fees arising directly from Contractor's gross negligence or willful misconduct in performing the services.",
+          source: 'ai',
+          ruleId: null,
+          category: 'liability',
+          reviewStatus: ReviewStatus.OPEN,
+          editedSuggestion: null,
+          reviewedBy: null,
+          reviewedAt: null
         };
         this.riskyClauses.set(riskyClause2.id, riskyClause2);
       }
@@ -349,6 +1181,8 @@ export class MemStorage implements IStorage {
           id: this.nextConversationId++,
           userId: user.id,
           contractId: contract.id,
+          scope: null,
+          document: null,
           messages: [
             {
               id: uuidv4(),
@@ -386,25 +1220,57 @@ export class MemStorage implements IStorage {
     const savedClause1: SavedClause = {
       id: this.nextSavedClauseId++,
       userId: user.id,
+      title: 'Mutual exclusion of indirect damages',
       clauseType: 'Limitation of Liability',
       tone: 'formal',
       content: 'Neither party shall be liable for any indirect, incidental, special, consequential or punitive damages, including without limitation, loss of profits, data, use, goodwill, or other intangible losses, resulting from (i) your access to or use of or inability to access or use the Services; (ii) any conduct or content of any third party on the Services; (iii) any content obtained from the Services; and (iv) unauthorized access, use or alteration of your transmissions or content, whether based on warranty, contract, tort (including negligence) or any other legal theory, whether or not we have been informed of the possibility of such damage.',
-      createdAt: '2023-08-10T14:25:00Z'
+      folder: 'Commercial/Liability',
+      tags: ['mutual', 'SaaS'],
+      jurisdiction: 'New York',
+      notes: null,
+      currentVersion: 1,
+      createdAt: new Date('2023-08-10T14:25:00Z'),
+      updatedAt: new Date('2023-08-10T14:25:00Z')
     };
     this.savedClauses.set(savedClause1.id, savedClause1);
 
     const savedClause2: SavedClause = {
       id: this.nextSavedClauseId++,
       userId: user.id,
+      title: 'Net 30 with late payment interest',
       clauseType: 'Payment Terms',
       tone: 'neutral',
       content: 'Client shall pay all invoices within thirty (30) days of receipt. Late payments shall accrue interest at a rate of 1.5% per month or the highest rate allowed by applicable law, whichever is lower, from the date such payment was due until the date paid. Contractor shall be entitled to recover all reasonable costs and expenses (including, without limitation, reasonable attorneys\' fees) incurred in collecting late payments.',
-      createdAt: '2023-08-05T09:30:00Z'
+      folder: 'Commercial/Payment',
+      tags: ['supplier-friendly'],
+      jurisdiction: null,
+      notes: 'Our standard position; accept net 45 at most.',
+      currentVersion: 1,
+      createdAt: new Date('2023-08-05T09:30:00Z'),
+      updatedAt: new Date('2023-08-05T09:30:00Z')
     };
     this.savedClauses.set(savedClause2.id, savedClause2);
+    [savedClause1, savedClause2].forEach((clause) => this.recordSavedClauseVersion(clause, user.id, null));
   }
 }
 
+// Text searched in the clause library, weighted towards titles
+const savedClauseDocument = sql`(
+  setweight(to_tsvector('english', ${savedClauses.title}), 'A') ||
+  setweight(to_tsvector('english', ${savedClauses.clauseType} || ' ' || ${savedClauses.tags}::text), 'B') ||
+  setweight(to_tsvector('english', ${savedClauses.content} || ' ' || coalesce(${savedClauses.notes}, '')), 'C')
+)`;
+
+// Version number for a contract's next analysis, computed inside the insert
+const nextAnalysisVersion = (contractId: number) =>
+  sql<number>`(select coalesce(max(${analyses.version}), 0) + 1 from ${analyses} where ${analyses.contractId} = ${contractId})`;
+
+// Database counterpart of compareContractTerms
+const contractTermOrder = [sql`${contractTerms.startOffset} asc nulls last`, asc(contractTerms.id)];
+
+// Database counterpart of compareConversations
+const conversationOrder = [desc(conversations.pinned), sql`${conversations.updatedAt} desc nulls last`, desc(conversations.id)];
+
 export class DatabaseStorage implements IStorage {
   // User operations
   async getUser(id: number): Promise<User | undefined> {
@@ -413,7 +1279,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getUserByEmail(email: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.email, email));
+    const [user] = await db.select().from(users).where(sql`lower(${users.email}) = lower(${email})`);
     return user || undefined;
   }
 
@@ -461,10 +1327,117 @@ export class DatabaseStorage implements IStorage {
     return contract;
   }
 
+  async updateContract(id: number, contractData: ContractUpdate): Promise<Contract | undefined> {
+    const [updatedContract] = await db
+      .update(contracts)
+      .set(contractData)
+      .where(eq(contracts.id, id))
+      .returning();
+    return updatedContract || undefined;
+  }
+
   async deleteContract(id: number): Promise<boolean> {
-    const result = await db.delete(contracts).where(eq(contracts.id, id));
-    // The delete operation returns an object, but we just need to know if it was successful
-    return !!result;
+    return db.transaction(async (tx) => {
+      const contractAnalyses = tx.select({ id: analyses.id }).from(analyses).where(eq(analyses.contractId, id));
+      await tx.delete(riskyClauses).where(inArray(riskyClauses.analysisId, contractAnalyses));
+      await tx.delete(blankFields).where(inArray(blankFields.analysisId, contractAnalyses));
+      await tx.delete(contractTerms).where(eq(contractTerms.contractId, id));
+      await tx.delete(analyses).where(eq(analyses.contractId, id));
+      await tx.delete(jobs).where(eq(jobs.contractId, id));
+      await tx.delete(conversations).where(eq(conversations.contractId, id));
+      await tx.delete(contractVersions).where(eq(contractVersions.contractId, id));
+      await tx.delete(contractFiles).where(eq(contractFiles.contractId, id));
+      await tx.delete(clauses).where(eq(clauses.contractId, id));
+      const deleted = await tx.delete(contracts).where(eq(contracts.id, id)).returning({ id: contracts.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Contract version operations
+  async getContractVersions(contractId: number): Promise<ContractVersion[]> {
+    return db
+      .select()
+      .from(contractVersions)
+      .where(eq(contractVersions.contractId, contractId))
+      .orderBy(desc(contractVersions.version));
+  }
+
+  async getContractVersion(contractId: number, version: number): Promise<ContractVersion | undefined> {
+    const [contractVersion] = await db
+      .select()
+      .from(contractVersions)
+      .where(and(eq(contractVersions.contractId, contractId), eq(contractVersions.version, version)));
+    return contractVersion || undefined;
+  }
+
+  async addContractVersion(contractId: number, newVersion: NewContractVersion): Promise<ContractVersion> {
+    return db.transaction(async (tx) => {
+      // Lock the contract row so concurrent uploads get consecutive version numbers
+      const [contract] = await tx
+        .select()
+        .from(contracts)
+        .where(eq(contracts.id, contractId))
+        .for('update');
+      if (!contract) throw new Error(`Contract ${contractId} not found`);
+
+      const [version] = await tx
+        .insert(contractVersions)
+        .values({
+          ...newVersion,
+          contractId,
+          version: sql<number>`(select coalesce(max(${contractVersions.version}), 0) + 1 from ${contractVersions} where ${contractVersions.contractId} = ${contractId})`
+        })
+        .returning();
+
+      // A different text invalidates the previous score
+      const textChanged = version.originalText !== contract.originalText;
+      await tx
+        .update(contracts)
+        .set({
+          originalText: version.originalText,
+          fileType: version.fileType,
+          currentVersion: version.version,
+          ...(textChanged && { riskScore: null, riskLevel: null })
+        })
+        .where(eq(contracts.id, contractId));
+      return version;
+    });
+  }
+
+  // Contract file operations
+  async getContractFileByContractId(contractId: number): Promise<ContractFile | undefined> {
+    const [file] = await db
+      .select()
+      .from(contractFiles)
+      .where(eq(contractFiles.contractId, contractId))
+      .orderBy(desc(contractFiles.version))
+      .limit(1);
+    return file || undefined;
+  }
+
+  async createContractFile(insertFile: InsertContractFile): Promise<ContractFile> {
+    const [file] = await db
+      .insert(contractFiles)
+      .values(insertFile)
+      .returning();
+    return file;
+  }
+
+  // Clause operations
+  async getClausesByContractId(contractId: number): Promise<Clause[]> {
+    return db
+      .select()
+      .from(clauses)
+      .where(eq(clauses.contractId, contractId))
+      .orderBy(asc(clauses.position));
+  }
+
+  async replaceClauses(contractId: number, insertClauses: InsertClause[]): Promise<Clause[]> {
+    return db.transaction(async (tx) => {
+      await tx.delete(clauses).where(eq(clauses.contractId, contractId));
+      if (insertClauses.length === 0) return [];
+      return tx.insert(clauses).values(insertClauses).returning();
+    });
   }
 
   // Analysis operations
@@ -474,19 +1447,76 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getAnalysisByContractId(contractId: number): Promise<Analysis | undefined> {
-    const [analysis] = await db.select().from(analyses).where(eq(analyses.contractId, contractId));
+    const [analysis] = await db
+      .select()
+      .from(analyses)
+      .where(and(eq(analyses.contractId, contractId), eq(analyses.status, AnalysisStatus.COMPLETED)))
+      .orderBy(desc(analyses.version))
+      .limit(1);
     return analysis || undefined;
   }
 
+  async getAnalysesByContractId(contractId: number): Promise<Analysis[]> {
+    return db
+      .select()
+      .from(analyses)
+      .where(eq(analyses.contractId, contractId))
+      .orderBy(desc(analyses.version));
+  }
+
   async createAnalysis(insertAnalysis: InsertAnalysis): Promise<Analysis> {
     const [analysis] = await db
       .insert(analyses)
-      .values(insertAnalysis)
+      .values({ ...insertAnalysis, version: nextAnalysisVersion(insertAnalysis.contractId) })
       .returning();
     return analysis;
   }
 
+  async saveAnalysisResult(insertAnalysis: InsertAnalysis, newRiskyClauses: NewRiskyClause[], newBlankFields: NewBlankField[]): Promise<Analysis> {
+    return db.transaction(async (tx) => {
+      // Lock the contract so concurrent runs get consecutive version numbers
+      // and a new contract version cannot land between the check and the update
+      const [contract] = await tx
+        .select({ currentVersion: contracts.currentVersion })
+        .from(contracts)
+        .where(eq(contracts.id, insertAnalysis.contractId))
+        .for('update');
+      
+      const [analysis] = await tx
+        .insert(analyses)
+        .values({ ...insertAnalysis, version: nextAnalysisVersion(insertAnalysis.contractId) })
+        .returning();
+      
+      if (newRiskyClauses.length > 0) {
+        await tx
+          .insert(riskyClauses)
+          .values(newRiskyClauses.map((riskyClause) => ({ ...riskyClause, analysisId: analysis.id })));
+      }
+      
+      if (newBlankFields.length > 0) {
+        await tx
+          .insert(blankFields)
+          .values(newBlankFields.map((blankField) => ({ ...blankField, analysisId: analysis.id })));
+      }
+      
+      // A run of text the contract no longer has is kept, but does not score the contract
+      if (contract && contract.currentVersion === analysis.contractVersion) {
+        await tx
+          .update(contracts)
+          .set({ riskScore: analysis.riskScore, riskLevel: analysis.riskLevel })
+          .where(eq(contracts.id, analysis.contractId));
+      }
+      
+      return analysis;
+    });
+  }
+
   // Risky Clause operations
+  async getRiskyClause(id: number): Promise<RiskyClause | undefined> {
+    const [clause] = await db.select().from(riskyClauses).where(eq(riskyClauses.id, id));
+    return clause;
+  }
+
   async getRiskyClausesByAnalysisId(analysisId: number): Promise<RiskyClause[]> {
     return db.select().from(riskyClauses).where(eq(riskyClauses.analysisId, analysisId));
   }
@@ -499,9 +1529,213 @@ export class DatabaseStorage implements IStorage {
     return clause;
   }
 
+  async updateRiskyClauseReview(id: number, review: RiskyClauseReview): Promise<RiskyClause | undefined> {
+    const [clause] = await db
+      .update(riskyClauses)
+      .set(review)
+      .where(eq(riskyClauses.id, id))
+      .returning();
+    return clause;
+  }
+
+  // Blank field operations
+  async getBlankField(id: number): Promise<BlankField | undefined> {
+    const [blankField] = await db.select().from(blankFields).where(eq(blankFields.id, id));
+    return blankField;
+  }
+
+  async getBlankFieldsByAnalysisId(analysisId: number): Promise<BlankField[]> {
+    return db
+      .select()
+      .from(blankFields)
+      .where(eq(blankFields.analysisId, analysisId))
+      .orderBy(asc(blankFields.startOffset));
+  }
+
+  async fillBlankField(id: number, fill: BlankFieldFill): Promise<BlankField | undefined> {
+    const [blankField] = await db
+      .update(blankFields)
+      .set(fill)
+      .where(eq(blankFields.id, id))
+      .returning();
+    return blankField;
+  }
+
+  // Contract term operations
+  async getContractTerms(contractId: number): Promise<ContractTerm[]> {
+    return db
+      .select()
+      .from(contractTerms)
+      .where(eq(contractTerms.contractId, contractId))
+      .orderBy(...contractTermOrder);
+  }
+
+  async getContractTerm(id: number): Promise<ContractTerm | undefined> {
+    const [term] = await db.select().from(contractTerms).where(eq(contractTerms.id, id));
+    return term;
+  }
+
+  async replaceExtractedContractTerms(contractId: number, terms: NewContractTerm[]): Promise<ContractTerm[]> {
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(contractTerms)
+        .where(and(eq(contractTerms.contractId, contractId), eq(contractTerms.source, ContractTermSource.EXTRACTED)));
+      if (terms.length > 0) {
+        await tx.insert(contractTerms).values(terms.map((term) => ({ ...term, contractId })));
+      }
+    });
+    return this.getContractTerms(contractId);
+  }
+
+  async createContractTerm(contractId: number, newTerm: NewContractTerm): Promise<ContractTerm> {
+    const [term] = await db
+      .insert(contractTerms)
+      .values({ ...newTerm, contractId })
+      .returning();
+    return term;
+  }
+
+  async updateContractTerm(id: number, data: ContractTermUpdate): Promise<ContractTerm | undefined> {
+    const [term] = await db
+      .update(contractTerms)
+      .set(data)
+      .where(eq(contractTerms.id, id))
+      .returning();
+    return term;
+  }
+
+  async deleteContractTerm(id: number): Promise<boolean> {
+    const deleted = await db.delete(contractTerms).where(eq(contractTerms.id, id)).returning({ id: contractTerms.id });
+    return deleted.length > 0;
+  }
+
+  async getContractTermsForUser(userId: number, filter: ContractTermFilter = {}): Promise<PortfolioContractTerm[]> {
+    const conditions = [eq(contracts.userId, userId)];
+    if (filter.type) conditions.push(eq(contractTerms.type, filter.type));
+    if (filter.contractId !== undefined) conditions.push(eq(contractTerms.contractId, filter.contractId));
+    if (filter.query) {
+      const pattern = `%${filter.query.replace(/[\\%_]/g, '\\$&')}%`;
+      conditions.push(or(ilike(contracts.name, pattern), ilike(contractTerms.sourceText, pattern))!);
+    }
+
+    const rows = await db
+      .select({ term: contractTerms, contractName: contracts.name, contractType: contracts.contractType })
+      .from(contractTerms)
+      .innerJoin(contracts, eq(contractTerms.contractId, contracts.id))
+      .where(and(...conditions))
+      .orderBy(asc(contractTerms.contractId), ...contractTermOrder);
+    return rows.map((row) => ({ ...row.term, contractName: row.contractName, contractType: row.contractType }));
+  }
+
+  // Playbook operations
+  async getPlaybooksForUser(userId: number): Promise<Playbook[]> {
+    return db
+      .select()
+      .from(playbooks)
+      .where(and(
+        eq(playbooks.archived, false),
+        or(eq(playbooks.userId, userId), isNull(playbooks.userId))
+      ))
+      .orderBy(asc(playbooks.id));
+  }
+
+  async getSystemPlaybooks(): Promise<Playbook[]> {
+    return db.select().from(playbooks).where(isNull(playbooks.userId));
+  }
+
+  async getPlaybook(id: number): Promise<Playbook | undefined> {
+    const [playbook] = await db.select().from(playbooks).where(eq(playbooks.id, id));
+    return playbook || undefined;
+  }
+
+  async createPlaybook(insertPlaybook: InsertPlaybook, firstVersion: NewPlaybookVersion): Promise<Playbook> {
+    return db.transaction(async (tx) => {
+      const [playbook] = await tx
+        .insert(playbooks)
+        .values({ ...insertPlaybook, currentVersion: 1 })
+        .returning();
+      await tx
+        .insert(playbookVersions)
+        .values({ ...firstVersion, playbookId: playbook.id, version: 1 });
+      return playbook;
+    });
+  }
+
+  async updatePlaybook(id: number, data: Partial<Pick<Playbook, 'name' | 'description' | 'archived'>>): Promise<Playbook | undefined> {
+    const [playbook] = await db
+      .update(playbooks)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(playbooks.id, id))
+      .returning();
+    return playbook || undefined;
+  }
+
+  async addPlaybookVersion(playbookId: number, newVersion: NewPlaybookVersion): Promise<PlaybookVersion> {
+    return db.transaction(async (tx) => {
+      // Lock the playbook row so concurrent edits get consecutive version numbers
+      const [playbook] = await tx
+        .select()
+        .from(playbooks)
+        .where(eq(playbooks.id, playbookId))
+        .for('update');
+      if (!playbook) throw new Error(`Playbook ${playbookId} not found`);
+
+      const [version] = await tx
+        .insert(playbookVersions)
+        .values({ ...newVersion, playbookId, version: playbook.currentVersion + 1 })
+        .returning();
+      await tx
+        .update(playbooks)
+        .set({ currentVersion: version.version, updatedAt: new Date() })
+        .where(eq(playbooks.id, playbookId));
+      return version;
+    });
+  }
+
+  async getPlaybookVersions(playbookId: number): Promise<PlaybookVersion[]> {
+    return db
+      .select()
+      .from(playbookVersions)
+      .where(eq(playbookVersions.playbookId, playbookId))
+      .orderBy(desc(playbookVersions.version));
+  }
+
+  async getPlaybookVersion(playbookId: number, version: number): Promise<PlaybookVersion | undefined> {
+    const [playbookVersion] = await db
+      .select()
+      .from(playbookVersions)
+      .where(and(eq(playbookVersions.playbookId, playbookId), eq(playbookVersions.version, version)));
+    return playbookVersion || undefined;
+  }
+
+  async getPlaybookVersionById(id: number): Promise<PlaybookVersion | undefined> {
+    const [playbookVersion] = await db.select().from(playbookVersions).where(eq(playbookVersions.id, id));
+    return playbookVersion || undefined;
+  }
+
   // Saved Clause operations
-  async getSavedClausesByUserId(userId: number): Promise<SavedClause[]> {
-    return db.select().from(savedClauses).where(eq(savedClauses.userId, userId));
+  async getSavedClausesByUserId(userId: number, filter: SavedClauseFilter = {}): Promise<SavedClause[]> {
+    const { query, folder, tag, jurisdiction, clauseType, tone } = filter;
+    const conditions = [eq(savedClauses.userId, userId)];
+    if (folder) {
+      conditions.push(or(eq(savedClauses.folder, folder), sql`starts_with(${savedClauses.folder}, ${`${folder}/`})`)!);
+    }
+    if (tag) {
+      conditions.push(sql`exists (select 1 from jsonb_array_elements_text(${savedClauses.tags}) as tag where lower(tag) = lower(${tag}))`);
+    }
+    if (jurisdiction) conditions.push(sql`lower(${savedClauses.jurisdiction}) = lower(${jurisdiction})`);
+    if (clauseType) conditions.push(eq(savedClauses.clauseType, clauseType));
+    if (tone) conditions.push(eq(savedClauses.tone, tone));
+
+    if (!query) {
+      return db.select().from(savedClauses).where(and(...conditions)).orderBy(desc(savedClauses.updatedAt));
+    }
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+    return db
+      .select()
+      .from(savedClauses)
+      .where(and(...conditions, sql`${savedClauseDocument} @@ ${tsQuery}`))
+      .orderBy(desc(sql`ts_rank(${savedClauseDocument}, ${tsQuery})`), desc(savedClauses.updatedAt));
   }
 
   async getSavedClause(id: number): Promise<SavedClause | undefined> {
@@ -510,21 +1744,125 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createSavedClause(insertClause: InsertSavedClause): Promise<SavedClause> {
-    const [clause] = await db
-      .insert(savedClauses)
-      .values(insertClause)
-      .returning();
-    return clause;
+    return db.transaction(async (tx) => {
+      const [clause] = await tx
+        .insert(savedClauses)
+        .values({ ...insertClause, currentVersion: 1 })
+        .returning();
+      await tx
+        .insert(savedClauseVersions)
+        .values({ ...savedClauseContent(clause), savedClauseId: clause.id, version: 1, createdBy: clause.userId });
+      return clause;
+    });
+  }
+
+  async updateSavedClause(id: number, changes: Partial<SavedClauseContent>, editedBy: number, changeNote: string | null = null): Promise<SavedClause | undefined> {
+    return db.transaction(async (tx) => {
+      // Lock the clause row so concurrent edits get consecutive version numbers
+      const [current] = await tx
+        .select()
+        .from(savedClauses)
+        .where(eq(savedClauses.id, id))
+        .for('update');
+      if (!current) return undefined;
+
+      const [clause] = await tx
+        .update(savedClauses)
+        .set({ ...changes, currentVersion: current.currentVersion + 1, updatedAt: new Date() })
+        .where(eq(savedClauses.id, id))
+        .returning();
+      await tx
+        .insert(savedClauseVersions)
+        .values({ ...savedClauseContent(clause), savedClauseId: id, version: clause.currentVersion, changeNote, createdBy: editedBy });
+      return clause;
+    });
+  }
+
+  async getSavedClauseVersions(savedClauseId: number): Promise<SavedClauseVersion[]> {
+    return db
+      .select()
+      .from(savedClauseVersions)
+      .where(eq(savedClauseVersions.savedClauseId, savedClauseId))
+      .orderBy(desc(savedClauseVersions.version));
+  }
+
+  async getSavedClauseVersion(savedClauseId: number, version: number): Promise<SavedClauseVersion | undefined> {
+    const [savedClauseVersion] = await db
+      .select()
+      .from(savedClauseVersions)
+      .where(and(eq(savedClauseVersions.savedClauseId, savedClauseId), eq(savedClauseVersions.version, version)));
+    return savedClauseVersion || undefined;
   }
 
   async deleteSavedClause(id: number): Promise<boolean> {
+    await db.delete(savedClauseVersions).where(eq(savedClauseVersions.savedClauseId, id));
     const result = await db.delete(savedClauses).where(eq(savedClauses.id, id));
     return !!result;
   }
 
+  // Contract template operations
+  async getContractTemplatesForUser(userId: number): Promise<ContractTemplate[]> {
+    return db
+      .select()
+      .from(contractTemplates)
+      .where(or(eq(contractTemplates.userId, userId), isNull(contractTemplates.userId)))
+      .orderBy(asc(contractTemplates.id));
+  }
+
+  async getSystemContractTemplates(): Promise<ContractTemplate[]> {
+    return db.select().from(contractTemplates).where(isNull(contractTemplates.userId));
+  }
+
+  async getContractTemplate(id: number): Promise<ContractTemplate | undefined> {
+    const [template] = await db.select().from(contractTemplates).where(eq(contractTemplates.id, id));
+    return template || undefined;
+  }
+
+  async createContractTemplate(insertTemplate: InsertContractTemplate): Promise<ContractTemplate> {
+    const [template] = await db
+      .insert(contractTemplates)
+      .values(insertTemplate)
+      .returning();
+    return template;
+  }
+
+  async updateContractTemplate(id: number, data: ContractTemplateUpdate): Promise<ContractTemplate | undefined> {
+    const [template] = await db
+      .update(contractTemplates)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(contractTemplates.id, id))
+      .returning();
+    return template || undefined;
+  }
+
+  async deleteContractTemplate(id: number): Promise<boolean> {
+    const result = await db.delete(contractTemplates).where(eq(contractTemplates.id, id));
+    return !!result;
+  }
+
   // Conversation operations
   async getConversationsByContractId(contractId: number): Promise<Conversation[]> {
-    return db.select().from(conversations).where(eq(conversations.contractId, contractId));
+    return db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.contractId, contractId))
+      .orderBy(...conversationOrder);
+  }
+
+  async getPortfolioConversations(userId: number): Promise<Conversation[]> {
+    return db
+      .select()
+      .from(conversations)
+      .where(and(eq(conversations.userId, userId), isNotNull(conversations.scope)))
+      .orderBy(...conversationOrder);
+  }
+
+  async getDocumentConversations(userId: number): Promise<Conversation[]> {
+    return db
+      .select()
+      .from(conversations)
+      .where(and(eq(conversations.userId, userId), isNotNull(conversations.document)))
+      .orderBy(...conversationOrder);
   }
 
   async getConversation(id: number): Promise<Conversation | undefined> {
@@ -540,17 +1878,91 @@ export class DatabaseStorage implements IStorage {
     return conversation;
   }
 
-  async updateConversation(id: number, messages: Message[]): Promise<Conversation | undefined> {
+  async updateConversation(id: number, update: ConversationUpdate): Promise<Conversation | undefined> {
     const [updatedConversation] = await db
       .update(conversations)
-      .set({ 
-        messages,
-        updatedAt: new Date()
-      })
+      .set(update.messages ? { ...update, updatedAt: new Date() } : update)
       .where(eq(conversations.id, id))
       .returning();
     return updatedConversation || undefined;
   }
+
+  async deleteConversation(id: number): Promise<boolean> {
+    const result = await db.delete(conversations).where(eq(conversations.id, id)).returning({ id: conversations.id });
+    return result.length > 0;
+  }
+
+  // Job operations
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const [job] = await db
+      .insert(jobs)
+      .values(insertJob)
+      .returning();
+    return job;
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job || undefined;
+  }
+
+  async getJobsByContractId(contractId: number): Promise<Job[]> {
+    return db.select().from(jobs).where(eq(jobs.contractId, contractId)).orderBy(desc(jobs.id));
+  }
+
+  async claimNextJob(): Promise<Job | undefined> {
+    return db.transaction(async (tx) => {
+      // SKIP LOCKED lets several workers poll the queue without claiming the same job
+      const [next] = await tx
+        .select({ id: jobs.id })
+        .from(jobs)
+        .where(and(eq(jobs.status, JobStatus.QUEUED), lte(jobs.runAt, new Date())))
+        .orderBy(asc(jobs.runAt), asc(jobs.id))
+        .limit(1)
+        .for('update', { skipLocked: true });
+      if (!next) return undefined;
+
+      const [claimed] = await tx
+        .update(jobs)
+        .set({
+          status: JobStatus.RUNNING,
+          attempts: sql`${jobs.attempts} + 1`,
+          lockedAt: new Date(),
+          updatedAt: new Date()
+        })
+        .where(eq(jobs.id, next.id))
+        .returning();
+      return claimed;
+    });
+  }
+
+  async updateJob(id: number, data: JobUpdate): Promise<Job | undefined> {
+    const [updatedJob] = await db
+      .update(jobs)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return updatedJob || undefined;
+  }
+
+  async requeueStaleJobs(lockedBefore: Date): Promise<Job[]> {
+    return db.transaction(async (tx) => {
+      const now = new Date();
+      const stale = and(eq(jobs.status, JobStatus.RUNNING), lt(jobs.lockedAt, lockedBefore));
+      const failed = await tx
+        .update(jobs)
+        .set({ status: JobStatus.FAILED, lockedAt: null, error: STALE_JOB_ERROR, completedAt: now, updatedAt: now })
+        .where(and(stale, gte(jobs.attempts, jobs.maxAttempts)))
+        .returning();
+      // Failed jobs are no longer running, so only those with attempts left are requeued
+      const requeued = await tx
+        .update(jobs)
+        .set({ status: JobStatus.QUEUED, lockedAt: null, updatedAt: now })
+        .where(stale)
+        .returning();
+      return [...failed, ...requeued];
+    });
+  }
 }
 
 // Use database storage instead of in-memory storage
@@ -0,0 +1,266 @@
+import { storage } from "./storage";
+import { rulesEqual } from "./risk-engine";
+import { PLACEHOLDER_PATTERN, findPlaceholderNames, slotApplies } from "@shared/templates";
+import {
+  TemplateVariableKind,
+  type ContractTemplate,
+  type CreateContractTemplate,
+  type SavedClause,
+  type TemplateAnswers,
+  type TemplateVariable,
+} from "@shared/schema";
+
+// Raised when answers do not fit a template's questionnaire or a slot's clause
+// is gone. Field errors are keyed by variable name for the questionnaire.
+export class TemplateError extends Error {
+  fields: Record<string, string>;
+
+  constructor(message: string, fields: Record<string, string> = {}) {
+    super(message);
+    this.name = "TemplateError";
+    this.fields = fields;
+  }
+}
+
+export interface AssembledContract {
+  text: string;
+  // Slots that made it into the contract, in order
+  slotIds: string[];
+  // Placeholders left in the text: unanswered optional variables, or ones the template does not declare
+  unresolved: string[];
+}
+
+const DEFAULT_TEMPLATE_NAME = "Services Agreement";
+
+const DEFAULT_TEMPLATE: CreateContractTemplate = {
+  name: DEFAULT_TEMPLATE_NAME,
+  description: "A mutual services agreement with payment, term, confidentiality and optional non-solicitation terms.",
+  contractType: "services",
+  variables: [
+    { name: "CLIENT NAME", label: "Client name", kind: TemplateVariableKind.TEXT, required: true },
+    { name: "PROVIDER NAME", label: "Service provider name", kind: TemplateVariableKind.TEXT, required: true },
+    { name: "EFFECTIVE DATE", label: "Effective date", kind: TemplateVariableKind.DATE, required: true },
+    { name: "SERVICES", label: "Description of the services", kind: TemplateVariableKind.TEXT, required: true },
+    { name: "FEE AMOUNT", label: "Fees (USD)", kind: TemplateVariableKind.AMOUNT, required: true },
+    {
+      name: "BILLING",
+      label: "Billing frequency",
+      kind: TemplateVariableKind.CHOICE,
+      required: true,
+      options: ["monthly", "quarterly", "on completion of the Services"],
+    },
+    { name: "PAYMENT DAYS", label: "Days to pay an invoice", kind: TemplateVariableKind.NUMBER, required: true },
+    { name: "TERM MONTHS", label: "Initial term (months)", kind: TemplateVariableKind.NUMBER, required: true },
+    { name: "STATE", label: "Governing law (state)", kind: TemplateVariableKind.TEXT, required: true },
+    {
+      name: "CONFIDENTIALITY",
+      label: "Include confidentiality obligations?",
+      kind: TemplateVariableKind.YES_NO,
+      required: true,
+    },
+    {
+      name: "NON-SOLICITATION",
+      label: "Include a non-solicitation clause?",
+      kind: TemplateVariableKind.YES_NO,
+      required: true,
+    },
+  ],
+  slots: [
+    {
+      id: "preamble",
+      title: "Parties",
+      numbered: false,
+      content: 'SERVICES AGREEMENT\n\nThis Services Agreement (the "Agreement") is entered into as of [EFFECTIVE DATE] (the "Effective Date") by and between [CLIENT NAME] ("Client") and [PROVIDER NAME] ("Provider").',
+    },
+    {
+      id: "services",
+      title: "Services",
+      numbered: true,
+      content: "Provider shall provide the following services to Client: [SERVICES] (the \"Services\"). Provider shall perform the Services in a professional and workmanlike manner.",
+    },
+    {
+      id: "payment",
+      title: "Fees and Payment",
+      numbered: true,
+      content: "1.1 Fees. Client shall pay Provider fees of [FEE AMOUNT], invoiced [BILLING].\n1.2 Payment Terms. Client shall pay each undisputed invoice within [PAYMENT DAYS] days of receipt.",
+    },
+    {
+      id: "term",
+      title: "Term and Termination",
+      numbered: true,
+      content: "1.1 Term. This Agreement begins on the Effective Date and continues for [TERM MONTHS] months unless terminated earlier.\n1.2 Termination for Cause. Either party may terminate this Agreement on written notice if the other party materially breaches it and fails to cure the breach within thirty (30) days after receiving notice.",
+    },
+    {
+      id: "confidentiality",
+      title: "Confidentiality",
+      numbered: true,
+      condition: { variable: "CONFIDENTIALITY", equals: true },
+      content: "Each party shall keep the other party's Confidential Information confidential, use it only to perform this Agreement, and protect it with at least a reasonable degree of care. These obligations survive for three (3) years after this Agreement ends.",
+    },
+    {
+      id: "non-solicitation",
+      title: "Non-Solicitation",
+      numbered: true,
+      condition: { variable: "NON-SOLICITATION", equals: true },
+      content: "During the term of this Agreement and for twelve (12) months afterwards, neither party shall solicit for employment any employee of the other party who was involved in the Services.",
+    },
+    {
+      id: "governing-law",
+      title: "Governing Law",
+      numbered: true,
+      content: "This Agreement is governed by the laws of the State of [STATE], without regard to its conflict of laws rules.",
+    },
+    {
+      id: "signatures",
+      title: "Signatures",
+      numbered: false,
+      content: "IN WITNESS WHEREOF, the parties have executed this Agreement as of the Effective Date.\n\n[CLIENT NAME]\nBy: ____________________\n\n[PROVIDER NAME]\nBy: ____________________",
+    },
+  ],
+};
+
+// Create the built-in template on first use and keep it in step with
+// DEFAULT_TEMPLATE between releases
+async function syncDefaultTemplate(): Promise<ContractTemplate> {
+  const existing = (await storage.getSystemContractTemplates()).find((template) => template.name === DEFAULT_TEMPLATE_NAME);
+  const definition = {
+    description: DEFAULT_TEMPLATE.description ?? null,
+    contractType: DEFAULT_TEMPLATE.contractType ?? null,
+    variables: DEFAULT_TEMPLATE.variables,
+    slots: DEFAULT_TEMPLATE.slots,
+  };
+
+  if (!existing) {
+    return storage.createContractTemplate({ userId: null, name: DEFAULT_TEMPLATE_NAME, ...definition });
+  }
+  const stored = {
+    description: existing.description,
+    contractType: existing.contractType,
+    variables: existing.variables,
+    slots: existing.slots,
+  };
+  if (!rulesEqual(stored, definition)) {
+    return (await storage.updateContractTemplate(existing.id, definition))!;
+  }
+  return existing;
+}
+
+let defaultTemplate: Promise<ContractTemplate> | null = null;
+
+export function ensureDefaultTemplate(): Promise<ContractTemplate> {
+  if (!defaultTemplate) {
+    defaultTemplate = syncDefaultTemplate().catch((error) => {
+      defaultTemplate = null;
+      throw error;
+    });
+  }
+  return defaultTemplate;
+}
+
+export function canAccessTemplate(template: ContractTemplate, userId: number): boolean {
+  return template.userId === null || template.userId === userId;
+}
+
+const dateFormat = new Intl.DateTimeFormat("en-US", { year: "numeric", month: "long", day: "numeric", timeZone: "UTC" });
+const amountFormat = new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" });
+
+// Check one answer against its variable, returning the value conditions see
+// and the text that replaces the placeholder
+function resolveAnswer(variable: TemplateVariable, answer: string | number | boolean):
+  { value: string | boolean; text: string } | { error: string } {
+  switch (variable.kind) {
+    case TemplateVariableKind.YES_NO: {
+      if (typeof answer !== "boolean" && !/^(yes|no|true|false)$/i.test(String(answer).trim())) {
+        return { error: "Answer yes or no" };
+      }
+      const value = typeof answer === "boolean" ? answer : /^(yes|true)$/i.test(String(answer).trim());
+      return { value, text: value ? "Yes" : "No" };
+    }
+    case TemplateVariableKind.DATE: {
+      const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(String(answer).trim());
+      const date = match ? new Date(Date.UTC(+match[1], +match[2] - 1, +match[3])) : null;
+      if (!date || date.getUTCDate() !== +match![3]) return { error: "Enter a date as YYYY-MM-DD" };
+      return { value: String(answer).trim(), text: dateFormat.format(date) };
+    }
+    case TemplateVariableKind.AMOUNT:
+    case TemplateVariableKind.NUMBER: {
+      const number = typeof answer === "number" ? answer : Number(String(answer).replace(/[$,\s]/g, ""));
+      if (!Number.isFinite(number) || number < 0) return { error: "Enter a number" };
+      return {
+        value: String(number),
+        text: variable.kind === TemplateVariableKind.AMOUNT ? amountFormat.format(number) : number.toLocaleString("en-US"),
+      };
+    }
+    case TemplateVariableKind.CHOICE: {
+      const value = String(answer).trim();
+      if (!variable.options?.includes(value)) return { error: "Pick one of the options" };
+      return { value, text: value };
+    }
+    default: {
+      const value = String(answer).trim();
+      return { value, text: value };
+    }
+  }
+}
+
+// Number a slot as a top-level section. Sub-sections in its text ("1.1", "11.2")
+// take the slot's number, and a number the text starts with is dropped.
+function numberSlot(number: number, title: string, content: string): string {
+  const body = content
+    .replace(/^\d+\.?[ \t]+(?!\d)/, "")
+    .replace(/^\d+(?=(?:\.\d+)+[ \t.])/gm, String(number));
+  return `${number}. ${title}\n${body}`;
+}
+
+// Build a contract's text from a template: check the answers, drop slots whose
+// condition fails, number the rest and fill in the placeholders
+export function assembleContract(
+  template: Pick<ContractTemplate, "variables" | "slots">,
+  answers: TemplateAnswers,
+  savedClauses: SavedClause[],
+): AssembledContract {
+  const values: TemplateAnswers = {};
+  const texts = new Map<string, string>();
+  const fields: Record<string, string> = {};
+
+  for (const variable of template.variables) {
+    const answer = answers[variable.name];
+    if (answer === undefined || answer === null || String(answer).trim() === "") {
+      if (variable.required) fields[variable.name] = "An answer is required";
+      continue;
+    }
+    const resolved = resolveAnswer(variable, answer);
+    if ("error" in resolved) {
+      fields[variable.name] = resolved.error;
+      continue;
+    }
+    values[variable.name] = resolved.value;
+    texts.set(variable.name, resolved.text);
+  }
+  if (Object.keys(fields).length > 0) {
+    throw new TemplateError("Some answers are missing or invalid", fields);
+  }
+
+  const slotIds: string[] = [];
+  const parts: string[] = [];
+  let number = 0;
+  for (const slot of template.slots) {
+    if (!slotApplies(slot, values)) continue;
+
+    let content = slot.content;
+    if (slot.savedClauseId !== undefined) {
+      content = savedClauses.find((clause) => clause.id === slot.savedClauseId)?.content;
+      if (content === undefined) {
+        throw new TemplateError(`The library clause used for "${slot.title}" no longer exists`);
+      }
+    }
+
+    slotIds.push(slot.id);
+    parts.push(slot.numbered ? numberSlot(++number, slot.title, content!.trim()) : content!.trim());
+  }
+
+  const text = parts
+    .join("\n\n")
+    .replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => texts.get(name) ?? placeholder);
+  return { text, slotIds, unresolved: findPlaceholderNames(text) };
+}
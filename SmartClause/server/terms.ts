@@ -0,0 +1,418 @@
+import { findClauseForRange } from "./segmenter";
+import { findDurations, type StatedDuration } from "./risk-engine";
+import { findPartyDefinitions } from "./blanks";
+import { type NewContractTerm } from "./storage";
+import { CONTRACT_TERM_LABELS, MULTI_VALUED_TERM_TYPES, formatContractTerm } from "@shared/terms";
+import {
+  ContractTermSource,
+  ContractTermType,
+  type Clause,
+  type ContractTerm,
+  type ContractTermTypeType,
+  type ContractTermValues,
+  type PortfolioContractTerm,
+} from "@shared/schema";
+
+interface Sentence {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface Extracted<T extends ContractTermTypeType = ContractTermTypeType> {
+  type: T;
+  value: ContractTermValues[T];
+  start: number;
+  end: number;
+  confidence: number;
+}
+
+// Abbreviations whose full stop does not end a sentence
+const ABBREVIATION = /\b(?:Inc|Ltd|Corp|Co|No|Nos|Mr|Mrs|Ms|Dr|St|Sec|vs|e\.g|i\.e|U\.S|L\.L\.C)\.$/i;
+const SENTENCE_END = /[.;!?](?=\s+["“(]?[A-Z0-9])|\n/g;
+
+const MONTHS = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+const MONTH_NAME = "(January|February|March|April|May|June|July|August|September|October|November|December)";
+const DATE_PATTERNS = [
+  new RegExp(`\\b${MONTH_NAME}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, "gi"),
+  new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?(?:\\s+day\\s+of)?\\s+${MONTH_NAME},?\\s+(\\d{4})\\b`, "gi"),
+  /\b(\d{4})-(\d{2})-(\d{2})\b/g,
+  /\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/g,
+];
+
+const GOVERNING_LAW = /\b(?:governed by|construed (?:in accordance with|under)|interpreted (?:in accordance with|under))\b[^.;]{0,60}?\blaws?\s+of\s+(?:the\s+)?(?:(?:State|Commonwealth|Province|Republic|Kingdom)\s+of\s+)?([A-Z][\w.]*(?:\s+(?:and\s+)?[A-Z][\w.]*){0,3})/;
+
+// "$25,000", "USD 25,000", "25,000 EUR"
+const MONEY = /(?:(US\$|\$|€|£)\s?|\b(USD|EUR|GBP|CAD|AUD)\s?)(\d[\d,]*(?:\.\d{1,2})?)(?:\s*(million|thousand))?|\b(\d[\d,]*(?:\.\d{1,2})?)\s?(USD|EUR|GBP|CAD|AUD)\b/g;
+const CURRENCY_SYMBOLS: Record<string, string> = { "US$": "USD", "$": "USD", "€": "EUR", "£": "GBP" };
+const MULTIPLIERS: Record<string, number> = { million: 1_000_000, thousand: 1_000 };
+
+const FREQUENCIES: [RegExp, string][] = [
+  [/\b(?:monthly|per month|each month|every month)\b/i, "monthly"],
+  [/\b(?:quarterly|per quarter|each quarter)\b/i, "quarterly"],
+  [/\b(?:annually|annual|yearly|per year|per annum|each year)\b/i, "annually"],
+  [/\b(?:weekly|per week)\b/i, "weekly"],
+  [/\b(?:hourly|per hour)\b/i, "hourly"],
+  [/\b(?:one-time|one time|lump sum)\b/i, "one-time"],
+];
+
+// What a notice in a sentence is for
+const NOTICE_PURPOSES: [RegExp, string][] = [
+  [/\bnon-renewal\b|\bnot to renew\b|\brenew/i, "non-renewal"],
+  [/\bterminat/i, "termination"],
+  [/\b(?:increase|change|adjust)\w*\b[^.;]{0,40}\b(?:price|fee|rate)s?\b|\b(?:price|fee|rate)s?\b[^.;]{0,40}\b(?:increase|change|adjust)/i, "price change"],
+  [/\bassign/i, "assignment"],
+  [/\b(?:amend|modif)/i, "amendment"],
+  [/\bsuspen/i, "suspension"],
+];
+
+const TERMINATION_RIGHT = /\b([Ee]ither [Pp]arty|[Ee]ach [Pp]arty|[Bb]oth [Pp]arties|[Tt]he [Pp]arties|(?:the\s+)?[A-Z]\w*(?:\s+[A-Z]\w*)?)\s+(?:may|shall have the right to|shall be entitled to|is entitled to|has the right to|reserves the right to)\s+(?:immediately\s+)?terminate\b/;
+
+// Split text into sentences, keeping their offsets; lines end sentences too,
+// since clauses and list items are often written without a full stop
+function splitSentences(text: string): Sentence[] {
+  const sentences: Sentence[] = [];
+  let start = 0;
+  const push = (end: number) => {
+    const raw = text.slice(start, end);
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    if (trimmed) sentences.push({ start: start + leading, end: start + leading + trimmed.length, text: trimmed });
+  };
+
+  for (const match of Array.from(text.matchAll(SENTENCE_END))) {
+    const end = match.index! + 1;
+    if (match[0] === "." && ABBREVIATION.test(text.slice(Math.max(start, end - 8), end))) continue;
+    push(match[0] === "\n" ? match.index! : end);
+    start = end;
+  }
+  push(text.length);
+  return sentences;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+// The first calendar date written in a text, as YYYY-MM-DD. Slashed dates are read month first.
+function findDate(text: string): { date: string; index: number } | null {
+  const found: { date: string; index: number }[] = [];
+  DATE_PATTERNS.forEach((pattern, kind) => {
+    for (const match of Array.from(text.matchAll(pattern))) {
+      const [, a, b, c] = match;
+      const date = kind === 0 ? toIsoDate(+c, MONTHS.indexOf(a.toLowerCase()) + 1, +b)
+        : kind === 1 ? toIsoDate(+c, MONTHS.indexOf(b.toLowerCase()) + 1, +a)
+        : kind === 2 ? toIsoDate(+a, +b, +c)
+        : toIsoDate(+c, +a, +b);
+      if (date) found.push({ date, index: match.index! });
+    }
+  });
+  return found.sort((x, y) => x.index - y.index)[0] ?? null;
+}
+
+// A period that is notice rather than a term or cure period: "thirty (30)
+// days' written notice", "60 days prior to renewal", "notice of at least 30 days"
+function isNoticePeriod(sentence: string, duration: StatedDuration): boolean {
+  const after = sentence.slice(duration.index + duration.text.length, duration.index + duration.text.length + 30);
+  const before = sentence.slice(Math.max(0, duration.index - 30), duration.index);
+  return /^['’]?s?\s*(?:(?:prior\s+)?(?:written\s+)?notice|prior|before|in advance|advance)/i.test(after) ||
+    /\bnotice\s+(?:period\s+)?(?:of\s+)?(?:at least\s+|not less than\s+|no less than\s+)?$/i.test(before);
+}
+
+function findMoney(text: string): { amount: number; currency: string | null } | null {
+  MONEY.lastIndex = 0;
+  const match = MONEY.exec(text);
+  if (!match) return null;
+  const [, symbol, code, prefixed, multiplier, suffixed, suffixCode] = match;
+  const amount = parseFloat((prefixed ?? suffixed).replace(/,/g, "")) * (multiplier ? MULTIPLIERS[multiplier.toLowerCase()] : 1);
+  return { amount, currency: symbol ? CURRENCY_SYMBOLS[symbol] : (code ?? suffixCode ?? null) };
+}
+
+// "Either party" and "each party" read the same; a defined party keeps its label
+function normaliseTerminatingParty(subject: string): string {
+  const party = subject.replace(/^the\s+/i, "");
+  if (/^(?:either|each) party$/i.test(party)) return "Either party";
+  if (/^(?:both parties|parties)$/i.test(party)) return "Both parties";
+  return party;
+}
+
+function extractParties(text: string): Extracted[] {
+  const seen = new Set<string>();
+  return findPartyDefinitions(text).flatMap((party) => {
+    if (seen.has(party.label)) return [];
+    seen.add(party.label);
+    return [{
+      type: ContractTermType.PARTY,
+      value: { name: party.name, role: party.label },
+      start: party.start,
+      end: party.start + party.name.length,
+      confidence: 0.85,
+    }];
+  });
+}
+
+function extractEffectiveDate(sentences: Sentence[]): Extracted[] {
+  const candidates: Extracted<"effectiveDate">[] = [];
+  for (const sentence of sentences) {
+    const date = findDate(sentence.text);
+    const mentionsEffectiveDate = /\bEffective Date\b/.test(sentence.text);
+    if (date && (mentionsEffectiveDate || /\beffective\s+(?:as\s+of|on|from)\b/i.test(sentence.text))) {
+      candidates.push({ type: ContractTermType.EFFECTIVE_DATE, value: { date: date.date, description: null }, start: sentence.start, end: sentence.end, confidence: 0.9 });
+    } else if (date && sentence.start < 1000 && /\b(?:dated|entered into|made)\b[^.;]{0,40}\b(?:as of|on)\s*$/i.test(sentence.text.slice(0, date.index))) {
+      candidates.push({ type: ContractTermType.EFFECTIVE_DATE, value: { date: date.date, description: null }, start: sentence.start, end: sentence.end, confidence: 0.7 });
+    } else if (mentionsEffectiveDate) {
+      // The Effective Date defined as an event: "means the date of last signature below"
+      const defined = sentence.text.match(/["“]?Effective Date["”]?\)?\s+(?:means|shall mean|shall be|is)\s+([^.;]{3,120})/);
+      if (defined) {
+        candidates.push({ type: ContractTermType.EFFECTIVE_DATE, value: { date: null, description: defined[1].trim() }, start: sentence.start, end: sentence.end, confidence: 0.6 });
+      }
+    }
+  }
+  return candidates.sort((a, b) => b.confidence - a.confidence || a.start - b.start).slice(0, 1);
+}
+
+// Renewal periods, notice periods and termination rights follow the term itself,
+// as in "an initial term of 12 months and shall automatically renew for ..."
+const AFTER_TERM = /renew|notice|terminat/i;
+
+function extractTermLength(sentences: Sentence[]): Extracted[] {
+  for (const sentence of sentences) {
+    // Only the wording before any renewal, notice or termination language states the term
+    const termEnd = sentence.text.search(AFTER_TERM);
+    const text = termEnd === -1 ? sentence.text : sentence.text.slice(0, termEnd);
+    const namesTerm = /\binitial term\b|\bterm of this agreement\b|["“]Term["”]/i.test(text);
+    const statesTerm = /\b(?:continue|remain in (?:full )?(?:force|effect)|(?:for )?an? (?:initial )?(?:term|period) of)\b/i.test(text);
+    const duration = findDurations(text).find((candidate) => !isNoticePeriod(text, candidate));
+    if (duration && duration.days > 0 && (namesTerm || statesTerm)) {
+      return [{
+        type: ContractTermType.TERM_LENGTH,
+        value: { days: duration.days },
+        start: sentence.start,
+        end: sentence.end,
+        confidence: namesTerm && statesTerm ? 0.85 : 0.7,
+      }];
+    }
+  }
+  return [];
+}
+
+function extractRenewal(sentences: Sentence[]): Extracted[] {
+  for (const sentence of sentences) {
+    const automatic = /\bautomatically\s+(?:be\s+)?renew|\bauto-?renew|\brenews?\s+automatically|\bsuccessive\b[^.;]{0,40}\b(?:terms?|periods?)\b/i.test(sentence.text);
+    if (!automatic && !/\brenew(?:ed|al)?\b/i.test(sentence.text)) continue;
+    // A renewal that needs the parties' agreement is a renewal term, but not an automatic one
+    if (!automatic && !/\b(?:mutual|agree|written agreement|option to renew|may renew)\b/i.test(sentence.text)) continue;
+
+    const durations = findDurations(sentence.text);
+    const notice = durations.find((duration) => isNoticePeriod(sentence.text, duration));
+    const period = durations.find((duration) => duration !== notice && !isNoticePeriod(sentence.text, duration));
+    return [{
+      type: ContractTermType.RENEWAL,
+      value: { automatic, renewalDays: period?.days ?? null, nonRenewalNoticeDays: notice?.days ?? null },
+      start: sentence.start,
+      end: sentence.end,
+      confidence: automatic ? 0.85 : 0.65,
+    }];
+  }
+  return [];
+}
+
+function extractNoticePeriods(sentences: Sentence[]): Extracted[] {
+  const seen = new Set<string>();
+  const terms: Extracted[] = [];
+  for (const sentence of sentences) {
+    if (!/\bnotice\b|\bprior to\b|\bin advance\b/i.test(sentence.text)) continue;
+    for (const duration of findDurations(sentence.text)) {
+      if (!isNoticePeriod(sentence.text, duration)) continue;
+      const purpose = NOTICE_PURPOSES.find(([pattern]) => pattern.test(sentence.text))?.[1] ?? "notice";
+      const key = `${duration.days}:${purpose}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      terms.push({
+        type: ContractTermType.NOTICE_PERIOD,
+        value: { days: duration.days, purpose },
+        start: sentence.start,
+        end: sentence.end,
+        confidence: purpose === "notice" ? 0.6 : 0.8,
+      });
+    }
+  }
+  return terms;
+}
+
+function extractGoverningLaw(sentences: Sentence[]): Extracted[] {
+  for (const sentence of sentences) {
+    const match = sentence.text.match(GOVERNING_LAW);
+    if (!match) continue;
+    const jurisdiction = match[1].replace(/\s+(?:and|without|excluding|including)$/i, "").replace(/[.,]+$/, "");
+    // "the laws of the State of [STATE]" is a blank to fill in, which the blank-field detector reports
+    const rest = sentence.text.slice(match.index! + match[0].length);
+    if (/^(?:State|Commonwealth|Province|Republic|Kingdom)$/i.test(jurisdiction) || /^\s*(?:of\s+)?\[/.test(rest)) continue;
+    return [{
+      type: ContractTermType.GOVERNING_LAW,
+      value: { jurisdiction },
+      start: sentence.start,
+      end: sentence.end,
+      confidence: /\bgovern/i.test(match[0]) ? 0.9 : 0.75,
+    }];
+  }
+  return [];
+}
+
+// Payment details are often spread over a clause, so the fee, when it is
+// billed and when invoices are due are gathered from the first payment clause
+function extractPaymentTerms(sentences: Sentence[], clauses: Clause[]): Extracted[] {
+  const payment = sentences.filter((sentence) =>
+    /\b(?:pay|payable|payment|invoice[sd]?|fees?)\b/i.test(sentence.text) && !/\bliabilit/i.test(sentence.text)
+  );
+  if (payment.length === 0) return [];
+
+  const clause = findClauseForRange(clauses, payment[0].start, payment[0].end);
+  const inClause = clause
+    ? payment.filter((sentence) => sentence.start >= clause.startOffset && sentence.end <= clause.endOffset)
+    : payment.slice(0, 1);
+
+  const value: ContractTermValues["paymentTerms"] = { dueDays: null, amount: null, currency: null, frequency: null };
+  const used: Sentence[] = [];
+  for (const sentence of inClause) {
+    let contributed = false;
+    if (value.dueDays === null) {
+      const due = findDurations(sentence.text).find((duration) =>
+        /^net\b/i.test(duration.text) || /\b(?:within|no later than|not later than)\s+$/i.test(sentence.text.slice(0, duration.index))
+      );
+      if (due) { value.dueDays = due.days; contributed = true; }
+    }
+    if (value.amount === null) {
+      const money = findMoney(sentence.text);
+      if (money) { value.amount = money.amount; value.currency = money.currency; contributed = true; }
+    }
+    if (value.frequency === null) {
+      const frequency = FREQUENCIES.find(([pattern]) => pattern.test(sentence.text))?.[1];
+      if (frequency) { value.frequency = frequency; contributed = true; }
+    }
+    if (contributed) used.push(sentence);
+  }
+  if (used.length === 0) return [];
+
+  return [{
+    type: ContractTermType.PAYMENT_TERMS,
+    value,
+    start: used[0].start,
+    end: used[used.length - 1].end,
+    confidence: value.dueDays !== null && value.amount !== null ? 0.8 : 0.65,
+  }];
+}
+
+function extractLiabilityCap(sentences: Sentence[]): Extracted[] {
+  for (const sentence of sentences) {
+    if (!/\bliabilit/i.test(sentence.text)) continue;
+    const limit = sentence.text.match(/\b(?:shall not|will not|not to|does not|may not)\s+exceed\b|\bin no event\b[^.;]*?\bexceed\b|\b(?:limited|capped)\s+(?:to|at)\b|\bin excess of\b/i);
+    if (!limit) continue;
+
+    const rest = sentence.text.slice(limit.index! + limit[0].length).replace(/^\s*(?:in (?:the )?aggregate\s+)?/i, "");
+    const money = findMoney(rest.slice(0, 80));
+    const basis = rest.replace(/[.;]\s*$/, "").trim().slice(0, 200) || null;
+    return [{
+      type: ContractTermType.LIABILITY_CAP,
+      value: { amount: money?.amount ?? null, currency: money?.currency ?? null, basis: money ? null : basis },
+      start: sentence.start,
+      end: sentence.end,
+      confidence: money ? 0.85 : 0.7,
+    }];
+  }
+  return [];
+}
+
+function extractTerminationRights(sentences: Sentence[]): Extracted[] {
+  const seen = new Set<string>();
+  const terms: Extracted[] = [];
+  for (const sentence of sentences) {
+    const match = sentence.text.match(TERMINATION_RIGHT);
+    if (!match) continue;
+
+    const party = normaliseTerminatingParty(match[1]);
+    const forConvenience = /\bfor convenience\b|\bfor any reason\b|\bwithout cause\b|\bfor no reason\b/i.test(sentence.text);
+    const forCause = /\bfor cause\b|\bbreach|\binsolven|\bbankrupt|\bdefault\b/i.test(sentence.text);
+    const notice = findDurations(sentence.text).find((duration) => isNoticePeriod(sentence.text, duration));
+    const key = `${party}:${forConvenience}:${forCause}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    terms.push({
+      type: ContractTermType.TERMINATION_RIGHT,
+      value: { party, forConvenience, forCause, noticeDays: notice?.days ?? null },
+      start: sentence.start,
+      end: sentence.end,
+      confidence: forConvenience || forCause ? 0.8 : 0.65,
+    });
+  }
+  return terms;
+}
+
+// Read the key terms of a contract from its text. Every term points at the
+// sentence it was read from; confidence reflects how directly it was stated.
+export function extractContractTerms(text: string, clauses: Clause[]): NewContractTerm[] {
+  const sentences = splitSentences(text);
+  const extracted: Extracted[] = [
+    ...extractParties(text),
+    ...extractEffectiveDate(sentences),
+    ...extractTermLength(sentences),
+    ...extractRenewal(sentences),
+    ...extractNoticePeriods(sentences),
+    ...extractGoverningLaw(sentences),
+    ...extractPaymentTerms(sentences, clauses),
+    ...extractLiabilityCap(sentences),
+    ...extractTerminationRights(sentences),
+  ];
+
+  return extracted
+    .sort((a, b) => a.start - b.start)
+    .map((term) => ({
+      type: term.type,
+      value: term.value,
+      clauseId: findClauseForRange(clauses, term.start, term.end)?.id ?? null,
+      startOffset: term.start,
+      endOffset: term.end,
+      sourceText: text.slice(term.start, term.end),
+      confidence: term.confidence,
+      source: ContractTermSource.EXTRACTED,
+    }));
+}
+
+// Extracted terms that do not conflict with what a user has entered: a
+// single-valued term a user set, or a term read from the same text as one
+// they corrected, is not extracted again
+export function withoutUserTerms(extracted: NewContractTerm[], current: ContractTerm[]): NewContractTerm[] {
+  const userTerms = current.filter((term) => term.source === ContractTermSource.USER);
+  return extracted.filter((term) => !userTerms.some((userTerm) =>
+    userTerm.type === term.type &&
+    (!MULTI_VALUED_TERM_TYPES.includes(term.type as ContractTermTypeType) || userTerm.sourceText === term.sourceText)
+  ));
+}
+
+const CSV_COLUMNS = ["Contract", "Contract type", "Term", "Value", "Confidence", "Source", "Source text"];
+
+// Values from contract text starting with =, +, - or @ would run as formulas
+// when the file is opened in a spreadsheet, so they are prefixed with '
+function csvField(value: string): string {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// Key terms across contracts as CSV, one row per term, for spreadsheets and reporting tools
+export function renderContractTermsCsv(terms: PortfolioContractTerm[]): string {
+  const rows = terms.map((term) => [
+    term.contractName,
+    term.contractType ?? "",
+    CONTRACT_TERM_LABELS[term.type as ContractTermTypeType] ?? term.type,
+    formatContractTerm(term.type as ContractTermTypeType, term.value),
+    term.confidence.toFixed(2),
+    term.source,
+    term.sourceText?.replace(/\s+/g, " ") ?? "",
+  ]);
+  return [CSV_COLUMNS, ...rows].map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,62 @@
+import { storage } from "./storage";
+import { diffTexts } from "./diff";
+import { AnalysisStatus, type Contract, type ContractVersion } from "@shared/schema";
+import { diffRiskyClauses, type DiffGranularityType, type VersionDiff } from "@shared/diff";
+
+// Contracts created before versioning have no version rows; their current
+// text becomes version 1 the first time versions are needed
+export async function ensureContractVersions(contract: Contract): Promise<ContractVersion[]> {
+  const existing = await storage.getContractVersions(contract.id);
+  if (existing.length > 0) return existing;
+
+  const file = await storage.getContractFileByContractId(contract.id);
+  const first = await storage.addContractVersion(contract.id, {
+    originalText: contract.originalText,
+    fileType: contract.fileType,
+    fileName: file?.fileName ?? null,
+    createdBy: contract.userId,
+    createdAt: contract.uploadedAt ?? new Date()
+  });
+  return [first];
+}
+
+// Latest completed analysis of one version. Runs from before versioning
+// always analysed the first text.
+async function latestAnalysisOfVersion(contractId: number, version: number) {
+  const runs = await storage.getAnalysesByContractId(contractId);
+  return runs.find((run) =>
+    run.status === AnalysisStatus.COMPLETED && (run.contractVersion ?? 1) === version
+  );
+}
+
+export async function diffContractVersions(
+  from: ContractVersion,
+  to: ContractVersion,
+  granularity: DiffGranularityType,
+): Promise<VersionDiff> {
+  const [fromAnalysis, toAnalysis] = await Promise.all([
+    latestAnalysisOfVersion(from.contractId, from.version),
+    latestAnalysisOfVersion(to.contractId, to.version),
+  ]);
+
+  let findings: VersionDiff["findings"] = null;
+  if (fromAnalysis && toAnalysis) {
+    const [before, after] = await Promise.all([
+      storage.getRiskyClausesByAnalysisId(fromAnalysis.id),
+      storage.getRiskyClausesByAnalysisId(toAnalysis.id),
+    ]);
+    findings = {
+      ...diffRiskyClauses(before, after, { acrossVersions: true }),
+      fromAnalysisId: fromAnalysis.id,
+      toAnalysisId: toAnalysis.id,
+    };
+  }
+
+  return {
+    from,
+    to,
+    granularity,
+    segments: diffTexts(from.originalText, to.originalText, granularity),
+    findings,
+  };
+}
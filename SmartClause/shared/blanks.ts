@@ -0,0 +1,15 @@
+import { BlankFieldKind, type BlankFieldKindType } from "./schema";
+
+// Undefined terms need a definition written for them, not text dropped in
+// their place, so they are reported but cannot be filled in
+export function canFillBlankField(kind: string): boolean {
+  return kind !== BlankFieldKind.UNDEFINED_TERM;
+}
+
+export const BLANK_FIELD_LABELS: Record<BlankFieldKindType, string> = {
+  [BlankFieldKind.PLACEHOLDER]: "Placeholder",
+  [BlankFieldKind.BLANK]: "Blank",
+  [BlankFieldKind.SIGNATURE]: "Signature block",
+  [BlankFieldKind.PARTY_NAME]: "Party name",
+  [BlankFieldKind.UNDEFINED_TERM]: "Undefined term",
+};
@@ -0,0 +1,21 @@
+import { ClauseKind, type Clause } from "./schema";
+
+// Human readable label for a segmented clause, e.g. "Section 6.1 — Non-compete" or "Clause 1.2(a)"
+export function describeClause(clause: Pick<Clause, "kind" | "number" | "heading" | "key">): string {
+  switch (clause.kind) {
+    case ClauseKind.ARTICLE:
+      return `Article ${clause.number}${clause.heading ? ` — ${clause.heading}` : ""}`;
+    case ClauseKind.SECTION:
+      return `Section ${clause.number}${clause.heading ? ` — ${clause.heading}` : ""}`;
+    case ClauseKind.DEFINITIONS:
+      return `${clause.number ? `${clause.number}. ` : ""}${clause.heading || "Definitions"}`;
+    case ClauseKind.SUBCLAUSE:
+      return `Clause ${clause.key}`;
+    case ClauseKind.DEFINITION:
+      return `Definition of "${clause.heading}"`;
+    case ClauseKind.SIGNATURE:
+      return "Signature block";
+    default:
+      return "Preamble";
+  }
+}
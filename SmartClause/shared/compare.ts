@@ -0,0 +1,79 @@
+// Subjects clauses are grouped under when two contracts are compared
+export const ClauseTopic = {
+  DEFINITIONS: "definitions",
+  TERM: "term",
+  TERMINATION: "termination",
+  PAYMENT: "payment",
+  LIABILITY: "liability",
+  INDEMNITY: "indemnity",
+  WARRANTIES: "warranties",
+  IP: "ip",
+  CONFIDENTIALITY: "confidentiality",
+  DATA_PROTECTION: "data-protection",
+  NON_COMPETE: "non-compete",
+  INSURANCE: "insurance",
+  FORCE_MAJEURE: "force-majeure",
+  ASSIGNMENT: "assignment",
+  GOVERNING_LAW: "governing-law",
+  DISPUTES: "disputes",
+  NOTICES: "notices",
+  OTHER: "other",
+} as const;
+
+export type ClauseTopicType = typeof ClauseTopic[keyof typeof ClauseTopic];
+
+export const CLAUSE_TOPIC_LABELS: Record<ClauseTopicType, string> = {
+  [ClauseTopic.DEFINITIONS]: "Definitions",
+  [ClauseTopic.TERM]: "Term and renewal",
+  [ClauseTopic.TERMINATION]: "Termination",
+  [ClauseTopic.PAYMENT]: "Fees and payment",
+  [ClauseTopic.LIABILITY]: "Limitation of liability",
+  [ClauseTopic.INDEMNITY]: "Indemnification",
+  [ClauseTopic.WARRANTIES]: "Warranties",
+  [ClauseTopic.IP]: "Intellectual property",
+  [ClauseTopic.CONFIDENTIALITY]: "Confidentiality",
+  [ClauseTopic.DATA_PROTECTION]: "Data protection",
+  [ClauseTopic.NON_COMPETE]: "Non-compete and non-solicitation",
+  [ClauseTopic.INSURANCE]: "Insurance",
+  [ClauseTopic.FORCE_MAJEURE]: "Force majeure",
+  [ClauseTopic.ASSIGNMENT]: "Assignment",
+  [ClauseTopic.GOVERNING_LAW]: "Governing law",
+  [ClauseTopic.DISPUTES]: "Dispute resolution",
+  [ClauseTopic.NOTICES]: "Notices",
+  [ClauseTopic.OTHER]: "Other provisions",
+};
+
+// How a clause of the base contract relates to the other contract
+export const ComparisonStatus = {
+  MATCHING: "matching",
+  DIFFERENT: "different", // same topic, materially different wording or figures
+  MISSING: "missing", // only in the base contract
+  EXTRA: "extra", // only in the other contract
+} as const;
+
+export type ComparisonStatusType = typeof ComparisonStatus[keyof typeof ComparisonStatus];
+
+export interface ComparedClause {
+  clauseId: number;
+  key: string;
+  label: string;
+  text: string; // the clause with its sub-clauses
+}
+
+export interface ClauseComparison {
+  topic: ClauseTopicType;
+  status: ComparisonStatusType;
+  similarity: number | null; // 0-1, null when one side is missing
+  base: ComparedClause | null;
+  other: ComparedClause | null;
+  // Figures (amounts, periods, percentages) that appear on only one side
+  changedFigures: string[];
+}
+
+export interface ContractComparison {
+  base: { id: number; name: string };
+  other: { id: number; name: string };
+  similarity: number; // 0-1 over the whole text
+  clauses: ClauseComparison[];
+  counts: Record<ComparisonStatusType, number>;
+}
@@ -0,0 +1,32 @@
+import { PortfolioScopeType, type Conversation, type Message, type PortfolioScope } from "./schema";
+
+// Longest title generated from a question
+const MAX_TITLE_CHARS = 60;
+
+// A conversation title from its first question, cut at a word boundary
+export function conversationTitle(question: string): string {
+  const text = question.replace(/\s+/g, " ").trim().replace(/\?+$/, "");
+  if (text.length <= MAX_TITLE_CHARS) return text || "New conversation";
+  const cut = text.slice(0, MAX_TITLE_CHARS);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > MAX_TITLE_CHARS / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s,;:.]+$/, "")}…`;
+}
+
+// The title shown for a conversation; older ones without a title use their first question
+export function displayConversationTitle(conversation: Pick<Conversation, "title" | "messages">): string {
+  if (conversation.title) return conversation.title;
+  const firstQuestion = (conversation.messages as Message[]).find((message) => message.role === "user");
+  return firstQuestion ? conversationTitle(firstQuestion.content) : "New conversation";
+}
+
+// Short description of the contracts a portfolio conversation covers
+export function describePortfolioScope(scope: PortfolioScope): string {
+  switch (scope.type) {
+    case PortfolioScopeType.ALL:
+      return "All contracts";
+    case PortfolioScopeType.TAG:
+      return `Contracts tagged "${scope.tag}"`;
+    case PortfolioScopeType.SELECTION:
+      return `${scope.contractIds.length} selected contract${scope.contractIds.length === 1 ? "" : "s"}`;
+  }
+}
@@ -0,0 +1,64 @@
+import type { ContractVersion, RiskyClause } from "./schema";
+
+// How finely two texts are compared: sentence diffs read better for heavily
+// reworked drafts, word diffs show small edits inside a sentence
+export const DiffGranularity = {
+  WORD: "word",
+  SENTENCE: "sentence",
+} as const;
+
+export type DiffGranularityType = typeof DiffGranularity[keyof typeof DiffGranularity];
+
+// A run of text that both versions share, or that only one of them has
+export interface DiffSegment {
+  type: "equal" | "insert" | "delete";
+  text: string;
+}
+
+export interface FindingChanges<T = RiskyClause> {
+  added: T[];
+  removed: T[];
+  changed: { before: T; after: T }[];
+}
+
+export interface VersionDiff {
+  from: ContractVersion;
+  to: ContractVersion;
+  granularity: DiffGranularityType;
+  segments: DiffSegment[];
+  // Findings of the latest analysis of each version; null unless both were analysed
+  findings: (FindingChanges & { fromAnalysisId: number; toAnalysisId: number }) | null;
+}
+
+const normalise = (text: string) => text.toLowerCase().replace(/\s+/g, " ").trim();
+
+// Findings are matched by the rule that raised them (or, for AI findings, their
+// wording). Runs of the same text also match on position; across versions the
+// clauses move, so position is left out and a reworded rule finding counts as changed.
+export function diffRiskyClauses(
+  before: RiskyClause[],
+  after: RiskyClause[],
+  { acrossVersions = false }: { acrossVersions?: boolean } = {},
+): FindingChanges {
+  const findingKey = (clause: RiskyClause) =>
+    acrossVersions
+      ? clause.ruleId ?? normalise(clause.clauseText)
+      : `${clause.ruleId ?? normalise(clause.clauseText)}|${clause.clauseIndex}`;
+
+  const beforeByKey = new Map(before.map((clause) => [findingKey(clause), clause]));
+  const afterByKey = new Map(after.map((clause) => [findingKey(clause), clause]));
+
+  return {
+    added: after.filter((clause) => !beforeByKey.has(findingKey(clause))),
+    removed: before.filter((clause) => !afterByKey.has(findingKey(clause))),
+    changed: after
+      .filter((clause) => {
+        const previous = beforeByKey.get(findingKey(clause));
+        return previous && (
+          previous.riskLevel !== clause.riskLevel ||
+          (acrossVersions && normalise(previous.clauseText) !== normalise(clause.clauseText))
+        );
+      })
+      .map((clause) => ({ before: beforeByKey.get(findingKey(clause))!, after: clause })),
+  };
+}
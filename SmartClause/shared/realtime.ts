@@ -0,0 +1,23 @@
+import type { Citation, Conversation, Job } from "./schema";
+
+// Path of the WebSocket endpoint; Vite's HMR socket shares the HTTP server in development
+export const REALTIME_PATH = "/ws";
+
+// Events pushed from the server to every open socket of the user they concern
+export type RealtimeEvent =
+  // A background job was queued, progressed, completed or failed
+  | { type: "job.updated"; job: Job }
+  // A contract was created, edited, re-scored or deleted
+  | { type: "contracts.changed"; contractId: number }
+  // A piece of a Q&A answer as the AI provider generates it. streamId is
+  // chosen by the client when it asks the question.
+  | { type: "qa.token"; streamId: string; token: string };
+
+// Server-Sent Events of a streamed conversation answer, in order: tokens as
+// they are generated, the answer's citations, then the saved conversation and
+// the id of the answer in it. An error ends the stream instead of done.
+export type AnswerStreamEvent =
+  | { type: "token"; token: string }
+  | { type: "citations"; citations: Citation[] }
+  | { type: "done"; messageId: string; conversation: Conversation }
+  | { type: "error"; message: string };
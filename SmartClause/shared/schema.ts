@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, real, customType, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -24,6 +24,18 @@ export const RiskLevel = {
 
 export type RiskLevelType = typeof RiskLevel[keyof typeof RiskLevel];
 
+// Areas of risk that playbook rules and findings are grouped under
+export const RiskCategory = {
+  LIABILITY: "liability",
+  IP: "ip",
+  TERMINATION: "termination",
+  PAYMENT: "payment",
+  CONFIDENTIALITY: "confidentiality",
+  COMPLIANCE: "compliance",
+} as const;
+
+export type RiskCategoryType = typeof RiskCategory[keyof typeof RiskCategory];
+
 // Contracts table
 export const contracts = pgTable("contracts", {
   id: serial("id").primaryKey(),
@@ -32,50 +44,377 @@ export const contracts = pgTable("contracts", {
   fileType: text("file_type").notNull(), // pdf, docx
   originalText: text("original_text").notNull(),
   contractType: text("contract_type"), // e.g., NDA, Service Agreement, etc.
-  riskScore: text("risk_score").notNull(), // low, medium, high
+  riskScore: integer("risk_score"), // 0-100 composite from the latest analysis, null until analysed
+  riskLevel: text("risk_level"), // low, medium, high, derived from riskScore
+  currentVersion: integer("current_version").notNull().default(1), // version whose text is originalText
+  tags: jsonb("tags").$type<string[]>().notNull().default([]), // e.g. "vendor", used to scope portfolio Q&A
+  uploadedAt: timestamp("uploaded_at").defaultNow(),
+});
+
+// Every text a contract has had during negotiation. The contract row mirrors the latest one.
+export const contractVersions = pgTable("contract_versions", {
+  id: serial("id").primaryKey(),
+  contractId: integer("contract_id").notNull(),
+  version: integer("version").notNull(), // 1, 2, 3... per contract, assigned by storage
+  originalText: text("original_text").notNull(),
+  fileType: text("file_type").notNull(),
+  fileName: text("file_name"), // uploaded file the text came from, if any
+  note: text("note"), // e.g. "Counterparty markup, round 2"
+  createdBy: integer("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  contractVersion: unique().on(table.contractId, table.version),
+}));
+
+// Postgres bytea column for storing uploaded files
+const bytea = customType<{ data: Buffer; driverData: Buffer }>({
+  dataType() {
+    return "bytea";
+  },
+});
+
+// Original uploaded files, kept alongside the extracted contract text
+export const contractFiles = pgTable("contract_files", {
+  id: serial("id").primaryKey(),
+  contractId: integer("contract_id").notNull(),
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  data: bytea("data").notNull(),
+  structure: jsonb("structure").notNull(), // Page count and paragraph offsets from extraction
+  version: integer("version").notNull().default(1), // contract version the file was uploaded as
   uploadedAt: timestamp("uploaded_at").defaultNow(),
 });
 
-// Analysis table
+// Structural kinds produced by the clause segmenter
+export const ClauseKind = {
+  PREAMBLE: "preamble",
+  ARTICLE: "article",
+  SECTION: "section",
+  SUBCLAUSE: "subclause",
+  DEFINITIONS: "definitions",
+  DEFINITION: "definition",
+  SIGNATURE: "signature",
+} as const;
+
+export type ClauseKindType = typeof ClauseKind[keyof typeof ClauseKind];
+
+// Segmented clauses of a contract, forming a tree through parentKey
+export const clauses = pgTable("clauses", {
+  id: serial("id").primaryKey(),
+  contractId: integer("contract_id").notNull(),
+  key: text("key").notNull(), // stable path within the contract, e.g. "1.2(a)" or "art-4"
+  parentKey: text("parent_key"),
+  kind: text("kind").notNull(),
+  number: text("number"), // label as written, e.g. "1.2", "(a)", "IV"
+  heading: text("heading"),
+  text: text("text").notNull(), // the clause's own text, excluding sub-clauses
+  startOffset: integer("start_offset").notNull(), // span in originalText, including sub-clauses
+  endOffset: integer("end_offset").notNull(),
+  depth: integer("depth").notNull(),
+  position: integer("position").notNull(), // document order
+});
+
+// Lifecycle of an analysis run
+export const AnalysisStatus = {
+  PENDING: "pending",
+  RUNNING: "running",
+  COMPLETED: "completed",
+  FAILED: "failed",
+} as const;
+
+export type AnalysisStatusType = typeof AnalysisStatus[keyof typeof AnalysisStatus];
+
+// Analysis table. Each run of the analyzer on a contract is a new, numbered version.
 export const analyses = pgTable("analyses", {
   id: serial("id").primaryKey(),
   contractId: integer("contract_id").notNull(),
   summary: jsonb("summary").notNull(), // Array of key points
   riskyClauseIndices: jsonb("risky_clause_indices"), // Array of indices of risky clauses
   fullAnalysis: jsonb("full_analysis").notNull(), // Complete analysis from GPT-4
-});
+  playbookVersionId: integer("playbook_version_id"), // playbook version whose rules produced the findings
+  riskScore: integer("risk_score"), // 0-100 composite of the risky clause findings
+  riskLevel: text("risk_level"), // low, medium, high, derived from riskScore and the configured thresholds
+  scoreBreakdown: jsonb("score_breakdown"), // ScoreBreakdown: per-category sub-scores
+  version: integer("version").notNull(), // 1, 2, 3... per contract, assigned by storage
+  contractVersion: integer("contract_version"), // contract version that was analysed; null for older runs
+  status: text("status").notNull().default(AnalysisStatus.COMPLETED),
+  engine: text("engine"), // rules engine identifier, e.g. "playbook-rules/1"
+  provider: text("provider"), // AI provider and model that wrote the summary
+  model: text("model"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  contractVersion: unique().on(table.contractId, table.version),
+}));
+
+// Where a reviewer stands on a risky clause's suggestion
+export const ReviewStatus = {
+  OPEN: "open",
+  ACCEPTED: "accepted",
+  REJECTED: "rejected",
+  EDITED: "edited",
+  DEFERRED: "deferred",
+} as const;
+
+export type ReviewStatusType = typeof ReviewStatus[keyof typeof ReviewStatus];
 
 // Risky Clauses table
 export const riskyClauses = pgTable("risky_clauses", {
   id: serial("id").primaryKey(),
   analysisId: integer("analysis_id").notNull(),
-  clauseIndex: integer("clause_index").notNull(),
+  clauseIndex: integer("clause_index").notNull(), // position of the matching segmented clause
+  clauseId: integer("clause_id"), // segmented clause containing the risky text, when located
+  startOffset: integer("start_offset"), // location of clauseText in the contract, when located
+  endOffset: integer("end_offset"),
   clauseText: text("clause_text").notNull(),
   riskLevel: text("risk_level").notNull(), // low, medium, high
   explanation: text("explanation").notNull(),
   suggestion: text("suggestion"), // AI suggestion for safer alternative
+  source: text("source").notNull().default("ai"), // "rule" or "ai"
+  ruleId: text("rule_id"), // playbook rule that flagged the clause
+  category: text("category"), // one of RiskCategory
+  reviewStatus: text("review_status").notNull().default("open"), // one of ReviewStatus
+  editedSuggestion: text("edited_suggestion"), // reviewer's wording when the status is "edited"
+  reviewedBy: integer("reviewed_by"), // user who last changed the review status
+  reviewedAt: timestamp("reviewed_at"),
+});
+
+// Unfinished drafting an analysis found, reported apart from risky clauses
+export const BlankFieldKind = {
+  PLACEHOLDER: "placeholder", // [DATE], [CLIENT NAME], TBD
+  BLANK: "blank", // an underscored gap in the body
+  SIGNATURE: "signature", // an unsigned line of a signature block
+  PARTY_NAME: "partyName", // a party named differently from where it is defined
+  UNDEFINED_TERM: "undefinedTerm", // a capitalised term used but never defined
+} as const;
+
+export type BlankFieldKindType = typeof BlankFieldKind[keyof typeof BlankFieldKind];
+
+// Blank fields table
+export const blankFields = pgTable("blank_fields", {
+  id: serial("id").primaryKey(),
+  analysisId: integer("analysis_id").notNull(),
+  kind: text("kind").notNull(), // one of BlankFieldKind
+  clauseId: integer("clause_id"), // segmented clause containing the text, when inside one
+  startOffset: integer("start_offset").notNull(), // location of text in the analysed contract version
+  endOffset: integer("end_offset").notNull(),
+  text: text("text").notNull(),
+  explanation: text("explanation").notNull(),
+  suggestion: text("suggestion"), // proposed fill, e.g. the party's defined name
+  filledWith: text("filled_with"), // text the user filled the field in with
+  filledBy: integer("filled_by"),
+  filledAt: timestamp("filled_at"),
+});
+
+// Key terms extracted from a contract into typed values
+export const ContractTermType = {
+  PARTY: "party",
+  EFFECTIVE_DATE: "effectiveDate",
+  TERM_LENGTH: "termLength",
+  RENEWAL: "renewal",
+  NOTICE_PERIOD: "noticePeriod",
+  GOVERNING_LAW: "governingLaw",
+  PAYMENT_TERMS: "paymentTerms",
+  LIABILITY_CAP: "liabilityCap",
+  TERMINATION_RIGHT: "terminationRight",
+} as const;
+
+export type ContractTermTypeType = typeof ContractTermType[keyof typeof ContractTermType];
+
+// Where a key term's value came from. Terms a user entered or corrected are
+// kept when the contract is analysed again.
+export const ContractTermSource = {
+  EXTRACTED: "extracted",
+  USER: "user",
+} as const;
+
+export type ContractTermSourceType = typeof ContractTermSource[keyof typeof ContractTermSource];
+
+// Contract terms table: the current key terms of each contract
+export const contractTerms = pgTable("contract_terms", {
+  id: serial("id").primaryKey(),
+  contractId: integer("contract_id").notNull(),
+  analysisId: integer("analysis_id"), // analysis that extracted the term; null when a user added it
+  type: text("type").notNull(), // one of ContractTermType
+  value: jsonb("value").$type<ContractTermValue>().notNull(), // shape depends on type, see contractTermValueSchemas
+  clauseId: integer("clause_id"), // segmented clause the term was read from
+  startOffset: integer("start_offset"), // location of sourceText in the contract, when known
+  endOffset: integer("end_offset"),
+  sourceText: text("source_text"),
+  confidence: real("confidence").notNull(), // 0-1; 1 for terms a user entered
+  source: text("source").notNull().default(ContractTermSource.EXTRACTED), // one of ContractTermSource
+  editedBy: integer("edited_by"),
+  editedAt: timestamp("edited_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Playbooks: named, versioned sets of risk rules. Built-in playbooks have no owner.
+export const playbooks = pgTable("playbooks", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id"),
+  name: text("name").notNull(),
+  description: text("description"),
+  currentVersion: integer("current_version").notNull().default(1),
+  archived: boolean("archived").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Every edit to a playbook's rules is kept as an immutable version
+export const playbookVersions = pgTable("playbook_versions", {
+  id: serial("id").primaryKey(),
+  playbookId: integer("playbook_id").notNull(),
+  version: integer("version").notNull(),
+  rules: jsonb("rules").notNull(), // Array of PlaybookRule
+  notes: text("notes"),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
-// Saved Clauses table
+// Saved Clauses table: the user's clause library
 export const savedClauses = pgTable("saved_clauses", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
+  title: text("title").notNull().default(""), // the default only covers clauses saved before titles existed
   clauseType: text("clause_type").notNull(), // e.g., NDA, Payment Terms, etc.
   tone: text("tone").notNull(), // formal, friendly, aggressive, neutral
   content: text("content").notNull(),
+  folder: text("folder"), // slash-separated path, e.g. "Commercial/Payment"
+  tags: jsonb("tags").$type<string[]>().notNull().default([]),
+  jurisdiction: text("jurisdiction"),
+  notes: text("notes"),
+  currentVersion: integer("current_version").notNull().default(1),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Every edit to a saved clause is kept as a snapshot, so earlier wording can be restored
+export const savedClauseVersions = pgTable("saved_clause_versions", {
+  id: serial("id").primaryKey(),
+  savedClauseId: integer("saved_clause_id").notNull(),
+  version: integer("version").notNull(),
+  title: text("title").notNull(),
+  clauseType: text("clause_type").notNull(),
+  tone: text("tone").notNull(),
+  content: text("content").notNull(),
+  folder: text("folder"),
+  tags: jsonb("tags").$type<string[]>().notNull().default([]),
+  jurisdiction: text("jurisdiction"),
+  notes: text("notes"),
+  changeNote: text("change_note"), // e.g. "Restored version 2"
+  createdBy: integer("created_by"),
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  clauseVersion: unique().on(table.savedClauseId, table.version),
+}));
+
+// Contract templates: ordered clause slots whose text holds [PLACEHOLDER] variables.
+// Built-in templates have no owner.
+export const contractTemplates = pgTable("contract_templates", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id"),
+  name: text("name").notNull(),
+  description: text("description"),
+  contractType: text("contract_type"), // given to contracts assembled from the template
+  variables: jsonb("variables").$type<TemplateVariable[]>().notNull().default([]),
+  slots: jsonb("slots").$type<TemplateSlot[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Which contracts a portfolio conversation asks about: all of the user's,
+// those with a tag, or a hand-picked selection
+export const PortfolioScopeType = {
+  ALL: "all",
+  TAG: "tag",
+  SELECTION: "selection",
+} as const;
+
+export const portfolioScopeSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal(PortfolioScopeType.ALL) }),
+  z.object({ type: z.literal(PortfolioScopeType.TAG), tag: z.string().trim().min(1).max(50) }),
+  z.object({
+    type: z.literal(PortfolioScopeType.SELECTION),
+    contractIds: z.array(z.number().int().positive()).min(1).max(100),
+  }),
+]);
+
+export type PortfolioScope = z.infer<typeof portfolioScopeSchema>;
+
+// Longest document accepted for an ad-hoc conversation
+export const MAX_AD_HOC_DOCUMENT_CHARS = 500_000;
+
+// Text asked about without saving it as a contract: a pasted snippet or the
+// extracted text of a file uploaded on the Q&A page
+export const adHocDocumentSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  fileType: z.string().default("txt"),
+  text: z.string().trim().min(1, 'Paste or upload the text to ask about').max(MAX_AD_HOC_DOCUMENT_CHARS),
+});
+
+export type AdHocDocument = z.infer<typeof adHocDocumentSchema>;
+
 // Conversations table for Q&A history
 export const conversations = pgTable("conversations", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
-  contractId: integer("contract_id").notNull(),
+  contractId: integer("contract_id"), // null for portfolio and ad-hoc conversations
+  scope: jsonb("scope").$type<PortfolioScope>(), // contracts a portfolio conversation asks about
+  document: jsonb("document").$type<AdHocDocument>(), // text an ad-hoc conversation asks about
+  title: text("title"), // from the first question unless the user renamed it
+  pinned: boolean("pinned").notNull().default(false), // pinned conversations are listed first
   messages: jsonb("messages").notNull(), // Array of message objects
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Background job lifecycle. Failed attempts go back to queued until maxAttempts is reached.
+export const JobStatus = {
+  QUEUED: "queued",
+  RUNNING: "running",
+  COMPLETED: "completed",
+  FAILED: "failed",
+} as const;
+
+export type JobStatusType = typeof JobStatus[keyof typeof JobStatus];
+
+export const JobType = {
+  ANALYZE_CONTRACT: "analyze-contract",
+} as const;
+
+export type JobTypeType = typeof JobType[keyof typeof JobType];
+
+// Progress stages of an analyze-contract job, in the order they run
+export const AnalysisStage = {
+  EXTRACTING: "extracting",
+  SEGMENTING: "segmenting",
+  SCORING: "scoring",
+  SUMMARISING: "summarising",
+} as const;
+
+export type AnalysisStageType = typeof AnalysisStage[keyof typeof AnalysisStage];
+
+// Queue of background jobs, claimed by the worker loop in server/jobs.ts
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(), // one of JobType
+  userId: integer("user_id").notNull(), // user who requested the job
+  contractId: integer("contract_id"), // contract the job works on, if any
+  payload: jsonb("payload").notNull(),
+  status: text("status").notNull().default(JobStatus.QUEUED),
+  stage: text("stage"), // current progress stage, e.g. one of AnalysisStage
+  progress: integer("progress").notNull().default(0), // 0-100
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAt: timestamp("run_at").notNull().defaultNow(), // not claimed before this time (retry backoff)
+  lockedAt: timestamp("locked_at"), // when the current attempt was claimed
+  result: jsonb("result"), // handler output, e.g. { analysisId }
+  error: text("error"), // message of the last failed attempt
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
 // Schema for inserting a new user
 export const insertUserSchema = createInsertSchema(users).pick({
   email: true,
@@ -86,14 +425,82 @@ export const insertUserSchema = createInsertSchema(users).pick({
   planType: true,
 });
 
+// Profile fields a user may change on their own account
+export const updateUserSchema = insertUserSchema.pick({
+  firstName: true,
+  lastName: true,
+  company: true,
+}).partial();
+
 // Schema for inserting a new contract
+// Tags are trimmed and de-duplicated case-insensitively, keeping the first spelling
+const tagsSchema = z.array(z.string().trim().min(1).max(50)).max(20).transform((tags) =>
+  tags.filter((tag, index) => tags.findIndex((other) => other.toLowerCase() === tag.toLowerCase()) === index)
+);
+
 export const insertContractSchema = createInsertSchema(contracts).pick({
   userId: true,
   name: true,
   fileType: true,
   originalText: true,
   contractType: true,
-  riskScore: true,
+});
+
+// Fields a user may change on an existing contract
+export const updateContractSchema = insertContractSchema.pick({
+  name: true,
+  contractType: true,
+  originalText: true,
+}).extend({
+  tags: tagsSchema,
+}).partial().refine((data) => Object.keys(data).length > 0, { message: 'Nothing to update' });
+
+// Where a clause added to a contract goes
+export const ClausePlacement = {
+  AFTER: "after", // after the target section, renumbering the sections that follow
+  REPLACE: "replace", // in place of the target section, keeping its number
+  APPEND: "append", // after the last section, before any signature block
+} as const;
+
+export type ClausePlacementType = typeof ClausePlacement[keyof typeof ClausePlacement];
+
+// Request body for adding a clause, e.g. a generated one, to a contract
+export const addContractClauseSchema = z.object({
+  content: z.string().trim().min(1),
+  heading: z.string().trim().max(120).optional(),
+  placement: z.enum([ClausePlacement.AFTER, ClausePlacement.REPLACE, ClausePlacement.APPEND]),
+  clauseKey: z.string().optional(), // key of the target section for "after" and "replace"
+  playbookId: z.number().int().positive().optional(), // defaults to the playbook of the latest analysis
+}).refine(({ placement, clauseKey }) => placement === ClausePlacement.APPEND || !!clauseKey, {
+  message: 'A target clause is required',
+  path: ['clauseKey'],
+});
+
+// Schema for inserting an uploaded contract file
+export const insertContractFileSchema = createInsertSchema(contractFiles).pick({
+  contractId: true,
+  fileName: true,
+  mimeType: true,
+  size: true,
+  data: true,
+  structure: true,
+  version: true,
+});
+
+// Schema for adding a contract version; the version number is assigned by storage
+export const insertContractVersionSchema = createInsertSchema(contractVersions).pick({
+  contractId: true,
+  originalText: true,
+  fileType: true,
+  fileName: true,
+  note: true,
+  createdBy: true,
+  createdAt: true,
+});
+
+// Schema for inserting a segmented clause
+export const insertClauseSchema = createInsertSchema(clauses).omit({
+  id: true,
 });
 
 // Schema for inserting a new analysis
@@ -102,33 +509,255 @@ export const insertAnalysisSchema = createInsertSchema(analyses).pick({
   summary: true,
   riskyClauseIndices: true,
   fullAnalysis: true,
+  playbookVersionId: true,
+  riskScore: true,
+  riskLevel: true,
+  scoreBreakdown: true,
+  contractVersion: true,
+  status: true,
+  engine: true,
+  provider: true,
+  model: true,
 });
 
 // Schema for inserting a new risky clause
 export const insertRiskyClauseSchema = createInsertSchema(riskyClauses).pick({
   analysisId: true,
   clauseIndex: true,
+  clauseId: true,
+  startOffset: true,
+  endOffset: true,
   clauseText: true,
   riskLevel: true,
   explanation: true,
   suggestion: true,
+  source: true,
+  ruleId: true,
+  category: true,
+});
+
+// A reviewer's decision on a risky clause. Editing needs the new wording.
+export const reviewRiskyClauseSchema = z.object({
+  status: z.enum([
+    ReviewStatus.OPEN,
+    ReviewStatus.ACCEPTED,
+    ReviewStatus.REJECTED,
+    ReviewStatus.EDITED,
+    ReviewStatus.DEFERRED,
+  ]),
+  editedSuggestion: z.string().trim().min(1).optional(),
+}).refine((data) => data.status !== ReviewStatus.EDITED || !!data.editedSuggestion, {
+  message: 'Edited suggestion text is required',
+  path: ['editedSuggestion'],
+});
+
+// Schema for inserting a blank field
+export const insertBlankFieldSchema = createInsertSchema(blankFields).pick({
+  analysisId: true,
+  kind: true,
+  clauseId: true,
+  startOffset: true,
+  endOffset: true,
+  text: true,
+  explanation: true,
+  suggestion: true,
+});
+
+// Schema for inserting a contract term; its value is checked against its type separately
+export const insertContractTermSchema = createInsertSchema(contractTerms, {
+  value: z.record(z.unknown()),
+}).pick({
+  contractId: true,
+  analysisId: true,
+  type: true,
+  value: true,
+  clauseId: true,
+  startOffset: true,
+  endOffset: true,
+  sourceText: true,
+  confidence: true,
+  source: true,
+  editedBy: true,
+  editedAt: true,
+});
+
+// Text to fill an analysis's blank fields in with, in one new contract version
+export const fillBlankFieldsSchema = z.object({
+  fills: z.array(z.object({
+    blankFieldId: z.number().int().positive(),
+    value: z.string().trim().min(1, 'Enter the text to fill in'),
+  })).min(1),
+});
+
+// Schema for inserting a playbook
+export const insertPlaybookSchema = createInsertSchema(playbooks).pick({
+  userId: true,
+  name: true,
+  description: true,
+});
+
+// Schema for inserting a playbook version
+export const insertPlaybookVersionSchema = createInsertSchema(playbookVersions).pick({
+  playbookId: true,
+  version: true,
+  rules: true,
+  notes: true,
+  createdBy: true,
 });
 
 // Schema for inserting a saved clause
-export const insertSavedClauseSchema = createInsertSchema(savedClauses).pick({
+export const insertSavedClauseSchema = createInsertSchema(savedClauses, {
+  tags: z.array(z.string()).optional(),
+}).pick({
   userId: true,
+  title: true,
   clauseType: true,
   tone: true,
   content: true,
+  folder: true,
+  tags: true,
+  jurisdiction: true,
+  notes: true,
+});
+
+// Kinds of answer a template variable takes in the questionnaire
+export const TemplateVariableKind = {
+  TEXT: "text",
+  DATE: "date",
+  AMOUNT: "amount",
+  NUMBER: "number",
+  CHOICE: "choice",
+  YES_NO: "yesNo",
+} as const;
+
+export type TemplateVariableKindType = typeof TemplateVariableKind[keyof typeof TemplateVariableKind];
+
+// A variable is written in template text as its name in brackets, e.g. [CLIENT NAME]
+export const templateVariableSchema = z.object({
+  name: z.string().trim().regex(/^[A-Z0-9][A-Z0-9 _'-]*$/, "Variable names are written in capitals, as in [CLIENT NAME]"),
+  label: z.string().trim().min(1),
+  kind: z.enum([
+    TemplateVariableKind.TEXT, TemplateVariableKind.DATE, TemplateVariableKind.AMOUNT,
+    TemplateVariableKind.NUMBER, TemplateVariableKind.CHOICE, TemplateVariableKind.YES_NO,
+  ]),
+  required: z.boolean().default(true),
+  options: z.array(z.string().trim().min(1)).optional(), // answers offered for a choice
+  help: z.string().trim().optional(),
+});
+
+// A slot is only included when the answer to a variable is (or is not) a given value
+export const templateConditionSchema = z.union([
+  z.object({ variable: z.string(), equals: z.union([z.string(), z.boolean()]) }),
+  z.object({ variable: z.string(), notEquals: z.union([z.string(), z.boolean()]) }),
+]);
+
+// One clause of a template: a clause from the user's library or text of its own
+export const templateSlotSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, "Slot ids may only contain lowercase letters, digits and dashes"),
+  title: z.string().trim().min(1),
+  savedClauseId: z.number().int().positive().optional(),
+  content: z.string().trim().min(1).optional(),
+  condition: templateConditionSchema.optional(),
+  numbered: z.boolean().default(true), // false for the preamble and signature block
+}).refine((slot) => (slot.savedClauseId === undefined) !== (slot.content === undefined), {
+  message: "A slot needs either a saved clause or its own content",
+});
+
+// Schema for inserting a contract template
+export const insertContractTemplateSchema = createInsertSchema(contractTemplates, {
+  variables: z.array(templateVariableSchema),
+  slots: z.array(templateSlotSchema),
+}).pick({
+  userId: true,
+  name: true,
+  description: true,
+  contractType: true,
+  variables: true,
+  slots: true,
+});
+
+// Folder paths are stored without empty segments or surrounding slashes
+const folderSchema = z.string().transform((folder) =>
+  folder.split('/').map((segment) => segment.trim()).filter(Boolean).join('/') || null
+);
+
+const optionalText = z.string().trim().transform((value) => value || null);
+
+// Request body for adding a clause to the library
+export const createSavedClauseSchema = z.object({
+  title: z.string().trim().min(1),
+  clauseType: z.string().trim().min(1),
+  tone: z.string().trim().min(1),
+  content: z.string().trim().min(1),
+  folder: folderSchema.nullable().optional(),
+  tags: tagsSchema.optional(),
+  jurisdiction: optionalText.nullable().optional(),
+  notes: optionalText.nullable().optional(),
+});
+
+// Request body for editing a library clause; each change records a new version
+export const updateSavedClauseSchema = createSavedClauseSchema.extend({
+  changeNote: z.string().trim().max(200).optional(),
+}).partial().refine(
+  ({ changeNote, ...data }) => Object.keys(data).length > 0,
+  { message: 'Nothing to update' }
+);
+
+// Conversation messages as sent by the client; they match the Message and Citation types
+const citationSchema = z.object({
+  number: z.number().int().positive(),
+  clauseId: z.number().int().nullable(),
+  label: z.string(),
+  startOffset: z.number().int().nonnegative(),
+  endOffset: z.number().int().nonnegative(),
+  snippet: z.string(),
+  contractId: z.number().int().positive().optional(),
+  contractName: z.string().optional(),
+});
+
+export const messageSchema = z.object({
+  id: z.string().min(1),
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+  timestamp: z.string(),
+  citations: z.array(citationSchema).optional(),
+  stopped: z.boolean().optional(),
 });
 
 // Schema for inserting a new conversation
-export const insertConversationSchema = createInsertSchema(conversations).pick({
+export const insertConversationSchema = createInsertSchema(conversations, {
+  scope: portfolioScopeSchema.nullable().optional(),
+  document: adHocDocumentSchema.nullable().optional(),
+  messages: z.array(messageSchema),
+}).pick({
   userId: true,
   contractId: true,
+  scope: true,
+  document: true,
+  title: true,
   messages: true,
 });
 
+// Request body for renaming or pinning a conversation
+export const updateConversationSchema = z.object({
+  title: z.string().trim().min(1).max(120),
+  pinned: z.boolean(),
+}).partial().refine((data) => Object.keys(data).length > 0, { message: 'Nothing to update' });
+
+// Request body for asking the next question of a conversation
+export const conversationQuestionSchema = z.object({
+  question: z.string().trim().min(1),
+});
+
+// Schema for enqueueing a job
+export const insertJobSchema = createInsertSchema(jobs).pick({
+  type: true,
+  userId: true,
+  contractId: true,
+  payload: true,
+  maxAttempts: true,
+});
+
 // Export types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
@@ -136,17 +765,95 @@ export type User = typeof users.$inferSelect;
 export type InsertContract = z.infer<typeof insertContractSchema>;
 export type Contract = typeof contracts.$inferSelect;
 
+export type InsertContractFile = z.infer<typeof insertContractFileSchema>;
+export type ContractFile = typeof contractFiles.$inferSelect;
+
+export type InsertContractVersion = z.infer<typeof insertContractVersionSchema>;
+export type ContractVersion = typeof contractVersions.$inferSelect;
+export type AddContractClause = z.infer<typeof addContractClauseSchema>;
+
+// Where an added clause ended up in the new text, and the sections renumbered to make room
+export interface ClauseInsertion {
+  number: string | null;
+  startOffset: number;
+  endOffset: number;
+  renumbered: { from: string; to: string }[];
+}
+
+export type InsertClause = z.infer<typeof insertClauseSchema>;
+export type Clause = typeof clauses.$inferSelect;
+
 export type InsertAnalysis = z.infer<typeof insertAnalysisSchema>;
 export type Analysis = typeof analyses.$inferSelect;
 
 export type InsertRiskyClause = z.infer<typeof insertRiskyClauseSchema>;
 export type RiskyClause = typeof riskyClauses.$inferSelect;
+export type ReviewRiskyClause = z.infer<typeof reviewRiskyClauseSchema>;
+
+export type InsertContractTerm = z.infer<typeof insertContractTermSchema>;
+export type ContractTerm = typeof contractTerms.$inferSelect;
+export type ContractTermValues = { [K in ContractTermTypeType]: z.infer<typeof contractTermValueSchemas[K]> };
+export type ContractTermValue = ContractTermValues[ContractTermTypeType];
+export type ContractTermInput = z.infer<typeof contractTermInputSchema>;
+
+// A key term with the contract it belongs to, for reports across contracts
+export interface PortfolioContractTerm extends ContractTerm {
+  contractName: string;
+  contractType: string | null;
+}
+
+export type InsertBlankField = z.infer<typeof insertBlankFieldSchema>;
+export type BlankField = typeof blankFields.$inferSelect;
+export type FillBlankFields = z.infer<typeof fillBlankFieldsSchema>;
+
+// Contract text with the accepted and edited suggestions of an analysis applied
+export interface RevisedText {
+  text: string;
+  applied: number[]; // risky clause ids whose suggestion was applied
+  unplaced: number[]; // accepted suggestions whose passage could not be found
+}
+
+export type InsertPlaybook = z.infer<typeof insertPlaybookSchema>;
+export type Playbook = typeof playbooks.$inferSelect;
+
+export type InsertPlaybookVersion = z.infer<typeof insertPlaybookVersionSchema>;
+export type PlaybookVersion = typeof playbookVersions.$inferSelect;
 
 export type InsertSavedClause = z.infer<typeof insertSavedClauseSchema>;
 export type SavedClause = typeof savedClauses.$inferSelect;
+export type CreateSavedClause = z.infer<typeof createSavedClauseSchema>;
+export type UpdateSavedClause = z.infer<typeof updateSavedClauseSchema>;
+export type SavedClauseVersion = typeof savedClauseVersions.$inferSelect;
+
+export type InsertContractTemplate = z.infer<typeof insertContractTemplateSchema>;
+export type ContractTemplate = typeof contractTemplates.$inferSelect;
+export type TemplateVariable = z.infer<typeof templateVariableSchema>;
+export type TemplateCondition = z.infer<typeof templateConditionSchema>;
+export type TemplateSlot = z.infer<typeof templateSlotSchema>;
+export type CreateContractTemplate = z.infer<typeof createContractTemplateSchema>;
+export type TemplateAnswers = z.infer<typeof templateAnswersSchema>;
+export type AssembleContract = z.infer<typeof assembleContractSchema>;
 
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
 export type Conversation = typeof conversations.$inferSelect;
+export type UpdateConversation = z.infer<typeof updateConversationSchema>;
+
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type Job = typeof jobs.$inferSelect;
+
+// A passage of the contract an answer relies on. `number` is the marker
+// used in the answer text, e.g. [2].
+export interface Citation {
+  number: number;
+  clauseId: number | null;
+  label: string; // e.g. "Section 8.1 — Termination for Convenience"
+  startOffset: number; // span of the snippet in the contract text
+  endOffset: number;
+  snippet: string;
+  // The contract cited, in portfolio answers that draw on several
+  contractId?: number;
+  contractName?: string;
+}
 
 // Message type for conversations
 export type Message = {
@@ -154,4 +861,368 @@ export type Message = {
   role: 'user' | 'assistant';
   content: string;
   timestamp: string;
+  citations?: Citation[]; // assistant answers only
+  stopped?: boolean; // the user stopped the answer before it was complete
+};
+
+// Text extraction error codes returned by the upload endpoint
+export const ExtractionErrorCode = {
+  ENCRYPTED_PDF: "encrypted_pdf",
+  IMAGE_ONLY_PDF: "image_only_pdf",
+  CORRUPT_PDF: "corrupt_pdf",
+  CORRUPT_DOCX: "corrupt_docx",
+  CORRUPT_RTF: "corrupt_rtf",
+  EMPTY_DOCUMENT: "empty_document",
+  UNSUPPORTED_TYPE: "unsupported_type",
+} as const;
+
+export type ExtractionErrorCodeType = typeof ExtractionErrorCode[keyof typeof ExtractionErrorCode];
+
+// Paragraph boundaries (character offsets into originalText) and the PDF page they came from
+export type ExtractedParagraph = {
+  page: number | null;
+  start: number;
+  end: number;
+};
+
+export type DocumentStructure = {
+  pageCount: number | null;
+  paragraphs: ExtractedParagraph[];
+};
+
+// Longest regular expression a rule condition may use
+export const MAX_RULE_PATTERN_LENGTH = 300;
+
+const rulePatternSchema = z.string().min(1).max(MAX_RULE_PATTERN_LENGTH);
+
+// A single test a playbook rule applies to a clause. All of a rule's
+// conditions must hold for the clause to be flagged.
+export const ruleConditionSchema = z.discriminatedUnion("type", [
+  // Clause text matches a regular expression
+  z.object({
+    type: z.literal("regex"),
+    pattern: rulePatternSchema,
+    flags: z.string().regex(/^[imsu]*$/).refine((flags) => new Set(flags).size === flags.length, "Flags may not repeat").optional(),
+  }),
+  // Clause text contains any (or all) of the keywords, case-insensitively
+  z.object({
+    type: z.literal("keywords"),
+    keywords: z.array(z.string().min(1)).min(1),
+    mode: z.enum(["any", "all"]).default("any"),
+  }),
+  // Pattern does not appear in the clause (or anywhere in the contract)
+  z.object({
+    type: z.literal("absent"),
+    pattern: rulePatternSchema,
+    scope: z.enum(["clause", "contract"]).default("clause"),
+  }),
+  // Clause is one of the given segment kinds
+  z.object({
+    type: z.literal("clauseKind"),
+    kinds: z.array(z.enum([
+      ClauseKind.PREAMBLE, ClauseKind.ARTICLE, ClauseKind.SECTION, ClauseKind.SUBCLAUSE,
+      ClauseKind.DEFINITIONS, ClauseKind.DEFINITION, ClauseKind.SIGNATURE,
+    ])).min(1),
+  }),
+  // The clause's heading, or the heading of any enclosing clause, matches
+  z.object({
+    type: z.literal("heading"),
+    pattern: rulePatternSchema,
+  }),
+  // A period stated in the clause ("five (5) years", "net 60") compares to a threshold
+  z.object({
+    type: z.literal("duration"),
+    operator: z.enum(["gt", "gte", "lt", "lte"]),
+    value: z.number().nonnegative(),
+    unit: z.enum(["days", "months", "years"]),
+  }),
+]);
+
+// Compiled with the same flags the risk engine uses, since a pattern can be
+// valid without "u" and invalid with it
+const compiles = (pattern: string, flags?: string) => {
+  try {
+    new RegExp(pattern, flags);
+    return true;
+  } catch {
+    return false;
+  }
 };
+
+const conditionFlags = (condition: RuleCondition) => condition.type === "regex" ? condition.flags : "i";
+
+// Whether a pattern repeats a group that itself contains a repeat, as in (a+)+
+// or (\w*\s)*. Such patterns can backtrack for minutes on text that almost
+// matches, and rules run against whole contracts on the shared job worker.
+export function hasNestedQuantifier(pattern: string): boolean {
+  const groupRepeats: boolean[] = []; // for each open group, whether it contains a repeat
+  let closedGroupRepeats = false; // the group closed by the previous character contains a repeat
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const afterRepeatingGroup = closedGroupRepeats;
+    closedGroupRepeats = false;
+
+    if (char === "\\") {
+      i++;
+    } else if (char === "[") {
+      // Skip the character class; a "]" straight after "[" or "[^" is a literal
+      i += pattern[i + 1] === "^" ? 2 : 1;
+      if (pattern[i] === "]") i++;
+      while (i < pattern.length && pattern[i] !== "]") i += pattern[i] === "\\" ? 2 : 1;
+    } else if (char === "(") {
+      groupRepeats.push(false);
+    } else if (char === ")") {
+      closedGroupRepeats = groupRepeats.pop() ?? false;
+      if (closedGroupRepeats && groupRepeats.length > 0) groupRepeats[groupRepeats.length - 1] = true;
+    } else if (char === "*" || char === "+" || (char === "{" && /^\{\d+(?:,\d*)?\}/.test(pattern.slice(i)))) {
+      if (afterRepeatingGroup) return true;
+      if (groupRepeats.length > 0) groupRepeats[groupRepeats.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+// What the first character matched by an alternative can be: a literal
+// character, a \d, \w or \s class, anything (when it is hard to tell) or
+// nothing for an empty alternative
+type FirstChar = { char: string } | { shorthand: string } | "any" | null;
+
+function firstCharOf(alternative: string): FirstChar {
+  if (!alternative) return null;
+  let first: FirstChar;
+  let length = 1;
+  if (alternative[0] === "\\") {
+    const escaped = alternative[1] ?? "";
+    length = 2;
+    if (/[dws]/.test(escaped)) first = { shorthand: escaped };
+    else if (/[a-zA-Z0-9]/.test(escaped)) first = "any";
+    else first = { char: escaped };
+  } else if (/[[(.^$]/.test(alternative[0])) {
+    first = "any";
+  } else {
+    first = { char: alternative[0].toLowerCase() };
+  }
+  // An optional first atom lets the alternative start with whatever follows it
+  return /^(?:[?*]|\{0[,}])/.test(alternative.slice(length)) ? "any" : first;
+}
+
+function firstCharsOverlap(a: FirstChar, b: FirstChar): boolean {
+  if (a === null || b === null) return false;
+  if (a === "any" || b === "any") return true;
+  if ("char" in a && "char" in b) return a.char === b.char;
+  if ("char" in a || "char" in b) {
+    const [literal, shorthand] = "char" in a ? [a, b as { shorthand: string }] : [b as { char: string }, a];
+    return new RegExp(`\\${shorthand.shorthand}`, "i").test(literal.char);
+  }
+  // \w covers \d; \s shares nothing with either
+  return a.shorthand === b.shorthand || (a.shorthand !== "s" && b.shorthand !== "s");
+}
+
+// Whether a pattern repeats a group whose alternatives can start with the same
+// character, as in (a|ab)* or (\w|_)+. Each character can then be matched by
+// more than one alternative, which backtracks as badly as a nested repeat.
+export function hasOverlappingAlternation(pattern: string): boolean {
+  // For each open group, where its content starts and where its top-level "|"s are
+  const groups: { start: number; bars: number[] }[] = [];
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "\\") {
+      i++;
+    } else if (char === "[") {
+      i += pattern[i + 1] === "^" ? 2 : 1;
+      if (pattern[i] === "]") i++;
+      while (i < pattern.length && pattern[i] !== "]") i += pattern[i] === "\\" ? 2 : 1;
+    } else if (char === "(") {
+      // Skip the "?:" or "?<name>" that opens a non-capturing or named group
+      const prefix = /^\(\?(?::|<[^=!>][^>]*>|[=!]|<[=!])?/.exec(pattern.slice(i))?.[0] ?? "(";
+      groups.push({ start: i + prefix.length, bars: [] });
+    } else if (char === "|") {
+      groups[groups.length - 1]?.bars.push(i);
+    } else if (char === ")") {
+      const group = groups.pop();
+      const repeated = /^(?:[*+]|\{\d+(?:,\d*)?\})/.test(pattern.slice(i + 1));
+      if (!group || !repeated || group.bars.length === 0) continue;
+      const bounds = [group.start - 1, ...group.bars, i];
+      const firsts = bounds.slice(1).map((end, index) => firstCharOf(pattern.slice(bounds[index] + 1, end)));
+      for (let a = 0; a < firsts.length; a++) {
+        for (let b = a + 1; b < firsts.length; b++) {
+          if (firstCharsOverlap(firsts[a], firsts[b])) return true;
+        }
+      }
+    }
+  }
+  return false;
+}
+
+export const playbookRuleSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, "Rule ids may only contain lowercase letters, digits and dashes"),
+  name: z.string().min(1),
+  category: z.enum([
+    RiskCategory.LIABILITY, RiskCategory.IP, RiskCategory.TERMINATION,
+    RiskCategory.PAYMENT, RiskCategory.CONFIDENTIALITY, RiskCategory.COMPLIANCE,
+  ]),
+  riskLevel: z.enum([RiskLevel.LOW, RiskLevel.MEDIUM, RiskLevel.HIGH]),
+  explanation: z.string().min(1),
+  suggestion: z.string().nullable().default(null),
+  conditions: z.array(ruleConditionSchema).min(1),
+  enabled: z.boolean().default(true),
+});
+
+export const playbookRulesSchema = z.array(playbookRuleSchema).superRefine((rules, ctx) => {
+  const ids = new Set<string>();
+  rules.forEach((rule, index) => {
+    if (ids.has(rule.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, "id"], message: `Duplicate rule id "${rule.id}"` });
+    }
+    ids.add(rule.id);
+
+    rule.conditions.forEach((condition, conditionIndex) => {
+      if ("pattern" in condition && !compiles(condition.pattern, conditionFlags(condition))) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, "conditions", conditionIndex, "pattern"],
+          message: "Invalid regular expression",
+        });
+      } else if ("pattern" in condition && hasNestedQuantifier(condition.pattern)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, "conditions", conditionIndex, "pattern"],
+          message: "Repeating a group that itself repeats, as in (a+)+, can make matching hang; rewrite the pattern",
+        });
+      } else if ("pattern" in condition && hasOverlappingAlternation(condition.pattern)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, "conditions", conditionIndex, "pattern"],
+          message: "Repeating a group whose alternatives can match the same text, as in (a|ab)*, can make matching hang; rewrite the pattern",
+        });
+      }
+    });
+  });
+});
+
+export type RuleCondition = z.infer<typeof ruleConditionSchema>;
+export type PlaybookRule = z.infer<typeof playbookRuleSchema>;
+
+// Request bodies for creating and editing playbooks
+export const createPlaybookSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().nullable().optional(),
+  rules: playbookRulesSchema,
+  notes: z.string().optional(),
+});
+
+export const updatePlaybookSchema = createPlaybookSchema.partial();
+
+// Request bodies for creating and editing contract templates
+const contractTemplateFields = z.object({
+  name: z.string().trim().min(1),
+  description: z.string().trim().nullable().optional(),
+  contractType: z.string().trim().nullable().optional(),
+  variables: z.array(templateVariableSchema),
+  slots: z.array(templateSlotSchema).min(1),
+});
+
+export const createContractTemplateSchema = contractTemplateFields.superRefine((template, ctx) => {
+  const names = new Set<string>();
+  template.variables.forEach((variable, index) => {
+    if (names.has(variable.name)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["variables", index, "name"], message: `Duplicate variable [${variable.name}]` });
+    }
+    names.add(variable.name);
+    if (variable.kind === TemplateVariableKind.CHOICE && !variable.options?.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["variables", index, "options"], message: "A choice needs options" });
+    }
+  });
+
+  const ids = new Set<string>();
+  template.slots.forEach((slot, index) => {
+    if (ids.has(slot.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["slots", index, "id"], message: `Duplicate slot id "${slot.id}"` });
+    }
+    ids.add(slot.id);
+    if (slot.condition && !names.has(slot.condition.variable)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["slots", index, "condition", "variable"],
+        message: `Unknown variable [${slot.condition.variable}]`,
+      });
+    }
+  });
+});
+
+// Edits are merged into the stored template and checked as a whole
+export const updateContractTemplateSchema = contractTemplateFields.partial();
+
+// Questionnaire answers keyed by variable name
+export const templateAnswersSchema = z.record(z.union([z.string(), z.number(), z.boolean()]));
+
+export const assembleContractSchema = z.object({
+  name: z.string().trim().min(1),
+  answers: templateAnswersSchema.default({}),
+});
+
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+const daysSchema = z.number().int().nonnegative();
+const currencySchema = z.string().trim().toUpperCase().length(3, "Use a three-letter currency code");
+
+// The value of each type of key term. Periods are in days.
+export const contractTermValueSchemas = {
+  [ContractTermType.PARTY]: z.object({
+    name: z.string().trim().min(1),
+    role: z.string().trim().nullable(), // the party's defined label, e.g. "Client"
+  }),
+  [ContractTermType.EFFECTIVE_DATE]: z.object({
+    date: isoDateSchema.nullable(),
+    description: z.string().trim().nullable(), // when there is no fixed date, e.g. "date of last signature"
+  }),
+  [ContractTermType.TERM_LENGTH]: z.object({
+    days: daysSchema,
+  }),
+  [ContractTermType.RENEWAL]: z.object({
+    automatic: z.boolean(),
+    renewalDays: daysSchema.nullable(),
+    nonRenewalNoticeDays: daysSchema.nullable(),
+  }),
+  [ContractTermType.NOTICE_PERIOD]: z.object({
+    days: daysSchema,
+    purpose: z.string().trim().min(1), // what the notice is for, e.g. "termination"
+  }),
+  [ContractTermType.GOVERNING_LAW]: z.object({
+    jurisdiction: z.string().trim().min(1),
+  }),
+  [ContractTermType.PAYMENT_TERMS]: z.object({
+    dueDays: daysSchema.nullable(),
+    amount: z.number().nonnegative().nullable(),
+    currency: currencySchema.nullable(),
+    frequency: z.string().trim().nullable(),
+  }),
+  [ContractTermType.LIABILITY_CAP]: z.object({
+    amount: z.number().nonnegative().nullable(),
+    currency: currencySchema.nullable(),
+    basis: z.string().trim().nullable(), // a cap stated as a formula, e.g. "fees paid in the prior 12 months"
+  }),
+  [ContractTermType.TERMINATION_RIGHT]: z.object({
+    party: z.string().trim().min(1),
+    forConvenience: z.boolean(),
+    forCause: z.boolean(),
+    noticeDays: daysSchema.nullable(),
+  }),
+} as const;
+
+// A key term a user adds to a contract
+export const contractTermInputSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal(ContractTermType.PARTY), value: contractTermValueSchemas.party }),
+  z.object({ type: z.literal(ContractTermType.EFFECTIVE_DATE), value: contractTermValueSchemas.effectiveDate }),
+  z.object({ type: z.literal(ContractTermType.TERM_LENGTH), value: contractTermValueSchemas.termLength }),
+  z.object({ type: z.literal(ContractTermType.RENEWAL), value: contractTermValueSchemas.renewal }),
+  z.object({ type: z.literal(ContractTermType.NOTICE_PERIOD), value: contractTermValueSchemas.noticePeriod }),
+  z.object({ type: z.literal(ContractTermType.GOVERNING_LAW), value: contractTermValueSchemas.governingLaw }),
+  z.object({ type: z.literal(ContractTermType.PAYMENT_TERMS), value: contractTermValueSchemas.paymentTerms }),
+  z.object({ type: z.literal(ContractTermType.LIABILITY_CAP), value: contractTermValueSchemas.liabilityCap }),
+  z.object({ type: z.literal(ContractTermType.TERMINATION_RIGHT), value: contractTermValueSchemas.terminationRight }),
+]);
+
+// A correction to a term's value; it is checked against the term's type by the route
+export const updateContractTermSchema = z.object({
+  value: z.record(z.unknown()),
+});
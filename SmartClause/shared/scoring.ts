@@ -0,0 +1,36 @@
+import { RiskLevel, RiskCategory, type RiskLevelType, type RiskCategoryType } from "./schema";
+
+// Composite scores at or above these values are rated medium / high risk
+export interface RiskThresholds {
+  medium: number;
+  high: number;
+}
+
+export const DEFAULT_RISK_THRESHOLDS: RiskThresholds = { medium: 20, high: 50 };
+
+export interface CategoryScore {
+  score: number; // 0-100
+  findings: number;
+}
+
+// Stored on analyses.scoreBreakdown
+export interface ScoreBreakdown {
+  categories: Record<RiskCategoryType, CategoryScore>;
+  uncategorised: CategoryScore;
+  thresholds: RiskThresholds;
+}
+
+export const RISK_CATEGORY_LABELS: Record<RiskCategoryType, string> = {
+  [RiskCategory.LIABILITY]: "Liability",
+  [RiskCategory.IP]: "Intellectual property",
+  [RiskCategory.TERMINATION]: "Termination",
+  [RiskCategory.PAYMENT]: "Payment",
+  [RiskCategory.CONFIDENTIALITY]: "Confidentiality",
+  [RiskCategory.COMPLIANCE]: "Compliance",
+};
+
+export function riskLevelForScore(score: number, thresholds: RiskThresholds = DEFAULT_RISK_THRESHOLDS): RiskLevelType {
+  if (score >= thresholds.high) return RiskLevel.HIGH;
+  if (score >= thresholds.medium) return RiskLevel.MEDIUM;
+  return RiskLevel.LOW;
+}
@@ -0,0 +1,23 @@
+import { type TemplateAnswers, type TemplateSlot } from "./schema";
+
+// Placeholders as written in template and contract text, e.g. [CLIENT NAME]
+export const PLACEHOLDER_PATTERN = /\[([A-Z0-9][A-Z0-9 _'-]*)\]/g;
+
+// Distinct placeholder names in a text, in order of first appearance
+export function findPlaceholderNames(text: string): string[] {
+  const names = Array.from(text.matchAll(PLACEHOLDER_PATTERN), (match) => match[1]);
+  return Array.from(new Set(names));
+}
+
+// Whether a slot belongs in a contract assembled from these answers. Yes/no
+// answers compare as booleans, everything else as text.
+export function slotApplies(slot: Pick<TemplateSlot, "condition">, answers: TemplateAnswers): boolean {
+  const condition = slot.condition;
+  if (!condition) return true;
+
+  const answer = answers[condition.variable];
+  const expected = "equals" in condition ? condition.equals : condition.notEquals;
+  const matches = answer !== undefined && answer !== "" &&
+    (typeof expected === "boolean" ? answer === expected : String(answer) === expected);
+  return "equals" in condition ? matches : !matches;
+}
@@ -0,0 +1,141 @@
+import { ContractTermType, type ContractTermTypeType, type ContractTermValues } from "./schema";
+
+export const CONTRACT_TERM_LABELS: Record<ContractTermTypeType, string> = {
+  [ContractTermType.PARTY]: "Party",
+  [ContractTermType.EFFECTIVE_DATE]: "Effective date",
+  [ContractTermType.TERM_LENGTH]: "Term length",
+  [ContractTermType.RENEWAL]: "Renewal",
+  [ContractTermType.NOTICE_PERIOD]: "Notice period",
+  [ContractTermType.GOVERNING_LAW]: "Governing law",
+  [ContractTermType.PAYMENT_TERMS]: "Payment terms",
+  [ContractTermType.LIABILITY_CAP]: "Liability cap",
+  [ContractTermType.TERMINATION_RIGHT]: "Termination right",
+};
+
+// Display order of the term types
+export const CONTRACT_TERM_TYPES = Object.keys(CONTRACT_TERM_LABELS) as ContractTermTypeType[];
+
+// A contract can have several of these; of the other types it has one
+export const MULTI_VALUED_TERM_TYPES: ContractTermTypeType[] = [
+  ContractTermType.PARTY,
+  ContractTermType.NOTICE_PERIOD,
+  ContractTermType.TERMINATION_RIGHT,
+];
+
+export interface ContractTermField {
+  key: string;
+  label: string;
+  kind: "text" | "number" | "days" | "date" | "boolean";
+  // Whether the field can be left empty (null)
+  optional?: boolean;
+}
+
+// The editable fields of each term type, matching contractTermValueSchemas
+export const CONTRACT_TERM_FIELDS: Record<ContractTermTypeType, ContractTermField[]> = {
+  [ContractTermType.PARTY]: [
+    { key: "name", label: "Name", kind: "text" },
+    { key: "role", label: "Defined as", kind: "text", optional: true },
+  ],
+  [ContractTermType.EFFECTIVE_DATE]: [
+    { key: "date", label: "Date", kind: "date", optional: true },
+    { key: "description", label: "Or described as", kind: "text", optional: true },
+  ],
+  [ContractTermType.TERM_LENGTH]: [
+    { key: "days", label: "Length (days)", kind: "days" },
+  ],
+  [ContractTermType.RENEWAL]: [
+    { key: "automatic", label: "Renews automatically", kind: "boolean" },
+    { key: "renewalDays", label: "Renewal period (days)", kind: "days", optional: true },
+    { key: "nonRenewalNoticeDays", label: "Notice to stop renewal (days)", kind: "days", optional: true },
+  ],
+  [ContractTermType.NOTICE_PERIOD]: [
+    { key: "days", label: "Notice (days)", kind: "days" },
+    { key: "purpose", label: "Notice of", kind: "text" },
+  ],
+  [ContractTermType.GOVERNING_LAW]: [
+    { key: "jurisdiction", label: "Jurisdiction", kind: "text" },
+  ],
+  [ContractTermType.PAYMENT_TERMS]: [
+    { key: "dueDays", label: "Due within (days)", kind: "days", optional: true },
+    { key: "amount", label: "Amount", kind: "number", optional: true },
+    { key: "currency", label: "Currency", kind: "text", optional: true },
+    { key: "frequency", label: "Billed", kind: "text", optional: true },
+  ],
+  [ContractTermType.LIABILITY_CAP]: [
+    { key: "amount", label: "Amount", kind: "number", optional: true },
+    { key: "currency", label: "Currency", kind: "text", optional: true },
+    { key: "basis", label: "Or calculated as", kind: "text", optional: true },
+  ],
+  [ContractTermType.TERMINATION_RIGHT]: [
+    { key: "party", label: "Who may terminate", kind: "text" },
+    { key: "forConvenience", label: "For convenience", kind: "boolean" },
+    { key: "forCause", label: "For cause", kind: "boolean" },
+    { key: "noticeDays", label: "Notice (days)", kind: "days", optional: true },
+  ],
+};
+
+// Periods are stored in days; whole years read as years, since extraction counts a year as 365 days
+export function formatDays(days: number): string {
+  const plural = (amount: number, unit: string) => `${amount} ${unit}${amount === 1 ? "" : "s"}`;
+  return days > 0 && days % 365 === 0 ? plural(days / 365, "year") : plural(days, "day");
+}
+
+function formatMoney(amount: number | null, currency: string | null): string | null {
+  if (amount === null) return null;
+  return currency
+    ? new Intl.NumberFormat("en-US", { style: "currency", currency, minimumFractionDigits: 0 }).format(amount)
+    : amount.toLocaleString("en-US");
+}
+
+// One line describing a term's value, for tables and exports
+export function formatContractTerm<T extends ContractTermTypeType>(type: T, value: ContractTermValues[T]): string {
+  const values = value as ContractTermValues[ContractTermTypeType];
+  switch (type) {
+    case ContractTermType.PARTY: {
+      const party = values as ContractTermValues["party"];
+      return party.role ? `${party.name} (${party.role})` : party.name;
+    }
+    case ContractTermType.EFFECTIVE_DATE: {
+      const effective = values as ContractTermValues["effectiveDate"];
+      return effective.date ?? effective.description ?? "Not stated";
+    }
+    case ContractTermType.TERM_LENGTH:
+      return formatDays((values as ContractTermValues["termLength"]).days);
+    case ContractTermType.RENEWAL: {
+      const renewal = values as ContractTermValues["renewal"];
+      return [
+        renewal.automatic ? "Automatic" : "By agreement",
+        renewal.renewalDays !== null && `for ${formatDays(renewal.renewalDays)}`,
+        renewal.nonRenewalNoticeDays !== null && `unless ${formatDays(renewal.nonRenewalNoticeDays)} notice is given`,
+      ].filter(Boolean).join(", ");
+    }
+    case ContractTermType.NOTICE_PERIOD: {
+      const notice = values as ContractTermValues["noticePeriod"];
+      return `${formatDays(notice.days)} for ${notice.purpose}`;
+    }
+    case ContractTermType.GOVERNING_LAW:
+      return (values as ContractTermValues["governingLaw"]).jurisdiction;
+    case ContractTermType.PAYMENT_TERMS: {
+      const payment = values as ContractTermValues["paymentTerms"];
+      return [
+        formatMoney(payment.amount, payment.currency),
+        payment.frequency,
+        payment.dueDays !== null && `due within ${formatDays(payment.dueDays)}`,
+      ].filter(Boolean).join(", ") || "Not stated";
+    }
+    case ContractTermType.LIABILITY_CAP: {
+      const cap = values as ContractTermValues["liabilityCap"];
+      return formatMoney(cap.amount, cap.currency) ?? cap.basis ?? "Not stated";
+    }
+    case ContractTermType.TERMINATION_RIGHT: {
+      const right = values as ContractTermValues["terminationRight"];
+      const grounds = [right.forConvenience && "for convenience", right.forCause && "for cause"].filter(Boolean).join(" or ");
+      return [
+        `${right.party}${grounds ? `, ${grounds}` : ""}`,
+        right.noticeDays !== null && `on ${formatDays(right.noticeDays)} notice`,
+      ].filter(Boolean).join(", ");
+    }
+    default:
+      return JSON.stringify(value);
+  }
+}